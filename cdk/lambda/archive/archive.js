@@ -148,6 +148,7 @@ async function archiveMonthData(clientId, yearMonth, items) {
         date: item.date,
         focus: item.focus,
         time: item.time,
+        media: item.media || 0,
         lastModified: item.lastModified,
         sessionId: item.sessionId,
         archivedAt: Date.now()
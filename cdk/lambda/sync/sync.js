@@ -1,5 +1,5 @@
 const { DynamoDBClient } = require('@aws-sdk/client-dynamodb');
-const { DynamoDBDocumentClient, PutCommand, QueryCommand, UpdateCommand, GetCommand } = require('@aws-sdk/lib-dynamodb');
+const { DynamoDBDocumentClient, PutCommand, QueryCommand, UpdateCommand, GetCommand, DeleteCommand } = require('@aws-sdk/lib-dynamodb');
 const { S3Client, GetObjectCommand, PutObjectCommand } = require('@aws-sdk/client-s3');
 const { EventBridgeClient, PutEventsCommand } = require('@aws-sdk/client-eventbridge');
 const {
@@ -42,6 +42,20 @@ exports.handler = async (event) => {
       response = await handleDownload(event);
     } else if (httpMethod === 'PUT' && path.includes('/data')) {
       response = await handleUpdate(event);
+    } else if (httpMethod === 'DELETE' && path.includes('/data')) {
+      response = await handleClear(event);
+    } else if (httpMethod === 'GET' && path.includes('/aggregate')) {
+      response = await handleAggregate(event);
+    } else if (httpMethod === 'GET' && path.includes('/archive')) {
+      response = await handleArchive(event);
+    } else if (httpMethod === 'POST' && path.includes('/archive')) {
+      response = await handleRehydrate(event);
+    } else if (httpMethod === 'GET' && path.includes('/crypto')) {
+      response = await handleGetCryptoMeta();
+    } else if (httpMethod === 'PUT' && path.includes('/crypto')) {
+      response = await handlePutCryptoMeta(event);
+    } else if (httpMethod === 'PUT' && path.includes('/clients')) {
+      response = await handlePutClients(event);
     } else {
       response = {
         statusCode: 404,
@@ -142,7 +156,7 @@ async function handleUpload(event) {
  * Process individual row with conflict resolution
  */
 async function processRow(clientId, row, batchId) {
-  const { host, date, focus, time, sessionId, lastModified } = row;
+  const { host, date, focus, time, media, sessionId, lastModified } = row;
   const pk = generatePK(clientId, host, date);
   const now = Date.now();
 
@@ -164,6 +178,7 @@ async function processRow(clientId, row, batchId) {
         date,
         focus: focus || 0,
         time: time || 0,
+        media: media || 0,
         sessionId,
         lastModified: lastModified || now,
         batchId
@@ -181,6 +196,7 @@ async function processRow(clientId, row, batchId) {
         date,
         focus: focus || 0,
         time: time || 0,
+        media: media || 0,
         sessionId,
         lastModified: lastModified || now,
         batchId,
@@ -234,6 +250,7 @@ async function resolveConflict(existing, incoming) {
         ...existing,
         focus: existing.focus + incoming.focus,
         time: existing.time + incoming.time,
+        media: (existing.media || 0) + incoming.media,
         lastModified: Math.max(existing.lastModified, incoming.lastModified),
         version: existing.version + 1,
         ttl: generateTTL(7)
@@ -264,6 +281,7 @@ async function resolveConflict(existing, incoming) {
         sessionId: incoming.sessionId,
         focus: Math.max(existing.focus, incoming.focus),
         time: Math.max(existing.time, incoming.time),
+        media: Math.max(existing.media || 0, incoming.media),
         lastModified: incoming.lastModified,
         version: existing.version + 1,
         ttl: generateTTL(7),
@@ -321,6 +339,7 @@ async function archiveToS3(clientId, data) {
       date: data.date,
       focus: data.focus,
       time: data.time,
+      media: data.media || 0,
       lastModified: data.lastModified,
       sessionId: data.sessionId
     };
@@ -347,30 +366,18 @@ async function archiveToS3(clientId, data) {
   }
 }
 
+const CLIENTS_META_KEY = 'meta/clients.json';
+
 /**
- * Handle client list request
+ * Handle client list request, the clients saved by the extension with their names, date ranges and whether retired
  */
 async function handleListClients(event) {
   try {
-    // Query all unique clients from hot data
-    const clients = new Map();
-
-    // Scan the ClientIndex GSI to get all clients
-    const response = await dynamoClient.send(new QueryCommand({
-      TableName: HOT_DATA_TABLE,
-      IndexName: 'ClientIndex',
-      KeyConditionExpression: 'clientId = :clientId',
-      ExpressionAttributeValues: {
-        ':clientId': 'all' // This won't work - need to fix this approach
-      }
-    }));
-
-    // TODO: Implement proper client listing logic
-    // For now, return mock data
+    const clients = await readClients();
     return {
       statusCode: 200,
       body: JSON.stringify({
-        clients: []
+        clients
       })
     };
   } catch (error) {
@@ -382,6 +389,115 @@ async function handleListClients(event) {
   }
 }
 
+/**
+ * Saved clients, empty if never saved
+ */
+async function readClients() {
+  try {
+    const response = await s3Client.send(new GetObjectCommand({
+      Bucket: DATA_BUCKET,
+      Key: CLIENTS_META_KEY
+    }));
+    return JSON.parse(await streamToString(response.Body));
+  } catch (error) {
+    if (error.name === 'NoSuchKey') return [];
+    throw error;
+  }
+}
+
+/**
+ * Handle saving the clients { clients: [{ id, name, minDate?, maxDate?, retired? }] }, replacing the saved ones
+ *
+ * Names are encrypted by the extension if end-to-end encryption enabled
+ */
+async function handlePutClients(event) {
+  const { clients } = JSON.parse(event.body || '{}');
+  if (!Array.isArray(clients) || clients.some(c => !c?.id || typeof c.id !== 'string')) {
+    return { statusCode: 400, body: JSON.stringify({ error: 'Clients array required' }) };
+  }
+
+  try {
+    const data = clients.map(({ id, name, minDate, maxDate, retired }) => ({ id, name, minDate, maxDate, retired: retired || undefined }));
+    await s3Client.send(new PutObjectCommand({
+      Bucket: DATA_BUCKET,
+      Key: CLIENTS_META_KEY,
+      Body: JSON.stringify(data),
+      ContentType: 'application/json'
+    }));
+    return { statusCode: 200, body: JSON.stringify({ success: true, clients: data }) };
+  } catch (error) {
+    console.error('Put clients error:', error);
+    return { statusCode: 500, body: JSON.stringify({ error: error.message }) };
+  }
+}
+
+/**
+ * Handle clearing all the data of the client, both the hot records and the archives in S3
+ *
+ * Query parameters:
+ * - clientId: the client to clear, the requesting one if absent
+ */
+async function handleClear(event) {
+  const { ListObjectsV2Command, DeleteObjectsCommand } = require('@aws-sdk/client-s3');
+  const clientId = event.queryStringParameters?.clientId || event.headers['X-Client-Id'];
+  if (!clientId) {
+    return { statusCode: 400, body: JSON.stringify({ error: 'Client ID required' }) };
+  }
+
+  try {
+    let count = 0;
+    let lastEvaluatedKey;
+    do {
+      const response = await dynamoClient.send(new QueryCommand({
+        TableName: HOT_DATA_TABLE,
+        IndexName: 'ClientIndex',
+        KeyConditionExpression: 'clientId = :clientId',
+        ExpressionAttributeValues: {
+          ':clientId': clientId
+        },
+        ExclusiveStartKey: lastEvaluatedKey
+      }));
+      for (const { PK, SK } of response.Items) {
+        await dynamoClient.send(new DeleteCommand({
+          TableName: HOT_DATA_TABLE,
+          Key: { PK, SK }
+        }));
+        count++;
+      }
+      lastEvaluatedKey = response.LastEvaluatedKey;
+    } while (lastEvaluatedKey);
+
+    let continuationToken;
+    do {
+      const listResponse = await s3Client.send(new ListObjectsV2Command({
+        Bucket: DATA_BUCKET,
+        Prefix: `clients/${clientId}/`,
+        ContinuationToken: continuationToken
+      }));
+      const objects = listResponse.Contents?.map(({ Key }) => ({ Key })) || [];
+      if (objects.length) {
+        // At most 1000 keys listed once, the limit of deleting
+        await s3Client.send(new DeleteObjectsCommand({
+          Bucket: DATA_BUCKET,
+          Delete: { Objects: objects }
+        }));
+        count += objects.length;
+      }
+      continuationToken = listResponse.NextContinuationToken;
+    } while (continuationToken);
+
+    await sendUpdateNotification([clientId], {
+      type: 'data-updated',
+      clientId,
+      updatedRows: count
+    });
+    return { statusCode: 200, body: JSON.stringify({ success: true, count }) };
+  } catch (error) {
+    console.error('Clear error:', error);
+    return { statusCode: 500, body: JSON.stringify({ error: error.message }) };
+  }
+}
+
 /**
  * Handle data download request
  */
@@ -480,17 +596,15 @@ async function downloadHotData(clientId, startDate, endDate) {
   const startDateStr = formatDate(startDate);
   const endDateStr = formatDate(endDate);
 
-  // Query by date range using DateIndex
+  // Filter by the dates of rows, which may be modified long after the dates
   let lastEvaluatedKey;
   do {
     const response = await dynamoClient.send(new QueryCommand({
       TableName: HOT_DATA_TABLE,
       IndexName: 'ClientIndex',
-      KeyConditionExpression: 'clientId = :clientId AND lastModified BETWEEN :start AND :end',
+      KeyConditionExpression: 'clientId = :clientId',
       ExpressionAttributeValues: {
-        ':clientId': clientId,
-        ':start': startDate.getTime(),
-        ':end': endDate.getTime()
+        ':clientId': clientId
       },
       ExclusiveStartKey: lastEvaluatedKey
     }));
@@ -508,7 +622,8 @@ async function downloadHotData(clientId, startDate, endDate) {
     host: item.host,
     date: item.date,
     focus: item.focus,
-    time: item.time
+    time: item.time,
+    media: item.media || 0
   }));
 }
 
@@ -549,6 +664,7 @@ async function downloadColdData(clientId, startDate, endDate) {
             date: record.date,
             focus: record.focus,
             time: record.time,
+            media: record.media || 0,
             clientId: clientId
           });
         }
@@ -599,6 +715,7 @@ async function downloadAllHotData(startDate, endDate) {
     date: item.date,
     focus: item.focus,
     time: item.time,
+    media: item.media || 0,
     clientId: item.clientId
   }));
 }
@@ -640,6 +757,7 @@ async function downloadAllColdData(startDate, endDate) {
               date: record.date,
               focus: record.focus,
               time: record.time,
+              media: record.media || 0,
               clientId: clientId
             });
           }
@@ -656,15 +774,469 @@ async function downloadAllColdData(startDate, endDate) {
   return result;
 }
 
+/**
+ * Groups supported by aggregation, at most one of date, week and month
+ */
+const AGGREGATE_GROUPS = ['host', 'date', 'week', 'month'];
+
+/**
+ * Handle aggregation request, totals of each client grouped by host and/or period
+ *
+ * Query parameters:
+ * - startDate, endDate: YYYYMMDD
+ * - clientIds: comma-separated, all clients if absent
+ * - groupBy: comma-separated groups, host by default
+ */
+async function handleAggregate(event) {
+  const params = event.queryStringParameters || {};
+  const { startDate, endDate } = params;
+  const dateReg = /^\d{8}$/;
+  if (!dateReg.test(startDate || '') || !dateReg.test(endDate || '') || startDate > endDate) {
+    return { statusCode: 400, body: JSON.stringify({ error: 'Invalid date range' }) };
+  }
+  const groups = (params.groupBy || 'host').split(',').filter(Boolean);
+  const periods = groups.filter(g => g !== 'host');
+  if (groups.some(g => !AGGREGATE_GROUPS.includes(g)) || periods.length > 1) {
+    return { statusCode: 400, body: JSON.stringify({ error: `Invalid groupBy: ${params.groupBy}` }) };
+  }
+  const clientIds = params.clientIds ? params.clientIds.split(',').filter(Boolean) : undefined;
+
+  try {
+    const hotRows = await readHotRows(clientIds, startDate, endDate);
+    const coldRows = await readColdRows(clientIds, startDate, endDate);
+    const rows = deduplicateRows([...hotRows, ...coldRows]);
+    const data = aggregateRows(rows, groups.includes('host'), periods[0]);
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        success: true,
+        data,
+        count: data.length
+      })
+    };
+  } catch (error) {
+    console.error('Aggregate error:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ error: error.message })
+    };
+  }
+}
+
+/**
+ * Read rows of the clients from DynamoDB by the date of rows, all clients if clientIds absent
+ */
+async function readHotRows(clientIds, startDate, endDate) {
+  const { ScanCommand } = require('@aws-sdk/lib-dynamodb');
+  const filter = {
+    FilterExpression: 'SK = :sk AND #date BETWEEN :startDate AND :endDate',
+    ExpressionAttributeNames: { '#date': 'date' },
+    ExpressionAttributeValues: { ':sk': 'data', ':startDate': startDate, ':endDate': endDate },
+  };
+  const commands = clientIds
+    ? clientIds.map(clientId => (startKey) => new QueryCommand({
+      TableName: HOT_DATA_TABLE,
+      IndexName: 'ClientIndex',
+      KeyConditionExpression: 'clientId = :clientId',
+      ...filter,
+      ExpressionAttributeValues: { ...filter.ExpressionAttributeValues, ':clientId': clientId },
+      ExclusiveStartKey: startKey
+    }))
+    : [(startKey) => new ScanCommand({ TableName: HOT_DATA_TABLE, ...filter, ExclusiveStartKey: startKey })];
+
+  const result = [];
+  for (const command of commands) {
+    let lastEvaluatedKey;
+    do {
+      const response = await dynamoClient.send(command(lastEvaluatedKey));
+      response.Items.forEach(item => result.push({
+        clientId: item.clientId,
+        host: item.host,
+        date: item.date,
+        focus: item.focus || 0,
+        time: item.time || 0,
+        media: item.media || 0,
+        lastModified: item.lastModified
+      }));
+      lastEvaluatedKey = response.LastEvaluatedKey;
+    } while (lastEvaluatedKey);
+  }
+  return result;
+}
+
+/**
+ * Read rows of the clients from the monthly archives in S3, all clients if clientIds absent
+ */
+async function readColdRows(clientIds, startDate, endDate) {
+  const { ListObjectsV2Command } = require('@aws-sdk/client-s3');
+  const months = [];
+  const current = new Date(Date.UTC(+startDate.slice(0, 4), +startDate.slice(4, 6) - 1, 1));
+  while (formatDate(current).substring(0, 6) <= endDate.substring(0, 6)) {
+    months.push(formatDate(current).substring(0, 6));
+    current.setUTCMonth(current.getUTCMonth() + 1);
+  }
+
+  // [clientId, S3 key]
+  const objects = [];
+  if (clientIds) {
+    clientIds.forEach(clientId => months.forEach(yearMonth => objects.push([clientId, generateMonthlyS3Key(clientId, yearMonth)])));
+  } else {
+    let continuationToken;
+    do {
+      const listResponse = await s3Client.send(new ListObjectsV2Command({
+        Bucket: DATA_BUCKET,
+        Prefix: 'clients/',
+        ContinuationToken: continuationToken
+      }));
+      listResponse.Contents?.forEach(({ Key }) => {
+        const matched = MONTHLY_KEY_REG.exec(Key);
+        matched && months.includes(matched[2]) && objects.push([matched[1], Key]);
+      });
+      continuationToken = listResponse.NextContinuationToken;
+    } while (continuationToken);
+  }
+
+  const result = [];
+  await Promise.all(objects.map(async ([clientId, key]) => {
+    try {
+      const response = await s3Client.send(new GetObjectCommand({ Bucket: DATA_BUCKET, Key: key }));
+      const monthlyData = decompress(await streamToString(response.Body));
+      Object.values(monthlyData).forEach(record => {
+        if (record.date < startDate || record.date > endDate) return;
+        result.push({
+          clientId,
+          host: record.host,
+          date: record.date,
+          focus: record.focus || 0,
+          time: record.time || 0,
+          media: record.media || 0,
+          lastModified: record.lastModified
+        });
+      });
+    } catch (error) {
+      if (error.name !== 'NoSuchKey') {
+        console.warn(`Error reading ${key}:`, error);
+      }
+    }
+  }));
+  return result;
+}
+
+/**
+ * The first date of the period, weeks start on Monday
+ */
+function periodOf(date, period) {
+  if (period === 'month') return date.substring(0, 6) + '01';
+  if (period !== 'week') return date;
+  const day = new Date(Date.UTC(+date.slice(0, 4), +date.slice(4, 6) - 1, +date.slice(6, 8)));
+  day.setUTCDate(day.getUTCDate() - (day.getUTCDay() + 6) % 7);
+  return formatDate(day);
+}
+
+/**
+ * Sum the rows of each client by host and/or period
+ */
+function aggregateRows(rows, byHost, period) {
+  const map = new Map();
+  rows.forEach(row => {
+    const host = byHost ? row.host : undefined;
+    const date = period ? periodOf(row.date, period) : undefined;
+    const key = `${row.clientId}#${host || ''}#${date || ''}`;
+    let exist = map.get(key);
+    if (!exist) {
+      exist = { clientId: row.clientId, host, date, focus: 0, time: 0, media: 0 };
+      map.set(key, exist);
+    }
+    exist.focus += row.focus;
+    exist.time += row.time;
+    exist.media += row.media;
+  });
+  return Array.from(map.values());
+}
+
+const MONTHLY_KEY_REG = /^clients\/([^/]+)\/monthly\/(\d{6})\.json\.gz$/;
+
+/**
+ * Handle archive request
+ *
+ * Query parameters:
+ * - clientIds: comma-separated, all clients if absent
+ * - month: YYYYMM, fetch the records of the month if present, only one client allowed
+ *
+ * Lists the archived months of each client if no month specified
+ */
+async function handleArchive(event) {
+  const params = event.queryStringParameters || {};
+  const clientIds = params.clientIds ? params.clientIds.split(',').filter(Boolean) : undefined;
+  const { month } = params;
+
+  try {
+    if (!month) {
+      const data = await listArchivedMonths(clientIds);
+      return { statusCode: 200, body: JSON.stringify({ success: true, data }) };
+    }
+    if (!/^\d{6}$/.test(month) || clientIds?.length !== 1) {
+      return { statusCode: 400, body: JSON.stringify({ error: 'One client and the month (YYYYMM) are required' }) };
+    }
+    const records = await readArchivedMonth(clientIds[0], month);
+    if (!records) {
+      return { statusCode: 404, body: JSON.stringify({ error: `No archive of ${month}` }) };
+    }
+    const data = records.map(({ host, date, focus, time, media, lastModified }) => ({ host, date, focus: focus || 0, time: time || 0, media: media || 0, lastModified }));
+    return { statusCode: 200, body: JSON.stringify({ success: true, data, count: data.length }) };
+  } catch (error) {
+    console.error('Archive error:', error);
+    return { statusCode: 500, body: JSON.stringify({ error: error.message }) };
+  }
+}
+
+/**
+ * Handle rehydrate request, copy the records of one archived month back into the hot table, so they can be edited
+ *
+ * Records are marked as modified now, so they stay hot until archived again by the archive job
+ */
+async function handleRehydrate(event) {
+  const { clientId, month } = JSON.parse(event.body || '{}');
+  if (!clientId || !/^\d{6}$/.test(month || '')) {
+    return { statusCode: 400, body: JSON.stringify({ error: 'Client and the month (YYYYMM) are required' }) };
+  }
+
+  try {
+    const records = await readArchivedMonth(clientId, month);
+    if (!records) {
+      return { statusCode: 404, body: JSON.stringify({ error: `No archive of ${month}` }) };
+    }
+    const now = Date.now();
+    for (const { host, date, focus, time, media, sessionId } of records) {
+      const pk = generatePK(clientId, host, date);
+      const existing = await dynamoClient.send(new GetCommand({
+        TableName: HOT_DATA_TABLE,
+        Key: { PK: pk, SK: 'data' }
+      }));
+      // Never overwrite the hot record, which is newer than the archive
+      if (existing.Item) continue;
+      await dynamoClient.send(new PutCommand({
+        TableName: HOT_DATA_TABLE,
+        Item: {
+          PK: pk,
+          SK: 'data',
+          clientId,
+          host,
+          date,
+          focus: focus || 0,
+          time: time || 0,
+          media: media || 0,
+          sessionId,
+          lastModified: now,
+          batchId: `rehydrate_${month}`,
+          version: 1,
+          ttl: generateTTL(7)
+        },
+        ConditionExpression: 'attribute_not_exists(PK)'
+      }));
+    }
+    return { statusCode: 200, body: JSON.stringify({ success: true, count: records.length }) };
+  } catch (error) {
+    console.error('Rehydrate error:', error);
+    return { statusCode: 500, body: JSON.stringify({ error: error.message }) };
+  }
+}
+
+/**
+ * Months (YYYYMM) archived in S3 of each client, all clients if clientIds absent
+ */
+async function listArchivedMonths(clientIds) {
+  const { ListObjectsV2Command } = require('@aws-sdk/client-s3');
+  const prefixes = clientIds ? clientIds.map(clientId => `clients/${clientId}/monthly/`) : ['clients/'];
+  const result = {};
+  clientIds?.forEach(clientId => result[clientId] = []);
+  for (const prefix of prefixes) {
+    let continuationToken;
+    do {
+      const listResponse = await s3Client.send(new ListObjectsV2Command({
+        Bucket: DATA_BUCKET,
+        Prefix: prefix,
+        ContinuationToken: continuationToken
+      }));
+      listResponse.Contents?.forEach(({ Key }) => {
+        const matched = MONTHLY_KEY_REG.exec(Key);
+        if (!matched) return;
+        const [, clientId, yearMonth] = matched;
+        (result[clientId] = result[clientId] || []).push(yearMonth);
+      });
+      continuationToken = listResponse.NextContinuationToken;
+    } while (continuationToken);
+  }
+  Object.values(result).forEach(months => months.sort());
+  return result;
+}
+
+/**
+ * Decompressed records of the archived month, or undefined if not archived
+ */
+async function readArchivedMonth(clientId, yearMonth) {
+  try {
+    const response = await s3Client.send(new GetObjectCommand({
+      Bucket: DATA_BUCKET,
+      Key: generateMonthlyS3Key(clientId, yearMonth)
+    }));
+    const monthlyData = decompress(await streamToString(response.Body));
+    return Object.values(monthlyData);
+  } catch (error) {
+    if (error.name === 'NoSuchKey') return undefined;
+    throw error;
+  }
+}
+
+const CRYPTO_META_KEY = 'meta/crypto.json';
+
+/**
+ * Handle reading the parameters of end-to-end encryption, data is absent if never encrypted
+ */
+async function handleGetCryptoMeta() {
+  try {
+    const response = await s3Client.send(new GetObjectCommand({
+      Bucket: DATA_BUCKET,
+      Key: CRYPTO_META_KEY
+    }));
+    const data = JSON.parse(await streamToString(response.Body));
+    return { statusCode: 200, body: JSON.stringify({ success: true, data }) };
+  } catch (error) {
+    if (error.name === 'NoSuchKey') {
+      return { statusCode: 200, body: JSON.stringify({ success: true }) };
+    }
+    console.error('Get crypto meta error:', error);
+    return { statusCode: 500, body: JSON.stringify({ error: error.message }) };
+  }
+}
+
+/**
+ * Handle saving the parameters of end-to-end encryption { salt, verifier? }, shared by all the clients
+ *
+ * Only the salt and the encrypted verifier are stored, never the passphrase or the keys
+ */
+async function handlePutCryptoMeta(event) {
+  const { salt, verifier } = JSON.parse(event.body || '{}');
+  if (!salt || typeof salt !== 'string' || (verifier !== undefined && typeof verifier !== 'string')) {
+    return { statusCode: 400, body: JSON.stringify({ error: 'Salt required' }) };
+  }
+
+  try {
+    const data = verifier ? { salt, verifier } : { salt };
+    await s3Client.send(new PutObjectCommand({
+      Bucket: DATA_BUCKET,
+      Key: CRYPTO_META_KEY,
+      Body: JSON.stringify(data),
+      ContentType: 'application/json'
+    }));
+    return { statusCode: 200, body: JSON.stringify({ success: true, data }) };
+  } catch (error) {
+    console.error('Put crypto meta error:', error);
+    return { statusCode: 500, body: JSON.stringify({ error: error.message }) };
+  }
+}
+
 /**
  * Handle data update request
  */
 async function handleUpdate(event) {
-  // This would handle batch updates, similar to handleUpload
-  // Implementation depends on specific requirements
+  const body = JSON.parse(event.body);
+  const clientId = event.headers['X-Client-Id'] || body.clientId;
+
+  if (!clientId) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ error: 'Client ID required' })
+    };
+  }
+
+  const { rows, batchId } = body;
+
+  if (!rows || !Array.isArray(rows)) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ error: 'Rows array required' })
+    };
+  }
+
+  const results = [];
+
+  for (const row of rows) {
+    try {
+      results.push(await overwriteRow(clientId, row, batchId));
+    } catch (error) {
+      console.error(`Error overwriting row:`, error);
+      results.push({
+        error: error.message,
+        row
+      });
+    }
+  }
+
+  if (results.some(r => r.success)) {
+    await sendUpdateNotification([clientId], {
+      type: 'data-updated',
+      clientId,
+      batchId,
+      updatedRows: results.filter(r => r.success).length
+    });
+  }
+
+  return {
+    statusCode: 200,
+    body: JSON.stringify({
+      success: true,
+      processed: results.length,
+      successful: results.filter(r => r.success).length,
+      failed: results.filter(r => r.error).length,
+      results
+    })
+  };
+}
+
+/**
+ * Overwrite the values of one row, without conflict resolution
+ * Used to write back the resolution of conflicts chosen by the user
+ */
+async function overwriteRow(clientId, row, batchId) {
+  const { host, date, focus, time, media, sessionId, lastModified } = row;
+  const pk = generatePK(clientId, host, date);
+
+  const existing = await dynamoClient.send(new GetCommand({
+    TableName: HOT_DATA_TABLE,
+    Key: { PK: pk, SK: 'data' }
+  }));
+
+  const finalData = {
+    ...existing.Item,
+    PK: pk,
+    SK: 'data',
+    clientId,
+    host,
+    date,
+    focus: focus || 0,
+    time: time || 0,
+    media: media || 0,
+    sessionId: sessionId || existing.Item?.sessionId,
+    lastModified: lastModified || Date.now(),
+    batchId,
+    version: (existing.Item?.version || 0) + 1,
+    ttl: existing.Item?.ttl || generateTTL(7)
+  };
+
+  await dynamoClient.send(new PutCommand({
+    TableName: HOT_DATA_TABLE,
+    Item: finalData
+  }));
+
+  if (!isHotData(date)) {
+    await archiveToS3(clientId, finalData);
+  }
+
   return {
-    statusCode: 501,
-    body: JSON.stringify({ error: 'Not implemented yet' })
+    success: true,
+    pk,
+    version: finalData.version
   };
 }
 
@@ -254,6 +254,21 @@ export class WebTimeTrackerStack extends cdk.Stack {
     const dataResource = api.root.addResource('data');
     dataResource.addMethod('GET', syncIntegration);
     dataResource.addMethod('PUT', syncIntegration);
+    dataResource.addMethod('DELETE', syncIntegration);
+
+    const aggregateResource = api.root.addResource('aggregate');
+    aggregateResource.addMethod('GET', syncIntegration);
+
+    const archiveResource = api.root.addResource('archive');
+    archiveResource.addMethod('GET', syncIntegration);
+    archiveResource.addMethod('POST', syncIntegration);
+
+    const cryptoResource = api.root.addResource('crypto');
+    cryptoResource.addMethod('GET', syncIntegration);
+    cryptoResource.addMethod('PUT', syncIntegration);
+
+    const clientsResource = api.root.addResource('clients');
+    clientsResource.addMethod('PUT', syncIntegration);
 
     // WebSocket API Gateway
     const websocketApi = new apigatewayv2.WebSocketApi(this, 'WebTimeTrackerWebSocket', {
@@ -0,0 +1,112 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "http"
+import Notifier from "./notifier"
+import FileStore from "./store"
+import SyncHandler, { type Response } from "./sync"
+
+export type ServerOption = {
+    /**
+     * Directory to store the data
+     */
+    dataDir: string
+    /**
+     * Required in the header X-Api-Key if present
+     */
+    apiKey?: string
+}
+
+export type SyncServer = {
+    server: Server
+    close: () => Promise<void>
+}
+
+/**
+ * Max size of request body, bytes
+ */
+const MAX_BODY_SIZE = 10 * 1024 * 1024
+
+const CORS_HEADERS = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token,X-Client-Id',
+    'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,OPTIONS',
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = []
+        let size = 0
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length
+            if (size > MAX_BODY_SIZE) {
+                reject(new Error('Request body too large'))
+                req.destroy()
+                return
+            }
+            chunks.push(chunk)
+        })
+        req.on('end', () => resolve(Buffer.concat(chunks).toString()))
+        req.on('error', reject)
+    })
+}
+
+function send(res: ServerResponse, { statusCode, body }: Response): void {
+    res.writeHead(statusCode, { 'Content-Type': 'application/json', ...CORS_HEADERS })
+    res.end(JSON.stringify(body))
+}
+
+/**
+ * Create the server of REST API and WebSocket notifications, not listening yet
+ */
+export function createSyncServer(option: ServerOption): SyncServer {
+    const { dataDir, apiKey } = option
+    const notifier = new Notifier()
+    const handler = new SyncHandler(new FileStore(dataDir), notifier)
+
+    const server = createServer(async (req, res) => {
+        if (req.method === 'OPTIONS') {
+            res.writeHead(204, CORS_HEADERS)
+            res.end()
+            return
+        }
+        if (apiKey && req.headers['x-api-key'] !== apiKey) {
+            send(res, { statusCode: 403, body: { message: 'Forbidden' } })
+            return
+        }
+        try {
+            const url = new URL(req.url ?? '/', 'http://localhost')
+            const raw = await readBody(req)
+            const response = await handler.handle({
+                method: req.method ?? 'GET',
+                path: url.pathname,
+                query: url.searchParams,
+                headers: req.headers,
+                body: raw ? JSON.parse(raw) : undefined,
+            })
+            send(res, response)
+        } catch (error) {
+            console.error('Handler error:', error)
+            send(res, { statusCode: 500, body: { error: (error as Error).message } })
+        }
+    })
+    server.on('upgrade', (req, socket, head) => {
+        // Browsers can't set headers of WebSocket, so the key is also accepted in the query
+        const key = req.headers['x-api-key'] || new URL(req.url ?? '/', 'http://localhost').searchParams.get('apiKey')
+        if (apiKey && key !== apiKey) {
+            socket.end('HTTP/1.1 403 Forbidden\r\n\r\n')
+            return
+        }
+        notifier.handleUpgrade(req, socket, head)
+    })
+
+    const close = () => new Promise<void>((resolve, reject) => {
+        notifier.close()
+        server.close(err => err ? reject(err) : resolve())
+    })
+    return { server, close }
+}
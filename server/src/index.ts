@@ -0,0 +1,24 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { resolve } from "path"
+import { createSyncServer } from "./app"
+
+const port = parseInt(process.env.PORT || '8080')
+const dataDir = resolve(process.env.DATA_DIR || 'data')
+const apiKey = process.env.API_KEY || undefined
+
+const { server, close } = createSyncServer({ dataDir, apiKey })
+
+server.listen(port, () => {
+    console.log(`Sync server listening on port ${port}, data stored in ${dataDir}`)
+    apiKey || console.warn('API_KEY is not set, all the requests are accepted')
+})
+
+const shutdown = () => close().finally(() => process.exit(0))
+process.on('SIGINT', shutdown)
+process.on('SIGTERM', shutdown)
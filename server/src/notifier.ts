@@ -0,0 +1,85 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { type IncomingMessage } from "http"
+import { type Duplex } from "stream"
+import { WebSocket, WebSocketServer, type RawData } from "ws"
+
+export type UpdateNotification = {
+    type: 'data-updated'
+    clientId: string
+    batchId?: string
+    updatedRows: number
+}
+
+/**
+ * WebSocket connections of clients, the same as websocket.js and notify.js of the lambdas
+ */
+export default class Notifier {
+    private wss = new WebSocketServer({ noServer: true })
+    private connections = new Map<WebSocket, string>()
+
+    /**
+     * Accept the upgrade request, the client id is required in the query or the header
+     */
+    handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): void {
+        const url = new URL(req.url ?? '/', 'http://localhost')
+        const clientId = url.searchParams.get('clientId') || req.headers['x-client-id']
+        if (!clientId || typeof clientId !== 'string') {
+            socket.end('HTTP/1.1 400 Bad Request\r\n\r\nClient ID required')
+            return
+        }
+        this.wss.handleUpgrade(req, socket, head, ws => {
+            this.connections.set(ws, clientId)
+            console.log(`Client ${clientId} connected`)
+            ws.on('message', data => this.handleMessage(ws, data))
+            ws.on('close', () => this.connections.delete(ws))
+            ws.on('error', () => this.connections.delete(ws))
+        })
+    }
+
+    private handleMessage(ws: WebSocket, data: RawData): void {
+        let body: { action?: string, data?: { topics?: string[] } }
+        try {
+            body = JSON.parse(data.toString() || '{}')
+        } catch (error) {
+            ws.send(JSON.stringify({ error: (error as Error).message }))
+            return
+        }
+        switch (body?.action) {
+            case 'ping':
+                ws.send(JSON.stringify({ action: 'pong', timestamp: Date.now() }))
+                break
+            case 'subscribe':
+                ws.send(JSON.stringify({ action: 'subscribed', subscriptions: body.data?.topics || ['data-updates'] }))
+                break
+            default:
+                ws.send(JSON.stringify({ error: 'Unknown action' }))
+        }
+    }
+
+    /**
+     * Send notification to all the connections of the clients
+     */
+    notify(clientIds: string[], notification: UpdateNotification): void {
+        const targets = new Set(clientIds)
+        const message = JSON.stringify({
+            event: 'sync-update',
+            data: { ...notification, timestamp: new Date().toISOString() },
+        })
+        this.connections.forEach((clientId, ws) => {
+            if (!targets.has(clientId) || ws.readyState !== WebSocket.OPEN) return
+            ws.send(message)
+        })
+    }
+
+    close(): void {
+        this.connections.forEach((_, ws) => ws.terminate())
+        this.connections.clear()
+        this.wss.close()
+    }
+}
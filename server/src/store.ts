@@ -0,0 +1,219 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "fs/promises"
+import { join } from "path"
+import { monthOf } from "./util"
+
+export type StoredRow = {
+    clientId: string
+    host: string
+    date: string
+    focus: number
+    time: number
+    /**
+     * Absent in the rows written before media time was synced
+     */
+    media?: number
+    sessionId?: string
+    lastModified: number
+    batchId?: string
+    version: number
+    conflictResolution?: string
+}
+
+/**
+ * Parameters of end-to-end encryption, shared by all the clients
+ */
+export type CryptoMeta = {
+    salt: string
+    verifier?: string
+}
+
+/**
+ * Client saved by the extension, the name is encrypted if end-to-end encryption enabled
+ */
+export type StoredClient = {
+    id: string
+    name?: string
+    minDate?: string
+    maxDate?: string
+    retired?: boolean
+}
+
+/**
+ * Records of one month, keyed by `${date}_${host}`
+ */
+export type MonthRecords = Record<string, StoredRow>
+
+const MONTH_FILE_PATTERN = /^(\d{6})\.json$/
+
+export const recordKey = (date: string, host: string) => `${date}_${host}`
+
+/**
+ * Client ids are used as directory names, so `.` and `..` are not allowed, which are not encoded by encodeURIComponent
+ */
+export const isValidClientId = (clientId: string | undefined | null): clientId is string =>
+    !!clientId && clientId !== '.' && clientId !== '..'
+
+/**
+ * Write to the temporary file first, so the data is never half written
+ */
+async function writeAtomically(file: string, content: unknown): Promise<void> {
+    const tmp = `${file}.${process.pid}.tmp`
+    await writeFile(tmp, JSON.stringify(content))
+    await rename(tmp, file)
+}
+
+/**
+ * Flat file storage, one JSON file per client and month
+ *
+ * Layout: {dir}/clients/{clientId}/{YYYYMM}.json, the same as the monthly archives in S3, and {dir}/crypto.json, {dir}/clients.json
+ */
+export default class FileStore {
+    private dir: string
+    private locks = new Map<string, Promise<unknown>>()
+
+    constructor(dir: string) {
+        this.dir = dir
+    }
+
+    private clientsDir(): string {
+        return join(this.dir, 'clients')
+    }
+
+    private clientDir(clientId: string): string {
+        if (!isValidClientId(clientId)) throw new Error(`Invalid client ID: ${clientId}`)
+        return join(this.clientsDir(), encodeURIComponent(clientId))
+    }
+
+    private monthFile(clientId: string, yearMonth: string): string {
+        return join(this.clientDir(clientId), `${yearMonth}.json`)
+    }
+
+    private async readMonth(clientId: string, yearMonth: string): Promise<MonthRecords> {
+        try {
+            const content = await readFile(this.monthFile(clientId, yearMonth), 'utf8')
+            return JSON.parse(content) as MonthRecords
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') return {}
+            throw error
+        }
+    }
+
+    private async writeMonth(clientId: string, yearMonth: string, records: MonthRecords): Promise<void> {
+        await mkdir(this.clientDir(clientId), { recursive: true })
+        await writeAtomically(this.monthFile(clientId, yearMonth), records)
+    }
+
+    private cryptoFile(): string {
+        return join(this.dir, 'crypto.json')
+    }
+
+    async readCryptoMeta(): Promise<CryptoMeta | undefined> {
+        try {
+            return JSON.parse(await readFile(this.cryptoFile(), 'utf8')) as CryptoMeta
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') return undefined
+            throw error
+        }
+    }
+
+    async writeCryptoMeta(meta: CryptoMeta): Promise<void> {
+        await mkdir(this.dir, { recursive: true })
+        await writeAtomically(this.cryptoFile(), meta)
+    }
+
+    private clientsFile(): string {
+        return join(this.dir, 'clients.json')
+    }
+
+    async readClients(): Promise<StoredClient[]> {
+        try {
+            return JSON.parse(await readFile(this.clientsFile(), 'utf8')) as StoredClient[]
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') return []
+            throw error
+        }
+    }
+
+    async writeClients(clients: StoredClient[]): Promise<void> {
+        await mkdir(this.dir, { recursive: true })
+        await writeAtomically(this.clientsFile(), clients)
+    }
+
+    /**
+     * Delete all the records of the client
+     */
+    async removeClient(clientId: string): Promise<void> {
+        await rm(this.clientDir(clientId), { recursive: true, force: true })
+    }
+
+    /**
+     * Read, modify and write the records of one month exclusively
+     */
+    async modifyMonth<T>(clientId: string, date: string, modifier: (records: MonthRecords) => T): Promise<T> {
+        const yearMonth = monthOf(date)
+        const file = this.monthFile(clientId, yearMonth)
+        const previous = this.locks.get(file) ?? Promise.resolve()
+        const current = previous.catch(() => { }).then(async () => {
+            const records = await this.readMonth(clientId, yearMonth)
+            const result = modifier(records)
+            await this.writeMonth(clientId, yearMonth, records)
+            return result
+        })
+        this.locks.set(file, current)
+        try {
+            return await current
+        } finally {
+            this.locks.get(file) === current && this.locks.delete(file)
+        }
+    }
+
+    async listClientIds(): Promise<string[]> {
+        try {
+            const dirs = await readdir(this.clientsDir(), { withFileTypes: true })
+            return dirs.filter(d => d.isDirectory()).map(d => decodeURIComponent(d.name))
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') return []
+            throw error
+        }
+    }
+
+    /**
+     * @returns YYYYMM sorted
+     */
+    async listMonths(clientId: string): Promise<string[]> {
+        try {
+            const files = await readdir(this.clientDir(clientId))
+            return files
+                .map(f => f.match(MONTH_FILE_PATTERN)?.[1])
+                .filter((m): m is string => !!m)
+                .sort()
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') return []
+            throw error
+        }
+    }
+
+    /**
+     * Select rows of the client between the dates, both inclusive
+     */
+    async select(clientId: string, startDate?: string, endDate?: string): Promise<StoredRow[]> {
+        const months = (await this.listMonths(clientId)).filter(m =>
+            (!startDate || m >= monthOf(startDate)) && (!endDate || m <= monthOf(endDate))
+        )
+        const result: StoredRow[] = []
+        for (const month of months) {
+            const records = await this.readMonth(clientId, month)
+            Object.values(records)
+                .filter(r => (!startDate || r.date >= startDate) && (!endDate || r.date <= endDate))
+                .forEach(r => result.push(r))
+        }
+        return result
+    }
+}
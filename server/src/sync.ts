@@ -0,0 +1,449 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import type Notifier from "./notifier"
+import type FileStore from "./store"
+import { isValidClientId, recordKey, type CryptoMeta, type StoredClient, type StoredRow } from "./store"
+import { parseDateParam, periodOf } from "./util"
+
+export type Response = {
+    statusCode: number
+    body: unknown
+}
+
+export type Request = {
+    method: string
+    path: string
+    query: URLSearchParams
+    headers: Record<string, string | string[] | undefined>
+    body?: any
+}
+
+type IncomingRow = {
+    host: string
+    date: string
+    focus?: number
+    time?: number
+    media?: number
+    sessionId?: string
+    lastModified?: number
+}
+
+type Conflict = {
+    type: 'session_conflict' | 'timestamp_conflict'
+    clientId: string
+    sessionId?: string
+    rejected?: boolean
+    reason?: string
+    overwritten?: {
+        focus: number
+        time: number
+        lastModified: number
+    }
+}
+
+type RowResult = {
+    success?: boolean
+    error?: string
+    pk?: string
+    version?: number
+    conflicts?: Conflict[]
+    row?: IncomingRow
+}
+
+const DATE_PATTERN = /^\d{8}$/
+
+const AGGREGATE_GROUPS = ['host', 'date', 'week', 'month'] as const
+
+type AggregateGroup = typeof AGGREGATE_GROUPS[number]
+
+type AggregateRow = {
+    clientId: string
+    host?: string
+    date?: string
+    focus: number
+    time: number
+    media: number
+}
+
+const ok = (body: unknown): Response => ({ statusCode: 200, body })
+
+const badRequest = (error: string): Response => ({ statusCode: 400, body: { error } })
+
+const notFound = (error: string): Response => ({ statusCode: 404, body: { error } })
+
+const generatePK = (clientId: string, host: string, date: string) => `${clientId}#${host}#${date}`
+
+function headerOf(req: Request, name: string): string | undefined {
+    const value = req.headers[name.toLowerCase()]
+    return Array.isArray(value) ? value[0] : value
+}
+
+function validateRow(row: IncomingRow): string | undefined {
+    if (!row?.host || typeof row.host !== 'string') return 'Host required'
+    if (!DATE_PATTERN.test(row?.date)) return 'Date must be YYYYMMDD'
+    return undefined
+}
+
+/**
+ * Resolve conflicts between existing and new data, the same strategy as the sync lambda
+ */
+function resolveConflict(existing: StoredRow, incoming: StoredRow): { resolved: StoredRow, conflicts: Conflict[] } {
+    const conflicts: Conflict[] = []
+    if (existing.sessionId === incoming.sessionId) {
+        // Same session, accumulate
+        return {
+            resolved: {
+                ...existing,
+                focus: existing.focus + incoming.focus,
+                time: existing.time + incoming.time,
+                media: (existing.media ?? 0) + (incoming.media ?? 0),
+                lastModified: Math.max(existing.lastModified, incoming.lastModified),
+                version: existing.version + 1,
+            },
+            conflicts,
+        }
+    }
+    if (incoming.lastModified > existing.lastModified) {
+        // Newer data wins, but take the maximum values
+        conflicts.push({
+            type: 'session_conflict',
+            clientId: existing.clientId,
+            sessionId: existing.sessionId,
+            overwritten: {
+                focus: existing.focus,
+                time: existing.time,
+                lastModified: existing.lastModified,
+            },
+        })
+        return {
+            resolved: {
+                ...existing,
+                clientId: incoming.clientId,
+                sessionId: incoming.sessionId,
+                focus: Math.max(existing.focus, incoming.focus),
+                time: Math.max(existing.time, incoming.time),
+                media: Math.max(existing.media ?? 0, incoming.media ?? 0),
+                lastModified: incoming.lastModified,
+                version: existing.version + 1,
+                conflictResolution: 'max_values',
+            },
+            conflicts,
+        }
+    }
+    // Existing data is newer, reject
+    conflicts.push({
+        type: 'timestamp_conflict',
+        clientId: incoming.clientId,
+        sessionId: incoming.sessionId,
+        rejected: true,
+        reason: 'older_timestamp',
+    })
+    return { resolved: existing, conflicts }
+}
+
+export default class SyncHandler {
+    private store: FileStore
+    private notifier: Notifier
+
+    constructor(store: FileStore, notifier: Notifier) {
+        this.store = store
+        this.notifier = notifier
+    }
+
+    async handle(req: Request): Promise<Response> {
+        const { method, path } = req
+        if (method === 'POST' && path.includes('/sync')) {
+            return this.handleUpload(req)
+        } else if (method === 'GET' && path.includes('/sync')) {
+            return this.handleListClients()
+        } else if (method === 'GET' && path.includes('/data')) {
+            return this.handleDownload(req)
+        } else if (method === 'PUT' && path.includes('/data')) {
+            return this.handleUpdate(req)
+        } else if (method === 'DELETE' && path.includes('/data')) {
+            return this.handleClear(req)
+        } else if (method === 'GET' && path.includes('/aggregate')) {
+            return this.handleAggregate(req)
+        } else if (method === 'GET' && path.includes('/archive')) {
+            return this.handleArchive(req)
+        } else if (method === 'POST' && path.includes('/archive')) {
+            return this.handleRehydrate(req)
+        } else if (method === 'GET' && path.includes('/crypto')) {
+            return ok({ success: true, data: await this.store.readCryptoMeta() })
+        } else if (method === 'PUT' && path.includes('/crypto')) {
+            return this.handlePutCryptoMeta(req)
+        } else if (method === 'PUT' && path.includes('/clients')) {
+            return this.handlePutClients(req)
+        }
+        return notFound('Not found')
+    }
+
+    /**
+     * Handle data upload (real-time sync)
+     */
+    private async handleUpload(req: Request): Promise<Response> {
+        const clientId = headerOf(req, 'X-Client-Id') || req.body?.clientId
+        if (!clientId) return badRequest('Client ID required')
+        if (!isValidClientId(clientId)) return badRequest('Invalid client ID')
+        const { rows, batchId } = req.body ?? {}
+        if (!rows || !Array.isArray(rows)) return badRequest('Rows array required')
+
+        const results: RowResult[] = []
+        const affectedClients = new Set<string>([clientId])
+        for (const row of rows as IncomingRow[]) {
+            try {
+                const result = await this.processRow(clientId, row, batchId)
+                results.push(result)
+                result.conflicts?.forEach(c => affectedClients.add(c.clientId))
+            } catch (error) {
+                results.push({ error: (error as Error).message, row })
+            }
+        }
+        return this.respondResults(Array.from(affectedClients), clientId, batchId, results)
+    }
+
+    private async processRow(clientId: string, row: IncomingRow, batchId: string | undefined): Promise<RowResult> {
+        const invalid = validateRow(row)
+        if (invalid) throw new Error(invalid)
+        const { host, date, focus, time, media, sessionId, lastModified } = row
+        const incoming: StoredRow = {
+            clientId, host, date,
+            focus: focus || 0,
+            time: time || 0,
+            media: media || 0,
+            sessionId,
+            lastModified: lastModified || Date.now(),
+            batchId,
+            version: 1,
+        }
+        return this.store.modifyMonth(clientId, date, records => {
+            const key = recordKey(date, host)
+            const existing = records[key]
+            let conflicts: Conflict[] = []
+            if (existing) {
+                const resolved = resolveConflict(existing, incoming)
+                records[key] = resolved.resolved
+                conflicts = resolved.conflicts
+            } else {
+                records[key] = incoming
+            }
+            return { success: true, pk: generatePK(clientId, host, date), version: records[key].version, conflicts }
+        })
+    }
+
+    /**
+     * Overwrite the values of rows, without conflict resolution
+     */
+    private async handleUpdate(req: Request): Promise<Response> {
+        const clientId = headerOf(req, 'X-Client-Id') || req.body?.clientId
+        if (!clientId) return badRequest('Client ID required')
+        if (!isValidClientId(clientId)) return badRequest('Invalid client ID')
+        const { rows, batchId } = req.body ?? {}
+        if (!rows || !Array.isArray(rows)) return badRequest('Rows array required')
+
+        const results: RowResult[] = []
+        for (const row of rows as IncomingRow[]) {
+            try {
+                const invalid = validateRow(row)
+                if (invalid) throw new Error(invalid)
+                const { host, date, focus, time, media, sessionId, lastModified } = row
+                const result = await this.store.modifyMonth(clientId, date, records => {
+                    const key = recordKey(date, host)
+                    const existing = records[key]
+                    records[key] = {
+                        ...existing,
+                        clientId, host, date,
+                        focus: focus || 0,
+                        time: time || 0,
+                        media: media || 0,
+                        sessionId: sessionId ?? existing?.sessionId,
+                        lastModified: lastModified || Date.now(),
+                        batchId,
+                        version: (existing?.version ?? 0) + 1,
+                    }
+                    return { success: true, pk: generatePK(clientId, host, date), version: records[key].version }
+                })
+                results.push(result)
+            } catch (error) {
+                results.push({ error: (error as Error).message, row })
+            }
+        }
+        return this.respondResults([clientId], clientId, batchId, results)
+    }
+
+    private respondResults(affectedClients: string[], clientId: string, batchId: string | undefined, results: RowResult[]): Response {
+        const successful = results.filter(r => r.success).length
+        successful && this.notifier.notify(affectedClients, { type: 'data-updated', clientId, batchId, updatedRows: successful })
+        return ok({
+            success: true,
+            processed: results.length,
+            successful,
+            failed: results.filter(r => r.error).length,
+            results,
+        })
+    }
+
+    /**
+     * Clients and their date ranges derived from the stored data, with the names saved by the extension
+     *
+     * Saved clients without data are listed too, with their saved date ranges
+     */
+    private async handleListClients(): Promise<Response> {
+        const saved = new Map((await this.store.readClients()).map(c => [c.id, c]))
+        const ids = await this.store.listClientIds()
+        const clients: StoredClient[] = []
+        for (const id of ids) {
+            const rows = await this.store.select(id)
+            if (!rows.length) continue
+            const dates = rows.map(r => r.date).sort()
+            const { name = id, retired } = saved.get(id) ?? {}
+            clients.push({ id, name, minDate: dates[0], maxDate: dates[dates.length - 1], retired })
+            saved.delete(id)
+        }
+        saved.forEach(c => clients.push(c))
+        return ok({ clients })
+    }
+
+    /**
+     * Handle saving the clients, replacing the saved ones
+     */
+    private async handlePutClients(req: Request): Promise<Response> {
+        const { clients } = req.body ?? {}
+        if (!Array.isArray(clients) || !clients.every(c => typeof c?.id === 'string' && isValidClientId(c.id))) {
+            return badRequest('Clients array required')
+        }
+        const data: StoredClient[] = clients.map(({ id, name, minDate, maxDate, retired }: StoredClient) => ({
+            id, name, minDate, maxDate, retired: retired || undefined,
+        }))
+        await this.store.writeClients(data)
+        return ok({ success: true, clients: data })
+    }
+
+    /**
+     * Handle clearing all the rows of the target client, or the requesting client
+     */
+    private async handleClear(req: Request): Promise<Response> {
+        const clientId = req.query.get('clientId') || headerOf(req, 'X-Client-Id')
+        if (!clientId) return badRequest('Client ID required')
+        if (!isValidClientId(clientId)) return badRequest('Invalid client ID')
+        const count = (await this.store.select(clientId)).length
+        await this.store.removeClient(clientId)
+        count && this.notifier.notify([clientId], { type: 'data-updated', clientId, updatedRows: count })
+        return ok({ success: true, count })
+    }
+
+    /**
+     * Handle data download request
+     *
+     * Download the data of the target client, or the requesting client, or all the clients
+     */
+    private async handleDownload(req: Request): Promise<Response> {
+        const { query } = req
+        const startDate = parseDateParam(query.get('startDate') ?? undefined)
+        const endDate = parseDateParam(query.get('endDate') ?? undefined)
+        const clientId = query.get('clientId') || headerOf(req, 'X-Client-Id')
+        if (clientId && !isValidClientId(clientId)) return badRequest('Invalid client ID')
+        const clientIds = clientId ? [clientId] : await this.store.listClientIds()
+        const data: { host: string, date: string, focus: number, time: number, media: number, clientId: string }[] = []
+        for (const id of clientIds) {
+            const rows = await this.store.select(id, startDate, endDate)
+            rows.forEach(({ host, date, focus, time, media }) => data.push({ host, date, focus, time, media: media ?? 0, clientId: id }))
+        }
+        data.sort((a, b) => a.date.localeCompare(b.date))
+        return ok({ success: true, data, count: data.length })
+    }
+
+    /**
+     * Handle aggregation request, totals of each client grouped by host and/or period
+     *
+     * Query parameters:
+     * - startDate, endDate: YYYYMMDD
+     * - clientIds: comma-separated, all clients if absent
+     * - groupBy: comma-separated groups, host by default
+     */
+    private async handleAggregate(req: Request): Promise<Response> {
+        const { query } = req
+        const startDate = query.get('startDate') ?? ''
+        const endDate = query.get('endDate') ?? ''
+        if (!DATE_PATTERN.test(startDate) || !DATE_PATTERN.test(endDate) || startDate > endDate) {
+            return badRequest('Invalid date range')
+        }
+        const groups = (query.get('groupBy') || 'host').split(',').filter(Boolean) as AggregateGroup[]
+        const periods = groups.filter(g => g !== 'host') as Exclude<AggregateGroup, 'host'>[]
+        if (groups.some(g => !AGGREGATE_GROUPS.includes(g)) || periods.length > 1) {
+            return badRequest(`Invalid groupBy: ${query.get('groupBy')}`)
+        }
+        const clientIds = query.get('clientIds')?.split(',').filter(Boolean) ?? await this.store.listClientIds()
+        if (!clientIds.every(isValidClientId)) return badRequest('Invalid client ID')
+
+        const byHost = groups.includes('host')
+        const [period] = periods
+        const map = new Map<string, AggregateRow>()
+        for (const clientId of clientIds) {
+            const rows = await this.store.select(clientId, startDate, endDate)
+            rows.forEach(row => {
+                const host = byHost ? row.host : undefined
+                const date = period ? periodOf(row.date, period) : undefined
+                const key = `${clientId}#${host ?? ''}#${date ?? ''}`
+                let exist = map.get(key)
+                if (!exist) {
+                    exist = { clientId, host, date, focus: 0, time: 0, media: 0 }
+                    map.set(key, exist)
+                }
+                exist.focus += row.focus
+                exist.time += row.time
+                exist.media += row.media ?? 0
+            })
+        }
+        const data = Array.from(map.values())
+        return ok({ success: true, data, count: data.length })
+    }
+
+    /**
+     * Handle archive request
+     *
+     * All the rows are kept in the files, so nothing is archived. No month of each client is listed,
+     * and fetching one month is not found, same as the lambda for months not archived
+     */
+    private async handleArchive(req: Request): Promise<Response> {
+        const { query } = req
+        const clientIds = query.get('clientIds')?.split(',').filter(Boolean)
+        const month = query.get('month')
+        if (!month) return ok({ success: true, data: Object.fromEntries(clientIds?.map(id => [id, []]) ?? []) })
+        if (!/^\d{6}$/.test(month) || clientIds?.length !== 1) {
+            return badRequest('One client and the month (YYYYMM) are required')
+        }
+        return notFound(`No archive of ${month}`)
+    }
+
+    /**
+     * Handle saving the parameters of end-to-end encryption, shared by all the clients
+     *
+     * Only the salt and the encrypted verifier are stored, never the passphrase or the keys
+     */
+    private async handlePutCryptoMeta(req: Request): Promise<Response> {
+        const { salt, verifier } = req.body ?? {}
+        if (!salt || typeof salt !== 'string' || (verifier !== undefined && typeof verifier !== 'string')) {
+            return badRequest('Salt required')
+        }
+        const data: CryptoMeta = verifier ? { salt, verifier } : { salt }
+        await this.store.writeCryptoMeta(data)
+        return ok({ success: true, data })
+    }
+
+    /**
+     * Handle rehydrate request, nothing to rehydrate since nothing is archived
+     */
+    private async handleRehydrate(req: Request): Promise<Response> {
+        const { clientId, month } = req.body ?? {}
+        if (!clientId || !/^\d{6}$/.test(month || '')) {
+            return badRequest('Client and the month (YYYYMM) are required')
+        }
+        return notFound(`No archive of ${month}`)
+    }
+}
@@ -0,0 +1,46 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+const DATE_PATTERN = /^\d{8}$/
+
+/**
+ * Format date as YYYYMMDD, same as the lambda layer
+ */
+export function formatDate(date: Date): string {
+    return date.toISOString().slice(0, 10).replace(/-/g, '')
+}
+
+/**
+ * Parse the date of query parameters, both YYYYMMDD and ISO strings are supported
+ */
+export function parseDateParam(param: string | undefined): string | undefined {
+    if (!param) return undefined
+    if (DATE_PATTERN.test(param)) return param
+    const date = new Date(param)
+    return isNaN(date.getTime()) ? undefined : formatDate(date)
+}
+
+/**
+ * @returns YYYYMM
+ */
+export function monthOf(date: string): string {
+    return date.substring(0, 6)
+}
+
+
+/**
+ * The first date of the period, weeks start on Monday, same as the lambda
+ *
+ * @param period day if absent
+ */
+export function periodOf(date: string, period: 'date' | 'week' | 'month' | undefined): string {
+    if (period === 'month') return monthOf(date) + '01'
+    if (period !== 'week') return date
+    const day = new Date(Date.UTC(+date.slice(0, 4), +date.slice(4, 6) - 1, +date.slice(6, 8)))
+    day.setUTCDate(day.getUTCDate() - (day.getUTCDay() + 6) % 7)
+    return formatDate(day)
+}
\ No newline at end of file
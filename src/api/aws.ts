@@ -5,7 +5,7 @@
  * https://opensource.org/licenses/MIT
  */
 
-import { fetchGet, fetchPost } from "./http"
+import { fetchDelete, fetchGet, fetchPost, fetchPut } from "./http"
 import { getContextLogger } from "@util/logger"
 
 export type AwsConfig = {
@@ -56,6 +56,98 @@ export type ClientsResponse = {
     clients: timer.backup.Client[]
 }
 
+/**
+ * @since 3.7.0
+ */
+export type DownloadResponse = {
+    success: boolean
+    data: {
+        host: string
+        date: string
+        focus: number
+        time: number
+        media?: number
+    }[]
+    count: number
+}
+
+/**
+ * @since 3.7.0
+ */
+export type AggregateRequest = {
+    /**
+     * YYYYMMDD
+     */
+    startDate: string
+    endDate: string
+    groupBy: timer.backup.AggregateGroup[]
+    clientIds?: string[]
+}
+
+export type AggregateResponse = {
+    success: boolean
+    data: {
+        clientId: string
+        host?: string
+        date?: string
+        focus: number
+        time: number
+        media?: number
+    }[]
+    count: number
+}
+
+/**
+ * @since 3.7.0
+ */
+export type ArchivesResponse = {
+    success: boolean
+    /**
+     * Archived months (YYYYMM) of each client
+     */
+    data: Record<string, string[]>
+}
+
+export type ArchiveResponse = {
+    success: boolean
+    data: {
+        host: string
+        date: string
+        focus: number
+        time: number
+        media?: number
+        lastModified?: number
+    }[]
+    count: number
+}
+
+export type RehydrateResponse = {
+    success: boolean
+    count: number
+}
+
+/**
+ * @since 3.7.0
+ */
+export type ClearResponse = {
+    success: boolean
+    /**
+     * Count of the deleted records and archives
+     */
+    count: number
+}
+
+/**
+ * @since 3.7.0
+ */
+export type CryptoMetaResponse = {
+    success: boolean
+    /**
+     * Absent if never encrypted
+     */
+    data?: timer.backup.CryptoMeta
+}
+
 const DEFAULT_HEADERS = {
     'Content-Type': 'application/json',
 }
@@ -141,6 +233,200 @@ export async function uploadData(config: AwsConfig, clientId: string, rows: time
 }
 
 
+/**
+ * Overwrite data rows of the client, without conflict resolution
+ *
+ * @since 3.7.0
+ */
+export async function updateData(config: AwsConfig, clientId: string, rows: timer.core.EnhancedRow[], batchId: string): Promise<SyncResponse> {
+    if (!config.apiEndpoint || !config.apiKey) {
+        throw new Error('AWS configuration incomplete: missing apiEndpoint or apiKey')
+    }
+
+    const baseUrl = config.apiEndpoint.endsWith('/') ? config.apiEndpoint.slice(0, -1) : config.apiEndpoint
+    const url = `${baseUrl}/data`
+    const headers = getHeaders(config, clientId)
+    const body: SyncRequest = { clientId, rows, batchId }
+
+    return await withRetry(async () => {
+        const response = await fetchPut(url, body, { headers })
+
+        if (!response.ok) {
+            const errorText = await response.text()
+            throw new Error(`Update failed: HTTP ${response.status} - ${errorText}`)
+        }
+
+        return await response.json()
+    })
+}
+
+/**
+ * Download the raw rows of the target client, reading both hot data and archives
+ *
+ * @param startDate YYYY-MM-DD, parsed as a date by the server
+ * @param endDate YYYY-MM-DD, inclusive
+ * @since 3.7.0
+ */
+export async function downloadData(
+    config: AwsConfig, clientId: string, targetClientId: string, startDate: string, endDate: string,
+): Promise<DownloadResponse> {
+    const baseUrl = config.apiEndpoint.endsWith('/') ? config.apiEndpoint.slice(0, -1) : config.apiEndpoint
+    const query = new URLSearchParams({ clientId: targetClientId, startDate, endDate })
+    const url = `${baseUrl}/data?${query.toString()}`
+    const headers = getHeaders(config, clientId)
+
+    return await withRetry(async () => {
+        const response = await fetchGet(url, { headers })
+
+        if (!response.ok) {
+            const errorText = await response.text()
+            throw new Error(`Download failed: HTTP ${response.status} - ${errorText}`)
+        }
+
+        return await response.json()
+    })
+}
+
+/**
+ * Totals of the clients grouped by the server, reading both hot data and archives
+ *
+ * @since 3.7.0
+ */
+export async function aggregateData(config: AwsConfig, clientId: string, request: AggregateRequest): Promise<AggregateResponse> {
+    const baseUrl = config.apiEndpoint.endsWith('/') ? config.apiEndpoint.slice(0, -1) : config.apiEndpoint
+    const { startDate, endDate, groupBy, clientIds } = request
+    const query = new URLSearchParams({ startDate, endDate, groupBy: groupBy.join(',') })
+    clientIds?.length && query.set('clientIds', clientIds.join(','))
+    const url = `${baseUrl}/aggregate?${query.toString()}`
+    const headers = getHeaders(config, clientId)
+
+    return await withRetry(async () => {
+        const response = await fetchGet(url, { headers })
+
+        if (!response.ok) {
+            const errorText = await response.text()
+            throw new Error(`Aggregate failed: HTTP ${response.status} - ${errorText}`)
+        }
+
+        return await response.json()
+    })
+}
+
+/**
+ * List the months archived in S3 of the clients, all clients if absent
+ *
+ * @since 3.7.0
+ */
+export async function listArchives(config: AwsConfig, clientId: string, clientIds?: string[]): Promise<ArchivesResponse> {
+    const baseUrl = config.apiEndpoint.endsWith('/') ? config.apiEndpoint.slice(0, -1) : config.apiEndpoint
+    const query = new URLSearchParams()
+    clientIds?.length && query.set('clientIds', clientIds.join(','))
+    const url = `${baseUrl}/archive?${query.toString()}`
+    const headers = getHeaders(config, clientId)
+
+    return await withRetry(async () => {
+        const response = await fetchGet(url, { headers })
+
+        if (!response.ok) {
+            const errorText = await response.text()
+            throw new Error(`List archives failed: HTTP ${response.status} - ${errorText}`)
+        }
+
+        return await response.json()
+    })
+}
+
+/**
+ * Fetch the records of one archived month, decompressed by the server
+ *
+ * @param month YYYYMM
+ * @since 3.7.0
+ */
+export async function fetchArchive(config: AwsConfig, clientId: string, targetClientId: string, month: string): Promise<ArchiveResponse> {
+    const baseUrl = config.apiEndpoint.endsWith('/') ? config.apiEndpoint.slice(0, -1) : config.apiEndpoint
+    const query = new URLSearchParams({ clientIds: targetClientId, month })
+    const url = `${baseUrl}/archive?${query.toString()}`
+    const headers = getHeaders(config, clientId)
+
+    return await withRetry(async () => {
+        const response = await fetchGet(url, { headers })
+
+        if (!response.ok) {
+            const errorText = await response.text()
+            throw new Error(`Fetch archive failed: HTTP ${response.status} - ${errorText}`)
+        }
+
+        return await response.json()
+    })
+}
+
+/**
+ * Copy the records of one archived month back into the hot table, so they can be edited
+ *
+ * @param month YYYYMM
+ * @since 3.7.0
+ */
+export async function rehydrateArchive(config: AwsConfig, clientId: string, targetClientId: string, month: string): Promise<RehydrateResponse> {
+    const baseUrl = config.apiEndpoint.endsWith('/') ? config.apiEndpoint.slice(0, -1) : config.apiEndpoint
+    const url = `${baseUrl}/archive`
+    const headers = getHeaders(config, clientId)
+
+    return await withRetry(async () => {
+        const response = await fetchPost(url, { clientId: targetClientId, month }, { headers })
+
+        if (!response.ok) {
+            const errorText = await response.text()
+            throw new Error(`Rehydrate failed: HTTP ${response.status} - ${errorText}`)
+        }
+
+        return await response.json()
+    })
+}
+
+/**
+ * Download the parameters of encryption shared by all the clients
+ *
+ * @since 3.7.0
+ */
+export async function downloadCryptoMeta(config: AwsConfig, clientId: string): Promise<CryptoMetaResponse> {
+    const baseUrl = config.apiEndpoint.endsWith('/') ? config.apiEndpoint.slice(0, -1) : config.apiEndpoint
+    const url = `${baseUrl}/crypto`
+    const headers = getHeaders(config, clientId)
+
+    return await withRetry(async () => {
+        const response = await fetchGet(url, { headers })
+
+        if (!response.ok) {
+            const errorText = await response.text()
+            throw new Error(`Download crypto meta failed: HTTP ${response.status} - ${errorText}`)
+        }
+
+        return await response.json()
+    })
+}
+
+/**
+ * Upload the parameters of encryption shared by all the clients
+ *
+ * @since 3.7.0
+ */
+export async function uploadCryptoMeta(config: AwsConfig, clientId: string, meta: timer.backup.CryptoMeta): Promise<CryptoMetaResponse> {
+    const baseUrl = config.apiEndpoint.endsWith('/') ? config.apiEndpoint.slice(0, -1) : config.apiEndpoint
+    const url = `${baseUrl}/crypto`
+    const headers = getHeaders(config, clientId)
+
+    return await withRetry(async () => {
+        const response = await fetchPut(url, meta, { headers })
+
+        if (!response.ok) {
+            const errorText = await response.text()
+            throw new Error(`Upload crypto meta failed: HTTP ${response.status} - ${errorText}`)
+        }
+
+        return await response.json()
+    })
+}
+
 /**
  * List all clients
  */
@@ -159,6 +445,51 @@ export async function listClients(config: AwsConfig, clientId: string): Promise<
     return await response.json()
 }
 
+/**
+ * Save the clients with their names, date ranges and whether retired, listed by {@link listClients} since then
+ *
+ * @since 3.7.0
+ */
+export async function updateClients(config: AwsConfig, clientId: string, clients: timer.backup.Client[]): Promise<ClientsResponse> {
+    const baseUrl = config.apiEndpoint.endsWith('/') ? config.apiEndpoint.slice(0, -1) : config.apiEndpoint
+    const url = `${baseUrl}/clients`
+    const headers = getHeaders(config, clientId)
+
+    return await withRetry(async () => {
+        const response = await fetchPut(url, { clients }, { headers })
+
+        if (!response.ok) {
+            const errorText = await response.text()
+            throw new Error(`Update clients failed: HTTP ${response.status} - ${errorText}`)
+        }
+
+        return await response.json()
+    })
+}
+
+/**
+ * Delete all the rows of the target client, both hot data and archives
+ *
+ * @since 3.7.0
+ */
+export async function clearData(config: AwsConfig, clientId: string, targetClientId: string): Promise<ClearResponse> {
+    const baseUrl = config.apiEndpoint.endsWith('/') ? config.apiEndpoint.slice(0, -1) : config.apiEndpoint
+    const query = new URLSearchParams({ clientId: targetClientId })
+    const url = `${baseUrl}/data?${query.toString()}`
+    const headers = getHeaders(config, clientId)
+
+    return await withRetry(async () => {
+        const response = await fetchDelete(url, { headers })
+
+        if (!response.ok) {
+            const errorText = await response.text()
+            throw new Error(`Clear failed: HTTP ${response.status} - ${errorText}`)
+        }
+
+        return await response.json()
+    })
+}
+
 /**
  * Test API connectivity and authentication
  */
@@ -10,12 +10,12 @@ export function setBadgeText(text: string, tabId: number | undefined): Promise<v
     }))
 }
 
-export function setBadgeBgColor(color: string | chrome.action.ColorArray | undefined): Promise<void> {
+export function setBadgeBgColor(color: string | chrome.action.ColorArray | undefined, tabId?: number): Promise<void> {
     let realColor: string | chrome.action.ColorArray = color ?? (
         // Use null to clear bg color for Firefox
         IS_FIREFOX ? null as unknown as string : [0, 0, 0, 0]
     )
-    return new Promise(resolve => action?.setBadgeBackgroundColor({ color: realColor }, () => {
+    return new Promise(resolve => action?.setBadgeBackgroundColor({ color: realColor, tabId }, () => {
         handleError('setBadgeColor')
         resolve()
     }))
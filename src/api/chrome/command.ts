@@ -0,0 +1,9 @@
+import { IS_ANDROID } from "@util/constant/environment"
+
+type CommandHandler = (command: string, tab?: ChromeTab) => void
+
+export function onCommand(handler: CommandHandler) {
+    // Shortcuts not supported for Android
+    if (IS_ANDROID) return
+    chrome.commands?.onCommand?.addListener(handler)
+}
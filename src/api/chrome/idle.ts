@@ -0,0 +1,18 @@
+type IdleStateHandler = (state: chrome.idle.IdleState) => void
+
+// The minimum interval allowed by the browser
+export const MIN_IDLE_INTERVAL = 15
+
+export function setIdleInterval(seconds: number) {
+    chrome.idle?.setDetectionInterval?.(Math.max(MIN_IDLE_INTERVAL, seconds))
+}
+
+export function queryIdleState(seconds: number): Promise<chrome.idle.IdleState> {
+    // Not supported for Android
+    if (!chrome.idle?.queryState) return Promise.resolve('active')
+    return new Promise(resolve => chrome.idle.queryState(Math.max(MIN_IDLE_INTERVAL, seconds), resolve))
+}
+
+export function onIdleStateChanged(handler: IdleStateHandler) {
+    chrome.idle?.onStateChanged?.addListener(handler)
+}
@@ -0,0 +1,28 @@
+import { handleError } from "./common"
+import { getUrl } from "./runtime"
+
+const ICON_URL = 'static/images/icon.png'
+
+/**
+ * @since 3.7.0
+ */
+export function createNotification(id: string, title: string, message: string): Promise<void> {
+    const options: chrome.notifications.NotificationCreateOptions = {
+        type: 'basic',
+        iconUrl: getUrl(ICON_URL),
+        title,
+        message,
+    }
+    return new Promise(resolve => {
+        try {
+            chrome.notifications.create(id, options, () => {
+                handleError('createNotification')
+                resolve()
+            })
+        } catch (e) {
+            // Permission not granted or API not supported
+            handleError('createNotification', e)
+            resolve()
+        }
+    })
+}
@@ -0,0 +1,104 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { getContextLogger } from "@util/logger"
+
+export type WebDAVContext = {
+    /**
+     * The root url of WebDAV, like https://cloud.example.com/remote.php/dav/files/user
+     */
+    endpoint: string
+    username: string
+    password: string
+}
+
+/**
+ * Base64 of UTF-8 bytes, since btoa only accepts Latin1
+ */
+function toBase64(str: string): string {
+    const binary = encodeURIComponent(str).replace(/%([0-9A-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    return btoa(binary)
+}
+
+function urlOf(context: WebDAVContext, path: string): string {
+    const endpoint = context.endpoint.endsWith('/') ? context.endpoint : context.endpoint + '/'
+    const encodedPath = path.split('/').map(encodeURIComponent).join('/')
+    return endpoint + encodedPath
+}
+
+async function request(context: WebDAVContext, method: string, path: string, init?: RequestInit): Promise<Response> {
+    const headers = {
+        ...init?.headers ?? {},
+        Authorization: `Basic ${toBase64(`${context.username}:${context.password}`)}`,
+    }
+    try {
+        return await fetch(urlOf(context, path), { ...init, method, headers })
+    } catch (e) {
+        getContextLogger().debug(`Failed to fetch ${method}`, e)
+        throw Error(e?.toString?.() ?? 'Unknown error')
+    }
+}
+
+function checkAuthorized(response: Response) {
+    const { status } = response
+    if (status === 401 || status === 403) throw new Error("Unauthorized, please check the username and password")
+}
+
+async function throwUnexpected(response: Response, operation: string): Promise<never> {
+    const text = await response.text().catch(() => '')
+    throw new Error(`Failed to ${operation}: HTTP ${response.status} ${text}`.trim())
+}
+
+/**
+ * @param dirPath path relative to the endpoint, ends with '/'
+ */
+export async function judgeDirExist(context: WebDAVContext, dirPath: string): Promise<boolean> {
+    const response = await request(context, 'PROPFIND', dirPath, { headers: { Depth: '0' } })
+    checkAuthorized(response)
+    if (response.status === 207 || response.ok) return true
+    if (response.status === 404) return false
+    return throwUnexpected(response, 'check directory')
+}
+
+/**
+ * Create the directory, nothing happens if it exists
+ */
+export async function makeDir(context: WebDAVContext, dirPath: string): Promise<void> {
+    const response = await request(context, 'MKCOL', dirPath)
+    checkAuthorized(response)
+    // 405 means the directory exists
+    if (response.ok || response.status === 405) return
+    await throwUnexpected(response, 'create directory')
+}
+
+export async function deleteDir(context: WebDAVContext, dirPath: string): Promise<void> {
+    const response = await request(context, 'DELETE', dirPath)
+    checkAuthorized(response)
+    if (response.ok || response.status === 404) return
+    await throwUnexpected(response, 'delete directory')
+}
+
+export async function writeFile(context: WebDAVContext, filePath: string, content: string): Promise<void> {
+    const response = await request(context, 'PUT', filePath, {
+        headers: { 'Content-Type': 'application/json' },
+        body: content,
+    })
+    checkAuthorized(response)
+    if (response.ok) return
+    await throwUnexpected(response, 'write file')
+}
+
+/**
+ * @returns undefined if not found
+ */
+export async function readFile(context: WebDAVContext, filePath: string): Promise<string | undefined> {
+    const response = await request(context, 'GET', filePath)
+    checkAuthorized(response)
+    if (response.status === 404) return undefined
+    if (response.ok) return response.text()
+    return throwUnexpected(response, 'read file')
+}
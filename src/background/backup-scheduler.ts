@@ -5,11 +5,13 @@
  * https://opensource.org/licenses/MIT
  */
 
-import processor from "@service/backup/processor"
+import processor, { type Result } from "@service/backup/processor"
 import optionHolder from "@service/components/option-holder"
+import syncHealthService from "@service/sync/sync-health-service"
 import { MILL_PER_MINUTE } from "@util/time"
 import { backgroundLogger } from "@util/logger"
 import alarmManager from "./alarm-manager"
+import MessageDispatcher from "./message-dispatcher"
 
 const ALARM_NAME = 'auto-backup-data'
 
@@ -20,9 +22,11 @@ class BackupScheduler {
      */
     interval: number = 0
 
-    init() {
+    init(dispatcher: MessageDispatcher) {
         optionHolder.get().then(opt => this.handleOption(opt))
         optionHolder.addChangeListener(opt => this.handleOption(opt))
+        // Backup in the background, exclusive with the real-time flush
+        dispatcher.register<boolean | undefined, Result<number>>('syncData', full => processor.syncData(full))
     }
 
     private handleOption(option: timer.option.BackupOption) {
@@ -44,6 +48,7 @@ class BackupScheduler {
         const result = await processor.syncData()
         if (!result.success) {
             backgroundLogger.debug(`Backup failed: ${result.errorMsg}`)
+            await syncHealthService.recordFailure('backup', result.errorMsg)
         }
     }
 }
@@ -11,11 +11,38 @@ import { getFocusedNormalWindow } from "@api/chrome/window"
 import statDatabase from "@db/stat-database"
 import optionHolder from "@service/components/option-holder"
 import whitelistHolder from "@service/components/whitelist-holder"
+import focusService, { calcEndTime } from "@service/focus-service"
+import pauseService from "@service/pause-service"
 import { IS_ANDROID } from "@util/constant/environment"
 import { extractHostname, isBrowserUrl } from "@util/pattern"
 import { MILL_PER_HOUR, MILL_PER_MINUTE, MILL_PER_SECOND } from "@util/time"
+import alarmManager from "./alarm-manager"
+import budgetProcessor from "./budget-processor"
 import MessageDispatcher from "./message-dispatcher"
 
+/**
+ * Color of badge if the budget of category is nearly exhausted
+ *
+ * @since 3.7.0
+ */
+const BUDGET_WARNING_COLOR = '#E6A23C'
+
+/**
+ * Color of badge while focusing
+ *
+ * @since 3.7.0
+ */
+const FOCUS_COLOR = '#F56C6C'
+
+/**
+ * Color of badge while tracking is paused globally
+ *
+ * @since 3.7.0
+ */
+const GLOBAL_PAUSE_COLOR = '#909399'
+
+const FOCUS_TICK_ALARM_NAME = 'focus-badge-tick'
+
 export type BadgeLocation = {
     /**
      * The tab id of badge text show display with
@@ -68,7 +95,14 @@ async function clearAllBadge(): Promise<void> {
     }
 }
 
-type BadgeState = 'HIDDEN' | 'NOT_SUPPORTED' | 'PAUSED' | 'TIME' | 'WHITELIST'
+async function clearAllBadgeColor(color: string | undefined): Promise<void> {
+    const tabs = await listTabs()
+    for (const tab of tabs ?? []) {
+        tab?.id && await setBadgeBgColor(color, tab.id)
+    }
+}
+
+type BadgeState = 'HIDDEN' | 'NOT_SUPPORTED' | 'PAUSED' | 'TIME' | 'WHITELIST' | 'FOCUS' | 'GLOBAL_PAUSED'
 
 interface BadgeManager {
     init(dispatcher: MessageDispatcher): void
@@ -80,12 +114,19 @@ class DefaultBadgeManager {
     current: BadgeLocation | undefined
     visible: boolean | undefined
     state: BadgeState | undefined
+    bgColor: string | undefined
+    focusSession: timer.focus.Session | undefined
+    globalPause: timer.pause.State | undefined
 
     async init(messageDispatcher: MessageDispatcher) {
         const option = await optionHolder.get()
         this.processOption(option)
         optionHolder.addChangeListener(opt => this.processOption(opt))
         whitelistHolder.addPostHandler(() => this.render())
+        focusService.addSessionChangeListener(session => this.processFocus(session))
+        this.processFocus(await focusService.getSession())
+        pauseService.addStateChangeListener(state => this.processGlobalPause(state))
+        this.processGlobalPause(await pauseService.getState())
         messageDispatcher
             .register('cs.idleChange', (isIdle, sender) => {
                 const tabId = sender?.tab?.id
@@ -116,15 +157,36 @@ class DefaultBadgeManager {
         await this.render()
     }
 
+    /**
+     * Show the countdown while focusing
+     */
+    private processFocus(session: timer.focus.Session | undefined) {
+        this.focusSession = session
+        session
+            ? alarmManager.setInterval(FOCUS_TICK_ALARM_NAME, MILL_PER_MINUTE, () => this.render())
+            : alarmManager.remove(FOCUS_TICK_ALARM_NAME)
+        this.render()
+    }
+
+    private processGlobalPause(state: timer.pause.State | undefined) {
+        this.globalPause = state
+        this.render()
+    }
+
     private processOption(option: timer.option.AppearanceOption) {
         const { displayBadgeText, badgeBgColor } = option || {}
         const before = this.visible
         this.visible = !!displayBadgeText
         !this.visible && before && clearAllBadge()
+        this.bgColor = badgeBgColor
         setBadgeBgColor(badgeBgColor)
     }
 
     private async render(): Promise<void> {
+        if ((this.state === 'FOCUS' && !this.focusSession) || (this.state === 'GLOBAL_PAUSED' && !this.globalPause)) {
+            // Restore the color after focus session or global pause ended
+            await clearAllBadgeColor(this.bgColor)
+        }
         this.state = await this.processState()
     }
 
@@ -134,6 +196,17 @@ class DefaultBadgeManager {
             this.state !== 'HIDDEN' && setBadgeText('', tabId)
             return 'HIDDEN'
         }
+        if (this.globalPause) {
+            setBadgeText('OFF', tabId)
+            tabId && setBadgeBgColor(GLOBAL_PAUSE_COLOR, tabId)
+            return 'GLOBAL_PAUSED'
+        }
+        if (this.focusSession) {
+            const remaining = Math.max(0, calcEndTime(this.focusSession) - Date.now())
+            setBadgeText(`${Math.ceil(remaining / MILL_PER_MINUTE)}m`, tabId)
+            tabId && setBadgeBgColor(FOCUS_COLOR, tabId)
+            return 'FOCUS'
+        }
         if (isBrowserUrl(url)) {
             this.state !== 'NOT_SUPPORTED' && setBadgeText('∅', tabId)
             return 'NOT_SUPPORTED'
@@ -149,6 +222,8 @@ class DefaultBadgeManager {
         }
         const milliseconds = focus || (host ? (await statDatabase.get(host, new Date())).focus : undefined)
         setBadgeTextOfMills(milliseconds, tabId)
+        const budgetLevel = budgetProcessor.getLevel(host)
+        tabId && setBadgeBgColor(budgetLevel === 'none' ? this.bgColor : BUDGET_WARNING_COLOR, tabId)
         return 'TIME'
     }
 }
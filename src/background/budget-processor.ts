@@ -0,0 +1,146 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { createNotification } from "@api/chrome/notifications"
+import { createTab, listTabs, sendMsg2Tab } from "@api/chrome/tab"
+import { BUDGET_ROUTE } from "@app/router/constants"
+import siteDatabase from "@db/site-database"
+import { t2Chrome } from "@i18n/chrome/t"
+import budgetService from "@service/budget-service"
+import { calcLevel, compareLevel, mostUsed } from "@util/budget"
+import { getAppPageUrl } from "@util/constant/url"
+import { extractHostname } from "@util/pattern"
+import { formatPeriodCommon, formatTimeYMD, getStartOfDay, MILL_PER_DAY } from "@util/time"
+import alarmManager from "./alarm-manager"
+import MessageDispatcher from "./message-dispatcher"
+
+const RESET_ALARM_NAME = 'budget-daily-reset'
+
+async function broadcast(code: timer.mq.ReqCode) {
+    const tabs = await listTabs()
+    for (const { id } of tabs) {
+        try {
+            id && await sendMsg2Tab(id, code)
+        } catch { }
+    }
+}
+
+function notify(status: timer.budget.Status) {
+    const { cateId, cateName } = status
+    const usage = mostUsed(status)
+    if (!usage) return
+    const message = t2Chrome(msg => msg.notification.budgetMessage)
+        .replace('{cate}', cateName)
+        .replace('{spent}', formatPeriodCommon(usage.spent))
+        .replace('{quota}', formatPeriodCommon(usage.quota))
+    createNotification(`budget_${cateId}_${formatTimeYMD(Date.now())}`, t2Chrome(msg => msg.notification.budgetTitle), message)
+}
+
+/**
+ * Check the focus time against the budgets of categories
+ *
+ * @since 3.7.0
+ */
+class BudgetProcessor {
+    private statuses: Record<number, timer.budget.Status> | undefined
+    private date: string | undefined
+    private cateOfHost: Record<string, number | undefined> = {}
+    /**
+     * Categories notified today
+     */
+    private notified: Set<number> = new Set()
+
+    init(dispatcher: MessageDispatcher) {
+        dispatcher
+            .register<string, timer.budget.Status[]>('cs.getBlockedBudgets', url => this.listBlocked(url))
+            .register<void, void>('cs.openBudget', (_, sender) => {
+                const tabIndex = sender?.tab?.index
+                createTab({ url: getAppPageUrl(BUDGET_ROUTE), index: tabIndex ? tabIndex + 1 : undefined })
+            })
+        budgetService.addChangeListener(() => this.reset(true))
+        siteDatabase.addChangeListener(changes => changes.some(([o, n]) => o?.cate !== n?.cate) && this.reset(true))
+        alarmManager.setWhen(
+            RESET_ALARM_NAME,
+            () => getStartOfDay(new Date()).getTime() + MILL_PER_DAY,
+            () => this.reset(true),
+        )
+    }
+
+    private reset(needBroadcast: boolean) {
+        this.statuses = undefined
+        this.cateOfHost = {}
+        needBroadcast && broadcast('budgetChanged')
+    }
+
+    private async getStatuses(): Promise<Record<number, timer.budget.Status>> {
+        const today = formatTimeYMD(Date.now())
+        if (this.date !== today) {
+            this.date = today
+            this.statuses = undefined
+            this.notified.clear()
+        }
+        if (!this.statuses) {
+            const list = await budgetService.listStatus()
+            this.statuses = Object.fromEntries(list.map(s => [s.cateId, s]))
+        }
+        return this.statuses
+    }
+
+    private async getCate(host: string): Promise<number | undefined> {
+        if (!(host in this.cateOfHost)) {
+            this.cateOfHost[host] = await budgetService.getCateOfHost(host)
+        }
+        return this.cateOfHost[host]
+    }
+
+    private async getStatusOf(host: string | undefined): Promise<timer.budget.Status | undefined> {
+        if (!host) return undefined
+        const cateId = await this.getCate(host)
+        if (!cateId) return undefined
+        const statuses = await this.getStatuses()
+        return statuses[cateId]
+    }
+
+    /**
+     * Called after the focus time of one tab is saved
+     */
+    async process(host: string, focusTime: number, tabId: number | undefined): Promise<void> {
+        const status = await this.getStatusOf(host)
+        if (!status) return
+        const { daily, weekly } = status
+        daily && (daily.spent += focusTime)
+        weekly && (weekly.spent += focusTime)
+        status.level = calcLevel(status)
+
+        if (compareLevel(status.level, 'notify') >= 0 && !this.notified.has(status.cateId)) {
+            this.notified.add(status.cateId)
+            notify(status)
+        }
+        if (status.level === 'block' && tabId) {
+            try {
+                await sendMsg2Tab(tabId, 'budgetExceeded', [status])
+            } catch { }
+        }
+    }
+
+    /**
+     * Level of the host, used to render the badge
+     */
+    getLevel(host: string | undefined): timer.budget.Level {
+        if (!host) return 'none'
+        const cateId = this.cateOfHost[host]
+        return (cateId && this.statuses?.[cateId]?.level) || 'none'
+    }
+
+    private async listBlocked(url: string): Promise<timer.budget.Status[]> {
+        const { host } = extractHostname(url) || {}
+        const status = await this.getStatusOf(host)
+        return status?.level === 'block' ? [status] : []
+    }
+}
+
+export default new BudgetProcessor()
@@ -0,0 +1,67 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { onCommand } from "@api/chrome/command"
+import { createNotification } from "@api/chrome/notifications"
+import { t2Chrome } from "@i18n/chrome/t"
+import pauseService from "@service/pause-service"
+import { extractHostname, isBrowserUrl } from "@util/pattern"
+import { openAnalysisPage } from "./content-script-handler"
+import { openSidePanel } from "./side-panel"
+import { toggleWhitelist } from "./whitelist-menu-manager"
+
+/**
+ * Names of the commands declared in the manifest
+ */
+type Command = 'togglePause' | 'toggleWhitelist' | 'openSidePanel' | 'openAnalysis'
+
+const notifyNoSite = () => createNotification(
+    'command_no_site',
+    t2Chrome(msg => msg.meta.name),
+    t2Chrome(msg => msg.notification.noSiteMessage),
+)
+
+async function handleTogglePause() {
+    const paused = await pauseService.toggle()
+    createNotification(
+        'command_pause',
+        t2Chrome(msg => msg.notification[paused ? 'pauseTitle' : 'resumeTitle']),
+        t2Chrome(msg => msg.notification[paused ? 'pauseMessage' : 'resumeMessage']),
+    )
+}
+
+async function handleToggleWhitelist(tab: ChromeTab | undefined) {
+    const url = tab?.url
+    const host = url && !isBrowserUrl(url) ? extractHostname(url).host : undefined
+    if (!host) return notifyNoSite()
+    const added = await toggleWhitelist(host)
+    const message = t2Chrome(msg => msg.notification[added ? 'whitelistAdded' : 'whitelistRemoved']).replace('{host}', host)
+    createNotification('command_whitelist', t2Chrome(msg => msg.notification.whitelistTitle), message)
+}
+
+function handleOpenAnalysis(tab: ChromeTab | undefined) {
+    const url = tab?.url
+    if (!url || isBrowserUrl(url)) return notifyNoSite()
+    openAnalysisPage(url, tab)
+}
+
+const HANDLERS: Record<Command, (tab: ChromeTab | undefined) => Promise<void> | void> = {
+    togglePause: handleTogglePause,
+    toggleWhitelist: handleToggleWhitelist,
+    // Must be opened synchronously, or the user gesture is lost
+    openSidePanel: tab => openSidePanel(tab?.windowId),
+    openAnalysis: handleOpenAnalysis,
+}
+
+/**
+ * Handle the keyboard shortcuts
+ *
+ * @since 3.7.0
+ */
+export default function initCommandManager() {
+    onCommand((command, tab) => HANDLERS[command as Command]?.(tab))
+}
@@ -18,8 +18,12 @@ import badgeManager from "./badge-manager"
 import { collectIconAndAlias } from "./icon-and-alias-collector"
 import MessageDispatcher from "./message-dispatcher"
 
-const handleOpenAnalysisPage = (sender: ChromeMessageSender) => {
-    const { tab, url } = sender || {}
+/**
+ * Open the analysis page of the site next to the tab
+ *
+ * @since 3.7.0
+ */
+export const openAnalysisPage = (url: string | undefined, tab: ChromeTab | undefined) => {
     if (!url) return
     const host = extractFileHost(url) || extractHostname(url)?.host
     const newTabUrl = getAppPageUrl(ANALYSIS_ROUTE, { host })
@@ -29,6 +33,8 @@ const handleOpenAnalysisPage = (sender: ChromeMessageSender) => {
     createTab({ url: newTabUrl, index: newTabIndex })
 }
 
+const handleOpenAnalysisPage = (sender: ChromeMessageSender) => openAnalysisPage(sender?.url, sender?.tab)
+
 
 const handleInjected = async (sender: ChromeMessageSender) => {
     const tabId = sender?.tab?.id
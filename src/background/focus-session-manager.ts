@@ -0,0 +1,76 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { createNotification } from "@api/chrome/notifications"
+import { t2Chrome } from "@i18n/chrome/t"
+import focusService, { calcEndTime } from "@service/focus-service"
+import alarmManager from "./alarm-manager"
+
+const END_ALARM_NAME = 'focus-session-end'
+
+function notifyCompleted(record: timer.focus.Record) {
+    const { duration, distractions, start } = record
+    const message = t2Chrome(msg => msg.notification.focusMessage)
+        .replace('{duration}', duration.toString())
+        .replace('{count}', distractions.length.toString())
+    createNotification(`focus_${start}`, t2Chrome(msg => msg.notification.focusTitle), message)
+}
+
+/**
+ * Run the timer of focus sessions
+ *
+ * @since 3.7.0
+ */
+class FocusSessionManager {
+    private focusedHost: string | undefined
+
+    async init() {
+        focusService.addSessionChangeListener(session => this.schedule(session))
+        const session = await focusService.getSession()
+        this.schedule(session)
+    }
+
+    private schedule(session: timer.focus.Session | undefined) {
+        // Remove first, since alarm manager only updates the config if existed
+        alarmManager.remove(END_ALARM_NAME)
+        if (!session) return
+        const endTime = calcEndTime(session)
+        if (endTime <= Date.now()) {
+            // Ended while the browser was closed
+            this.complete()
+            return
+        }
+        alarmManager.setWhen(END_ALARM_NAME, () => endTime, () => this.complete())
+    }
+
+    private async complete() {
+        alarmManager.remove(END_ALARM_NAME)
+        const record = await focusService.complete()
+        record && notifyCompleted(record)
+    }
+
+    /**
+     * Called when the visit of one site is counted
+     */
+    async processVisit(host: string): Promise<void> {
+        this.focusedHost = host
+        await focusService.recordVisit(host)
+    }
+
+    /**
+     * Called when one site is focused, by switching tabs or browsing
+     *
+     * Only recorded when switched to another site, not every second of browsing
+     */
+    async processFocus(host: string | undefined): Promise<void> {
+        if (!host || host === this.focusedHost) return
+        this.focusedHost = host
+        await focusService.recordVisit(host)
+    }
+}
+
+export default new FocusSessionManager()
@@ -7,6 +7,7 @@
 
 import { getTab } from "@api/chrome/tab"
 import optionDatabase from "@db/option-database"
+import cateRuleService from "@service/cate-rule-service"
 import siteService from "@service/site-service"
 import { IS_ANDROID, IS_CHROME, IS_SAFARI } from "@util/constant/environment"
 import { defaultStatistics } from "@util/constant/option"
@@ -31,6 +32,14 @@ async function collectAlias(key: timer.site.SiteKey, tabTitle: string) {
     siteName && await siteService.saveAlias(key, siteName, true)
 }
 
+function extractPath(url: string): string | undefined {
+    try {
+        return new URL(url).pathname
+    } catch {
+        return undefined
+    }
+}
+
 /**
  * Process the tab
  */
@@ -44,11 +53,14 @@ async function processTabInfo(tab: ChromeTab): Promise<void> {
     // localhost hosts with Chrome use cache, so keep the favIcon url undefined
     IS_CHROME && /^localhost(:.+)?/.test(host) && (favIconUrl = undefined)
     const siteKey: timer.site.SiteKey = { host, type: 'normal' }
+    const isNew = !await siteService.exist(siteKey)
     favIconUrl && await siteService.saveIconUrl(siteKey, favIconUrl)
     collectAliasEnabled
         && !isBrowserUrl(url)
         && isHomepage(url)
         && await collectAlias(siteKey, title)
+    // Categorize the site seen first time with rules
+    isNew && await cateRuleService.categorize(siteKey, extractPath(url), title)
 }
 
 /**
@@ -0,0 +1,47 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { onIdleStateChanged, queryIdleState, setIdleInterval } from "@api/chrome/idle"
+import optionHolder from "@service/components/option-holder"
+
+/**
+ * Detect idle by the browser, which also notices the screen locks
+ *
+ * @since 3.7.0
+ */
+class IdleManager {
+    private state: chrome.idle.IdleState = 'active'
+    private enabled: boolean = false
+    private countAudible: boolean = true
+
+    async init() {
+        onIdleStateChanged(state => this.state = state)
+        await this.processOption(await optionHolder.get())
+        optionHolder.addChangeListener(option => this.processOption(option))
+    }
+
+    private async processOption({ idleDetection, idleInterval, countAudible }: timer.option.StatisticsOption) {
+        this.enabled = !!idleDetection
+        this.countAudible = !!countAudible
+        if (!this.enabled) return
+        setIdleInterval(idleInterval)
+        // The state before this worker started
+        this.state = await queryIdleState(idleInterval)
+    }
+
+    /**
+     * Whether to stop the focus accrual of the tab
+     */
+    isIdle(tab: ChromeTab | undefined): boolean {
+        if (!this.enabled || this.state === 'active') return false
+        // Still watching videos, but never counted if locked
+        if (this.state === 'idle' && this.countAudible && tab?.audible) return false
+        return true
+    }
+}
+
+export default new IdleManager()
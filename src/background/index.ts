@@ -13,17 +13,24 @@ import { openLog } from "../common/logger"
 import ActiveTabListener from "./active-tab-listener"
 import BackupScheduler from "./backup-scheduler"
 import badgeTextManager from "./badge-manager"
+import budgetProcessor from "./budget-processor"
 import initBrowserAction from "./browser-action-manager"
+import initCommandManager from "./command-manager"
 import initCsHandler from "./content-script-handler"
 import initDataCleaner from "./data-cleaner"
+import focusSessionManager from "./focus-session-manager"
+import idleManager from "./idle-manager"
 import handleInstall from "./install-handler"
+import initLimitProcessor from "./limit-processor"
 import MessageDispatcher from "./message-dispatcher"
 import VersionMigrator from "./migrator"
+import pauseManager from "./pause-manager"
+import RealtimeSyncScheduler from "./realtime-sync-scheduler"
+import initRemoteCacheInvalidator from "./remote-cache-invalidator"
 import initSidePanel from "./side-panel"
+import initSyncStatusRecorder from "./sync-status-recorder"
 import initTrackServer from "./track-server"
 import initWhitelistMenuManager from "./whitelist-menu-manager"
-// Initialize sync integration for AWS real-time sync
-import "@service/sync/sync-integration"
 
 // Open the log of console
 openLog()
@@ -46,21 +53,49 @@ initCsHandler(messageDispatcher)
 // Start server
 initTrackServer(messageDispatcher)
 
+// Daily limits
+initLimitProcessor(messageDispatcher)
+
+// Budgets of categories
+budgetProcessor.init(messageDispatcher)
+
+// Focus sessions
+focusSessionManager.init()
+
+// Resume the timed pause of tracking
+pauseManager.init()
+
+// Stop tracking while idle or the screen locked
+idleManager.init()
+
 // Process version
 new VersionMigrator().init()
 
 // Backup scheduler
-new BackupScheduler().init()
+new BackupScheduler().init(messageDispatcher)
+
+// Push the tracked increments in real time
+new RealtimeSyncScheduler().init()
+
+// Keep the cache of remote data fresh
+initRemoteCacheInvalidator()
+
+// Record the state of real-time connection
+initSyncStatusRecorder()
 
 // Manage the context menus
 initWhitelistMenuManager()
 
+// Keyboard shortcuts
+initCommandManager()
+
 // Badge manager
 badgeTextManager.init(messageDispatcher)
 
 // Listen to tab active changed
 new ActiveTabListener()
     .register(({ url, tabId }) => badgeTextManager.updateFocus({ url, tabId }))
+    .register(({ host }) => focusSessionManager.processFocus(host))
     .listen()
 
 handleInstall()
@@ -0,0 +1,64 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { createTab, listTabs, sendMsg2Tab } from "@api/chrome/tab"
+import { LIMIT_ROUTE } from "@app/router/constants"
+import limitService from "@service/limit-service"
+import { getAppPageUrl } from "@util/constant/url"
+import { getStartOfDay, MILL_PER_DAY } from "@util/time"
+import alarmManager from "./alarm-manager"
+import MessageDispatcher from "./message-dispatcher"
+
+const WAKE_ALARM_NAME = 'limit-daily-waking'
+
+async function broadcast(code: timer.mq.ReqCode) {
+    const tabs = await listTabs()
+    for (const { id } of tabs) {
+        try {
+            id && await sendMsg2Tab(id, code)
+        } catch { }
+    }
+}
+
+/**
+ * Called after the focus time of one tab is saved
+ */
+export async function processLimit(url: string, focusTime: number, tabId: number | undefined): Promise<void> {
+    const limited = await limitService.addFocusTime(url, focusTime)
+    if (!limited.length || !tabId) return
+    try {
+        await sendMsg2Tab(tabId, 'limitTimeMeet', limited)
+    } catch { }
+}
+
+const handleOpenLimitPage = (sender: ChromeMessageSender) => {
+    const tabIndex = sender?.tab?.index
+    createTab({ url: getAppPageUrl(LIMIT_ROUTE), index: tabIndex ? tabIndex + 1 : undefined })
+}
+
+async function moreMinutes(ruleId: number, sender: ChromeMessageSender): Promise<timer.limit.Item> {
+    const url = sender?.tab?.url ?? sender?.url ?? ''
+    return limitService.moreMinutes(ruleId, url)
+}
+
+export default function initLimitProcessor(dispatcher: MessageDispatcher) {
+    dispatcher
+        .register<string, timer.limit.Item[]>('cs.getLimitedRules', url => limitService.listLimited(url))
+        .register<string, timer.limit.Item[]>('cs.getRelatedRules', url => limitService.listRelated(url))
+        .register<number, timer.limit.Item>('cs.moreMinutes', (ruleId, sender) => moreMinutes(ruleId, sender))
+        .register<void, void>('cs.openLimit', (_, sender) => handleOpenLimitPage(sender))
+        .register<void, void>('openLimitPage', (_, sender) => handleOpenLimitPage(sender))
+
+    // Rules changed, so let content scripts re-check
+    limitService.addRuleChangeListener(() => broadcast('limitChanged'))
+    // New day comes, so unblock the pages
+    alarmManager.setWhen(
+        WAKE_ALARM_NAME,
+        () => getStartOfDay(new Date()).getTime() + MILL_PER_DAY,
+        () => broadcast('limitWaking'),
+    )
+}
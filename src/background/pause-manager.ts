@@ -0,0 +1,44 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import pauseService from "@service/pause-service"
+import alarmManager from "./alarm-manager"
+
+const RESUME_ALARM_NAME = 'pause-resume'
+
+/**
+ * Resume tracking when the timed pause ends
+ *
+ * @since 3.7.0
+ */
+class PauseManager {
+    async init() {
+        pauseService.addStateChangeListener(state => this.schedule(state))
+        // Ended while the browser was closed
+        !await pauseService.isPaused() && await pauseService.resume()
+        this.schedule(await pauseService.getState())
+    }
+
+    private schedule(state: timer.pause.State | undefined) {
+        // Remove first, since alarm manager only updates the config if existed
+        alarmManager.remove(RESUME_ALARM_NAME)
+        const until = state?.until
+        if (!until) return
+        if (until <= Date.now()) {
+            this.resume()
+            return
+        }
+        alarmManager.setWhen(RESUME_ALARM_NAME, () => until, () => this.resume())
+    }
+
+    private async resume() {
+        alarmManager.remove(RESUME_ALARM_NAME)
+        await pauseService.resume()
+    }
+}
+
+export default new PauseManager()
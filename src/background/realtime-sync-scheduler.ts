@@ -0,0 +1,56 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import optionHolder from "@service/components/option-holder"
+import { backgroundSyncService } from "@service/sync/background-sync-service"
+import { MILL_PER_MINUTE, MILL_PER_SECOND } from "@util/time"
+import alarmManager from "./alarm-manager"
+
+const ALARM_NAME = 'realtime-sync-flush'
+
+/**
+ * Delay to coalesce the increments before flushing
+ */
+const FLUSH_DELAY = 10 * MILL_PER_SECOND
+
+class RealtimeSyncScheduler {
+    enabled = false
+    private flushTimeout: NodeJS.Timeout | undefined
+
+    init() {
+        optionHolder.get().then(opt => this.handleOption(opt))
+        optionHolder.addChangeListener(opt => this.handleOption(opt))
+        backgroundSyncService.addQueueChangeListener(() => this.scheduleFlush())
+    }
+
+    private handleOption(option: timer.option.BackupOption) {
+        this.enabled = option?.backupType === 'aws'
+        if (this.enabled) {
+            // Flush the rows left by the last run of service worker, and retry after backing off
+            alarmManager.setInterval(ALARM_NAME, MILL_PER_MINUTE, () => this.flush())
+            this.scheduleFlush()
+        } else {
+            alarmManager.remove(ALARM_NAME)
+        }
+    }
+
+    private scheduleFlush() {
+        if (!this.enabled || this.flushTimeout) return
+        this.flushTimeout = setTimeout(() => {
+            this.flushTimeout = undefined
+            this.flush()
+        }, FLUSH_DELAY)
+    }
+
+    private flush() {
+        // Not to count the failures while offline
+        if (!navigator.onLine) return
+        backgroundSyncService.flush()
+    }
+}
+
+export default RealtimeSyncScheduler
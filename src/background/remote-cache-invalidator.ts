@@ -0,0 +1,31 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import remoteCacheDb from "@db/remote-cache-database"
+import { hybridSyncManager } from "@service/sync/hybrid-sync-manager"
+
+type DataUpdatedEvent = {
+    // Pushed by websocket
+    clientId?: string
+    // Found by polling
+    rows?: timer.backup.Row[]
+}
+
+/**
+ * Drop the cached rows of the clients which uploaded new data
+ */
+function handleDataUpdated(event: DataUpdatedEvent): Promise<void> {
+    const { clientId, rows } = event ?? {}
+    if (clientId) return remoteCacheDb.invalidate(clientId)
+    const cids = Array.from(new Set(rows?.map(r => r.cid).filter((cid): cid is string => !!cid)))
+    // Unknown clients, so drop all
+    return remoteCacheDb.invalidate(...cids)
+}
+
+export default function initRemoteCacheInvalidator() {
+    hybridSyncManager.on('data-updated', handleDataUpdated)
+}
@@ -5,9 +5,23 @@
  * https://opensource.org/licenses/MIT
  */
 
-import { IS_MV3 } from "@util/constant/environment"
+import { handleError } from "@api/chrome/common"
+import { IS_FIREFOX, IS_MV3 } from "@util/constant/environment"
 
 export default function initSidePanel() {
     if (!IS_MV3) return
     chrome.sidePanel?.setOptions?.({ path: "/static/side.html" })
+}
+
+/**
+ * Open the side panel, or the sidebar of Firefox, must be called with user gestures
+ *
+ * @since 3.7.0
+ */
+export async function openSidePanel(windowId: number | undefined): Promise<void> {
+    if (IS_FIREFOX) {
+        await browser.sidebarAction.open()
+    } else if (windowId !== undefined) {
+        await chrome.sidePanel?.open?.({ windowId }).catch(e => handleError('openSidePanel', e))
+    }
 }
\ No newline at end of file
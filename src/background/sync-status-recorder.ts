@@ -0,0 +1,41 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { hybridSyncManager } from "@service/sync/hybrid-sync-manager"
+import syncHealthService from "@service/sync/sync-health-service"
+
+const METHODS: timer.backup.ConnectionStatus['method'][] = ['websocket', 'polling', 'error', 'none']
+
+type SyncStatusEvent = {
+    connected?: boolean
+    method?: string
+    error?: unknown
+}
+
+const errorMsgOf = (error: unknown): string | undefined => {
+    if (!error) return undefined
+    return (error as Error)?.message ?? String(error)
+}
+
+async function handleSyncStatus(event: SyncStatusEvent): Promise<void> {
+    const { connected, method, error } = event ?? {}
+    if (!METHODS.includes(method as timer.backup.ConnectionStatus['method'])) return
+    const errorMsg = errorMsgOf(error)
+    await syncHealthService.updateConnection({
+        connected: !!connected,
+        method: method as timer.backup.ConnectionStatus['method'],
+        error: errorMsg,
+    })
+    method === 'error' && await syncHealthService.recordFailure('websocket', errorMsg)
+}
+
+/**
+ * Keep the connection state emitted by the sync manager, so the status page can show it
+ */
+export default function initSyncStatusRecorder() {
+    hybridSyncManager.on('sync-status', handleSyncStatus)
+}
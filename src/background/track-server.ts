@@ -1,29 +1,56 @@
 import { getTab, listTabs, sendMsg2Tab } from "@api/chrome/tab"
 import { getWindow } from "@api/chrome/window"
 import optionHolder from "@service/components/option-holder"
+import pauseService from "@service/pause-service"
 import whitelistHolder from "@service/components/whitelist-holder"
 import itemService, { type ItemIncContext } from "@service/item-service"
 import periodService from "@service/period-service"
 import { IS_ANDROID } from "@util/constant/environment"
 import { extractHostname } from "@util/pattern"
+import { isInSchedule, splitBySchedule } from "@util/schedule"
 import { formatTimeYMD, getStartOfDay, MILL_PER_DAY } from "@util/time"
 import badgeManager from "./badge-manager"
+import budgetProcessor from "./budget-processor"
+import focusSessionManager from "./focus-session-manager"
+import idleManager from "./idle-manager"
+import { processLimit } from "./limit-processor"
 import MessageDispatcher from "./message-dispatcher"
 
+/**
+ * Split the time range by the tracking schedule
+ *
+ * @returns the time to save, and its part out of the schedule
+ */
+async function splitSchedule(start: number, end: number): Promise<[saved: number, offHours: number]> {
+    const { trackSchedule, scheduleWindows, offHoursMode } = await optionHolder.get()
+    if (!trackSchedule) return [end - start, 0]
+    const [inHours, offHours] = splitBySchedule(scheduleWindows, start, end)
+    return offHoursMode === 'drop' ? [inHours, 0] : [inHours + offHours, offHours]
+}
+
 async function handleTime(context: ItemIncContext, timeRange: [number, number], tabId: number | undefined): Promise<number> {
     const { host, url } = context
     const [start, end] = timeRange
     const focusTime = end - start
-    // 1. Save async
-    await itemService.addFocusTime(context, focusTime)
-    // 2. Add period time
-    await periodService.add(start, focusTime)
+    const [savedTime, offTime] = await splitSchedule(start, end)
+    if (savedTime) {
+        // 1. Save async
+        await itemService.addFocusTime(context, savedTime, offTime)
+        // 2. Add period time
+        await periodService.add(start, savedTime)
+    }
+    // 3. Process limit, not affected by the schedule
+    await processLimit(url, focusTime, tabId)
+    // 4. Process budget of category, with the saved time which the spent time is reloaded from
+    await budgetProcessor.process(host, savedTime, tabId)
     return focusTime
 }
 
 async function handleTrackTimeEvent(event: timer.core.Event, sender: ChromeMessageSender): Promise<void> {
     const { url, start, end, ignoreTabCheck } = event
     const { id: tabId, windowId, groupId } = sender?.tab || {}
+    if (await pauseService.isPaused()) return
+    if (idleManager.isIdle(sender?.tab)) return
     if (!ignoreTabCheck) {
         if (await windowNotFocused(windowId)) return
         if (await tabNotActive(tabId)) return
@@ -35,6 +62,7 @@ async function handleTrackTimeEvent(event: timer.core.Event, sender: ChromeMessa
     if (whitelistHolder.contains(host, url)) return
 
     await handleTime({ host, url, groupId }, [start, end], tabId)
+    await focusSessionManager.processFocus(host)
     if (tabId) {
         const winTabs = await listTabs({ active: true, windowId })
         const firstActiveTab = winTabs?.[0]
@@ -59,29 +87,40 @@ async function tabNotActive(tabId: number | undefined): Promise<boolean> {
 }
 
 
-async function handleVisit(context: ItemIncContext) {
-    await itemService.increaseVisit(context)
+async function handleVisit(context: ItemIncContext, offHours: boolean) {
+    await itemService.increaseVisit(context, offHours)
+    await focusSessionManager.processVisit(context.host)
 }
 
 async function handleIncVisitEvent(param: { host: string, url: string }, sender: ChromeMessageSender): Promise<void> {
     const { host, url } = param || {}
     const { groupId } = sender?.tab ?? {}
+    if (await pauseService.isPaused()) return
     const { protocol } = extractHostname(url) || {}
     const option = await optionHolder.get()
     if (protocol === "file" && !option.countLocalFiles) return
-    await handleVisit({ host, url, groupId })
+    const { trackSchedule, scheduleWindows, offHoursMode } = option
+    const offHours = trackSchedule && !isInSchedule(scheduleWindows, Date.now())
+    if (offHours && offHoursMode === 'drop') return
+    await handleVisit({ host, url, groupId }, offHours)
 }
 
-function splitRunTime(start: number, end: number): Record<string, number> {
+/**
+ * @returns the run or media time to save of each date, and the parts out of the schedule
+ */
+async function splitRunTime(start: number, end: number): Promise<[Record<string, number>, Record<string, number>]> {
     const res: Record<string, number> = {}
+    const offRes: Record<string, number> = {}
     while (start < end) {
         const startOfNextDay = getStartOfDay(start).getTime() + MILL_PER_DAY
         const newStart = Math.min(end, startOfNextDay)
-        const runTime = newStart - start
-        runTime && (res[formatTimeYMD(start)] = runTime)
+        const [runTime, offTime] = await splitSchedule(start, newStart)
+        const date = formatTimeYMD(start)
+        runTime && (res[date] = runTime)
+        offTime && (offRes[date] = offTime)
         start = newStart
     }
-    return res
+    return [res, offRes]
 }
 
 const RUN_TIME_END_CACHE: { [host: string]: number } = {}
@@ -90,11 +129,38 @@ async function handleTrackRunTimeEvent(event: timer.core.Event): Promise<void> {
     const { start, end, url, host } = event || {}
     if (!host || !start || !end) return
     if (whitelistHolder.contains(host, url)) return
+    if (await pauseService.isPaused()) return
     const realStart = Math.max(RUN_TIME_END_CACHE[host] ?? 0, start)
-    const byDate = splitRunTime(realStart, end)
-    if (!Object.keys(byDate).length) return
-    await itemService.addRunTime(host, byDate)
+    const [byDate, offByDate] = await splitRunTime(realStart, end)
+    // Update the cache even if all dropped by the schedule
     RUN_TIME_END_CACHE[host] = Math.max(end, realStart)
+    if (!Object.keys(byDate).length) return
+    await itemService.addRunTime(host, byDate, offByDate)
+}
+
+const MEDIA_END_CACHE: { [tabId: number]: number } = {}
+
+/**
+ * Media played in any frame of the tab, counted only once, whether focused or not
+ *
+ * @since 3.7.0
+ */
+async function handleTrackMediaEvent(event: timer.core.Event, sender: ChromeMessageSender): Promise<void> {
+    const { start, end } = event || {}
+    const { id: tabId, url, audible } = sender?.tab || {}
+    if (!tabId || !url || !start || !end) return
+    // Muted or not playing actually
+    if (!audible) return
+    if (await pauseService.isPaused()) return
+    const { protocol, host } = extractHostname(url) || {}
+    const option = await optionHolder.get()
+    if (protocol === "file" && !option?.countLocalFiles) return
+    if (!host || whitelistHolder.contains(host, url)) return
+    const realStart = Math.max(MEDIA_END_CACHE[tabId] ?? 0, start)
+    const [byDate, offByDate] = await splitRunTime(realStart, end)
+    MEDIA_END_CACHE[tabId] = Math.max(end, realStart)
+    if (!Object.keys(byDate).length) return
+    await itemService.addMediaTime(host, byDate, offByDate)
 }
 
 function handleTabGroupRemove(group: chrome.tabGroups.TabGroup) {
@@ -114,6 +180,7 @@ export default function initTrackServer(messageDispatcher: MessageDispatcher) {
     messageDispatcher
         .register<timer.core.Event, void>('cs.trackTime', handleTrackTimeEvent)
         .register<timer.core.Event, void>('cs.trackRunTime', handleTrackRunTimeEvent)
+        .register<timer.core.Event, void>('cs.trackMedia', handleTrackMediaEvent)
         .register<{ host: string, url: string }, void>('cs.incVisitCount', handleIncVisitEvent)
         .register<string, timer.core.Result>('cs.getTodayInfo', host => itemService.getResult(host, new Date()))
         .register<void, void>('enableTabGroup', handleTabGroupEnabled)
@@ -22,6 +22,18 @@ let whitelist: string[] = []
 
 const removeOrAdd = (removeOrAddFlag: boolean, white: string) => removeOrAddFlag ? db.remove(white) : db.add(white)
 
+/**
+ * Add the host into the whitelist, or remove it if exists
+ *
+ * @returns true if added
+ * @since 3.7.0
+ */
+export async function toggleWhitelist(host: string): Promise<boolean> {
+    const exist = (await db.selectAll()).includes(host)
+    await removeOrAdd(exist, host)
+    return !exist
+}
+
 const menuInitialOptions: ChromeContextMenuCreateProps = {
     contexts: ['page', 'frame', 'selection', 'link', 'editable', 'image', 'video', 'audio'],
     id: menuId,
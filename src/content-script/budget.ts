@@ -0,0 +1,59 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { onRuntimeMessage, sendMsg2Runtime } from "@api/chrome/runtime"
+import { mostUsed } from "@util/budget"
+import BlockModal from "./modal"
+
+/**
+ * Block the page if the budget of its category is overused
+ *
+ * @since 3.7.0
+ */
+export default class BudgetProcessor {
+    private url: string
+    private modal: BlockModal
+
+    constructor(url: string) {
+        this.url = url
+        this.modal = new BlockModal({
+            id: '__TIMER_BUDGET_MODAL__',
+            onDetail: () => sendMsg2Runtime('cs.openBudget'),
+        })
+    }
+
+    async init(): Promise<void> {
+        onRuntimeMessage<timer.budget.Status[], void>(async req => {
+            const { code, data } = req
+            if (code === 'budgetExceeded') {
+                data?.length && this.show(data)
+                return { code: 'success' }
+            } else if (code === 'budgetChanged') {
+                await this.refresh()
+                return { code: 'success' }
+            }
+            return { code: 'ignore' }
+        })
+        await this.refresh()
+    }
+
+    private async refresh(): Promise<void> {
+        try {
+            const blocked = await sendMsg2Runtime<string, timer.budget.Status[]>('cs.getBlockedBudgets', this.url)
+            blocked?.length ? this.show(blocked) : this.modal.hide()
+        } catch {
+            // Extension reloaded, so ignored
+        }
+    }
+
+    private show(statuses: timer.budget.Status[]) {
+        this.modal.show(statuses.map(status => ({
+            name: status.cateName,
+            waste: mostUsed(status)?.spent ?? 0,
+        })))
+    }
+}
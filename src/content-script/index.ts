@@ -8,8 +8,12 @@
 import { sendMsg2Runtime } from "@api/chrome/runtime"
 import { initLocale } from "@i18n"
 import { contentLogger } from "@util/logger"
+import BudgetProcessor from "./budget"
+import LimitProcessor from "./limit"
+import { isBlocked } from "./modal"
 import printInfo from "./printer"
 import processTimeline from './timeline'
+import MediaTracker from "./tracker/media"
 import NormalTracker from "./tracker/normal"
 import RunTimeTracker from "./tracker/run-time"
 
@@ -54,13 +58,16 @@ async function trySendMsg2Runtime<Req, Res>(code: timer.mq.ReqCode, data?: Req):
 async function main() {
     // Execute in every injections
     const normalTracker = new NormalTracker({
-        onReport: data => trySendMsg2Runtime('cs.trackTime', data),
+        // Not browsing while blocked, so the delayed minutes start from the delay
+        onReport: async data => { isBlocked() || await trySendMsg2Runtime('cs.trackTime', data) },
         onResume: reason => reason === 'idle' && trySendMsg2Runtime('cs.idleChange', false),
         onPause: reason => reason === 'idle' && trySendMsg2Runtime('cs.idleChange', true),
     })
     normalTracker.init()
     const runTimeTracker = new RunTimeTracker(url)
     runTimeTracker.init()
+    const mediaTracker = new MediaTracker(url)
+    mediaTracker.init()
 
     // Execute only one time for each dom
     if (getOrSetFlag()) return
@@ -70,6 +77,9 @@ async function main() {
     if (isWhitelist) return
 
     await initLocale()
+    await new LimitProcessor(url).init()
+    await new BudgetProcessor(url).init()
+
     const needPrintInfo = await sendMsg2Runtime('cs.printTodayInfo')
     !!needPrintInfo && printInfo(host)
 
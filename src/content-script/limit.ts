@@ -0,0 +1,67 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { onRuntimeMessage, sendMsg2Runtime } from "@api/chrome/runtime"
+import { canDelay } from "@util/limit"
+import BlockModal, { type ModalItem } from "./modal"
+
+/**
+ * Block the page if the daily limit is met
+ */
+export default class LimitProcessor {
+    private url: string
+    private modal: BlockModal
+
+    constructor(url: string) {
+        this.url = url
+        this.modal = new BlockModal({
+            id: '__TIMER_LIMIT_MODAL__',
+            onDetail: () => sendMsg2Runtime('cs.openLimit'),
+        })
+    }
+
+    async init(): Promise<void> {
+        onRuntimeMessage<timer.limit.Item[], void>(async req => {
+            const { code, data } = req
+            if (code === 'limitTimeMeet') {
+                data?.length && this.show(data)
+                return { code: 'success' }
+            } else if (code === 'limitWaking' || code === 'limitChanged') {
+                await this.refresh()
+                return { code: 'success' }
+            }
+            return { code: 'ignore' }
+        })
+        await this.refresh()
+    }
+
+    private async refresh(): Promise<void> {
+        try {
+            const limited = await sendMsg2Runtime<string, timer.limit.Item[]>('cs.getLimitedRules', this.url)
+            limited?.length ? this.show(limited) : this.modal.hide()
+        } catch {
+            // Extension reloaded, so ignored
+        }
+    }
+
+    private show(items: timer.limit.Item[]) {
+        this.modal.show(items.map(item => ({
+            name: item.name,
+            waste: item.waste,
+            onDelay: canDelay(item) ? () => this.delay(item) : undefined,
+        } satisfies ModalItem)))
+    }
+
+    private async delay(item: timer.limit.Item): Promise<void> {
+        try {
+            await sendMsg2Runtime('cs.moreMinutes', item.id)
+        } catch {
+            // Not allowed any more
+        }
+        await this.refresh()
+    }
+}
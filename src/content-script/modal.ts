@@ -0,0 +1,136 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { formatPeriodCommon } from "@util/time"
+import { t } from "./locale"
+
+const MASK_STYLE: Partial<CSSStyleDeclaration> = {
+    position: 'fixed',
+    inset: '0',
+    zIndex: '2147483647',
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: '20px',
+    background: 'rgba(30, 30, 30, 0.96)',
+    color: '#f5f5f5',
+    fontFamily: 'sans-serif',
+    fontSize: '16px',
+    userSelect: 'none',
+}
+
+const BUTTON_STYLE: Partial<CSSStyleDeclaration> = {
+    padding: '8px 20px',
+    borderRadius: '4px',
+    border: 'none',
+    cursor: 'pointer',
+    fontSize: '14px',
+    color: '#fff',
+    background: '#409eff',
+}
+
+const LINK_STYLE: Partial<CSSStyleDeclaration> = {
+    cursor: 'pointer',
+    color: '#a0cfff',
+    fontSize: '14px',
+    textDecoration: 'underline',
+}
+
+export type ModalItem = {
+    name: string
+    /**
+     * Browsing time, milliseconds
+     */
+    waste: number
+    /**
+     * Absent if not allowed to delay
+     */
+    onDelay?: NoArgCallback
+}
+
+/**
+ * Marks all the masks, to be found by other injections
+ */
+const MASK_ATTR = 'data-timer-block'
+
+type ModalOption = {
+    id: string
+    onDetail: NoArgCallback
+}
+
+function createElement<K extends keyof HTMLElementTagNameMap>(tag: K, style?: Partial<CSSStyleDeclaration>, text?: string): HTMLElementTagNameMap[K] {
+    const el = document.createElement(tag)
+    style && Object.assign(el.style, style)
+    text && (el.innerText = text)
+    return el
+}
+
+/**
+ * The mask to block the page
+ */
+export default class BlockModal {
+    private mask: HTMLDivElement | undefined
+    private option: ModalOption
+
+    constructor(option: ModalOption) {
+        this.option = option
+    }
+
+    show(items: ModalItem[]) {
+        this.hide()
+        const mask = createElement('div', MASK_STYLE)
+        mask.id = this.option.id
+        mask.setAttribute(MASK_ATTR, '')
+        mask.append(createElement('h2', { margin: '0', fontSize: '28px' }, t(msg => msg.modal.defaultPrompt)))
+
+        items.forEach(item => {
+            const line = createElement('div', { display: 'flex', gap: '12px', alignItems: 'center' })
+            line.append(createElement('b', undefined, item.name))
+            line.append(createElement('span', undefined, `${t(msg => msg.modal.browsingTime)}: ${formatPeriodCommon(item.waste)}`))
+            if (item.onDelay) {
+                const btn = createElement('button', BUTTON_STYLE, t(msg => msg.modal.more5Minutes))
+                btn.onclick = item.onDelay
+                line.append(btn)
+            }
+            mask.append(line)
+        })
+
+        const detail = createElement('a', LINK_STYLE, t(msg => msg.modal.ruleDetail))
+        detail.onclick = () => this.option.onDetail()
+        mask.append(detail)
+
+        document.body?.append(mask)
+        this.mask = mask
+        pauseMedia()
+    }
+
+    hide() {
+        this.mask?.remove()
+        this.mask = undefined
+        document.getElementById(this.option.id)?.remove()
+    }
+
+    isVisible(): boolean {
+        return !!this.mask
+    }
+}
+
+/**
+ * Whether the page is blocked by any mask
+ */
+export function isBlocked(): boolean {
+    return !!document?.querySelector(`[${MASK_ATTR}]`)
+}
+
+function pauseMedia() {
+    document.querySelectorAll('video, audio').forEach(el => {
+        try {
+            (el as HTMLMediaElement).pause()
+        } catch { }
+    })
+}
@@ -0,0 +1,88 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { sendMsg2Runtime } from "@api/chrome/runtime"
+
+const INTERVAL = 1000
+
+const isPlaying = (el: HTMLMediaElement) => !el.paused && !el.ended && !el.muted && el.volume > 0
+
+/**
+ * Track the time of audio or video playing in this frame, whether focused or not
+ *
+ * The tab must be audible, which is checked in the background
+ *
+ * @since 3.7.0
+ */
+class MediaTracker {
+    private url: string
+    private playing: Set<HTMLMediaElement> = new Set()
+    private start: number | undefined
+
+    constructor(url: string) {
+        this.url = url
+    }
+
+    init(): void {
+        // Media events don't bubble, so listen in the capture phase
+        const listener = (ev: Event) => this.handleEvent(ev)
+        const events = ['play', 'playing', 'pause', 'ended', 'volumechange', 'emptied']
+        events.forEach(type => document?.addEventListener(type, listener, true))
+        // Already playing before injected
+        document?.querySelectorAll('audio, video')?.forEach(el => this.refresh(el as HTMLMediaElement))
+
+        setInterval(() => this.tick(), INTERVAL)
+    }
+
+    private handleEvent(ev: Event) {
+        const target = ev.target
+        target instanceof HTMLMediaElement && this.refresh(target)
+    }
+
+    private refresh(el: HTMLMediaElement) {
+        isPlaying(el) && el.isConnected ? this.playing.add(el) : this.playing.delete(el)
+        this.checkState()
+    }
+
+    private checkState() {
+        if (this.playing.size) {
+            this.start ??= Date.now()
+        } else if (this.start) {
+            // Report the rest before stopped
+            this.collect()
+            this.start = undefined
+        }
+    }
+
+    private collect() {
+        // Skip tracking if extension context is invalidated
+        if (!chrome.runtime?.id) return
+        const start = this.start
+        if (!start) return
+
+        const now = Date.now()
+        const event: timer.core.Event = {
+            start,
+            end: now,
+            url: this.url,
+            ignoreTabCheck: true,
+        }
+        sendMsg2Runtime('cs.trackMedia', event)
+            // Not stopped or restarted meanwhile
+            .then(() => this.start === start && (this.start = now))
+            .catch(() => { })
+    }
+
+    private tick() {
+        // Elements removed without events
+        this.playing.forEach(el => !el.isConnected && this.playing.delete(el))
+        this.checkState()
+        this.collect()
+    }
+}
+
+export default MediaTracker
@@ -63,7 +63,8 @@ export default class IdleDetector {
     }
 
     private processOption(option: timer.option.StatisticsOption) {
-        this.autoPauseTracking = !!option?.autoPauseTracking
+        // Replaced by the detection of the browser
+        this.autoPauseTracking = !!option?.autoPauseTracking && !option?.idleDetection
         this.autoPauseInterval = option?.autoPauseInterval * 1000
     }
 
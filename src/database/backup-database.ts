@@ -11,6 +11,7 @@ import { REMAIN_WORD_PREFIX } from "./common/constant"
 const PREFIX = REMAIN_WORD_PREFIX + "backup"
 const SNAPSHOT_KEY = PREFIX + "_snap"
 const CACHE_KEY = PREFIX + "_cache"
+const SALT_KEY = PREFIX + "_salt"
 
 function cacheKeyOf(type: timer.backup.Type) {
     return CACHE_KEY + "_" + type
@@ -37,6 +38,22 @@ class BackupDatabase extends BaseDatabase {
         return this.storage.put(cacheKeyOf(type), newVal as Object)
     }
 
+    /**
+     * The salt of encryption last read from the remote, to decrypt the hosts recorded locally
+     *
+     * @since 3.7.0
+     */
+    getSalt(): Promise<string | undefined> {
+        return this.storage.getOne<string>(SALT_KEY)
+    }
+
+    /**
+     * @since 3.7.0
+     */
+    updateSalt(salt: string): Promise<void> {
+        return this.storage.put(SALT_KEY, salt)
+    }
+
     async importData(_data: any): Promise<void> {
         // Do nothing
     }
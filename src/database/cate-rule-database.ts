@@ -0,0 +1,72 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import BaseDatabase from "./common/base-database"
+import { REMAIN_WORD_PREFIX } from "./common/constant"
+
+const KEY = REMAIN_WORD_PREFIX + 'CATE_RULE'
+
+type Entry = [
+    type: timer.cateRule.Type,
+    pattern: string,
+    cateId: number,
+    // 1 if disabled
+    disabled?: 1,
+]
+
+const cvt2Entry = ({ type, pattern, cateId, enabled }: timer.cateRule.Rule): Entry => {
+    const entry: Entry = [type, pattern, cateId]
+    !enabled && entry.push(1)
+    return entry
+}
+
+const cvt2Rule = ([type, pattern, cateId, disabled]: Entry): timer.cateRule.Rule => ({
+    type, pattern, cateId, enabled: !disabled,
+})
+
+/**
+ * Ordered rules of auto categorization
+ *
+ * @since 3.7.0
+ */
+class CateRuleDatabase extends BaseDatabase {
+    async all(): Promise<timer.cateRule.Rule[]> {
+        const entries = await this.storage.getOne<Entry[]>(KEY) || []
+        return entries.map(cvt2Rule)
+    }
+
+    /**
+     * Overwrite all the rules, the order is kept
+     */
+    async saveAll(rules: timer.cateRule.Rule[]): Promise<void> {
+        await this.setByKey(KEY, rules?.map(cvt2Entry) ?? [])
+    }
+
+    /**
+     * Remove the rules of categories
+     */
+    async removeByCate(cateId: number): Promise<void> {
+        const rules = await this.all()
+        const remain = rules.filter(r => r.cateId !== cateId)
+        remain.length !== rules.length && await this.saveAll(remain)
+    }
+
+    async importData(data: any): Promise<void> {
+        const toImport = data?.[KEY] as Entry[]
+        if (!Array.isArray(toImport)) return
+        const exist = await this.all()
+        const existKeys = new Set(exist.map(({ type, pattern }) => `${type}:${pattern}`))
+        const toAdd = toImport
+            .map(cvt2Rule)
+            .filter(({ type, pattern }) => !existKeys.has(`${type}:${pattern}`))
+        await this.saveAll([...exist, ...toAdd])
+    }
+}
+
+const cateRuleDatabase = new CateRuleDatabase()
+
+export default cateRuleDatabase
@@ -0,0 +1,34 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import BaseDatabase from "./common/base-database"
+import { REMAIN_WORD_PREFIX } from "./common/constant"
+
+const KEY = REMAIN_WORD_PREFIX + 'CONFIG_SYNC'
+
+/**
+ * Entities of the configuration synced last time, used to detect local changes
+ *
+ * @since 3.7.0
+ */
+class ConfigSyncDatabase extends BaseDatabase {
+    async getSnapshot(): Promise<timer.backup.ConfigSnapshot> {
+        return await this.storage.getOne<timer.backup.ConfigSnapshot>(KEY) || {}
+    }
+
+    async saveSnapshot(snapshot: timer.backup.ConfigSnapshot): Promise<void> {
+        await this.setByKey(KEY, snapshot)
+    }
+
+    async importData(_data: any): Promise<void> {
+        // Do nothing
+    }
+}
+
+const configSyncDatabase = new ConfigSyncDatabase()
+
+export default configSyncDatabase
@@ -0,0 +1,100 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import BaseDatabase from "./common/base-database"
+import { REMAIN_WORD_PREFIX } from "./common/constant"
+
+const SESSION_KEY = REMAIN_WORD_PREFIX + 'FOCUS_SESSION'
+const RECORD_KEY = REMAIN_WORD_PREFIX + 'FOCUS_RECORD'
+
+type RecordEntry = {
+    // start
+    s: number
+    // end
+    e: number
+    // duration, minutes
+    d: number
+    // allowlist
+    a: [cates: number[], hosts: string[]]
+    // distractions
+    ds: [host: string, ts: number][]
+}
+
+const cvt2Entry = ({ start, end, duration, allowlist, distractions }: timer.focus.Record): RecordEntry => ({
+    s: start,
+    e: end,
+    d: duration,
+    a: [allowlist?.cates ?? [], allowlist?.hosts ?? []],
+    ds: distractions?.map(({ host, ts }) => [host, ts]) ?? [],
+})
+
+const cvt2Record = ({ s, e, d, a, ds }: RecordEntry): timer.focus.Record => ({
+    start: s,
+    end: e,
+    duration: d,
+    allowlist: { cates: a?.[0] ?? [], hosts: a?.[1] ?? [] },
+    distractions: ds?.map(([host, ts]) => ({ host, ts })) ?? [],
+})
+
+/**
+ * Focus sessions
+ *
+ * @since 3.7.0
+ */
+class FocusDatabase extends BaseDatabase {
+    async getSession(): Promise<timer.focus.Session | undefined> {
+        return await this.storage.getOne<timer.focus.Session>(SESSION_KEY) ?? undefined
+    }
+
+    async saveSession(session: timer.focus.Session): Promise<void> {
+        await this.setByKey(SESSION_KEY, session)
+    }
+
+    async clearSession(): Promise<void> {
+        await this.storage.remove(SESSION_KEY)
+    }
+
+    async addRecord(record: timer.focus.Record): Promise<void> {
+        const entries = await this.getEntries()
+        entries.push(cvt2Entry(record))
+        await this.setByKey(RECORD_KEY, entries)
+    }
+
+    /**
+     * Select the records which started in the range
+     */
+    async selectRecords(start?: number, end?: number): Promise<timer.focus.Record[]> {
+        const entries = await this.getEntries()
+        return entries
+            .filter(({ s }) => (!start || s >= start) && (!end || s <= end))
+            .map(cvt2Record)
+    }
+
+    private async getEntries(): Promise<RecordEntry[]> {
+        return await this.storage.getOne<RecordEntry[]>(RECORD_KEY) ?? []
+    }
+
+    addSessionChangeListener(listener: ArgCallback<timer.focus.Session | undefined>) {
+        chrome.storage.onChanged.addListener(changes => {
+            const change = changes[SESSION_KEY]
+            change && listener(change.newValue as timer.focus.Session | undefined)
+        })
+    }
+
+    async importData(data: any): Promise<void> {
+        const toImport = data?.[RECORD_KEY] as RecordEntry[]
+        if (!Array.isArray(toImport)) return
+        const exist = await this.getEntries()
+        const existStarts = new Set(exist.map(e => e.s))
+        toImport.filter(e => e?.s && !existStarts.has(e.s)).forEach(e => exist.push(e))
+        await this.setByKey(RECORD_KEY, exist)
+    }
+}
+
+const focusDatabase = new FocusDatabase()
+
+export default focusDatabase
@@ -0,0 +1,195 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { formatTimeYMD, MILL_PER_DAY } from "@util/time"
+import BaseDatabase from "./common/base-database"
+import { REMAIN_WORD_PREFIX } from "./common/constant"
+
+const RULE_KEY = REMAIN_WORD_PREFIX + 'LIMIT_RULE'
+const RECORD_KEY = REMAIN_WORD_PREFIX + 'LIMIT_RECORD'
+const DELAY_KEY = REMAIN_WORD_PREFIX + 'LIMIT_DELAY'
+
+type RuleEntry = {
+    // name
+    n: string
+    // condition
+    c: string[]
+    // time, seconds
+    t: number
+    // weekdays
+    w?: number[]
+    // enabled
+    e?: boolean
+    // allow delay
+    ad?: boolean
+}
+
+type RuleEntries = Record<number, RuleEntry>
+
+type RecordEntry = {
+    // waste, milliseconds
+    w: number
+    // delay count
+    d?: number
+}
+
+type Records = {
+    [date: string]: {
+        [ruleId: number]: RecordEntry
+    }
+}
+
+/**
+ * Days to keep the daily records and the delay logs
+ */
+const KEEP_DAYS = 30
+
+const cvt2Entry = ({ name, cond, time, weekdays, enabled, allowDelay }: timer.limit.Rule): RuleEntry => {
+    const entry: RuleEntry = { n: name, c: cond, t: time }
+    weekdays?.length && (entry.w = weekdays)
+    enabled && (entry.e = true)
+    allowDelay && (entry.ad = true)
+    return entry
+}
+
+const cvt2Rule = (id: number, entry: RuleEntry): timer.limit.Rule => {
+    const { n, c, t, w, e, ad } = entry
+    return {
+        id,
+        name: n ?? '',
+        cond: c ?? [],
+        time: t ?? 0,
+        weekdays: w ?? [],
+        enabled: !!e,
+        allowDelay: !!ad,
+    }
+}
+
+const removeOutdated = (records: Records, now: number) => {
+    const minDate = formatTimeYMD(now - MILL_PER_DAY * KEEP_DAYS)
+    Object.keys(records).filter(date => date < minDate).forEach(date => delete records[date])
+}
+
+/**
+ * Rules and records of daily limits
+ *
+ * @since 3.7.0
+ */
+class LimitDatabase extends BaseDatabase {
+    private async getRuleEntries(): Promise<RuleEntries> {
+        return await this.storage.getOne<RuleEntries>(RULE_KEY) || {}
+    }
+
+    private async getRecords(): Promise<Records> {
+        return await this.storage.getOne<Records>(RECORD_KEY) || {}
+    }
+
+    async all(): Promise<timer.limit.Rule[]> {
+        const entries = await this.getRuleEntries()
+        return Object.entries(entries).map(([id, entry]) => cvt2Rule(parseInt(id), entry))
+    }
+
+    /**
+     * Save the rule, create one if the id is absent
+     *
+     * @returns id of the rule
+     */
+    async save(rule: MakeOptional<timer.limit.Rule, 'id'>): Promise<number> {
+        const entries = await this.getRuleEntries()
+        let id = rule.id
+        if (!id) {
+            id = Math.max(0, ...Object.keys(entries).map(k => parseInt(k))) + 1
+        }
+        entries[id] = cvt2Entry({ ...rule, id })
+        await this.setByKey(RULE_KEY, entries)
+        return id
+    }
+
+    async remove(...ids: number[]): Promise<void> {
+        const entries = await this.getRuleEntries()
+        ids.forEach(id => delete entries[id])
+        await this.setByKey(RULE_KEY, entries)
+    }
+
+    /**
+     * Get the records of the date
+     *
+     * @returns ruleId => [waste, delayCount]
+     */
+    async getRecordsOf(date: Date | string): Promise<Record<number, [waste: number, delayCount: number]>> {
+        const dateStr = typeof date === 'string' ? date : formatTimeYMD(date)
+        const records = await this.getRecords()
+        const result: Record<number, [number, number]> = {}
+        Object.entries(records[dateStr] ?? {}).forEach(([id, { w, d }]) => result[parseInt(id)] = [w ?? 0, d ?? 0])
+        return result
+    }
+
+    /**
+     * Add the focus time to rules
+     */
+    async increaseWaste(date: Date, ruleIds: number[], focusTime: number): Promise<void> {
+        if (!ruleIds?.length || !focusTime) return
+        const records = await this.getRecords()
+        const dateStr = formatTimeYMD(date)
+        const dateRecords = records[dateStr] ?? {}
+        ruleIds.forEach(id => {
+            const exist = dateRecords[id] ?? { w: 0 }
+            exist.w = (exist.w ?? 0) + focusTime
+            dateRecords[id] = exist
+        })
+        records[dateStr] = dateRecords
+        removeOutdated(records, date.getTime())
+        await this.setByKey(RECORD_KEY, records)
+    }
+
+    /**
+     * Increase the delay count of the rule, and log it
+     */
+    async increaseDelay(record: timer.limit.DelayRecord): Promise<void> {
+        const { ruleId, ts } = record
+        const records = await this.getRecords()
+        const dateStr = formatTimeYMD(ts)
+        const dateRecords = records[dateStr] ?? {}
+        const exist = dateRecords[ruleId] ?? { w: 0 }
+        exist.d = (exist.d ?? 0) + 1
+        dateRecords[ruleId] = exist
+        records[dateStr] = dateRecords
+        await this.setByKey(RECORD_KEY, records)
+
+        const logs = await this.listDelayRecords()
+        logs.push(record)
+        const minTs = ts - MILL_PER_DAY * KEEP_DAYS
+        await this.setByKey(DELAY_KEY, logs.filter(l => l.ts >= minTs))
+    }
+
+    async listDelayRecords(): Promise<timer.limit.DelayRecord[]> {
+        return await this.storage.getOne<timer.limit.DelayRecord[]>(DELAY_KEY) || []
+    }
+
+    /**
+     * Add listener to listen changes of rules
+     */
+    addRuleChangeListener(listener: NoArgCallback) {
+        chrome.storage.onChanged.addListener(changes => changes[RULE_KEY] && listener())
+    }
+
+    async importData(data: any): Promise<void> {
+        const toImport = data?.[RULE_KEY] as RuleEntries
+        if (typeof toImport !== 'object') return
+        const exist = await this.all()
+        const existNames = new Set(exist.map(r => r.name))
+        for (const [id, entry] of Object.entries(toImport)) {
+            if (!entry?.n || existNames.has(entry.n)) continue
+            const { id: _, ...rule } = cvt2Rule(parseInt(id), entry)
+            await this.save(rule)
+        }
+    }
+}
+
+const limitDatabase = new LimitDatabase()
+
+export default limitDatabase
@@ -0,0 +1,74 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import BaseDatabase from "./common/base-database"
+import { REMAIN_WORD_PREFIX } from "./common/constant"
+
+const STATE_KEY = REMAIN_WORD_PREFIX + 'PAUSE_STATE'
+const LOG_KEY = REMAIN_WORD_PREFIX + 'PAUSE_LOG'
+
+/**
+ * Max count of the intervals to keep
+ */
+const MAX_INTERVALS = 500
+
+// [start, end]
+type IntervalEntry = [number, number]
+
+/**
+ * State and logged intervals of the global pause
+ *
+ * @since 3.7.0
+ */
+class PauseDatabase extends BaseDatabase {
+    async getState(): Promise<timer.pause.State | undefined> {
+        return await this.storage.getOne<timer.pause.State>(STATE_KEY) ?? undefined
+    }
+
+    async saveState(state: timer.pause.State): Promise<void> {
+        await this.setByKey(STATE_KEY, state)
+    }
+
+    async clearState(): Promise<void> {
+        await this.storage.remove(STATE_KEY)
+    }
+
+    async addInterval({ start, end }: timer.pause.Interval): Promise<void> {
+        const entries = await this.getEntries()
+        entries.push([start, end])
+        await this.setByKey(LOG_KEY, entries.slice(-MAX_INTERVALS))
+    }
+
+    /**
+     * Select the intervals overlapped with the range
+     */
+    async selectIntervals(start?: number, end?: number): Promise<timer.pause.Interval[]> {
+        const entries = await this.getEntries()
+        return entries
+            .filter(([s, e]) => (!start || e >= start) && (!end || s <= end))
+            .map(([start, end]) => ({ start, end }))
+    }
+
+    private async getEntries(): Promise<IntervalEntry[]> {
+        return await this.storage.getOne<IntervalEntry[]>(LOG_KEY) ?? []
+    }
+
+    addStateChangeListener(listener: ArgCallback<timer.pause.State | undefined>) {
+        chrome.storage.onChanged.addListener(changes => {
+            const change = changes[STATE_KEY]
+            change && listener(change.newValue as timer.pause.State | undefined)
+        })
+    }
+
+    async importData(_data: any): Promise<void> {
+        // Do nothing
+    }
+}
+
+const pauseDatabase = new PauseDatabase()
+
+export default pauseDatabase
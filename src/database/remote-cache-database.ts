@@ -0,0 +1,81 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import type { MonthData } from "@service/backup/common"
+import BaseDatabase from "./common/base-database"
+import { REMAIN_WORD_PREFIX } from "./common/constant"
+
+const KEY = REMAIN_WORD_PREFIX + 'REMOTE_CACHE'
+
+export type MonthCache = {
+    /**
+     * Timestamp of downloading
+     */
+    ts: number
+    data: MonthData
+}
+
+type CacheEntries = {
+    /**
+     * Identity of the remote target, all the cache is dropped once it changes
+     */
+    target?: string
+    clients: {
+        [cid: string]: {
+            [yearMonth: string]: MonthCache
+        }
+    }
+}
+
+/**
+ * Local cache of the rows downloaded from other clients, keyed by client and month
+ *
+ * @since 3.7.0
+ */
+class RemoteCacheDatabase extends BaseDatabase {
+    private async getEntries(): Promise<CacheEntries> {
+        const entries = await this.storage.getOne<CacheEntries>(KEY)
+        return { clients: {}, ...entries }
+    }
+
+    /**
+     * @returns yearMonth => cache, empty if the target changed
+     */
+    async getMonths(target: string, cid: string): Promise<Record<string, MonthCache>> {
+        const { target: cachedTarget, clients } = await this.getEntries()
+        if (cachedTarget !== target) return {}
+        return clients[cid] ?? {}
+    }
+
+    async saveMonths(target: string, cid: string, months: Record<string, MonthCache>): Promise<void> {
+        let entries = await this.getEntries()
+        entries.target !== target && (entries = { target, clients: {} })
+        entries.clients[cid] = { ...entries.clients[cid], ...months }
+        await this.setByKey(KEY, entries)
+    }
+
+    /**
+     * Drop the cache of clients, or all the cache if no client specified
+     */
+    async invalidate(...cids: string[]): Promise<void> {
+        if (!cids.length) {
+            await this.storage.remove(KEY)
+            return
+        }
+        const entries = await this.getEntries()
+        cids.forEach(cid => delete entries.clients[cid])
+        await this.setByKey(KEY, entries)
+    }
+
+    async importData(_data: any): Promise<void> {
+        // Do nothing
+    }
+}
+
+const remoteCacheDatabase = new RemoteCacheDatabase()
+
+export default remoteCacheDatabase
@@ -15,6 +15,21 @@ type Item = {
      * Name
      */
     n: string
+    /**
+     * Budget, seconds
+     *
+     * @since 3.7.0
+     */
+    b?: {
+        d?: number
+        w?: number
+    }
+    /**
+     * Productivity, [level, weight]
+     *
+     * @since 3.7.0
+     */
+    p?: [timer.productivity.Level, number]
 }
 
 type Items = Record<number, Item>
@@ -24,12 +39,15 @@ function migrate(exist: Items, toMigrate: any) {
     const existLabels = new Set(Object.values(exist).map(e => e.n))
 
     Object.values(toMigrate).forEach(value => {
-        const { n } = (value as Item) || {}
+        const { n, b, p } = (value as Item) || {}
         if (!n || existLabels.has(n)) return
 
         const id = idBase
         idBase++
-        exist[id] = { n }
+        const item: Item = { n }
+        b && (item.b = b)
+        p && (item.p = p)
+        exist[id] = item
     })
 }
 
@@ -49,11 +67,11 @@ class SiteCateDatabase extends BaseDatabase {
 
     async listAll(): Promise<timer.site.Cate[]> {
         const items = await this.getItems()
-        return Object.entries(items).map(([id, { n = '' } = {}]) => {
-            return {
-                id: parseInt(id),
-                name: n,
-            } satisfies timer.site.Cate
+        return Object.entries(items).map(([id, { n = '', b, p } = {}]) => {
+            const cate: timer.site.Cate = { id: parseInt(id), name: n }
+            b && (cate.budget = { daily: b.d, weekly: b.w })
+            p && (cate.productivity = { level: p[0], weight: p[1] })
+            return cate
         })
     }
 
@@ -86,6 +104,50 @@ class SiteCateDatabase extends BaseDatabase {
         await this.saveItems(items)
     }
 
+    /**
+     * Save the budget, or remove it if quota is empty
+     *
+     * @since 3.7.0
+     */
+    async saveBudget(id: number, budget: timer.budget.Quota | undefined): Promise<void> {
+        const items = await this.getItems()
+        const item = items[id]
+        if (!item) return
+        const { daily, weekly } = budget || {}
+        if (daily || weekly) {
+            item.b = {}
+            daily && (item.b.d = daily)
+            weekly && (item.b.w = weekly)
+        } else {
+            delete item.b
+        }
+        await this.saveItems(items)
+    }
+
+    /**
+     * Save the productivity, or remove it if absent
+     *
+     * @since 3.7.0
+     */
+    async saveProductivity(id: number, setting: timer.productivity.Setting | undefined): Promise<void> {
+        const items = await this.getItems()
+        const item = items[id]
+        if (!item) return
+        if (setting) {
+            item.p = [setting.level, setting.weight]
+        } else {
+            delete item.p
+        }
+        await this.saveItems(items)
+    }
+
+    /**
+     * @since 3.7.0
+     */
+    addChangeListener(listener: NoArgCallback) {
+        chrome.storage.onChanged.addListener(changes => changes[KEY] && listener())
+    }
+
     async importData(data: any): Promise<void> {
         let toImport = data[KEY] as Items
         // Not import
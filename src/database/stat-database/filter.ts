@@ -111,6 +111,22 @@ function processCondition(condition: StatCondition): _StatCondition {
     return result
 }
 
+/**
+ * Pick the part of the result by the scope of hours
+ *
+ * @since 3.7.0
+ */
+function pickScope(value: timer.core.Result, scope: timer.core.HoursScope | undefined): timer.core.Result {
+    if (!scope || scope === 'both') return value
+    const { focus, time, run, media, off } = value
+    if (scope === 'off') {
+        return { focus: off?.focus ?? 0, time: off?.time ?? 0, ...off?.run && { run: off.run }, ...off?.media && { media: off.media } }
+    }
+    const inRun = (run ?? 0) - (off?.run ?? 0)
+    const inMedia = (media ?? 0) - (off?.media ?? 0)
+    return { focus: focus - (off?.focus ?? 0), time: time - (off?.time ?? 0), ...inRun && { run: inRun }, ...inMedia && { media: inMedia } }
+}
+
 /**
  * Filter by query parameters
  */
@@ -131,5 +147,10 @@ export async function filter(this: StatDatabase, condition?: StatCondition, only
             result.push({ date, host, value: value as timer.core.Result })
         }
     })
+    const { hoursScope } = cond
+    if (hoursScope && hoursScope !== 'both') {
+        result.forEach(item => item.value = pickScope(item.value, hoursScope))
+        return result.filter(({ value: { focus, time, run, media } }) => focus || time || run || media).filter(item => filterByCond(item, cond))
+    }
     return result.filter(item => filterByCond(item, cond))
 }
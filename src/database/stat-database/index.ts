@@ -42,15 +42,32 @@ export type StatCondition = {
      * Host or groupId, full match
      */
     keys?: string[] | string
+    /**
+     * Part of the data split by the tracking schedule, both if absent
+     *
+     * @since 3.7.0
+     */
+    hoursScope?: timer.core.HoursScope
 }
 
-function increase(a: timer.core.Result, b: timer.core.Result) {
-    const res: timer.core.Result = {
+function increaseMetrics(a: timer.core.Metrics | undefined, b: timer.core.Metrics | undefined): timer.core.Metrics {
+    const res: timer.core.Metrics = {
         focus: (a?.focus ?? 0) + (b?.focus ?? 0),
         time: (a?.time ?? 0) + (b?.time ?? 0),
     }
     const run = (a?.run ?? 0) + (b?.run ?? 0)
     run && (res.run = run)
+    const media = (a?.media ?? 0) + (b?.media ?? 0)
+    media && (res.media = media)
+    return res
+}
+
+function increase(a: timer.core.Result, b: timer.core.Result) {
+    const res: timer.core.Result = increaseMetrics(a, b)
+    if (a?.off || b?.off) {
+        const off = increaseMetrics(a?.off, b?.off)
+        if (off.focus || off.time || off.run || off.media) res.off = off
+    }
     return res
 }
 
@@ -60,7 +77,7 @@ function createZeroResult(): timer.core.Result {
 
 function mergeMigration(exist: timer.core.Result | undefined, another: any) {
     exist = exist || createZeroResult()
-    return increase(exist, { focus: another.focus ?? 0, time: another.time ?? 0, run: another.run ?? 0 })
+    return increase(exist, { focus: another.focus ?? 0, time: another.time ?? 0, run: another.run ?? 0, media: another.media ?? 0 })
 }
 
 /**
@@ -170,16 +187,16 @@ export class StatDatabase extends BaseDatabase {
         log("select:{condition}", condition)
         const filterResults = await this.filter(condition)
         return filterResults.map(({ date, host, value }) => {
-            const { focus, time, run } = value
-            return { date, host, focus, time, run }
+            const { focus, time, run, media } = value
+            return { date, host, focus, time, run, media }
         })
     }
 
     async selectGroup(condition?: StatCondition): Promise<timer.core.Row[]> {
         const filterResults = await this.filter(condition, true)
         return filterResults.map(({ date, host, value }) => {
-            const { focus, time, run } = value
-            return { date, host, focus, time, run }
+            const { focus, time, run, media } = value
+            return { date, host, focus, time, run, media }
         })
     }
 
@@ -239,10 +256,11 @@ export class StatDatabase extends BaseDatabase {
      *
      * @since 1.4.3
      */
-    forceUpdate({ host, date, time, focus, run }: timer.core.Row): Promise<void> {
+    forceUpdate({ host, date, time, focus, run, media }: timer.core.Row): Promise<void> {
         const key = generateKey(host, date)
         const result: timer.core.Result = { time, focus }
         run && (result.run = run)
+        media && (result.media = media)
         return this.storage.put(key, result)
     }
 
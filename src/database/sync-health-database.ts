@@ -0,0 +1,86 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import BaseDatabase from "./common/base-database"
+import { REMAIN_WORD_PREFIX } from "./common/constant"
+
+const FAILURE_KEY = REMAIN_WORD_PREFIX + 'SYNC_FAILURE'
+const CONFLICT_KEY = REMAIN_WORD_PREFIX + 'SYNC_CONFLICT'
+const CONNECTION_KEY = REMAIN_WORD_PREFIX + 'SYNC_CONNECTION'
+const RESOLUTION_KEY = REMAIN_WORD_PREFIX + 'SYNC_RESOLUTION'
+
+/**
+ * Max count of the records to keep
+ */
+const MAX_FAILURES = 50
+const MAX_CONFLICTS = 200
+const MAX_RESOLUTIONS = 500
+
+/**
+ * Recent failures, conflicts and the connection state of syncing
+ *
+ * @since 3.7.0
+ */
+class SyncHealthDatabase extends BaseDatabase {
+    async listFailures(): Promise<timer.backup.Failure[]> {
+        return await this.storage.getOne<timer.backup.Failure[]>(FAILURE_KEY) || []
+    }
+
+    async addFailure(failure: timer.backup.Failure): Promise<void> {
+        const exist = await this.listFailures()
+        await this.setByKey(FAILURE_KEY, [failure, ...exist].slice(0, MAX_FAILURES))
+    }
+
+    async listConflicts(): Promise<timer.backup.ConflictRecord[]> {
+        return await this.storage.getOne<timer.backup.ConflictRecord[]>(CONFLICT_KEY) || []
+    }
+
+    async addConflicts(conflicts: timer.backup.ConflictRecord[]): Promise<void> {
+        if (!conflicts?.length) return
+        const exist = await this.listConflicts()
+        await this.setByKey(CONFLICT_KEY, [...conflicts, ...exist].slice(0, MAX_CONFLICTS))
+    }
+
+    async saveConflicts(conflicts: timer.backup.ConflictRecord[]): Promise<void> {
+        await this.setByKey(CONFLICT_KEY, conflicts)
+    }
+
+    /**
+     * Audit trail of resolving conflicts
+     */
+    async listResolutions(): Promise<timer.backup.ConflictResolution[]> {
+        return await this.storage.getOne<timer.backup.ConflictResolution[]>(RESOLUTION_KEY) || []
+    }
+
+    async addResolution(resolution: timer.backup.ConflictResolution): Promise<void> {
+        const exist = await this.listResolutions()
+        await this.setByKey(RESOLUTION_KEY, [resolution, ...exist].slice(0, MAX_RESOLUTIONS))
+    }
+
+    async getConnection(): Promise<timer.backup.ConnectionStatus | undefined> {
+        return await this.storage.getOne<timer.backup.ConnectionStatus>(CONNECTION_KEY)
+    }
+
+    async updateConnection(status: timer.backup.ConnectionStatus): Promise<void> {
+        await this.setByKey(CONNECTION_KEY, status)
+    }
+
+    /**
+     * Clear the failures and conflicts, the audit trail is kept
+     */
+    async clear(): Promise<void> {
+        await this.storage.remove([FAILURE_KEY, CONFLICT_KEY])
+    }
+
+    async importData(_data: any): Promise<void> {
+        // Do nothing
+    }
+}
+
+const syncHealthDatabase = new SyncHealthDatabase()
+
+export default syncHealthDatabase
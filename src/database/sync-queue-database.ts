@@ -0,0 +1,147 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import BaseDatabase from "./common/base-database"
+import { REMAIN_WORD_PREFIX } from "./common/constant"
+
+const QUEUE_KEY = REMAIN_WORD_PREFIX + 'SYNC_QUEUE'
+const STATE_KEY = REMAIN_WORD_PREFIX + 'SYNC_QUEUE_STATE'
+
+/**
+ * [focus, time, run, media]
+ */
+type QueueValue = [number, number, number?, number?]
+
+/**
+ * {date => {host => increments}}
+ */
+type QueueEntries = Record<string, Record<string, QueueValue>>
+
+export type SyncQueueState = {
+    /**
+     * Count of continuous failures
+     */
+    failures?: number
+    /**
+     * Not to flush before this timestamp, used to back off
+     */
+    nextTs?: number
+    lastError?: string
+    lastErrorTs?: number
+    lastSyncTs?: number
+}
+
+const isEmpty = ([focus, time, run, media]: QueueValue) => !focus && !time && !run && !media
+
+function valueOf(focus: number, time: number, run: number, media: number): QueueValue {
+    const value: QueueValue = [focus, time]
+    // Keep the position of run time if media exists
+    if (run || media) value.push(run)
+    if (media) value.push(media)
+    return value
+}
+
+/**
+ * Durable queue of increments to push to the remote in real time, coalesced by host and date
+ *
+ * @since 3.7.0
+ */
+class SyncQueueDatabase extends BaseDatabase {
+    /**
+     * Tail of the running mutations
+     */
+    private mutating: Promise<unknown> = Promise.resolve()
+
+    private async getEntries(): Promise<QueueEntries> {
+        return await this.storage.getOne<QueueEntries>(QUEUE_KEY) || {}
+    }
+
+    /**
+     * Read, modify and write the entries one by one, since events of tabs and flushing run concurrently
+     */
+    private mutate(modifier: (entries: QueueEntries) => void): Promise<void> {
+        const current = this.mutating.catch(() => { }).then(async () => {
+            const entries = await this.getEntries()
+            modifier(entries)
+            await this.setByKey(QUEUE_KEY, entries)
+        })
+        this.mutating = current
+        return current
+    }
+
+    async enqueue(rows: timer.core.Row[]): Promise<void> {
+        if (!rows?.length) return
+        await this.mutate(entries => rows.forEach(({ date, host, focus, time, run, media }) => {
+            const dateEntries = entries[date] ?? (entries[date] = {})
+            const [f = 0, t = 0, r = 0, m = 0] = dateEntries[host] ?? []
+            dateEntries[host] = valueOf(f + (focus ?? 0), t + (time ?? 0), r + (run ?? 0), m + (media ?? 0))
+        }))
+    }
+
+    /**
+     * @param limit max count of rows
+     */
+    async peek(limit?: number): Promise<timer.core.Row[]> {
+        const entries = await this.getEntries()
+        const result: timer.core.Row[] = []
+        Object.entries(entries).forEach(([date, hosts]) => Object.entries(hosts).forEach(([host, [focus, time, run, media]]) => {
+            const row: timer.core.Row = { date, host, focus, time }
+            run && (row.run = run)
+            media && (row.media = media)
+            result.push(row)
+        }))
+        return limit ? result.slice(0, limit) : result
+    }
+
+    /**
+     * Remove the rows flushed, increments enqueued during flushing are kept
+     */
+    async remove(rows: timer.core.Row[]): Promise<void> {
+        await this.mutate(entries => rows.forEach(({ date, host, focus, time, run, media }) => {
+            const dateEntries = entries[date]
+            const exist = dateEntries?.[host]
+            if (!exist) return
+            const [f, t, r = 0, m = 0] = exist
+            const value = valueOf(f - (focus ?? 0), t - (time ?? 0), r - (run ?? 0), m - (media ?? 0))
+            isEmpty(value) ? delete dateEntries[host] : dateEntries[host] = value
+            !Object.keys(dateEntries).length && delete entries[date]
+        }))
+    }
+
+    async count(): Promise<number> {
+        const entries = await this.getEntries()
+        return Object.values(entries).reduce((a, hosts) => a + Object.keys(hosts).length, 0)
+    }
+
+    async clear(): Promise<void> {
+        await this.mutate(entries => Object.keys(entries).forEach(date => delete entries[date]))
+    }
+
+    async getState(): Promise<SyncQueueState> {
+        return await this.storage.getOne<SyncQueueState>(STATE_KEY) || {}
+    }
+
+    async updateState(state: SyncQueueState): Promise<void> {
+        const exist = await this.getState()
+        await this.setByKey(STATE_KEY, { ...exist, ...state })
+    }
+
+    /**
+     * Add listener to listen changes of the queue
+     */
+    addQueueChangeListener(listener: NoArgCallback) {
+        chrome.storage.onChanged.addListener(changes => changes[QUEUE_KEY] && listener())
+    }
+
+    async importData(_data: any): Promise<void> {
+        // Do nothing
+    }
+}
+
+const syncQueueDatabase = new SyncQueueDatabase()
+
+export default syncQueueDatabase
@@ -1,8 +1,36 @@
-import { formatTimeYMD, MILL_PER_DAY } from '@util/time'
+import { formatTimeYMD, getStartOfDay } from '@util/time'
 import BaseDatabase from './common/base-database'
 import { REMAIN_WORD_PREFIX } from './common/constant'
 
-const DB_KEY = REMAIN_WORD_PREFIX + 'TL'
+/**
+ * All the data in one key, before 3.7.0
+ */
+const LEGACY_KEY = REMAIN_WORD_PREFIX + 'TL'
+
+/**
+ * One key per date
+ *
+ * @since 3.7.0
+ */
+const KEY_PREFIX = REMAIN_WORD_PREFIX + 'TL_'
+
+const keyOf = (date: string) => KEY_PREFIX + date
+
+/**
+ * The stored dates, so not to read the whole storage to find the keys
+ *
+ * @since 3.7.0
+ */
+const DATES_KEY = REMAIN_WORD_PREFIX + 'TLD'
+
+/**
+ * yyyyMMdd => timestamp of the start
+ */
+const startOfDate = (date: string) => new Date(
+    parseInt(date.substring(0, 4)),
+    parseInt(date.substring(4, 6)) - 1,
+    parseInt(date.substring(6, 8)),
+).getTime()
 
 type Item = {
     // start
@@ -11,20 +39,32 @@ type Item = {
     d: number
 }
 
-type TimelineData = {
+type LegacyData = {
     [date: string]: {
         [host: string]: Item[]
     }
 }
 
+/**
+ * Flat pairs of [offset of start in the date, duration], to save the storage
+ */
+type DateData = {
+    [host: string]: number[]
+}
+
 // If two tick with the same host is near 1 sec, then merge them to one
 const MERGE_THRESHOLD = 1000
 
+/**
+ * Days displayed in the chart
+ */
+export const TIMELINE_LIFE_CYCLE = 3
+
 const canMerge = (item: Item, tick: timer.timeline.Tick) => {
     const { s: is, d: id } = item
     const { start } = tick
     return start >= is + id
-        && start <= id + MERGE_THRESHOLD
+        && start <= is + id + MERGE_THRESHOLD
 }
 
 const isConflict = (item: Item, tick: timer.timeline.Tick) => {
@@ -33,11 +73,20 @@ const isConflict = (item: Item, tick: timer.timeline.Tick) => {
     return is <= start && start < is + id
 }
 
-const merge = (data: TimelineData, tick: timer.timeline.Tick) => {
-    const { start, duration, host } = tick
-    const date = formatTimeYMD(start)
-    const hostData = data[date] ?? {}
-    const items = hostData[host] ?? []
+const unpack = (dayStart: number, pairs: number[]): Item[] => {
+    const items: Item[] = []
+    for (let i = 0; i + 1 < pairs.length; i += 2) {
+        items.push({ s: dayStart + pairs[i], d: pairs[i + 1] })
+    }
+    return items
+}
+
+const pack = (dayStart: number, items: Item[]): number[] => items
+    .sort((a, b) => a.s - b.s)
+    .flatMap(({ s, d }) => [s - dayStart, d])
+
+const merge = (items: Item[], tick: timer.timeline.Tick) => {
+    const { start, duration } = tick
     items.sort((a, b) => (a?.s ?? 0) - (b?.s ?? 0))
     for (const item of items) {
         if (isConflict(item, tick)) {
@@ -50,52 +99,116 @@ const merge = (data: TimelineData, tick: timer.timeline.Tick) => {
     }
     // normal tick
     items.push({ s: start, d: duration })
-    hostData[host] = items
-    data[date] = hostData
-}
-
-export const TIMELINE_LIFE_CYCLE = 3
-
-const removeOutdated = (data: TimelineData, currTime: number) => {
-    const minDate = formatTimeYMD(currTime - MILL_PER_DAY * (TIMELINE_LIFE_CYCLE - 1))
-    const keys = Object.keys(data).filter(k => k < minDate)
-    keys.forEach(key => delete data[key])
 }
 
 class TimelineDatabase extends BaseDatabase {
-    private async getData(): Promise<TimelineData> {
-        const data = await this.storage.getOne<TimelineData>(DB_KEY)
-        return data ?? {}
+    private migration: Promise<void> | undefined
+
+    /**
+     * Split the legacy data into date keys, and index the dates
+     */
+    private migrate(): Promise<void> {
+        return this.migration ??= (async () => {
+            const legacy = await this.storage.getOne<LegacyData>(LEGACY_KEY)
+            if (!legacy) {
+                await this.indexDates()
+                return
+            }
+            const toSet: Record<string, DateData | string[]> = {}
+            Object.entries(legacy).forEach(([date, hostData]) => {
+                const dayStart = startOfDate(date)
+                const dateData: DateData = {}
+                Object.entries(hostData).forEach(([host, items]) => dateData[host] = pack(dayStart, items))
+                toSet[keyOf(date)] = dateData
+            })
+            toSet[DATES_KEY] = Object.keys(legacy).sort()
+            await this.storage.set(toSet)
+            await this.storage.remove(LEGACY_KEY)
+        })()
     }
 
-    private setData(data: TimelineData): Promise<void> {
-        return this.setByKey(DB_KEY, data)
+    /**
+     * Scan the date keys saved before indexed, only once
+     */
+    private async indexDates(): Promise<void> {
+        const indexed = await this.storage.getOne<string[]>(DATES_KEY)
+        if (indexed) return
+        const all = await this.storage.get()
+        const dates = Object.keys(all)
+            .filter(key => key.startsWith(KEY_PREFIX))
+            .map(key => key.substring(KEY_PREFIX.length))
+            .sort()
+        await this.storage.put(DATES_KEY, dates)
     }
 
     async batchSave(ticks: timer.timeline.Tick[]) {
-        const data = await this.getData()
+        if (!ticks?.length) return
+        await this.migrate()
+        const dates = Array.from(new Set(ticks.map(t => formatTimeYMD(t.start))))
+        const exist = await this.storage.get<Record<string, any>>([...dates.map(keyOf), DATES_KEY])
+        // date => host => items
+        const itemsMap: Record<string, Record<string, Item[]>> = {}
         ticks.forEach(tick => {
-            merge(data, tick)
-            removeOutdated(data, tick.start)
+            const { start, host } = tick
+            const date = formatTimeYMD(start)
+            const dateItems = itemsMap[date] ?? (itemsMap[date] = {})
+            const items = dateItems[host] ?? (dateItems[host] = unpack(startOfDate(date), exist[keyOf(date)]?.[host] ?? []))
+            merge(items, tick)
         })
-        await this.setData(data)
+        const toSet: Record<string, DateData | string[]> = {}
+        Object.entries(itemsMap).forEach(([date, dateItems]) => {
+            const key = keyOf(date)
+            const dateData: DateData = { ...exist[key] }
+            Object.entries(dateItems).forEach(([host, items]) => dateData[host] = pack(startOfDate(date), items))
+            toSet[key] = dateData
+        })
+        const indexed: string[] = exist[DATES_KEY] ?? []
+        const newDates = dates.filter(d => !indexed.includes(d))
+        newDates.length && (toSet[DATES_KEY] = [...indexed, ...newDates].sort())
+        await this.storage.set(toSet)
     }
 
-    async getAll(): Promise<timer.timeline.Tick[]> {
-        const data = await this.getData()
+    /**
+     * Select the ticks between dates
+     *
+     * @since 3.7.0
+     */
+    async select(start: Date, end: Date): Promise<timer.timeline.Tick[]> {
+        await this.migrate()
+        const dayStarts: number[] = []
+        for (let cursor = getStartOfDay(start); cursor.getTime() <= end.getTime(); cursor.setDate(cursor.getDate() + 1)) {
+            dayStarts.push(cursor.getTime())
+        }
+        const data = await this.storage.get<Record<string, DateData>>(dayStarts.map(ts => keyOf(formatTimeYMD(ts))))
         const result: timer.timeline.Tick[] = []
-        Object.values(data).forEach(hostData => {
-            Object.entries(hostData).forEach(([host, items]) => {
-                items.forEach(({ s: start, d: duration }) => result.push({ host, start, duration }))
-            })
+        dayStarts.forEach(dayStart => {
+            const dateData = data[keyOf(formatTimeYMD(dayStart))] ?? {}
+            Object.entries(dateData).forEach(([host, pairs]) => unpack(dayStart, pairs)
+                .forEach(({ s: start, d: duration }) => result.push({ host, start, duration }))
+            )
         })
         return result
     }
 
+    /**
+     * Remove the data before the date
+     *
+     * @param minDate yyyyMMdd
+     * @since 3.7.0
+     */
+    async removeBefore(minDate: string): Promise<void> {
+        await this.migrate()
+        const dates = await this.storage.getOne<string[]>(DATES_KEY) ?? []
+        const toRemove = dates.filter(date => date < minDate)
+        if (!toRemove.length) return
+        await this.storage.remove(toRemove.map(keyOf))
+        await this.storage.put(DATES_KEY, dates.filter(date => date >= minDate))
+    }
+
     async importData(_: any): Promise<void> {
         // do nothing
     }
 }
 const timelineDatabase = new TimelineDatabase()
 
-export default timelineDatabase
\ No newline at end of file
+export default timelineDatabase
@@ -6,9 +6,11 @@
  */
 
 import baseMessages, { type BaseMessage } from "../message/common/base"
+import commandMessages, { type CommandMessage } from "../message/common/command"
 import contextMenusMessages, { type ContextMenusMessage } from "../message/common/context-menus"
 import initialMessages, { type InitialMessage } from "../message/common/initial"
 import metaMessages, { type MetaMessage } from "../message/common/meta"
+import notificationMessages, { type NotificationMessage } from "../message/common/notification"
 import { merge, type MessageRoot } from "../message/merge"
 
 export type ChromeMessage = {
@@ -16,6 +18,8 @@ export type ChromeMessage = {
     base: BaseMessage
     contextMenus: ContextMenusMessage
     initial: InitialMessage
+    notification: NotificationMessage
+    command: CommandMessage
 }
 
 const MESSAGE_ROOT: MessageRoot<ChromeMessage> = {
@@ -23,6 +27,8 @@ const MESSAGE_ROOT: MessageRoot<ChromeMessage> = {
     base: baseMessages,
     contextMenus: contextMenusMessages,
     initial: initialMessages,
+    notification: notificationMessages,
+    command: commandMessages,
 }
 
 const messages = merge<ChromeMessage>(MESSAGE_ROOT)
@@ -55,7 +61,27 @@ const placeholder: ChromeMessage = {
             pic: '',
             txt: '',
         }
-    }
+    },
+    notification: {
+        budgetTitle: '',
+        budgetMessage: '',
+        focusTitle: '',
+        focusMessage: '',
+        pauseTitle: '',
+        pauseMessage: '',
+        resumeTitle: '',
+        resumeMessage: '',
+        whitelistTitle: '',
+        whitelistAdded: '',
+        whitelistRemoved: '',
+        noSiteMessage: '',
+    },
+    command: {
+        togglePause: '',
+        toggleWhitelist: '',
+        openSidePanel: '',
+        openAnalysis: '',
+    },
 }
 
 function routerPath(root: any, parentPath = '') {
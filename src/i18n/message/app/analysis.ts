@@ -36,6 +36,9 @@ export type AnalysisMessage = {
         averageVisit: string
         focusTitle: string
         visitTitle: string
+        maxMedia: string
+        averageMedia: string
+        mediaTitle: string
     }
 }
 
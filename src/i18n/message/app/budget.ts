@@ -0,0 +1,32 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import resource from './budget-resource.json'
+
+export type BudgetMessage = {
+    infoAlertTitle: string
+    infoAlert0: string
+    infoAlert1: string
+    infoAlert2: string
+    column: {
+        cate: string
+        daily: string
+        weekly: string
+        today: string
+        thisWeek: string
+    }
+    unset: string
+    remaining: string
+    exceeded: string
+    minutes: string
+    hours: string
+    emptyTip: string
+}
+
+const _default: Messages<BudgetMessage> = resource
+
+export default _default
@@ -26,10 +26,28 @@ export type DashboardMessage = {
     }
     timeline: {
         title: string
+        historyTitle: string
         busyScore: string
         busyScoreDesc: string
         focusScore: string
         focusScoreDesc: string
+        paused: string
+        export: {
+            button: string
+            title: string
+            dateRange: string
+            groupBy: string
+            host: string
+            cate: string
+            domain: string
+            gap: string
+            minutes: string
+            start: string
+            end: string
+            duration: string
+            label: string
+            empty: string
+        }
     }
 }
 
@@ -44,6 +44,12 @@ export type HabitMessage = {
             title: string
         }
     }
+    focus: {
+        title: string
+        minutes: string
+        sessions: string
+        distractions: string
+    }
 }
 
 const _default: Messages<HabitMessage> = resource
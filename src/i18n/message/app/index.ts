@@ -14,16 +14,20 @@ import baseMessages, { type BaseMessage } from "../common/base"
 import { merge, type MessageRoot } from "../merge"
 import aboutMessages, { type AboutMessage } from "./about"
 import analysisMessages, { type AnalysisMessage } from "./analysis"
+import budgetMessages, { type BudgetMessage } from "./budget"
 import dashboardMessages, { type DashboardMessage } from "./dashboard"
 import dataManageMessages, { type DataManageMessage } from "./data-manage"
 import habitMessages, { type HabitMessage } from "./habit"
 import helpUsMessages, { type HelpUsMessage } from "./help-us"
+import limitMessages, { type LimitMessage } from "./limit"
 import menuMessages, { type MenuMessage } from "./menu"
 import mergeRuleMessages, { type MergeRuleMessage } from "./merge-rule"
 import operationMessages, { type OperationMessage } from './operation'
 import optionMessages, { type OptionMessage } from "./option"
+import productivityMessages, { type ProductivityMessage } from "./productivity"
 import reportMessages, { type ReportMessage } from "./report"
 import siteManageManages, { type SiteManageMessage } from "./site-manage"
+import syncMessages, { type SyncMessage } from "./sync"
 import timeFormatMessages, { type TimeFormatMessage } from "./time-format"
 import whitelistMessages, { type WhitelistMessage } from "./whitelist"
 
@@ -35,6 +39,9 @@ export type AppMessage = {
     report: ReportMessage
     whitelist: WhitelistMessage
     mergeRule: MergeRuleMessage
+    limit: LimitMessage
+    budget: BudgetMessage
+    productivity: ProductivityMessage
     option: OptionMessage
     analysis: AnalysisMessage
     menu: MenuMessage
@@ -42,6 +49,7 @@ export type AppMessage = {
     siteManage: SiteManageMessage
     operation: OperationMessage
     dashboard: DashboardMessage
+    sync: SyncMessage
     calendar: CalendarMessage
     timeFormat: TimeFormatMessage
     helpUs: HelpUsMessage
@@ -58,6 +66,9 @@ const MESSAGE_ROOT: MessageRoot<AppMessage> = {
     report: reportMessages,
     whitelist: whitelistMessages,
     mergeRule: mergeRuleMessages,
+    limit: limitMessages,
+    budget: budgetMessages,
+    productivity: productivityMessages,
     option: optionMessages,
     analysis: analysisMessages,
     menu: menuMessages,
@@ -65,6 +76,7 @@ const MESSAGE_ROOT: MessageRoot<AppMessage> = {
     siteManage: siteManageManages,
     operation: operationMessages,
     dashboard: dashboardMessages,
+    sync: syncMessages,
     calendar: calendarMessages,
     timeFormat: timeFormatMessages,
     helpUs: helpUsMessages,
@@ -0,0 +1,36 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import resource from './limit-resource.json'
+
+export type LimitMessage = {
+    infoAlertTitle: string
+    infoAlert0: string
+    infoAlert1: string
+    column: {
+        name: string
+        cond: string
+        time: string
+        weekdays: string
+        waste: string
+        enabled: string
+        allowDelay: string
+    }
+    form: {
+        condPlaceholder: string
+        minutes: string
+        emptyName: string
+        emptyCond: string
+        emptyTime: string
+    }
+    delayTip: string
+    deleteConfirmMsg: string
+}
+
+const _default: Messages<LimitMessage> = resource
+
+export default _default
@@ -19,6 +19,9 @@ export type MenuMessage = {
     siteManage: string
     whitelist: string
     mergeRule: string
+    limit: string
+    budget: string
+    productivity: string
     other: string
     about: string
 }
@@ -46,6 +46,10 @@ export type OptionMessage = {
         title: string
         autoPauseTrack: string
         noActivityInfo: string
+        idleDetection: string
+        idleDetectionInfo: string
+        idleMinutes: string
+        countAudible: string
         countLocalFiles: string
         localFileTime: string
         localFilesInfo: string
@@ -59,6 +63,14 @@ export type OptionMessage = {
         fileAccessFirefox: string
         weekStart: string
         weekStartAsNormal: string
+        timelineRetention: string
+        retentionDays: string
+        retentionUnlimited: string
+        trackSchedule: string
+        scheduleInfo: string
+        scheduleWindows: string
+        offHoursMode: string
+        offHoursModes: { [mode in timer.option.OffHoursMode]: string }
     }
     backup: {
         title: string
@@ -70,7 +82,7 @@ export type OptionMessage = {
                 authInfo?: string
             }
         } & {
-            [type in Extract<timer.backup.Type, 'obsidian_local_rest_api'>]: {
+            [type in Extract<timer.backup.Type, 'obsidian_local_rest_api' | 'web_dav'>]: {
                 endpointInfo: string
             }
         }
@@ -91,6 +103,45 @@ export type OptionMessage = {
             btn: string
             confirmTip: string
         }
+        fullResync: {
+            btn: string
+            confirmTip: string
+        }
+        restore: {
+            btn: string
+            dateRange: string
+            previewTip: string
+            cidLabel: string
+            keepCid: string
+            adoptCid: string
+        }
+        config: {
+            label: string
+            info: string
+            types: { [type in timer.backup.ConfigType]: string }
+        }
+        encryption: {
+            label: string
+            info: string
+            enabled: string
+            disabled: string
+            set: string
+            change: string
+            disable: string
+            passphrase: string
+            changeTip: string
+            setOnceTip: string
+            lengthTip: string
+            disableTitle: string
+            disableTip: string
+            reEncrypting: string
+        }
+        syncQueue: {
+            label: string
+            info: string
+            pending: string
+            refresh: string
+        }
         lastTimeTip: string
         auto: {
             label: string
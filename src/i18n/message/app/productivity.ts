@@ -0,0 +1,33 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import resource from './productivity-resource.json'
+
+export type ProductivityMessage = {
+    infoAlertTitle: string
+    infoAlert0: string
+    infoAlert1: string
+    infoAlert2: string
+    level: Record<timer.productivity.Level, string>
+    column: {
+        cate: string
+        level: string
+        weight: string
+    }
+    unset: string
+    score: string
+    todayScore: string
+    noScore: string
+    trendTitle: string
+    maxScore: string
+    averageScore: string
+    emptyTip: string
+}
+
+const _default: Messages<ProductivityMessage> = resource
+
+export default _default
@@ -16,6 +16,10 @@ export type ReportMessage = {
         confirmMsgAll: string
         confirmMsgRange: string
     }
+    /**
+     * @since 3.7.0
+     */
+    hoursScope: { [scope in timer.core.HoursScope]: string }
     remoteReading: {
         on: string
         off: string
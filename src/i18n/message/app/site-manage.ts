@@ -36,6 +36,19 @@ export type SiteManageMessage = {
         disassociatedMsg: string
         batchDeleteMsg: string
     }
+    rule: {
+        title: string
+        button: string
+        tip: string
+        type: Record<timer.cateRule.Type, string>
+        placeholder: Record<timer.cateRule.Type, string>
+        pattern: string
+        enabled: string
+        reapply: string
+        previewTitle: string
+        noChange: string
+        siteChanged: string
+    }
 }
 
 const _default: Messages<SiteManageMessage> = resource satisfies Messages<SiteManageMessage>
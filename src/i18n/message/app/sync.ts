@@ -0,0 +1,86 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import resource from './sync-resource.json'
+
+/**
+ * @since 3.7.0
+ */
+export type SyncMessage = {
+    title: string
+    refresh: string
+    clearRecords: string
+    clearConfirm: string
+    status: {
+        connection: string
+        lastBackup: string
+        queue: string
+        awsOnly: string
+        connecting: string
+        method: { [method in timer.backup.ConnectionStatus['method']]: string }
+        pending: string
+        lastPushed: string
+        failures: string
+    }
+    records: {
+        failures: string
+        conflicts: string
+        noFailures: string
+        noConflicts: string
+        time: string
+        source: string
+        message: string
+        sources: { [source in timer.backup.Failure['source']]: string }
+        otherClient: string
+        overwritten: string
+        uploaded: string
+        result: string
+        rejected: string
+        accepted: string
+        resolved: string
+        audit: string
+        noResolutions: string
+        choice: string
+        choices: { [choice in timer.backup.ConflictChoice]: string }
+        writtenBack: string
+    }
+    review: {
+        title: string
+        empty: string
+        local: string
+        remote: string
+        resolve: string
+        writing: string
+        choices: { [choice in timer.backup.ConflictChoice]: string }
+    }
+    clients: {
+        lastSync: string
+        rename: string
+        renameTip: string
+        mergeInto: string
+        mergeTitle: string
+        mergeConfirm: string
+        retire: string
+        restore: string
+        retired: string
+        claim: string
+        claimConfirm: string
+    }
+    archives: {
+        month: string
+        empty: string
+        preview: string
+        previewContent: string
+        rehydrate: string
+        rehydrateConfirm: string
+        rehydrated: string
+    }
+}
+
+const _default: Messages<SyncMessage> = resource
+
+export default _default
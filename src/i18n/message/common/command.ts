@@ -0,0 +1,17 @@
+import resource from './command-resource.json'
+
+/**
+ * Descriptions of the keyboard shortcuts
+ *
+ * @since 3.7.0
+ */
+export type CommandMessage = {
+    togglePause: string
+    toggleWhitelist: string
+    openSidePanel: string
+    openAnalysis: string
+}
+
+const _default: Messages<CommandMessage> = resource
+
+export default _default
@@ -0,0 +1,25 @@
+import resource from './notification-resource.json'
+
+/**
+ * Used for notifications sent by the background
+ *
+ * @since 3.7.0
+ */
+export type NotificationMessage = {
+    budgetTitle: string
+    budgetMessage: string
+    focusTitle: string
+    focusMessage: string
+    pauseTitle: string
+    pauseMessage: string
+    resumeTitle: string
+    resumeMessage: string
+    whitelistTitle: string
+    whitelistAdded: string
+    whitelistRemoved: string
+    noSiteMessage: string
+}
+
+const _default: Messages<NotificationMessage> = resource
+
+export default _default
@@ -0,0 +1,25 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import resource from './focus-resource.json'
+
+export type FocusMessage = {
+    title: string
+    duration: string
+    cates: string
+    hosts: string
+    hostPlaceholder: string
+    allowlistTip: string
+    start: string
+    stop: string
+    remaining: string
+    distractions: string
+}
+
+const focusMessages = resource satisfies Messages<FocusMessage>
+
+export default focusMessages
@@ -6,6 +6,7 @@
  */
 
 import menuMessages, { type MenuMessage } from "../app/menu"
+import productivityMessages, { type ProductivityMessage } from "../app/productivity"
 import baseMessages, { type BaseMessage } from "../common/base"
 import calendarMessages, { type CalendarMessage } from "../common/calendar"
 import itemMessages, { type ItemMessage } from "../common/item"
@@ -13,8 +14,10 @@ import metaMessages, { type MetaMessage } from "../common/meta"
 import sharedMessages, { type SharedMessage } from "../common/shared"
 import { merge, type MessageRoot } from "../merge"
 import contentMessages, { type ContentMessage } from "./content"
+import focusMessages, { type FocusMessage } from "./focus"
 import footerMessages, { type FooterMessage } from "./footer"
 import headerMessages, { type HeaderMessage } from "./header"
+import pauseMessages, { type PauseMessage } from "./pause"
 
 export type PopupMessage = {
     content: ContentMessage
@@ -23,6 +26,9 @@ export type PopupMessage = {
     base: BaseMessage
     header: HeaderMessage
     footer: FooterMessage
+    focus: FocusMessage
+    pause: PauseMessage
+    productivity: ProductivityMessage
     menu: MenuMessage
     calendar: CalendarMessage
     shared: SharedMessage
@@ -35,6 +41,9 @@ const MESSAGE_ROOT: MessageRoot<PopupMessage> = {
     base: baseMessages,
     header: headerMessages,
     footer: footerMessages,
+    focus: focusMessages,
+    pause: pauseMessages,
+    productivity: productivityMessages,
     menu: menuMessages,
     calendar: calendarMessages,
     shared: sharedMessages,
@@ -0,0 +1,23 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import resource from './pause-resource.json'
+
+export type PauseMessage = {
+    title: string
+    minutes: string
+    hours: string
+    tomorrow: string
+    manual: string
+    paused: string
+    pausedUntil: string
+    resume: string
+}
+
+const pauseMessages = resource satisfies Messages<PauseMessage>
+
+export default pauseMessages
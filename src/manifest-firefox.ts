@@ -48,6 +48,9 @@ const _default: chrome.runtime.ManifestFirefox = {
         'tabs',
         'contextMenus',
         'alarms',
+        'notifications',
+        'idle',
+        'unlimitedStorage',
         '<all_urls>',
     ],
     optional_permissions: [
@@ -62,6 +65,29 @@ const _default: chrome.runtime.ManifestFirefox = {
         default_panel: "static/side.html",
         open_at_install: false,
     },
+    /**
+     * Keyboard shortcuts, configurable in the shortcut settings of the browser
+     *
+     * @since 3.7.0
+     */
+    commands: {
+        togglePause: {
+            description: '__MSG_command_togglePause__',
+            suggested_key: { default: 'Alt+Shift+P' },
+        },
+        toggleWhitelist: {
+            description: '__MSG_command_toggleWhitelist__',
+            suggested_key: { default: 'Alt+Shift+W' },
+        },
+        openSidePanel: {
+            description: '__MSG_command_openSidePanel__',
+            suggested_key: { default: 'Alt+Shift+S' },
+        },
+        openAnalysis: {
+            description: '__MSG_command_openAnalysis__',
+            suggested_key: { default: 'Alt+Shift+A' },
+        },
+    },
 }
 
 export default _default
@@ -48,8 +48,11 @@ const _default: chrome.runtime.ManifestV3 = {
         'tabs',
         'contextMenus',
         'alarms',
+        'notifications',
         'scripting',
         'sidePanel',
+        'idle',
+        'unlimitedStorage',
     ],
     optional_permissions: [
         'tabGroups',
@@ -73,7 +76,30 @@ const _default: chrome.runtime.ManifestV3 = {
     /**
      * @since 0.4.0
      */
-    options_page: 'static/app.html#' + OPTION_ROUTE
+    options_page: 'static/app.html#' + OPTION_ROUTE,
+    /**
+     * Keyboard shortcuts, configurable in the shortcut settings of the browser
+     *
+     * @since 3.7.0
+     */
+    commands: {
+        togglePause: {
+            description: '__MSG_command_togglePause__',
+            suggested_key: { default: 'Alt+Shift+P' },
+        },
+        toggleWhitelist: {
+            description: '__MSG_command_toggleWhitelist__',
+            suggested_key: { default: 'Alt+Shift+W' },
+        },
+        openSidePanel: {
+            description: '__MSG_command_openSidePanel__',
+            suggested_key: { default: 'Alt+Shift+S' },
+        },
+        openAnalysis: {
+            description: '__MSG_command_openAnalysis__',
+            suggested_key: { default: 'Alt+Shift+A' },
+        },
+    },
 }
 
 export default _default
\ No newline at end of file
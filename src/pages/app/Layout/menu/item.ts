@@ -7,8 +7,8 @@
  */
 
 import { type I18nKey } from "@app/locale"
-import { ANALYSIS_ROUTE, MERGE_ROUTE } from "@app/router/constants"
-import { Aim, Connection, HelpFilled, Histogram, Memo, MoreFilled, Rank, SetUp, Stopwatch, Timer, View } from "@element-plus/icons-vue"
+import { ANALYSIS_ROUTE, BUDGET_ROUTE, LIMIT_ROUTE, MERGE_ROUTE, PRODUCTIVITY_ROUTE } from "@app/router/constants"
+import { Aim, Connection, HelpFilled, Histogram, Memo, MoreFilled, Rank, SetUp, Stopwatch, Timer, TrendCharts, View, Wallet } from "@element-plus/icons-vue"
 import { getGuidePageUrl } from "@util/constant/url"
 import { type IconProps } from "element-plus"
 import About from "../icons/About"
@@ -89,6 +89,18 @@ export const MENUS: MenuGroup[] = [{
         title: msg => msg.menu.whitelist,
         route: '/additional/whitelist',
         icon: Whitelist
+    }, {
+        title: msg => msg.menu.limit,
+        route: LIMIT_ROUTE,
+        icon: Timer
+    }, {
+        title: msg => msg.menu.budget,
+        route: BUDGET_ROUTE,
+        icon: Wallet
+    }, {
+        title: msg => msg.menu.productivity,
+        route: PRODUCTIVITY_ROUTE,
+        icon: TrendCharts
     }, {
         title: msg => msg.menu.mergeRule,
         route: MERGE_ROUTE,
@@ -43,7 +43,7 @@ const createTooltipLine = (param: any, valueFormatter: ValueFormatter): string =
     const data = param.data as ValueItem
     const { _data: { value, date } } = data
 
-    const valStr = valueFormatter?.(value) || value?.toString() || "NaN"
+    const valStr = valueFormatter?.(value ?? undefined) || value?.toString() || "NaN"
 
     return tooltipFlexLine(
         `${tooltipDot(param.color)}&ensp;${date}`,
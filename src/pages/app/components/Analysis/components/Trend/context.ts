@@ -7,11 +7,12 @@
 
 import { cvt2LocaleTime } from "@app/util/time"
 import { useProvide, useProvider } from "@hooks"
+import productivityService from "@service/productivity-service"
 import { toMap } from "@util/array"
 import { daysAgo, getAllDatesBetween, getDayLength, MILL_PER_DAY } from "@util/time"
 import { computed, onMounted, ref, watch, type Ref } from "vue"
 import { useAnalysisRows } from "../../context"
-import type { DimensionEntry } from "../../util"
+import type { DimensionEntry, RingValue } from "../../util"
 import type { DimensionData } from "./Dimension"
 
 type Context = {
@@ -26,7 +27,7 @@ type DailyIndicator = {
 
 type GlobalIndicator = number
 
-type DimensionType = 'focus' | 'visit'
+type DimensionType = 'focus' | 'visit' | 'media'
 
 type IndicatorSet = Record<DimensionType, {
     max: DailyIndicator
@@ -36,6 +37,14 @@ type IndicatorSet = Record<DimensionType, {
     activeDay: number
 }
 
+/**
+ * @since 3.7.0
+ */
+export type ScoreIndicator = {
+    max: DailyIndicator
+    average: RingValue
+}
+
 type SourceParam = {
     dateRange: [Date, Date]
     rows: timer.stat.Row[]
@@ -46,6 +55,7 @@ type EffectParam = {
     previousIndicators: Ref<IndicatorSet | undefined>
     focusData: Ref<DimensionData | undefined>
     visitData: Ref<DimensionData | undefined>
+    mediaData: Ref<DimensionData | undefined>
 }
 
 function computeIndicatorSet(
@@ -64,19 +74,22 @@ function computeIndicatorSet(
     const periodRowMap = toMap(periodRows, r => r.date)
     let focusMax: DailyIndicator
     let visitMax: DailyIndicator
-    let focusTotal: number, visitTotal: number, activeDay: number
-    focusMax = visitMax = { date: undefined, value: undefined }
-    activeDay = focusTotal = visitTotal = 0
+    let mediaMax: DailyIndicator
+    let focusTotal: number, visitTotal: number, mediaTotal: number, activeDay: number
+    focusMax = visitMax = mediaMax = { date: undefined, value: undefined }
+    activeDay = focusTotal = visitTotal = mediaTotal = 0
 
     const fullPeriodRow: Record<string, timer.stat.Row> = {}
     allDates.forEach(date => {
         const row = periodRowMap[date]
         if (!(fullPeriodRow[date] = row)) return
-        const { focus, time: visit } = row
+        const { focus, time: visit, media = 0 } = row
         focus > (focusMax.value ?? Number.MIN_SAFE_INTEGER) && (focusMax = { value: focus, date })
         visit > (visitMax.value ?? Number.MIN_SAFE_INTEGER) && (visitMax = { value: visit, date })
+        media > (mediaMax.value ?? Number.MIN_SAFE_INTEGER) && (mediaMax = { value: media, date })
         focusTotal += focus
         visitTotal += visit
+        mediaTotal += media
         focus && (activeDay += 1)
     })
 
@@ -84,6 +97,7 @@ function computeIndicatorSet(
         activeDay,
         focus: { max: focusMax, total: focusTotal, average: days == 0 ? undefined : focusTotal / days },
         visit: { max: visitMax, total: visitTotal, average: days == 0 ? undefined : visitTotal / days },
+        media: { max: mediaMax, total: mediaTotal, average: days == 0 ? undefined : mediaTotal / days },
     }
     return [indicators, fullPeriodRow]
 }
@@ -99,18 +113,20 @@ function lastRange(dateRange: [Date, Date]): [Date, Date] | undefined {
 
 function handleDataChange(source: SourceParam, effect: EffectParam) {
     const { dateRange, rows } = source
-    const { indicators, previousIndicators, focusData, visitData } = effect
+    const { indicators, previousIndicators, focusData, visitData, mediaData } = effect
     // 1. this period
     const [newIndicators, periodRows] = computeIndicatorSet(rows, dateRange)
     indicators.value = newIndicators
     const newFocusData: DimensionEntry[] = []
     const newVisitData: DimensionEntry[] = []
+    const newMediaData: DimensionEntry[] = []
     Object.entries(periodRows)
         .forEach(([rowDate, row]) => {
-            const { time, focus } = row || {}
+            const { time, focus, media } = row || {}
             const date = cvt2LocaleTime(rowDate)
             newFocusData.push({ date, value: focus || 0 })
             newVisitData.push({ date, value: time || 0 })
+            newMediaData.push({ date, value: media || 0 })
         })
     // 2. last period
     const prevDateRange = lastRange(dateRange)
@@ -118,15 +134,44 @@ function handleDataChange(source: SourceParam, effect: EffectParam) {
     previousIndicators.value = preIndicator
     const preFocusData: DimensionEntry[] = []
     const preVisitData: DimensionEntry[] = []
+    const preMediaData: DimensionEntry[] = []
     Object.entries(prePeriodRows)
         .forEach(([rowDate, row]) => {
-            const { time, focus } = row || {}
+            const { time, focus, media } = row || {}
             const date = cvt2LocaleTime(rowDate)
             preFocusData.push({ date, value: focus || 0 })
             preVisitData.push({ date, value: time || 0 })
+            preMediaData.push({ date, value: media || 0 })
         })
     focusData.value = { thisPeriod: newFocusData, previousPeriod: preFocusData }
     visitData.value = { thisPeriod: newVisitData, previousPeriod: preVisitData }
+    mediaData.value = { thisPeriod: newMediaData, previousPeriod: preMediaData }
+}
+
+const averageScore = (scores: timer.productivity.Score[]): number | undefined => {
+    const values = scores.map(s => s.score).filter(s => s !== undefined)
+    return values.length ? Math.round(values.reduce((a, b) => a + b, 0) / values.length) : undefined
+}
+
+/**
+ * Daily productivity scores of all the categories, not only the target
+ *
+ * @since 3.7.0
+ */
+async function queryScores(dateRange: [Date, Date]): Promise<[DimensionData, ScoreIndicator] | undefined> {
+    const prevDateRange = lastRange(dateRange)
+    if (!prevDateRange) return undefined
+    const [thisScores, prevScores] = await Promise.all([
+        productivityService.listScores(dateRange),
+        productivityService.listScores(prevDateRange),
+    ])
+    let max: DailyIndicator = { value: undefined, date: undefined }
+    thisScores.forEach(({ date, score }) => score !== undefined && score > (max.value ?? -1) && (max = { value: score, date }))
+    const cvt2Entries = (scores: timer.productivity.Score[]): DimensionEntry[] => scores
+        // Gaps for the days without data, not zero
+        .map(({ date, score }) => ({ date: cvt2LocaleTime(date), value: score ?? null }))
+    const data: DimensionData = { thisPeriod: cvt2Entries(thisScores), previousPeriod: cvt2Entries(prevScores) }
+    return [data, { max, average: [averageScore(thisScores), averageScore(prevScores)] }]
 }
 
 const NAMESPACE = 'siteAnalysis_trend'
@@ -137,20 +182,31 @@ export const initAnalysisTrend = () => {
 
     const visitData = ref<DimensionData>()
     const focusData = ref<DimensionData>()
+    const mediaData = ref<DimensionData>()
     const indicators = ref<IndicatorSet>()
     const previousIndicators = ref<IndicatorSet>()
+    const scoreData = ref<DimensionData>()
+    const scoreIndicator = ref<ScoreIndicator>()
     const rows = useAnalysisRows()
 
     const computeEffect = () => handleDataChange(
         { dateRange: dateRange.value, rows: rows.value },
-        { indicators, previousIndicators, visitData, focusData }
+        { indicators, previousIndicators, visitData, focusData, mediaData }
     )
     watch([dateRange, rows], computeEffect)
     onMounted(computeEffect)
 
+    const computeScore = async () => {
+        const [data, indicator] = await queryScores(dateRange.value) ?? []
+        scoreData.value = data
+        scoreIndicator.value = indicator
+    }
+    watch(dateRange, computeScore)
+    onMounted(computeScore)
+
     useProvide<Context>(NAMESPACE, { dateRange, rangeLength })
 
-    return { visitData, focusData, indicators, previousIndicators }
+    return { visitData, focusData, mediaData, indicators, previousIndicators, scoreData, scoreIndicator }
 }
 
 export const useAnalysisTrendDateRange = () => useProvider<Context, 'dateRange'>(NAMESPACE, "dateRange").dateRange
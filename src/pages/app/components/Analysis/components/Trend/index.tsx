@@ -19,9 +19,11 @@ import Total from "./Total"
 
 const visitFormatter = (val: number | undefined) => (Number.isInteger(val) ? val?.toString() : val?.toFixed(1)) ?? '-'
 
+const scoreFormatter = (val: number | undefined) => val === undefined ? '-' : Math.round(val).toString()
+
 const _default = defineComponent(() => {
     const timeFormat = useAnalysisTimeFormat()
-    const { visitData, focusData, indicators, previousIndicators } = initAnalysisTrend()
+    const { visitData, focusData, mediaData, indicators, previousIndicators, scoreData, scoreIndicator } = initAnalysisTrend()
     const isXs = useXsState()
 
     return () => (
@@ -55,6 +57,26 @@ const _default = defineComponent(() => {
                     data={visitData.value}
                     chartTitle={t(msg => msg.analysis.trend.visitTitle)}
                 />
+                <Dimension
+                    maxLabel={t(msg => msg.analysis.trend.maxMedia)}
+                    maxValue={indicators.value?.media?.max?.value}
+                    maxDate={indicators.value?.media?.max?.date}
+                    averageLabel={t(msg => msg.analysis.trend.averageMedia)}
+                    average={[indicators.value?.media?.average, previousIndicators.value?.media?.average]}
+                    valueFormatter={val => periodFormatter(val, { format: timeFormat.value })}
+                    data={mediaData.value}
+                    chartTitle={t(msg => msg.analysis.trend.mediaTitle)}
+                />
+                <Dimension
+                    maxLabel={t(msg => msg.productivity.maxScore)}
+                    maxValue={scoreIndicator.value?.max?.value}
+                    maxDate={scoreIndicator.value?.max?.date}
+                    averageLabel={t(msg => msg.productivity.averageScore)}
+                    average={scoreIndicator.value?.average}
+                    valueFormatter={scoreFormatter}
+                    data={scoreData.value}
+                    chartTitle={t(msg => msg.productivity.trendTitle)}
+                />
             </Flex>
         </KanbanCard>
     )
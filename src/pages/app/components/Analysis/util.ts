@@ -53,5 +53,10 @@ export const formatValue = (val: number | undefined, formatter?: ValueFormatter)
 
 export type DimensionEntry = {
     date: string
-    value: number
+    /**
+     * Null if no data, plotted as a gap
+     *
+     * @since 3.7.0
+     */
+    value: number | null
 }
\ No newline at end of file
@@ -0,0 +1,101 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { t } from "@app/locale"
+import { useRequest } from "@hooks"
+import { type ElTableRowScope } from "@pages/element-ui/table"
+import processor from "@service/backup/processor"
+import { formatPeriodCommon } from "@util/time"
+import { ElButton, ElMessage, ElMessageBox, ElTable, ElTableColumn } from "element-plus"
+import { defineComponent } from "vue"
+
+type ArchiveRow = {
+    cid: string
+    cname?: string
+    /**
+     * YYYYMM
+     */
+    month: string
+}
+
+/**
+ * Archived months of all the clients, or undefined if not supported
+ */
+async function queryArchives(): Promise<ArchiveRow[] | undefined> {
+    const { success, data, errorMsg } = await processor.listArchives()
+    if (!success) {
+        // Only AWS moves the old data into the cold storage
+        if (errorMsg?.includes('not supported')) return undefined
+        throw new Error(errorMsg)
+    }
+    const names = Object.fromEntries((await processor.listClients()).data?.map(c => [c.id, c.name]) ?? [])
+    return Object.entries(data ?? {})
+        .flatMap(([cid, months]) => months.map(month => ({ cid, cname: names[cid], month })))
+        .sort((a, b) => b.month.localeCompare(a.month) || a.cid.localeCompare(b.cid))
+}
+
+const formatMonth = ({ month }: ArchiveRow) => `${month.substring(0, 4)}-${month.substring(4)}`
+
+const _default = defineComponent<{ ts?: number }>(props => {
+    const { data, loading } = useRequest(queryArchives, {
+        deps: () => props.ts,
+        onError: e => ElMessage.error((e as Error)?.message || 'Unknown error...'),
+    })
+
+    const handlePreview = async (row: ArchiveRow) => {
+        const { success, data: rows = [], errorMsg } = await processor.fetchArchive(row.cid, row.month)
+        if (!success) return ElMessage.error(errorMsg || 'Unknown error')
+        const hosts = new Set(rows.map(r => r.host)).size
+        const focus = rows.reduce((a, r) => a + (r.focus ?? 0), 0)
+        const visit = rows.reduce((a, r) => a + (r.time ?? 0), 0)
+        ElMessageBox.alert(
+            t(msg => msg.sync.archives.previewContent, {
+                rowCount: rows.length, hostCount: hosts, focus: formatPeriodCommon(focus), visit,
+            }),
+            `${row.cname || row.cid} / ${formatMonth(row)}`,
+        ).catch(() => { })
+    }
+
+    const handleRehydrate = (row: ArchiveRow) => ElMessageBox.confirm(
+        t(msg => msg.sync.archives.rehydrateConfirm, { month: formatMonth(row) }),
+        t(msg => msg.sync.archives.rehydrate),
+    ).then(async () => {
+        const { success, data: count, errorMsg } = await processor.rehydrateArchive(row.cid, row.month)
+        success
+            ? ElMessage.success(t(msg => msg.sync.archives.rehydrated, { count: count ?? 0 }))
+            : ElMessage.error(errorMsg || 'Unknown error')
+    }).catch(() => { })
+
+    return () => (
+        <ElTable
+            v-show={!!data.value}
+            data={data.value ?? []}
+            border
+            maxHeight="40vh"
+            emptyText={loading.value ? 'Loading data ...' : t(msg => msg.sync.archives.empty)}
+        >
+            <ElTableColumn
+                label={t(msg => msg.option.backup.client, { input: '' })}
+                minWidth={240}
+                formatter={(row: ArchiveRow) => row.cname ? `${row.cname} (${row.cid})` : row.cid}
+            />
+            <ElTableColumn label={t(msg => msg.sync.archives.month)} minWidth={140} formatter={formatMonth} />
+            <ElTableColumn label={t(msg => msg.button.operation)} minWidth={180} align="center">
+                {({ row }: ElTableRowScope<ArchiveRow>) => <>
+                    <ElButton link type="primary" onClick={() => handlePreview(row)}>
+                        {t(msg => msg.sync.archives.preview)}
+                    </ElButton>
+                    <ElButton link type="warning" onClick={() => handleRehydrate(row)}>
+                        {t(msg => msg.sync.archives.rehydrate)}
+                    </ElButton>
+                </>}
+            </ElTableColumn>
+        </ElTable>
+    )
+}, { props: ['ts'] })
+
+export default _default
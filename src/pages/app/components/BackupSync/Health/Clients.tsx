@@ -0,0 +1,139 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { t } from "@app/locale"
+import { cvt2LocaleTime } from "@app/util/time"
+import { useRequest } from "@hooks"
+import { type ElTableRowScope } from "@pages/element-ui/table"
+import processor from "@service/backup/processor"
+import optionHolder from "@service/components/option-holder"
+import metaService from "@service/meta-service"
+import { formatTime } from "@util/time"
+import { ElButton, ElDropdown, ElDropdownItem, ElDropdownMenu, ElMessage, ElMessageBox, ElTable, ElTableColumn, ElTag } from "element-plus"
+import { defineComponent } from "vue"
+
+const TIME_FORMAT = t(msg => msg.calendar.timeFormat)
+
+type ClientRow = timer.backup.Client & {
+    current: boolean
+    /**
+     * Timestamp of the last successful sync, only known for the local client
+     */
+    lastSync?: number
+}
+
+async function queryClients(): Promise<ClientRow[]> {
+    const { success, data, errorMsg } = await processor.listClients()
+    if (!success) throw new Error(errorMsg)
+    const cid = await metaService.getCid()
+    const { backupType } = await optionHolder.get()
+    const lastSync = (await metaService.getLastBackUp(backupType))?.ts
+    return (data ?? []).map(client => {
+        const current = client.id === cid
+        return { ...client, current, lastSync: current ? lastSync : undefined }
+    })
+}
+
+const formatRange = ({ minDate, maxDate }: ClientRow) => {
+    const min = minDate ? cvt2LocaleTime(minDate) : ''
+    const max = maxDate ? cvt2LocaleTime(maxDate) : ''
+    return `${min} - ${max}`
+}
+
+const _default = defineComponent<{ ts?: number }>(props => {
+    const { data, loading, refresh } = useRequest(queryClients, {
+        defaultValue: [],
+        deps: () => props.ts,
+        onError: e => ElMessage.error((e as Error)?.message || 'Unknown error...'),
+    })
+
+    const handleResult = ({ success, errorMsg }: { success: boolean, errorMsg?: string }) => {
+        if (success) {
+            ElMessage.success(t(msg => msg.operation.successMsg))
+            refresh()
+        } else {
+            ElMessage.error(errorMsg || 'Unknown error')
+        }
+    }
+
+    const handleRename = (row: ClientRow) => ElMessageBox.prompt(
+        t(msg => msg.sync.clients.renameTip),
+        t(msg => msg.sync.clients.rename),
+        { inputValue: row.name },
+    ).then(async ({ value }) => handleResult(await processor.renameClient(row.id, value?.trim()))).catch(() => { })
+
+    const handleMerge = (row: ClientRow, to: ClientRow) => ElMessageBox.confirm(
+        t(msg => msg.sync.clients.mergeConfirm, { from: row.name || row.id, to: to.name || to.id }),
+        t(msg => msg.sync.clients.mergeTitle),
+    ).then(async () => handleResult(await processor.mergeClient(row.id, to.id))).catch(() => { })
+
+    const handleRetire = async (row: ClientRow) => handleResult(await processor.retireClient(row.id, !row.retired))
+
+    const handleClaim = (row: ClientRow) => ElMessageBox.confirm(
+        t(msg => msg.sync.clients.claimConfirm, { name: row.name || row.id }),
+        t(msg => msg.sync.clients.claim),
+    ).then(async () => handleResult(await processor.adoptClient(row.id))).catch(() => { })
+
+    return () => (
+        <ElTable data={data.value} border maxHeight="40vh" emptyText={loading.value ? 'Loading data ...' : 'Empty data'}>
+            <ElTableColumn label="CID" minWidth={240} formatter={(row: ClientRow) => row.id || '-'} />
+            <ElTableColumn label={t(msg => msg.option.backup.client, { input: '' })} minWidth={160}>
+                {({ row }: ElTableRowScope<ClientRow>) => <>
+                    {row.name || '-'}
+                    <ElTag v-show={row.current} size="small" type="danger" style={{ marginInlineStart: '4px' }}>
+                        {t(msg => msg.option.backup.clientTable.current)}
+                    </ElTag>
+                    <ElTag v-show={!!row.retired} size="small" type="info" style={{ marginInlineStart: '4px' }}>
+                        {t(msg => msg.sync.clients.retired)}
+                    </ElTag>
+                </>}
+            </ElTableColumn>
+            <ElTableColumn
+                label={t(msg => msg.option.backup.clientTable.dataRange)}
+                minWidth={200}
+                formatter={formatRange}
+            />
+            <ElTableColumn
+                label={t(msg => msg.sync.clients.lastSync)}
+                minWidth={160}
+                formatter={(row: ClientRow) => row.lastSync ? formatTime(row.lastSync, TIME_FORMAT) : '-'}
+            />
+            <ElTableColumn label={t(msg => msg.button.operation)} minWidth={280} align="center">
+                {({ row }: ElTableRowScope<ClientRow>) => <>
+                    <ElButton link type="primary" onClick={() => handleRename(row)}>
+                        {t(msg => msg.sync.clients.rename)}
+                    </ElButton>
+                    <ElDropdown
+                        v-show={!row.current}
+                        trigger="click"
+                        style={{ marginInline: '12px', verticalAlign: 'middle' }}
+                        onCommand={(to: ClientRow) => handleMerge(row, to)}
+                        v-slots={{
+                            dropdown: () => (
+                                <ElDropdownMenu>
+                                    {data.value.filter(c => c.id !== row.id).map(c => (
+                                        <ElDropdownItem command={c}>{c.name || c.id}</ElDropdownItem>
+                                    ))}
+                                </ElDropdownMenu>
+                            ),
+                        }}
+                    >
+                        <ElButton link type="primary">{t(msg => msg.sync.clients.mergeInto)}</ElButton>
+                    </ElDropdown>
+                    <ElButton link type="warning" v-show={!row.current} onClick={() => handleRetire(row)}>
+                        {t(msg => row.retired ? msg.sync.clients.restore : msg.sync.clients.retire)}
+                    </ElButton>
+                    <ElButton link type="danger" v-show={!row.current} onClick={() => handleClaim(row)}>
+                        {t(msg => msg.sync.clients.claim)}
+                    </ElButton>
+                </>}
+            </ElTableColumn>
+        </ElTable>
+    )
+}, { props: ['ts'] })
+
+export default _default
@@ -0,0 +1,68 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { t } from "@app/locale"
+import { cvt2LocaleTime } from "@app/util/time"
+import { useRequest } from "@hooks"
+import Flex from "@pages/components/Flex"
+import { type ElTableRowScope } from "@pages/element-ui/table"
+import conflictService, { type ConflictItem } from "@service/sync/conflict-service"
+import { ElButton, ElLoading, ElMessage, ElTable, ElTableColumn } from "element-plus"
+import { defineComponent } from "vue"
+import { formatValue } from "./common"
+
+const CHOICES: timer.backup.ConflictChoice[] = ['local', 'remote', 'sum']
+
+const _default = defineComponent<{ ts?: number, onResolved?: NoArgCallback }>(props => {
+    const { data, refresh } = useRequest(() => conflictService.listPending(), { defaultValue: [], deps: () => props.ts })
+
+    const handleResolve = async (item: ConflictItem, choice: timer.backup.ConflictChoice) => {
+        const loading = ElLoading.service({ text: t(msg => msg.sync.review.writing) })
+        try {
+            const errorMsg = await conflictService.resolve(item, choice)
+            if (errorMsg) {
+                ElMessage.error(errorMsg)
+                return
+            }
+            ElMessage.success(t(msg => msg.operation.successMsg))
+            refresh()
+            props.onResolved?.()
+        } finally {
+            loading.close()
+        }
+    }
+
+    return () => (
+        <ElTable data={data.value} border maxHeight="40vh" emptyText={t(msg => msg.sync.review.empty)}>
+            <ElTableColumn label={t(msg => msg.item.date)} width={120} formatter={(row: ConflictItem) => cvt2LocaleTime(row.date)} />
+            <ElTableColumn label={t(msg => msg.item.host)} prop="host" minWidth={160} />
+            <ElTableColumn
+                label={t(msg => msg.sync.review.local)}
+                width={180}
+                formatter={(row: ConflictItem) => formatValue(row.local)}
+            />
+            <ElTableColumn
+                label={t(msg => msg.sync.review.remote)}
+                width={180}
+                formatter={(row: ConflictItem) => formatValue(row.remote)}
+            />
+            <ElTableColumn label={t(msg => msg.sync.review.resolve)} width={300} align="center">
+                {({ row }: ElTableRowScope<ConflictItem>) => (
+                    <Flex gap={4} justify="center">
+                        {CHOICES.map(choice => (
+                            <ElButton size="small" onClick={() => handleResolve(row, choice)}>
+                                {t(msg => msg.sync.review.choices[choice])}
+                            </ElButton>
+                        ))}
+                    </Flex>
+                )}
+            </ElTableColumn>
+        </ElTable>
+    )
+}, { props: ['ts', 'onResolved'] })
+
+export default _default
@@ -0,0 +1,116 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { t } from "@app/locale"
+import { cvt2LocaleTime } from "@app/util/time"
+import { useRequest } from "@hooks"
+import syncHealthService from "@service/sync/sync-health-service"
+import { formatTime } from "@util/time"
+import { ElTable, ElTableColumn, ElTabPane, ElTabs } from "element-plus"
+import { defineComponent, ref } from "vue"
+import { formatValue } from "./common"
+import ConflictReview from "./ConflictReview"
+
+const TIME_FORMAT = t(msg => msg.calendar.timeFormat)
+
+const formatTs = ({ ts }: { ts: number }) => formatTime(ts, TIME_FORMAT)
+
+const _default = defineComponent<{ ts?: number }>(props => {
+    const tab = ref<'failure' | 'review' | 'conflict' | 'audit'>('failure')
+    const { data, refresh } = useRequest(async () => ({
+        failures: await syncHealthService.listFailures(),
+        conflicts: await syncHealthService.listConflicts(),
+        resolutions: await syncHealthService.listResolutions(),
+    }), { deps: () => props.ts })
+
+    return () => {
+        const { failures = [], conflicts = [], resolutions = [] } = data.value ?? {}
+        return (
+            <ElTabs modelValue={tab.value} onTabChange={val => tab.value = val as typeof tab.value}>
+                <ElTabPane name="failure" label={t(msg => msg.sync.records.failures, { count: failures.length })}>
+                    <ElTable data={failures} border maxHeight="40vh" emptyText={t(msg => msg.sync.records.noFailures)}>
+                        <ElTableColumn label={t(msg => msg.sync.records.time)} width={180} formatter={formatTs} />
+                        <ElTableColumn
+                            label={t(msg => msg.sync.records.source)}
+                            width={140}
+                            formatter={(row: timer.backup.Failure) => t(msg => msg.sync.records.sources[row.source]) || row.source}
+                        />
+                        <ElTableColumn label={t(msg => msg.sync.records.message)} prop="message" minWidth={240} />
+                    </ElTable>
+                </ElTabPane>
+                <ElTabPane name="review" label={t(msg => msg.sync.review.title)}>
+                    <ConflictReview ts={props.ts} onResolved={refresh} />
+                </ElTabPane>
+                <ElTabPane name="conflict" label={t(msg => msg.sync.records.conflicts, { count: conflicts.length })}>
+                    <ElTable data={conflicts} border maxHeight="40vh" emptyText={t(msg => msg.sync.records.noConflicts)}>
+                        <ElTableColumn label={t(msg => msg.sync.records.time)} width={180} formatter={formatTs} />
+                        <ElTableColumn
+                            label={t(msg => msg.item.date)}
+                            width={120}
+                            formatter={(row: timer.backup.ConflictRecord) => cvt2LocaleTime(row.date)}
+                        />
+                        <ElTableColumn label={t(msg => msg.item.host)} prop="host" minWidth={160} />
+                        <ElTableColumn label={t(msg => msg.sync.records.otherClient)} prop="clientId" minWidth={160} />
+                        <ElTableColumn
+                            label={t(msg => msg.sync.records.overwritten)}
+                            width={200}
+                            formatter={(row: timer.backup.ConflictRecord) => formatValue(row.overwritten)}
+                        />
+                        <ElTableColumn
+                            label={t(msg => msg.sync.records.uploaded)}
+                            width={200}
+                            formatter={(row: timer.backup.ConflictRecord) => formatValue(row.uploaded)}
+                        />
+                        <ElTableColumn
+                            label={t(msg => msg.sync.records.result)}
+                            width={200}
+                            formatter={(row: timer.backup.ConflictRecord) => {
+                                const result = row.rejected
+                                    ? t(msg => msg.sync.records.rejected, { reason: row.reason ?? '' })
+                                    : t(msg => msg.sync.records.accepted)
+                                return row.resolved ? t(msg => msg.sync.records.resolved, { result }) : result
+                            }}
+                        />
+                    </ElTable>
+                </ElTabPane>
+                <ElTabPane name="audit" label={t(msg => msg.sync.records.audit, { count: resolutions.length })}>
+                    <ElTable data={resolutions} border maxHeight="40vh" emptyText={t(msg => msg.sync.records.noResolutions)}>
+                        <ElTableColumn label={t(msg => msg.sync.records.time)} width={180} formatter={formatTs} />
+                        <ElTableColumn
+                            label={t(msg => msg.item.date)}
+                            width={120}
+                            formatter={(row: timer.backup.ConflictResolution) => cvt2LocaleTime(row.date)}
+                        />
+                        <ElTableColumn label={t(msg => msg.item.host)} prop="host" minWidth={160} />
+                        <ElTableColumn
+                            label={t(msg => msg.sync.records.choice)}
+                            width={120}
+                            formatter={(row: timer.backup.ConflictResolution) => t(msg => msg.sync.records.choices[row.choice])}
+                        />
+                        <ElTableColumn
+                            label={t(msg => msg.sync.review.local)}
+                            width={180}
+                            formatter={(row: timer.backup.ConflictResolution) => formatValue(row.local)}
+                        />
+                        <ElTableColumn
+                            label={t(msg => msg.sync.review.remote)}
+                            width={180}
+                            formatter={(row: timer.backup.ConflictResolution) => formatValue(row.remote)}
+                        />
+                        <ElTableColumn
+                            label={t(msg => msg.sync.records.writtenBack)}
+                            width={180}
+                            formatter={(row: timer.backup.ConflictResolution) => formatValue(row.result)}
+                        />
+                    </ElTable>
+                </ElTabPane>
+            </ElTabs>
+        )
+    }
+}, { props: ['ts'] })
+
+export default _default
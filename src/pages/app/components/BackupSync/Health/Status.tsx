@@ -0,0 +1,84 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { t } from "@app/locale"
+import { useRequest } from "@hooks"
+import optionHolder from "@service/components/option-holder"
+import metaService from "@service/meta-service"
+import { backgroundSyncService } from "@service/sync/background-sync-service"
+import syncHealthService from "@service/sync/sync-health-service"
+import { formatTime } from "@util/time"
+import { ElDescriptions, ElDescriptionsItem, ElTag, ElText } from "element-plus"
+import { defineComponent } from "vue"
+
+const TIME_FORMAT = t(msg => msg.calendar.timeFormat)
+
+const CONNECTION_TAGS: Record<timer.backup.ConnectionStatus['method'], 'success' | 'warning' | 'danger' | 'info'> = {
+    websocket: 'success',
+    polling: 'warning',
+    error: 'danger',
+    none: 'info',
+}
+
+const formatTs = (ts: number | undefined) => ts ? formatTime(ts, TIME_FORMAT) : '-'
+
+async function queryStatus() {
+    const { backupType } = await optionHolder.get()
+    const lastBackup = await metaService.getLastBackUp(backupType)
+    const connection = await syncHealthService.getConnection()
+    const queue = await backgroundSyncService.getStatus()
+    return { backupType, lastBackup, connection, queue }
+}
+
+const _default = defineComponent<{ ts?: number }>(props => {
+    const { data } = useRequest(queryStatus, { deps: () => props.ts })
+
+    const renderConnection = () => {
+        const { backupType, connection } = data.value ?? {}
+        if (backupType !== 'aws') return <ElText type="info">{t(msg => msg.sync.status.awsOnly)}</ElText>
+        const { method = 'none', connected, error, ts } = connection ?? {}
+        const [type, text] = method === 'websocket' && !connected
+            ? ['warning', t(msg => msg.sync.status.connecting)] as const
+            : [CONNECTION_TAGS[method], t(msg => msg.sync.status.method[method])] as const
+        return <>
+            <ElTag size="small" type={type}>{text}</ElTag>
+            <ElText size="small" style={{ marginInlineStart: '8px' }}>{formatTs(ts)}</ElText>
+            {error && <ElText size="small" type="danger" style={{ marginInlineStart: '8px' }}>{error}</ElText>}
+        </>
+    }
+
+    const renderQueue = () => {
+        const { pending = 0, failures, lastError, lastSyncTs } = data.value?.queue ?? {}
+        return <>
+            <ElTag size="small" type={pending ? 'warning' : 'success'}>
+                {t(msg => msg.sync.status.pending, { count: pending })}
+            </ElTag>
+            <ElText size="small" style={{ marginInlineStart: '8px' }}>
+                {t(msg => msg.sync.status.lastPushed, { time: formatTs(lastSyncTs) })}
+            </ElText>
+            {!!failures && <ElText size="small" type="danger" style={{ marginInlineStart: '8px' }}>
+                {t(msg => msg.sync.status.failures, { count: failures, error: lastError ?? '' })}
+            </ElText>}
+        </>
+    }
+
+    return () => (
+        <ElDescriptions column={1} border>
+            <ElDescriptionsItem label={t(msg => msg.sync.status.connection)} labelAlign="right">
+                {renderConnection()}
+            </ElDescriptionsItem>
+            <ElDescriptionsItem label={t(msg => msg.sync.status.lastBackup)} labelAlign="right">
+                {formatTs(data.value?.lastBackup?.ts)}
+            </ElDescriptionsItem>
+            <ElDescriptionsItem label={t(msg => msg.sync.status.queue)} labelAlign="right">
+                {renderQueue()}
+            </ElDescriptionsItem>
+        </ElDescriptions>
+    )
+}, { props: ['ts'] })
+
+export default _default
@@ -0,0 +1,12 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { formatPeriodCommon } from "@util/time"
+
+export const formatValue = (value: timer.core.Result | undefined) => value
+    ? `${formatPeriodCommon(value.focus)} / ${value.time}`
+    : '-'
@@ -0,0 +1,63 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { t } from "@app/locale"
+import { Delete, RefreshRight } from "@element-plus/icons-vue"
+import { useState } from "@hooks"
+import Flex from "@pages/components/Flex"
+import syncHealthService from "@service/sync/sync-health-service"
+import { ElButton, ElCard, ElMessageBox } from "element-plus"
+import { defineComponent } from "vue"
+import Archives from "./Archives"
+import Clients from "./Clients"
+import Records from "./Records"
+import Status from "./Status"
+
+/**
+ * Status and health of syncing
+ */
+const _default = defineComponent(() => {
+    // Change it to refresh all the parts
+    const [ts, setTs] = useState(Date.now())
+    const refresh = () => setTs(Date.now())
+
+    const handleClear = () => ElMessageBox.confirm(t(msg => msg.sync.clearConfirm), t(msg => msg.sync.clearRecords))
+        .then(async () => {
+            await syncHealthService.clear()
+            refresh()
+        })
+        .catch(() => { })
+
+    return () => (
+        <ElCard
+            v-slots={{
+                header: () => (
+                    <Flex justify="space-between" align="center">
+                        <span>{t(msg => msg.sync.title)}</span>
+                        <Flex gap={8}>
+                            <ElButton size="small" icon={RefreshRight} onClick={refresh}>
+                                {t(msg => msg.sync.refresh)}
+                            </ElButton>
+                            <ElButton size="small" icon={Delete} onClick={handleClear}>
+                                {t(msg => msg.sync.clearRecords)}
+                            </ElButton>
+                        </Flex>
+                    </Flex>
+                ),
+            }}
+        >
+            <Flex column gap={15}>
+                <Status ts={ts.value} />
+                <Clients ts={ts.value} />
+                <Archives ts={ts.value} />
+                <Records ts={ts.value} />
+            </Flex>
+        </ElCard>
+    )
+})
+
+export default _default
@@ -0,0 +1,104 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { t } from "@app/locale"
+import { Check } from "@element-plus/icons-vue"
+import { useSwitch } from "@hooks"
+import budgetService from "@service/budget-service"
+import { MILL_PER_HOUR, MILL_PER_MINUTE, MILL_PER_SECOND } from "@util/time"
+import { ElButton, ElDialog, ElForm, ElFormItem, ElInputNumber, ElMessage } from "element-plus"
+import { defineComponent, reactive } from "vue"
+
+export type BudgetModifyInstance = {
+    modify(cate: timer.site.Cate): void
+}
+
+type _FormData = {
+    cateId: number | undefined
+    cateName: string
+    /**
+     * Daily quota, minutes
+     */
+    daily: number
+    /**
+     * Weekly quota, hours
+     */
+    weekly: number
+}
+
+const SECONDS_PER_MINUTE = MILL_PER_MINUTE / MILL_PER_SECOND
+const SECONDS_PER_HOUR = MILL_PER_HOUR / MILL_PER_SECOND
+
+const _default = defineComponent<{ onSave?: NoArgCallback }>((props, ctx) => {
+    const [visible, open, close] = useSwitch()
+    const formData = reactive<_FormData>({ cateId: undefined, cateName: '', daily: 0, weekly: 0 })
+
+    const modify = ({ id, name, budget }: timer.site.Cate) => {
+        formData.cateId = id
+        formData.cateName = name
+        formData.daily = Math.round((budget?.daily ?? 0) / SECONDS_PER_MINUTE)
+        formData.weekly = Math.round((budget?.weekly ?? 0) / SECONDS_PER_HOUR * 10) / 10
+        open()
+    }
+
+    ctx.expose({ modify } satisfies BudgetModifyInstance)
+
+    const handleSave = async () => {
+        const { cateId, daily, weekly } = formData
+        if (!cateId) return
+        await budgetService.saveBudget(cateId, {
+            daily: daily ? daily * SECONDS_PER_MINUTE : undefined,
+            weekly: weekly ? Math.round(weekly * SECONDS_PER_HOUR) : undefined,
+        })
+        close()
+        ElMessage.success(t(msg => msg.operation.successMsg))
+        props.onSave?.()
+    }
+
+    return () => (
+        <ElDialog
+            width={420}
+            title={formData.cateName}
+            modelValue={visible.value}
+            closeOnClickModal={false}
+            onClose={close}
+            v-slots={{
+                footer: () => (
+                    <ElButton type="primary" icon={Check} onClick={handleSave}>
+                        {t(msg => msg.button.save)}
+                    </ElButton>
+                )
+            }}
+        >
+            <ElForm labelWidth={120}>
+                <ElFormItem label={t(msg => msg.budget.column.daily)}>
+                    <ElInputNumber
+                        modelValue={formData.daily}
+                        onChange={val => formData.daily = val ?? 0}
+                        min={0}
+                        max={24 * 60}
+                        step={5}
+                    />
+                    <span style={{ marginLeft: '8px' }}>{t(msg => msg.budget.minutes)}</span>
+                </ElFormItem>
+                <ElFormItem label={t(msg => msg.budget.column.weekly)}>
+                    <ElInputNumber
+                        modelValue={formData.weekly}
+                        onChange={val => formData.weekly = val ?? 0}
+                        min={0}
+                        max={7 * 24}
+                        step={0.5}
+                        precision={1}
+                    />
+                    <span style={{ marginLeft: '8px' }}>{t(msg => msg.budget.hours)}</span>
+                </ElFormItem>
+            </ElForm>
+        </ElDialog>
+    )
+}, { props: ['onSave'] })
+
+export default _default
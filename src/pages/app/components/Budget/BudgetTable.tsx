@@ -0,0 +1,102 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { t } from "@app/locale"
+import { Edit } from "@element-plus/icons-vue"
+import Flex from "@pages/components/Flex"
+import { type ElTableRowScope } from "@pages/element-ui/table"
+import { BADGE_RATE, rateOf } from "@util/budget"
+import { formatPeriodCommon, MILL_PER_SECOND } from "@util/time"
+import { ElButton, ElProgress, ElTable, ElTableColumn, ElText } from "element-plus"
+import { defineComponent } from "vue"
+
+export type BudgetRow = {
+    cate: timer.site.Cate
+    status?: timer.budget.Status
+}
+
+type Props = {
+    data?: BudgetRow[]
+    onModify?: ArgCallback<timer.site.Cate>
+}
+
+const formatQuota = (seconds: number | undefined) => seconds
+    ? formatPeriodCommon(seconds * MILL_PER_SECOND)
+    : t(msg => msg.budget.unset)
+
+const colorOf = (rate: number): string => {
+    if (rate >= 1) return 'var(--el-color-danger)'
+    if (rate >= BADGE_RATE) return 'var(--el-color-warning)'
+    return 'var(--el-color-success)'
+}
+
+const UsageCell = ({ usage }: { usage: timer.budget.Usage | undefined }) => {
+    if (!usage) return <ElText type="info">-</ElText>
+    const { spent, quota } = usage
+    const rate = rateOf(usage)
+    const left = quota - spent
+    return (
+        <Flex column gap={4}>
+            <ElProgress percentage={Math.min(100, Math.round(rate * 100))} color={colorOf(rate)} showText={false} />
+            <ElText size="small">
+                {formatPeriodCommon(spent)} / {left >= 0
+                    ? t(msg => msg.budget.remaining, { time: formatPeriodCommon(left) })
+                    : t(msg => msg.budget.exceeded, { time: formatPeriodCommon(-left) })
+                }
+            </ElText>
+        </Flex>
+    )
+}
+
+const _default = defineComponent<Props>(props => {
+    return () => (
+        <ElTable data={props.data} height="100%" border fit emptyText={t(msg => msg.budget.emptyTip)}>
+            <ElTableColumn
+                label={t(msg => msg.budget.column.cate)}
+                minWidth={140}
+                align="center"
+                formatter={(row: BudgetRow) => row.cate.name}
+            />
+            <ElTableColumn
+                label={t(msg => msg.budget.column.daily)}
+                minWidth={120}
+                align="center"
+                formatter={(row: BudgetRow) => formatQuota(row.cate.budget?.daily)}
+            />
+            <ElTableColumn
+                label={t(msg => msg.budget.column.today)}
+                minWidth={200}
+                align="center"
+                v-slots={({ row }: ElTableRowScope<BudgetRow>) => <UsageCell usage={row.status?.daily} />}
+            />
+            <ElTableColumn
+                label={t(msg => msg.budget.column.weekly)}
+                minWidth={120}
+                align="center"
+                formatter={(row: BudgetRow) => formatQuota(row.cate.budget?.weekly)}
+            />
+            <ElTableColumn
+                label={t(msg => msg.budget.column.thisWeek)}
+                minWidth={200}
+                align="center"
+                v-slots={({ row }: ElTableRowScope<BudgetRow>) => <UsageCell usage={row.status?.weekly} />}
+            />
+            <ElTableColumn
+                label={t(msg => msg.button.operation)}
+                width={120}
+                align="center"
+                v-slots={({ row }: ElTableRowScope<BudgetRow>) => (
+                    <ElButton size="small" type="primary" icon={Edit} onClick={() => props.onModify?.(row.cate)}>
+                        {t(msg => msg.button.modify)}
+                    </ElButton>
+                )}
+            />
+        </ElTable>
+    )
+}, { props: ['data', 'onModify'] })
+
+export default _default
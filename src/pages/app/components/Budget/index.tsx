@@ -0,0 +1,52 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { t } from "@app/locale"
+import { useRequest } from "@hooks"
+import Flex from "@pages/components/Flex"
+import budgetService from "@service/budget-service"
+import cateService from "@service/cate-service"
+import { BADGE_RATE, NOTIFY_RATE } from "@util/budget"
+import { ElAlert } from "element-plus"
+import { defineComponent, ref } from "vue"
+import ContentContainer from "../common/ContentContainer"
+import BudgetModify, { type BudgetModifyInstance } from "./BudgetModify"
+import BudgetTable, { type BudgetRow } from "./BudgetTable"
+
+async function queryRows(): Promise<BudgetRow[]> {
+    const cates = await cateService.listAll()
+    const statuses = await budgetService.listStatus()
+    const statusMap = Object.fromEntries(statuses.map(s => [s.cateId, s]))
+    return cates.map(cate => ({ cate, status: statusMap[cate.id] }))
+}
+
+const _default = defineComponent(() => {
+    const { data, refresh } = useRequest(queryRows, { loadingTarget: '#budget-table-wrapper' })
+    const modify = ref<BudgetModifyInstance>()
+
+    return () => (
+        <ContentContainer>
+            <Flex id="budget-table-wrapper" column width="100%" height="100%" gap={20}>
+                <ElAlert
+                    title={t(msg => msg.budget.infoAlertTitle)}
+                    style={{ padding: "15px 25px" }}
+                    closable={false}
+                >
+                    <li>{t(msg => msg.budget.infoAlert0, { rate: Math.round(BADGE_RATE * 100) })}</li>
+                    <li>{t(msg => msg.budget.infoAlert1, { rate: Math.round(NOTIFY_RATE * 100) })}</li>
+                    <li>{t(msg => msg.budget.infoAlert2)}</li>
+                </ElAlert>
+                <Flex flex={1} height={0}>
+                    <BudgetTable data={data.value} onModify={cate => modify.value?.modify(cate)} />
+                </Flex>
+            </Flex>
+            <BudgetModify ref={modify} onSave={refresh} />
+        </ContentContainer>
+    )
+})
+
+export default _default
@@ -0,0 +1,62 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { getSeriesPalette } from "@app/util/echarts"
+import { cvt2LocaleTime } from "@app/util/time"
+import { EchartsWrapper } from "@hooks/useEcharts"
+import {
+    type ComposeOption,
+    type GridComponentOption,
+    type LineSeriesOption,
+    type TooltipComponentOption,
+} from "echarts"
+import { type TopLevelFormatterParams } from "echarts/types/dist/shared"
+
+type EcOption = ComposeOption<
+    | LineSeriesOption
+    | GridComponentOption
+    | TooltipComponentOption
+>
+
+function generateOption(scores: timer.productivity.Score[]): EcOption {
+    const [color] = getSeriesPalette()
+    return {
+        tooltip: {
+            trigger: 'axis',
+            formatter(params: TopLevelFormatterParams) {
+                if (!Array.isArray(params)) return ''
+                const [{ name, value }] = params
+                return `${cvt2LocaleTime(name)}&emsp;<b>${value ?? '-'}</b>`
+            },
+        },
+        grid: { left: '5%', right: '5%', top: '5%', bottom: '5%' },
+        xAxis: {
+            type: 'category',
+            data: scores.map(s => s.date),
+            show: false,
+        },
+        yAxis: {
+            type: 'value',
+            min: 0,
+            max: 100,
+            show: false,
+        },
+        series: {
+            type: 'line',
+            smooth: true,
+            connectNulls: true,
+            showSymbol: false,
+            itemStyle: { color },
+            areaStyle: { color, opacity: 0.2 },
+            data: scores.map(s => s.score ?? null),
+        },
+    }
+}
+
+export default class Wrapper extends EchartsWrapper<timer.productivity.Score[], EcOption> {
+    generateOption = generateOption
+}
@@ -0,0 +1,51 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import NumberGrow from "@app/components/common/NumberGrow"
+import { t } from "@app/locale"
+import { PRODUCTIVITY_ROUTE } from "@app/router/constants"
+import { useRequest } from "@hooks"
+import { useEcharts } from "@hooks/useEcharts"
+import Flex from "@pages/components/Flex"
+import productivityService from "@service/productivity-service"
+import { daysAgo } from "@util/time"
+import { ElLink } from "element-plus"
+import { computed, defineComponent } from "vue"
+import { useRouter } from "vue-router"
+import ChartTitle from "../../ChartTitle"
+import Wrapper from "./Wrapper"
+
+const TREND_DAYS = 14
+
+const _default = defineComponent(() => {
+    const router = useRouter()
+    const { data: scores } = useRequest(() => productivityService.listScores(daysAgo(TREND_DAYS - 1, 0)), { defaultValue: [] })
+    const today = computed(() => scores.value[scores.value.length - 1]?.score)
+    const { elRef } = useEcharts(Wrapper, scores, {
+        manual: true,
+        afterInit: ew => ew.resize(),
+    })
+
+    return () => (
+        <Flex height="100%" column gap={4}>
+            <ChartTitle text={t(msg => msg.productivity.todayScore)} />
+            <Flex justify="center" align="center" height={60}>
+                {today.value === undefined
+                    ? (
+                        <ElLink type="primary" onClick={() => router.push(PRODUCTIVITY_ROUTE)}>
+                            {t(msg => msg.productivity.noScore)}
+                        </ElLink>
+                    )
+                    : <NumberGrow value={today.value} fontSize={36} />
+                }
+            </Flex>
+            <div ref={elRef} style={{ flex: 1 }} />
+        </Flex>
+    )
+})
+
+export default _default
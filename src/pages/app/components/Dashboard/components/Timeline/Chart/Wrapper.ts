@@ -8,12 +8,16 @@ import {
     type DataZoomComponentOption, type GridComponentOption, type LegendComponentOption, type TooltipComponentOption
 } from 'echarts'
 import { graphic } from "echarts/core"
-import type { Activity, MergeMethod } from './useMerge'
+import { PAUSE_SERIES_KEY, type Activity, type MergeMethod } from './useMerge'
 
 export type BizData = {
     activities: Activity[]
     merge: MergeMethod
     dates: string[]
+    /**
+     * Global pauses split by date
+     */
+    pauses: Activity[]
 }
 
 export type EcOption = ComposeOption<
@@ -71,6 +75,8 @@ const formatDuration = (duration: number): string => {
 
 const LEGEND_WIDTH = 180
 
+const PAUSE_COLOR = '#909399'
+
 const collectLegends = (activities: Activity[]): LegendInfo[] => {
     const colors = getSeriesPalette()
     const colorLen = colors.length || 1
@@ -121,8 +127,8 @@ const renderItem: CustomSeriesRenderItem = (params, api) => {
 }
 
 const generateSeries = (biz: BizData, legendColors: Record<string, string>): EcOption['series'] => {
-    const { activities, dates, merge } = biz
-    const groupBySeries = groupBy(activities, a => a.seriesKey, l => l)
+    const { activities, dates, merge, pauses } = biz
+    const groupBySeries = groupBy([...activities, ...pauses], a => a.seriesKey, l => l)
 
     return Object.entries(groupBySeries).map(([series, list]) => {
         const color = legendColors[series]
@@ -160,18 +166,20 @@ class Wrapper extends EchartsWrapper<BizData, EcOption> {
     protected replaceSeries: boolean = true
 
     protected async generateOption(bizData: BizData): Promise<EcOption> {
-        const { dates, activities, merge } = bizData
+        const { dates, activities, merge, pauses } = bizData
         const domWidth = this.getDomWidth()
         const gridLeft = Math.min(Math.max(30, domWidth * .05), 60)
         const primaryTextColor = getPrimaryTextColor()
 
         const legendData = collectLegends(activities)
+        // Gaps of tracking
+        pauses.length && legendData.push({ name: PAUSE_SERIES_KEY, displayName: pauses[0].seriesName, color: PAUSE_COLOR })
         const legendNames = toMap(legendData, e => e.name, e => e.displayName)
         const legendColor = toMap(legendData, e => e.name, e => e.color)
 
         const tooltipSeriesName = (key: string) => {
             const name = legendNames[key]
-            if (merge === 'cate') return name ?? key
+            if (merge === 'cate' || key === PAUSE_SERIES_KEY) return name ?? key
             return name ? `${name} (${key})` : key
         }
 
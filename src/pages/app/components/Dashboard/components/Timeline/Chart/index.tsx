@@ -8,16 +8,18 @@
 import ChartTitle from '@app/components/Dashboard/ChartTitle'
 import { t } from '@app/locale'
 import { TIMELINE_LIFE_CYCLE } from '@db/timeline-database'
-import { Collection, Files, Link } from '@element-plus/icons-vue'
+import { Collection, Download, Files, Link } from '@element-plus/icons-vue'
 import { useShadow } from '@hooks/index'
 import { useEcharts } from "@hooks/useEcharts"
 import Flex from "@pages/components/Flex"
 import { type ECElementEvent, type ECharts } from "echarts/core"
-import { ElIcon, ElRadioButton, ElRadioGroup } from 'element-plus'
-import { computed, defineComponent } from "vue"
+import { formatTime, isSameDay } from '@util/time'
+import { ElButton, ElDatePicker, ElIcon, ElRadioButton, ElRadioGroup } from 'element-plus'
+import { computed, defineComponent, ref, toRef } from "vue"
 import { type JSX } from 'vue/jsx-runtime'
+import Export, { type ExportInstance } from '../Export'
 import Wrapper, { EcOption, type BizData } from './Wrapper'
-import { useMerge, type MergeMethod } from './useMerge'
+import { cvtPauses, useMerge, type MergeMethod } from './useMerge'
 
 const CHART_CONFIG: Record<MergeMethod, JSX.Element | string> = {
     none: <Files />,
@@ -55,14 +57,37 @@ const handleClick = (inst: ECharts, ev: ECElementEvent) => {
     seriesNames2Toggle.forEach(name => inst.dispatchAction({ type: "legendToggleSelect", name }))
 }
 
-const TimelineChart = defineComponent<{ data: timer.timeline.Tick[] }>(props => {
+type Props = {
+    data: timer.timeline.Tick[]
+    /**
+     * Intervals of the global pauses, displayed as gaps
+     */
+    pauses?: timer.pause.Interval[]
+    /**
+     * The last date to display
+     */
+    date: Date
+    onDateChange: ArgCallback<Date>
+}
+
+const TimelineChart = defineComponent<Props>(props => {
     const [myData] = useShadow(() => props.data)
-    const { merge, setMerge, activities, dates } = useMerge(myData)
+    const { merge, setMerge, activities, dates } = useMerge(myData, toRef(props, 'date'))
     const bizData = computed<BizData>(() => ({
         activities: activities.value,
         merge: merge.value,
-        dates,
+        dates: dates.value,
+        pauses: cvtPauses(props.pauses ?? [], dates.value),
     }))
+    const title = computed(() => isSameDay(props.date, new Date())
+        ? t(msg => msg.dashboard.timeline.title, { n: TIMELINE_LIFE_CYCLE })
+        : t(msg => msg.dashboard.timeline.historyTitle, {
+            n: TIMELINE_LIFE_CYCLE,
+            date: formatTime(props.date, t(msg => msg.calendar.dateFormat)),
+        })
+    )
+
+    const exportRef = ref<ExportInstance>()
 
     const { elRef } = useEcharts(Wrapper, bizData, {
         afterInit: ew => {
@@ -77,9 +102,18 @@ const TimelineChart = defineComponent<{ data: timer.timeline.Tick[] }>(props =>
             <ChartTitle>
                 <Flex justify='space-between'>
                     <Flex align="center">
-                        {t(msg => msg.dashboard.timeline.title, { n: TIMELINE_LIFE_CYCLE })}
+                        {title.value}
                     </Flex>
-                    <Flex align='center'>
+                    <Flex align='center' gap={10}>
+                        <ElDatePicker
+                            size="small"
+                            type="date"
+                            clearable={false}
+                            modelValue={props.date}
+                            onUpdate:modelValue={(val: Date) => val && props.onDateChange?.(val)}
+                            disabledDate={(date: Date) => date.getTime() > Date.now()}
+                            style={{ width: '130px' }}
+                        />
                         <ElRadioGroup size="small" modelValue={merge.value} onChange={setMerge}>
                             {Object.entries(CHART_CONFIG).map(([k, v]) => (
                                 <ElRadioButton value={k}>
@@ -87,12 +121,16 @@ const TimelineChart = defineComponent<{ data: timer.timeline.Tick[] }>(props =>
                                 </ElRadioButton>
                             ))}
                         </ElRadioGroup>
+                        <ElButton size="small" icon={Download} onClick={() => exportRef.value?.open()}>
+                            {t(msg => msg.dashboard.timeline.export.button)}
+                        </ElButton>
                     </Flex>
                 </Flex>
             </ChartTitle >
             <div ref={elRef} style={{ flex: 1 }} />
+            <Export ref={exportRef} />
         </Flex>
     )
-}, { props: ['data'] })
+}, { props: ['data', 'pauses', 'date', 'onDateChange'] })
 
 export default TimelineChart
\ No newline at end of file
@@ -8,7 +8,7 @@ import CustomizedHostMergeRuler from '@service/components/host-merge-ruler'
 import { toMap } from '@util/array'
 import { CATE_NOT_SET_ID } from '@util/site'
 import { formatTime, getAllDatesBetween, getStartOfDay, MILL_PER_DAY } from '@util/time'
-import { onMounted, Ref, ref, watch } from 'vue'
+import { computed, onMounted, Ref, ref, watch } from 'vue'
 
 export type Activity = {
     date: string
@@ -37,10 +37,9 @@ const calcOffsetOfDay = (ts: number) => {
     return ts - startOfDate.getTime()
 }
 
-const genLatestDates = () => {
-    const now = new Date()
-    const start = new Date(now.getTime() - MILL_PER_DAY * (TIMELINE_LIFE_CYCLE - 1))
-    return getAllDatesBetween(start, now, formatDate)
+const genLatestDates = (end: Date) => {
+    const start = new Date(end.getTime() - MILL_PER_DAY * (TIMELINE_LIFE_CYCLE - 1))
+    return getAllDatesBetween(start, end, formatDate)
 }
 
 async function mergeByDomain(ticks: timer.timeline.Tick[]): Promise<ActivityInner[]> {
@@ -124,8 +123,38 @@ async function handleMerge(
     return result
 }
 
-export const useMerge = (ticks: Ref<timer.timeline.Tick[]>) => {
-    const dates = genLatestDates()
+/**
+ * Key of the series of the global pauses
+ *
+ * @since 3.7.0
+ */
+export const PAUSE_SERIES_KEY = '__paused__'
+
+/**
+ * Split the intervals of the global pauses by date, to show the gaps of tracking
+ *
+ * @since 3.7.0
+ */
+export const cvtPauses = (intervals: timer.pause.Interval[], dates: string[]): Activity[] => {
+    const result: Activity[] = []
+    const seriesName = t(msg => msg.dashboard.timeline.paused)
+    intervals.forEach(({ start, end }) => {
+        let cursor = start
+        while (cursor < end) {
+            const segmentEnd = Math.min(end, getStartOfDay(cursor).getTime() + MILL_PER_DAY)
+            const date = formatDate(cursor)
+            dates.includes(date) && result.push({
+                date, start: calcOffsetOfDay(cursor), duration: segmentEnd - cursor,
+                seriesKey: PAUSE_SERIES_KEY, seriesName,
+            })
+            cursor = segmentEnd
+        }
+    })
+    return result
+}
+
+export const useMerge = (ticks: Ref<timer.timeline.Tick[]>, end: Ref<Date>) => {
+    const dates = computed(() => genLatestDates(end.value))
     const merge = ref<MergeMethod>('none')
     const { cateNameMap } = useCategories()
     const setMerge = (val: unknown) => isMergeMethod(val) && (merge.value = val)
@@ -133,7 +162,7 @@ export const useMerge = (ticks: Ref<timer.timeline.Tick[]>) => {
     const [activities, setActivities] = useState<Activity[]>([])
 
     const refreshActivities = async () => {
-        const newVal = await handleMerge(ticks.value, merge.value, cateNameMap.value, new Set(dates))
+        const newVal = await handleMerge(ticks.value, merge.value, cateNameMap.value, new Set(dates.value))
         setActivities(newVal)
     }
 
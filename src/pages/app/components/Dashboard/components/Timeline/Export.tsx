@@ -0,0 +1,134 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { t } from "@app/locale"
+import { TIMELINE_LIFE_CYCLE } from "@db/timeline-database"
+import { Calendar, Document } from "@element-plus/icons-vue"
+import { useSwitch } from "@hooks"
+import { dateFormat as elDateFormat } from "@i18n/element"
+import { getDatePickerIconSlots } from "@pages/element-ui/rtl"
+import timesheetService from "@service/timesheet-service"
+import { exportCsv, exportIcs } from "@util/file"
+import { formatTime, MILL_PER_DAY, MILL_PER_MINUTE } from "@util/time"
+import { DEFAULT_GAP_THRESHOLD, toIcs, toTimesheetRows } from "@util/timesheet"
+import {
+    ElButton, ElDatePicker, ElDialog, ElForm, ElFormItem, ElInputNumber, ElMessage, ElRadioButton, ElRadioGroup,
+} from "element-plus"
+import { defineComponent, ref } from "vue"
+
+export type ExportInstance = {
+    open(): void
+}
+
+const ALL_GROUP_BY: timer.timeline.GroupBy[] = ['host', 'cate', 'domain']
+
+const defaultRange = (): [Date, Date] => {
+    const now = new Date()
+    return [new Date(now.getTime() - MILL_PER_DAY * (TIMELINE_LIFE_CYCLE - 1)), now]
+}
+
+const labelOf = (groupBy: timer.timeline.GroupBy, { key, label }: timer.timeline.Session): string => {
+    if (label) return label
+    return groupBy === 'cate' ? t(msg => msg.shared.cate.notSet) : key
+}
+
+const _default = defineComponent((_, ctx) => {
+    const [visible, open, close] = useSwitch()
+    const dateRange = ref<[Date, Date]>(defaultRange())
+    const groupBy = ref<timer.timeline.GroupBy>('host')
+    const gapMinutes = ref(DEFAULT_GAP_THRESHOLD / MILL_PER_MINUTE)
+
+    ctx.expose({ open } satisfies ExportInstance)
+
+    const handleExport = async (format: 'ics' | 'csv') => {
+        const sessions = await timesheetService.listSessions({
+            dateRange: dateRange.value,
+            groupBy: groupBy.value,
+            gapThreshold: (gapMinutes.value ?? 0) * MILL_PER_MINUTE,
+        })
+        if (!sessions.length) {
+            ElMessage.warning(t(msg => msg.dashboard.timeline.export.empty))
+            return
+        }
+        const [start, end] = dateRange.value
+        const fileName = `timesheet_${formatTime(start, '{y}{m}{d}')}_${formatTime(end, '{y}{m}{d}')}`
+        const labelFn = (session: timer.timeline.Session) => labelOf(groupBy.value, session)
+        if (format === 'ics') {
+            exportIcs(toIcs(sessions, labelFn), fileName)
+        } else {
+            const rows = toTimesheetRows(
+                sessions,
+                [
+                    t(msg => msg.dashboard.timeline.export.start),
+                    t(msg => msg.dashboard.timeline.export.end),
+                    t(msg => msg.dashboard.timeline.export.duration),
+                    t(msg => msg.dashboard.timeline.export.label),
+                ],
+                ts => formatTime(ts, '{y}-{m}-{d} {h}:{i}:{s}'),
+                labelFn,
+            )
+            exportCsv(rows, fileName)
+        }
+        close()
+    }
+
+    return () => (
+        <ElDialog
+            width={520}
+            appendToBody
+            title={t(msg => msg.dashboard.timeline.export.title)}
+            modelValue={visible.value}
+            onClose={close}
+            v-slots={{
+                footer: () => <>
+                    <ElButton icon={Calendar} onClick={() => handleExport('ics')}>iCalendar</ElButton>
+                    <ElButton type="primary" icon={Document} onClick={() => handleExport('csv')}>CSV</ElButton>
+                </>,
+            }}
+        >
+            <ElForm labelWidth={140}>
+                <ElFormItem label={t(msg => msg.dashboard.timeline.export.dateRange)}>
+                    <ElDatePicker
+                        type="daterange"
+                        clearable={false}
+                        modelValue={dateRange.value}
+                        onUpdate:modelValue={(val: [Date, Date]) => val && (dateRange.value = val)}
+                        dateFormat={elDateFormat()}
+                        disabledDate={(date: Date) => date.getTime() > Date.now()}
+                        rangeSeparator="-"
+                        v-slots={getDatePickerIconSlots()}
+                    />
+                </ElFormItem>
+                <ElFormItem label={t(msg => msg.dashboard.timeline.export.groupBy)}>
+                    <ElRadioGroup
+                        modelValue={groupBy.value}
+                        onChange={val => groupBy.value = val as timer.timeline.GroupBy}
+                    >
+                        {ALL_GROUP_BY.map(value => (
+                            <ElRadioButton value={value}>
+                                {t(msg => msg.dashboard.timeline.export[value])}
+                            </ElRadioButton>
+                        ))}
+                    </ElRadioGroup>
+                </ElFormItem>
+                <ElFormItem label={t(msg => msg.dashboard.timeline.export.gap)}>
+                    <ElInputNumber
+                        min={0}
+                        max={120}
+                        step={1}
+                        stepStrictly
+                        modelValue={gapMinutes.value}
+                        onChange={val => gapMinutes.value = val ?? 0}
+                    />
+                    <span style={{ marginInlineStart: '8px' }}>{t(msg => msg.dashboard.timeline.export.minutes)}</span>
+                </ElFormItem>
+            </ElForm>
+        </ElDialog>
+    )
+})
+
+export default _default
@@ -1,16 +1,30 @@
-import timelineDatabase from '@db/timeline-database'
+import timelineDatabase, { TIMELINE_LIFE_CYCLE } from '@db/timeline-database'
 import { useRequest } from '@hooks'
-import { defineComponent } from 'vue'
+import pauseService from '@service/pause-service'
+import { getStartOfDay, MILL_PER_DAY } from '@util/time'
+import { defineComponent, ref } from 'vue'
 import DashboardCard from '../../DashboardCard'
 import TimelineChart from './Chart'
 import Summary from './Summary'
 
 const Timeline = defineComponent<{ height: number }>(({ height }) => {
-    const { data } = useRequest(() => timelineDatabase.getAll(), { defaultValue: [] })
+    // The last date to display
+    const date = ref(new Date())
+    const range = () => {
+        const end = date.value
+        const start = new Date(end.getTime() - MILL_PER_DAY * (TIMELINE_LIFE_CYCLE - 1))
+        return [start, end] as const
+    }
+    const { data } = useRequest(() => timelineDatabase.select(...range()), { defaultValue: [], deps: date })
+    // Gaps of tracking, the dates are filtered by the chart
+    const { data: pauses } = useRequest(() => {
+        const [start, end] = range()
+        return pauseService.selectIntervals(getStartOfDay(start).getTime(), getStartOfDay(end).getTime() + MILL_PER_DAY)
+    }, { defaultValue: [], deps: date })
 
     return () => <>
         <DashboardCard span={20} height={height}>
-            <TimelineChart data={data.value} />
+            <TimelineChart data={data.value} pauses={pauses.value} date={date.value} onDateChange={val => date.value = val} />
         </DashboardCard>
         <DashboardCard span={4} height={height}>
             <Summary data={data.value} />
@@ -19,6 +19,7 @@ import ContentContainer from "../common/ContentContainer"
 import Calendar from "./components/Calendar"
 import Indicator from "./components/Indicator"
 import MonthOnMonth from "./components/MonthOnMonth"
+import Productivity from "./components/Productivity"
 import Timeline from './components/Timeline'
 import TopKVisit from "./components/TopKVisit"
 import "./dashboard.sass"
@@ -62,17 +63,23 @@ const _default = defineComponent(() => {
                             <DashboardCard span={isXs.value ? 24 : 16}>
                                 <TopKVisit />
                             </DashboardCard>
-                            <DashboardCard span={24}>
+                            <DashboardCard span={isXs.value ? 24 : 16}>
                                 <MonthOnMonth />
                             </DashboardCard>
+                            <DashboardCard span={isXs.value ? 24 : 8}>
+                                <Productivity />
+                            </DashboardCard>
                         </>
                         : <>
                             <DashboardCard span={4}>
                                 <Indicator />
                             </DashboardCard>
-                            <DashboardCard span={12}>
+                            <DashboardCard span={8}>
                                 <MonthOnMonth />
                             </DashboardCard>
+                            <DashboardCard span={4}>
+                                <Productivity />
+                            </DashboardCard>
                             <DashboardCard span={8}>
                                 <TopKVisit />
                             </DashboardCard>
@@ -0,0 +1,99 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { t } from "@app/locale"
+import { getSeriesPalette, tooltipDot, tooltipFlexLine, tooltipSpaceLine } from "@app/util/echarts"
+import { cvt2LocaleTime } from "@app/util/time"
+import { EchartsWrapper } from "@hooks/useEcharts"
+import { groupBy, sum } from "@util/array"
+import { formatTimeYMD, getAllDatesBetween } from "@util/time"
+import {
+    type BarSeriesOption,
+    type ComposeOption,
+    type GridComponentOption,
+    type LineSeriesOption,
+    type TitleComponentOption,
+    type TooltipComponentOption,
+} from "echarts"
+import { type TopLevelFormatterParams } from "echarts/types/dist/shared"
+import { generateTitleOption } from "../Site/common"
+
+type EcOption = ComposeOption<
+    | GridComponentOption
+    | TooltipComponentOption
+    | TitleComponentOption
+    | BarSeriesOption
+    | LineSeriesOption
+>
+
+export type BizOption = {
+    records: timer.focus.Record[]
+    dateRange: [Date, Date]
+}
+
+const formatTooltip = (params: TopLevelFormatterParams) => {
+    if (!Array.isArray(params)) return ''
+    const date = params?.[0]?.name
+    if (!date) return ''
+    const dateLine = tooltipFlexLine(cvt2LocaleTime(date), t(msg => msg.habit.focus.title))
+    const valueLines = params.map(({ value, seriesName = '', color }) => tooltipFlexLine(
+        `<b>${tooltipDot(color as string)}&ensp;${value}</b>`,
+        seriesName,
+    )).join('')
+    return `${dateLine}${tooltipSpaceLine()}${valueLines}`
+}
+
+function generateOption({ records, dateRange }: BizOption): EcOption {
+    const [start, end] = dateRange
+    const allDates = getAllDatesBetween(start, end)
+    const minuteMap = groupBy(records, r => formatTimeYMD(r.start), l => sum(l.map(r => r.duration)))
+    const distractionMap = groupBy(records, r => formatTimeYMD(r.start), l => sum(l.map(r => r.distractions?.length ?? 0)))
+    const [minuteColor, distractionColor] = getSeriesPalette()
+
+    return {
+        title: generateTitleOption(t(msg => msg.habit.focus.title)),
+        grid: { top: '20%', bottom: '8%', left: '4%', right: '4%' },
+        tooltip: {
+            trigger: 'axis',
+            axisPointer: { type: 'shadow' },
+            formatter: formatTooltip,
+        },
+        xAxis: {
+            type: 'category',
+            data: allDates,
+            axisLabel: { formatter: (date: string) => cvt2LocaleTime(date) },
+            axisTick: { show: false },
+        },
+        yAxis: [
+            { type: 'value', minInterval: 1, splitLine: { show: false } },
+            { type: 'value', minInterval: 1, splitLine: { show: false } },
+        ],
+        series: [{
+            type: 'bar',
+            name: t(msg => msg.habit.focus.minutes),
+            data: allDates.map(date => minuteMap[date] ?? 0),
+            itemStyle: { color: minuteColor, borderRadius: 4 },
+            barMaxWidth: 30,
+            yAxisIndex: 0,
+        }, {
+            type: 'line',
+            name: t(msg => msg.habit.focus.distractions),
+            data: allDates.map(date => distractionMap[date] ?? 0),
+            itemStyle: { color: distractionColor },
+            smooth: true,
+            yAxisIndex: 1,
+        }],
+    }
+}
+
+export default class Wrapper extends EchartsWrapper<BizOption, EcOption> {
+    generateOption = generateOption
+
+    protected rewrite(): boolean {
+        return true
+    }
+}
@@ -0,0 +1,54 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { GRID_CELL_STYLE, GRID_WRAPPER_STYLE } from "@app/components/common/grid"
+import { KanbanCard } from "@app/components/common/kanban"
+import { t } from "@app/locale"
+import { useRequest } from "@hooks"
+import { useEcharts } from "@hooks/useEcharts"
+import Flex from "@pages/components/Flex"
+import focusService from "@service/focus-service"
+import { sum } from "@util/array"
+import { computed, defineComponent } from "vue"
+import { useHabitFilter } from "../context"
+import Wrapper, { type BizOption } from "./Wrapper"
+
+const _default = defineComponent(() => {
+    const filter = useHabitFilter()
+    const { data: records } = useRequest(() => focusService.selectRecords(filter.dateRange), {
+        deps: [() => filter.dateRange],
+        defaultValue: [],
+    })
+    const bizOption = computed<BizOption>(() => ({ records: records.value, dateRange: filter.dateRange }))
+    const { elRef } = useEcharts(Wrapper, bizOption, { manual: true })
+
+    const summary = computed(() => [
+        [t(msg => msg.habit.focus.sessions), records.value.length],
+        [t(msg => msg.habit.focus.minutes), sum(records.value.map(r => r.duration))],
+        [t(msg => msg.habit.focus.distractions), sum(records.value.map(r => r.distractions?.length ?? 0))],
+    ] as const)
+
+    return () => (
+        <KanbanCard title={t(msg => msg.habit.focus.title)}>
+            <Flex gap={1} style={GRID_WRAPPER_STYLE}>
+                <Flex flex={1} column gap={20} justify="center" style={{ ...GRID_CELL_STYLE, padding: '20px' }}>
+                    {summary.value.map(([label, value]) => (
+                        <Flex column gap={4}>
+                            <span style={{ fontSize: '12px', color: 'var(--el-text-color-secondary)' }}>{label}</span>
+                            <span style={{ fontSize: '20px' }}>{value}</span>
+                        </Flex>
+                    ))}
+                </Flex>
+                <Flex flex={4} style={{ ...GRID_CELL_STYLE, height: '260px' }}>
+                    <div style={{ width: '100%' }} ref={elRef} />
+                </Flex>
+            </Flex>
+        </KanbanCard>
+    )
+})
+
+export default _default
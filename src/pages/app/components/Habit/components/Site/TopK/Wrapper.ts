@@ -72,7 +72,7 @@ function mergeDate(origin: timer.stat.Row[]): timer.stat.Row[] {
                 time: 0,
                 mergedRows: [],
                 mergedDates: [],
-                composition: { focus: [], time: [], run: [] },
+                composition: { focus: [], time: [], run: [], media: [] },
             }
         }
         exist.focus += focus ?? 0
@@ -7,6 +7,7 @@
 import ContentContainer, { FilterContainer } from "@app/components/common/ContentContainer"
 import { ElScrollbar } from "element-plus"
 import { defineComponent, type StyleValue } from "vue"
+import Focus from "./components/Focus"
 import HabitFilter from "./components/HabitFilter"
 import Period from "./components/Period"
 import Site from "./components/Site"
@@ -23,6 +24,7 @@ const _default = defineComponent(() => {
                 </FilterContainer>
                 <Site />
                 <Period />
+                <Focus />
             </ContentContainer>
         </ElScrollbar>
     )
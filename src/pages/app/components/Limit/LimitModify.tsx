@@ -0,0 +1,155 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { t } from "@app/locale"
+import { Check } from "@element-plus/icons-vue"
+import { useSwitch } from "@hooks"
+import limitService from "@service/limit-service"
+import { MILL_PER_MINUTE, MILL_PER_SECOND } from "@util/time"
+import {
+    ElButton, ElCheckbox, ElCheckboxGroup, ElDialog, ElForm, ElFormItem, ElInput, ElInputNumber, ElMessage, ElSelect,
+    ElSwitch, type FormInstance, type FormItemRule,
+} from "element-plus"
+import { defineComponent, reactive, ref } from "vue"
+
+export type LimitModifyInstance = {
+    create(): void
+    modify(rule: timer.limit.Rule): void
+}
+
+type _FormData = {
+    id?: number
+    name: string
+    cond: string[]
+    minutes: number
+    weekdays: number[]
+    enabled: boolean
+    allowDelay: boolean
+}
+
+const SECONDS_PER_MINUTE = MILL_PER_MINUTE / MILL_PER_SECOND
+
+const formRule: Record<string, FormItemRule | FormItemRule[]> = {
+    name: { required: true, message: t(msg => msg.limit.form.emptyName), trigger: 'blur' },
+    cond: { required: true, type: 'array', min: 1, message: t(msg => msg.limit.form.emptyCond), trigger: 'change' },
+    minutes: { required: true, type: 'number', min: 1, message: t(msg => msg.limit.form.emptyTime), trigger: 'change' },
+}
+
+const initData = (): _FormData => ({
+    id: undefined,
+    name: '',
+    cond: [],
+    minutes: 30,
+    weekdays: [],
+    enabled: true,
+    allowDelay: true,
+})
+
+const _default = defineComponent<{ onSave?: NoArgCallback }>((props, ctx) => {
+    const [visible, open, close] = useSwitch()
+    const formData = reactive(initData())
+    const form = ref<FormInstance>()
+    const weekDayNames = t(msg => msg.calendar.weekDays)?.split?.('|') ?? []
+
+    const create = () => {
+        Object.assign(formData, initData())
+        open()
+    }
+
+    const modify = (rule: timer.limit.Rule) => {
+        const { id, name, cond, time, weekdays, enabled, allowDelay } = rule
+        Object.assign(formData, {
+            id, name, enabled, allowDelay,
+            cond: [...cond],
+            weekdays: [...weekdays],
+            minutes: Math.round(time / SECONDS_PER_MINUTE),
+        } satisfies _FormData)
+        open()
+    }
+
+    ctx.expose({ create, modify } satisfies LimitModifyInstance)
+
+    const handleSave = async () => {
+        const valid = await form.value?.validate().catch(() => false)
+        if (!valid) return
+        const { id, name, cond, minutes, weekdays, enabled, allowDelay } = formData
+        await limitService.save({
+            id,
+            name: name.trim(),
+            cond: cond.map(c => c.trim()).filter(c => !!c),
+            time: minutes * SECONDS_PER_MINUTE,
+            // All the days are selected, so treat it as everyday
+            weekdays: weekdays.length === 7 ? [] : [...weekdays].sort(),
+            enabled,
+            allowDelay,
+        })
+        close()
+        ElMessage.success(t(msg => msg.operation.successMsg))
+        props.onSave?.()
+    }
+
+    return () => (
+        <ElDialog
+            width={560}
+            title={formData.id ? t(msg => msg.button.modify) : t(msg => msg.button.create)}
+            modelValue={visible.value}
+            closeOnClickModal={false}
+            onClose={close}
+            v-slots={{
+                footer: () => (
+                    <ElButton type="primary" icon={Check} onClick={handleSave}>
+                        {t(msg => msg.button.save)}
+                    </ElButton>
+                )
+            }}
+        >
+            <ElForm model={formData} rules={formRule} ref={form} labelWidth={120}>
+                <ElFormItem prop="name" label={t(msg => msg.limit.column.name)}>
+                    <ElInput modelValue={formData.name} onInput={val => formData.name = val} />
+                </ElFormItem>
+                <ElFormItem prop="cond" label={t(msg => msg.limit.column.cond)}>
+                    <ElSelect
+                        modelValue={formData.cond}
+                        onChange={(val: string[]) => formData.cond = val}
+                        multiple
+                        filterable
+                        allowCreate
+                        defaultFirstOption
+                        reserveKeyword={false}
+                        placeholder={t(msg => msg.limit.form.condPlaceholder)}
+                    />
+                </ElFormItem>
+                <ElFormItem prop="minutes" label={t(msg => msg.limit.column.time)}>
+                    <ElInputNumber
+                        modelValue={formData.minutes}
+                        onChange={val => formData.minutes = val ?? 0}
+                        min={1}
+                        max={24 * 60}
+                        step={5}
+                    />
+                    <span style={{ marginLeft: '8px' }}>{t(msg => msg.limit.form.minutes)}</span>
+                </ElFormItem>
+                <ElFormItem label={t(msg => msg.limit.column.weekdays)}>
+                    <ElCheckboxGroup
+                        modelValue={formData.weekdays}
+                        onChange={val => formData.weekdays = val as number[]}
+                    >
+                        {weekDayNames.map((name, idx) => <ElCheckbox value={idx}>{name}</ElCheckbox>)}
+                    </ElCheckboxGroup>
+                </ElFormItem>
+                <ElFormItem label={t(msg => msg.limit.column.enabled)}>
+                    <ElSwitch modelValue={formData.enabled} onChange={val => formData.enabled = !!val} />
+                </ElFormItem>
+                <ElFormItem label={t(msg => msg.limit.column.allowDelay)}>
+                    <ElSwitch modelValue={formData.allowDelay} onChange={val => formData.allowDelay = !!val} />
+                </ElFormItem>
+            </ElForm>
+        </ElDialog>
+    )
+}, { props: ['onSave'] })
+
+export default _default
@@ -0,0 +1,113 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import PopupConfirmButton from "@app/components/common/PopupConfirmButton"
+import { t } from "@app/locale"
+import { Delete, Edit } from "@element-plus/icons-vue"
+import Flex from "@pages/components/Flex"
+import { type ElTableRowScope } from "@pages/element-ui/table"
+import limitService from "@service/limit-service"
+import { calcAllowed } from "@util/limit"
+import { formatPeriodCommon, MILL_PER_SECOND } from "@util/time"
+import { ElButton, ElSwitch, ElTable, ElTableColumn, ElTag } from "element-plus"
+import { defineComponent } from "vue"
+
+type Props = {
+    data?: timer.limit.Item[]
+    onChange?: NoArgCallback
+    onModify?: ArgCallback<timer.limit.Item>
+}
+
+const formatWeekdays = (weekdays: number[]): string => {
+    if (!weekdays?.length || weekdays.length === 7) return t(msg => msg.calendar.range.everyday)
+    const names = t(msg => msg.calendar.weekDays)?.split?.('|') ?? []
+    return [...weekdays].sort().map(w => names[w]).join(', ')
+}
+
+const _default = defineComponent<Props>(props => {
+    const handleSwitch = async (row: timer.limit.Item, key: 'enabled' | 'allowDelay', val: boolean) => {
+        const { waste, delayCount, ...rule } = row
+        await limitService.save({ ...rule, [key]: val })
+        props.onChange?.()
+    }
+
+    return () => (
+        <ElTable data={props.data} height="100%" highlightCurrentRow border fit>
+            <ElTableColumn label={t(msg => msg.limit.column.name)} prop="name" minWidth={120} align="center" />
+            <ElTableColumn
+                label={t(msg => msg.limit.column.cond)}
+                minWidth={240}
+                align="center"
+                v-slots={({ row }: ElTableRowScope<timer.limit.Item>) => (
+                    <Flex gap={4} wrap justify="center">
+                        {row.cond?.map(c => <ElTag size="small">{c}</ElTag>)}
+                    </Flex>
+                )}
+            />
+            <ElTableColumn
+                label={t(msg => msg.limit.column.time)}
+                minWidth={100}
+                align="center"
+                formatter={(row: timer.limit.Item) => formatPeriodCommon(row.time * MILL_PER_SECOND)}
+            />
+            <ElTableColumn
+                label={t(msg => msg.limit.column.weekdays)}
+                minWidth={140}
+                align="center"
+                formatter={(row: timer.limit.Item) => formatWeekdays(row.weekdays)}
+            />
+            <ElTableColumn
+                label={t(msg => msg.limit.column.waste)}
+                minWidth={120}
+                align="center"
+                v-slots={({ row }: ElTableRowScope<timer.limit.Item>) => (
+                    <ElTag size="small" type={row.waste >= calcAllowed(row) ? 'danger' : 'info'}>
+                        {formatPeriodCommon(row.waste)}
+                    </ElTag>
+                )}
+            />
+            <ElTableColumn
+                label={t(msg => msg.limit.column.enabled)}
+                width={100}
+                align="center"
+                v-slots={({ row }: ElTableRowScope<timer.limit.Item>) => (
+                    <ElSwitch size="small" modelValue={row.enabled} onChange={val => handleSwitch(row, 'enabled', !!val)} />
+                )}
+            />
+            <ElTableColumn
+                label={t(msg => msg.limit.column.allowDelay)}
+                width={100}
+                align="center"
+                v-slots={({ row }: ElTableRowScope<timer.limit.Item>) => (
+                    <ElSwitch size="small" modelValue={row.allowDelay} onChange={val => handleSwitch(row, 'allowDelay', !!val)} />
+                )}
+            />
+            <ElTableColumn
+                label={t(msg => msg.button.operation)}
+                width={200}
+                align="center"
+                v-slots={({ row }: ElTableRowScope<timer.limit.Item>) => <>
+                    <ElButton size="small" type="primary" icon={Edit} onClick={() => props.onModify?.(row)}>
+                        {t(msg => msg.button.modify)}
+                    </ElButton>
+                    <PopupConfirmButton
+                        buttonIcon={Delete}
+                        buttonType="danger"
+                        buttonText={t(msg => msg.button.delete)}
+                        confirmText={t(msg => msg.limit.deleteConfirmMsg, { name: row.name })}
+                        onConfirm={async () => {
+                            await limitService.remove(row.id)
+                            props.onChange?.()
+                        }}
+                    />
+                </>}
+            />
+        </ElTable>
+    )
+}, { props: ['data', 'onChange', 'onModify'] })
+
+export default _default
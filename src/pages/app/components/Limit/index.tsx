@@ -0,0 +1,62 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { t } from "@app/locale"
+import { Plus } from "@element-plus/icons-vue"
+import { useRequest } from "@hooks"
+import Flex from "@pages/components/Flex"
+import limitService from "@service/limit-service"
+import { DELAY_MINUTES, MAX_DELAY_COUNT } from "@util/limit"
+import { ElAlert } from "element-plus"
+import { defineComponent, ref } from "vue"
+import ContentContainer from "../common/ContentContainer"
+import ButtonFilterItem from "../common/filter/ButtonFilterItem"
+import LimitModify, { type LimitModifyInstance } from "./LimitModify"
+import LimitTable from "./LimitTable"
+
+const _default = defineComponent(() => {
+    const { data, refresh } = useRequest(() => limitService.listItems(), { loadingTarget: '#limit-table-wrapper' })
+    const modify = ref<LimitModifyInstance>()
+
+    return () => (
+        <ContentContainer v-slots={{
+            filter: () => (
+                <Flex justify="end" width="100%">
+                    <ButtonFilterItem
+                        text={t(msg => msg.button.create)}
+                        icon={Plus}
+                        type="success"
+                        onClick={() => modify.value?.create()}
+                    />
+                </Flex>
+            ),
+            content: () => <>
+                <Flex id="limit-table-wrapper" column width="100%" height="100%" gap={20}>
+                    <ElAlert
+                        title={t(msg => msg.limit.infoAlertTitle)}
+                        style={{ padding: "15px 25px" }}
+                        closable={false}
+                    >
+                        <li>{t(msg => msg.limit.infoAlert0)}</li>
+                        <li>{t(msg => msg.limit.infoAlert1)}</li>
+                        <li>{t(msg => msg.limit.delayTip, { count: MAX_DELAY_COUNT, minutes: DELAY_MINUTES })}</li>
+                    </ElAlert>
+                    <Flex flex={1} height={0}>
+                        <LimitTable
+                            data={data.value}
+                            onChange={refresh}
+                            onModify={row => modify.value?.modify(row)}
+                        />
+                    </Flex>
+                </Flex>
+                <LimitModify ref={modify} onSave={refresh} />
+            </>
+        }} />
+    )
+})
+
+export default _default
@@ -0,0 +1,39 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { t } from "@app/locale"
+import { useRequest } from "@hooks"
+import { ALL_CONFIG_TYPES } from "@service/backup/config-sync"
+import optionHolder from "@service/components/option-holder"
+import optionService from "@service/option-service"
+import { ElCheckbox, ElCheckboxGroup } from "element-plus"
+import { defineComponent } from "vue"
+
+const _default = defineComponent<{ disabled?: boolean }>(props => {
+    const { data: types, refresh } = useRequest(
+        async () => (await optionHolder.get()).backupConfigTypes ?? [],
+        { defaultValue: [] },
+    )
+
+    const handleChange = async (val: timer.backup.ConfigType[]) => {
+        await optionService.setBackupOption({ backupConfigTypes: val })
+        refresh()
+    }
+
+    return () => (
+        <ElCheckboxGroup
+            modelValue={types.value}
+            size="small"
+            disabled={props.disabled}
+            onChange={val => handleChange(val as timer.backup.ConfigType[])}
+        >
+            {ALL_CONFIG_TYPES.map(type => <ElCheckbox value={type}>{t(msg => msg.option.backup.config.types[type])}</ElCheckbox>)}
+        </ElCheckboxGroup>
+    )
+}, { props: ['disabled'] })
+
+export default _default
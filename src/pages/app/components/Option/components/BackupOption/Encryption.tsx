@@ -0,0 +1,72 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { t } from "@app/locale"
+import { Lock, Unlock } from "@element-plus/icons-vue"
+import { useRequest } from "@hooks"
+import processor from "@service/backup/processor"
+import optionHolder from "@service/components/option-holder"
+import { ElButton, ElLoading, ElMessage, ElMessageBox, ElTag } from "element-plus"
+import { defineComponent } from "vue"
+
+const _default = defineComponent<{ type: timer.backup.Type }>(props => {
+    const { data: enabled, refresh } = useRequest(
+        async () => !!(await optionHolder.get()).backupPassphrase,
+        { deps: () => props.type },
+    )
+
+    const apply = async (passphrase: string | undefined) => {
+        const loading = ElLoading.service({ text: t(msg => msg.option.backup.encryption.reEncrypting) })
+        try {
+            const { success, errorMsg } = await processor.changePassphrase(passphrase)
+            if (success) {
+                ElMessage.success(t(msg => msg.operation.successMsg))
+                refresh()
+            } else {
+                ElMessage.error(errorMsg ?? 'Unknown error')
+            }
+        } finally {
+            loading.close()
+        }
+    }
+
+    const handleChange = () => ElMessageBox.prompt(
+        t(msg => processor.canReEncrypt(props.type) ? msg.option.backup.encryption.changeTip : msg.option.backup.encryption.setOnceTip),
+        t(msg => msg.option.backup.encryption.passphrase),
+        {
+            inputType: 'password',
+            inputValidator: (val: string) => (val?.length ?? 0) >= 8 || t(msg => msg.option.backup.encryption.lengthTip),
+        },
+    ).then(({ value }) => apply(value)).catch(() => { })
+
+    const handleDisable = () => ElMessageBox.confirm(
+        t(msg => msg.option.backup.encryption.disableTip),
+        t(msg => msg.option.backup.encryption.disableTitle),
+    ).then(() => apply(undefined)).catch(() => { })
+
+    return () => {
+        // The passphrase can't be changed once set, if the remote data can't be re-encrypted
+        const changeable = !enabled.value || processor.canReEncrypt(props.type)
+        return <>
+            <ElTag size="small" type={enabled.value ? 'success' : 'info'}>
+                {t(msg => enabled.value ? msg.option.backup.encryption.enabled : msg.option.backup.encryption.disabled)}
+            </ElTag>
+            {changeable && (
+                <ElButton size="small" icon={Lock} onClick={handleChange}>
+                    {t(msg => enabled.value ? msg.option.backup.encryption.change : msg.option.backup.encryption.set)}
+                </ElButton>
+            )}
+            {changeable && enabled.value && (
+                <ElButton size="small" icon={Unlock} onClick={handleDisable}>
+                    {t(msg => msg.option.backup.encryption.disable)}
+                </ElButton>
+            )}
+        </>
+    }
+}, { props: ['type'] })
+
+export default _default
@@ -5,16 +5,18 @@
  * https://opensource.org/licenses/MIT
  */
 
+import { sendMsg2Runtime } from "@api/chrome/runtime"
 import { t } from "@app/locale"
-import { Operation, UploadFilled } from "@element-plus/icons-vue"
+import { Operation, RefreshRight, UploadFilled } from "@element-plus/icons-vue"
 import { useManualRequest, useRequest, useState } from "@hooks"
 import Flex from "@pages/components/Flex"
-import processor from "@service/backup/processor"
+import processor, { type Result } from "@service/backup/processor"
 import metaService from "@service/meta-service"
 import { formatTime } from "@util/time"
-import { ElButton, ElDivider, ElLoading, ElMessage, ElText } from "element-plus"
+import { ElButton, ElDivider, ElLoading, ElMessage, ElMessageBox, ElText } from "element-plus"
 import { defineComponent, type StyleValue } from "vue"
 import Clear from "./Clear"
+import Restore from "./Restore"
 
 async function handleTest() {
     const loading = ElLoading.service({ text: "Please wait...." })
@@ -41,9 +43,11 @@ const _default = defineComponent<{ type: timer.backup.Type }>(props => {
         return type && (await metaService.getLastBackUp(type))?.ts
     }, { deps: () => props.type, onSuccess: setLastTime })
 
-    const { refresh: handleBackup } = useManualRequest(async () => {
-        // Use the traditional processor for all backup types (manual sync only)
-        return processor.syncData()
+    const { refresh: handleBackup } = useManualRequest(async (full?: boolean) => {
+        // Upload all the rows changed since the last backup, increments are also pushed in real time for AWS.
+        // So backup in the background, where the increments are flushed
+        const result = await sendMsg2Runtime<boolean | undefined, Result<number>>('syncData', full)
+        return result ?? { success: false, errorMsg: 'Unknown error' }
     }, {
         loadingText: "Doing backup....",
         onSuccess: ({ success, data, errorMsg }) => {
@@ -56,6 +60,11 @@ const _default = defineComponent<{ type: timer.backup.Type }>(props => {
         },
     })
 
+    const handleFullResync = () => ElMessageBox.confirm(
+        t(msg => msg.option.backup.fullResync.confirmTip),
+        t(msg => msg.option.backup.fullResync.btn),
+    ).then(() => handleBackup(true)).catch(() => { })
+
     return () => <>
         <ElDivider />
         <Flex gap={12}>
@@ -63,9 +72,13 @@ const _default = defineComponent<{ type: timer.backup.Type }>(props => {
                 {t(msg => msg.button.test)}
             </ElButton>
             <Clear />
-            <ElButton type="primary" icon={UploadFilled} onClick={handleBackup}>
+            <Restore />
+            <ElButton type="primary" icon={UploadFilled} onClick={() => handleBackup()}>
                 {t(msg => msg.option.backup.operation)}
             </ElButton>
+            <ElButton icon={RefreshRight} onClick={handleFullResync}>
+                {t(msg => msg.option.backup.fullResync.btn)}
+            </ElButton>
             <ElText v-show={!!lastTime.value} style={{ marginInlineStart: "8px" } satisfies StyleValue}>
                 {t(
                     msg => msg.option.backup.lastTimeTip,
@@ -0,0 +1,74 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import DialogSop, { type SopInstance, type SopStepInstance } from "@app/components/common/DialogSop"
+import { t } from "@app/locale"
+import { useManualRequest, useState } from "@hooks"
+import restoreService from "@service/sync/restore-service"
+import { ElMessage, ElStep, ElSteps } from "element-plus"
+import { defineComponent, ref } from "vue"
+import Step1, { type PreviewResult } from "./Step1"
+import Step2, { type RestoreOption } from "./Step2"
+
+type Props = {
+    onCancel: NoArgCallback
+    onRestore: NoArgCallback
+}
+
+const _default = defineComponent<Props>((props, ctx) => {
+    const [step, setStep] = useState<0 | 1>(0)
+    const step1 = ref<SopStepInstance<PreviewResult>>()
+    const step2 = ref<SopStepInstance<RestoreOption>>()
+
+    const { data, refresh: handleNext, loading: previewing } = useManualRequest(() => step1.value?.parseData?.(), {
+        onSuccess: () => setStep(1),
+        onError: e => ElMessage.warning((e as Error)?.message || 'Unknown error'),
+    })
+
+    const { refresh: handleRestore, loading: restoring } = useManualRequest(async () => {
+        const preview = data.value
+        if (!preview) throw new Error(t(msg => msg.option.backup.clientTable.notSelected))
+        const { resolution, adopt } = await step2.value?.parseData?.() ?? {}
+        if (!resolution) throw new Error(t(msg => msg.dataManage.importOther.conflictNotSelected))
+        const errorMsg = await restoreService.restore(preview.client.id, preview.data, resolution, adopt)
+        if (errorMsg) throw new Error(errorMsg)
+    }, {
+        onSuccess: () => {
+            ElMessage.success(t(msg => msg.operation.successMsg))
+            props.onRestore?.()
+        },
+        onError: e => ElMessage.warning((e as Error)?.message || 'Unknown error'),
+    })
+
+    ctx.expose({ init: () => setStep(0) } satisfies SopInstance)
+
+    return () => (
+        <DialogSop
+            first={step.value === 0}
+            last={step.value === 1}
+            onCancel={props.onCancel}
+            onNext={handleNext}
+            nextLoading={previewing.value}
+            onBack={() => step.value = 0}
+            onFinish={handleRestore}
+            finishLoading={restoring.value}
+            v-slots={{
+                steps: () => (
+                    <ElSteps space={200} finishStatus="success" active={step.value} alignCenter>
+                        <ElStep title={t(msg => msg.option.backup.clientTable.selectTip)} />
+                        <ElStep title={t(msg => msg.dataManage.importOther.step2)} />
+                    </ElSteps>
+                ),
+                content: () => step.value === 0 || !data.value
+                    ? <Step1 ref={step1} />
+                    : <Step2 ref={step2} data={data.value} />
+            }}
+        />
+    )
+}, { props: ['onCancel', 'onRestore'] })
+
+export default _default
@@ -0,0 +1,67 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { type SopStepInstance } from "@app/components/common/DialogSop"
+import { t } from "@app/locale"
+import { useState } from "@hooks"
+import { dateFormat as elDateFormat } from "@i18n/element"
+import Flex from "@pages/components/Flex"
+import { getDatePickerIconSlots } from "@pages/element-ui/rtl"
+import restoreService from "@service/sync/restore-service"
+import { getBirthday, parseTime } from "@util/time"
+import { ElDatePicker, ElForm, ElFormItem } from "element-plus"
+import { defineComponent, type StyleValue } from "vue"
+import ClientTable from "../ClientTable"
+
+export type PreviewResult = {
+    client: timer.backup.Client
+    data: timer.imported.Data
+}
+
+const _default = defineComponent((_, ctx) => {
+    const [client, setClient] = useState<timer.backup.Client>()
+    const [dateRange, setDateRange] = useState<[Date, Date]>()
+
+    const handleSelect = (val: timer.backup.Client) => {
+        setClient(val)
+        const { minDate, maxDate } = val || {}
+        setDateRange([parseTime(minDate) ?? getBirthday(), parseTime(maxDate) ?? new Date()])
+    }
+
+    const parseData = async (): Promise<PreviewResult> => {
+        const clientVal = client.value
+        if (!clientVal) throw new Error(t(msg => msg.option.backup.clientTable.notSelected))
+        const [start, end] = dateRange.value ?? [getBirthday(), new Date()]
+        const data = await restoreService.preview({ cid: clientVal.id, start, end })
+        return { client: clientVal, data }
+    }
+
+    ctx.expose({ parseData } satisfies SopStepInstance<PreviewResult>)
+
+    return () => (
+        <Flex column width="100%" gap={20}>
+            <ClientTable onSelect={handleSelect} />
+            <ElForm>
+                <ElFormItem label={t(msg => msg.option.backup.restore.dateRange)} required style={{ margin: 0 }}>
+                    <ElDatePicker
+                        modelValue={dateRange.value}
+                        onUpdate:modelValue={setDateRange}
+                        style={{ width: "250px" } satisfies StyleValue}
+                        dateFormat={elDateFormat()}
+                        type="daterange"
+                        clearable={false}
+                        disabled={!client.value}
+                        rangeSeparator="-"
+                        v-slots={getDatePickerIconSlots()}
+                    />
+                </ElFormItem>
+            </ElForm>
+        </Flex>
+    )
+})
+
+export default _default
@@ -0,0 +1,63 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { type SopStepInstance } from "@app/components/common/DialogSop"
+import CompareTable from "@app/components/common/imported/CompareTable"
+import ResolutionRadio from "@app/components/common/imported/ResolutionRadio"
+import { t } from "@app/locale"
+import { useState } from "@hooks"
+import Flex from "@pages/components/Flex"
+import { ElAlert, ElForm, ElFormItem, ElRadio, ElRadioGroup } from "element-plus"
+import { computed, defineComponent } from "vue"
+import { type PreviewResult } from "./Step1"
+
+export type RestoreOption = {
+    resolution: timer.imported.ConflictResolution | undefined
+    adopt: boolean
+}
+
+const _default = defineComponent<{ data: PreviewResult }>((props, ctx) => {
+    const [resolution, setResolution] = useState<timer.imported.ConflictResolution>()
+    const [adopt, setAdopt] = useState(false)
+
+    const tip = computed(() => {
+        const { client, data: { rows } } = props.data
+        return t(msg => msg.option.backup.restore.previewTip, {
+            clientName: client.name || client.id,
+            rowCount: rows.length,
+            hostCount: new Set(rows.map(r => r.host)).size,
+            conflictCount: rows.filter(r => !!r.exist).length,
+        })
+    })
+
+    ctx.expose({
+        parseData: () => ({ resolution: resolution.value, adopt: adopt.value })
+    } satisfies SopStepInstance<RestoreOption>)
+
+    return () => (
+        <Flex column width="100%" gap={20}>
+            <ElAlert type="info" closable={false} title={tip.value} />
+            <CompareTable
+                data={props.data.data}
+                comparedColName={props.data.client.name || props.data.client.id}
+            />
+            <Flex width="100%" justify="center" gap={40}>
+                <ResolutionRadio modelValue={resolution.value} onChange={setResolution} />
+                <ElForm>
+                    <ElFormItem label={t(msg => msg.option.backup.restore.cidLabel)} style={{ margin: 0 }}>
+                        <ElRadioGroup modelValue={adopt.value} onChange={val => setAdopt(!!val)}>
+                            <ElRadio value={false}>{t(msg => msg.option.backup.restore.keepCid)}</ElRadio>
+                            <ElRadio value={true}>{t(msg => msg.option.backup.restore.adoptCid)}</ElRadio>
+                        </ElRadioGroup>
+                    </ElFormItem>
+                </ElForm>
+            </Flex>
+        </Flex>
+    )
+}, { props: ['data'] })
+
+export default _default
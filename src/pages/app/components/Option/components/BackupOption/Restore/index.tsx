@@ -0,0 +1,42 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { type SopInstance } from "@app/components/common/DialogSop"
+import { t } from "@app/locale"
+import { Download } from "@element-plus/icons-vue"
+import { useSwitch } from "@hooks"
+import { ElButton, ElDialog } from "element-plus"
+import { defineComponent, ref, type StyleValue } from "vue"
+import Sop from "./Sop"
+
+const _default = defineComponent(() => {
+    const [dialogVisible, open, close] = useSwitch(false)
+    const sop = ref<SopInstance>()
+
+    return () => <>
+        <ElButton
+            icon={Download}
+            onClick={open}
+            style={{ marginInlineStart: 0 } satisfies StyleValue}
+        >
+            {t(msg => msg.option.backup.restore.btn)}
+        </ElButton>
+        <ElDialog
+            title={t(msg => msg.option.backup.restore.btn)}
+            modelValue={dialogVisible.value}
+            width="80%"
+            top="10vh"
+            closeOnClickModal={false}
+            onOpen={() => sop.value?.init?.()}
+            onClose={close}
+        >
+            <Sop ref={sop} onCancel={close} onRestore={close} />
+        </ElDialog>
+    </>
+})
+
+export default _default
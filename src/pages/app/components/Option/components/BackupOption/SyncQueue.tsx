@@ -0,0 +1,39 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { t } from "@app/locale"
+import { Refresh } from "@element-plus/icons-vue"
+import { useRequest } from "@hooks"
+import { backgroundSyncService } from "@service/sync/background-sync-service"
+import { formatTime } from "@util/time"
+import { ElButton, ElTag, ElText } from "element-plus"
+import { defineComponent, type StyleValue } from "vue"
+
+const TIME_FORMAT = t(msg => msg.calendar.timeFormat)
+
+const _default = defineComponent(() => {
+    const { data: status, refresh } = useRequest(() => backgroundSyncService.getStatus())
+
+    return () => {
+        const { pending = 0, lastError, lastErrorTs, failures } = status.value ?? {}
+        return <>
+            <ElTag size="small" type={pending ? 'warning' : 'success'}>
+                {t(msg => msg.option.backup.syncQueue.pending, { count: pending })}
+            </ElTag>
+            {!!failures && lastError && (
+                <ElText type="danger" size="small" style={{ marginInline: "8px" } satisfies StyleValue}>
+                    {`${lastErrorTs ? formatTime(lastErrorTs, TIME_FORMAT) + ' ' : ''}${lastError}`}
+                </ElText>
+            )}
+            <ElButton size="small" icon={Refresh} onClick={() => refresh()}>
+                {t(msg => msg.option.backup.syncQueue.refresh)}
+            </ElButton>
+        </>
+    }
+})
+
+export default _default
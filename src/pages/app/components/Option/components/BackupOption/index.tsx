@@ -11,18 +11,23 @@ import { type OptionInstance } from "../../common"
 import OptionItem from "../OptionItem"
 import OptionTooltip from "../OptionTooltip"
 import AutoInput from "./AutoInput"
+import ConfigTypes from "./ConfigTypes"
+import Encryption from "./Encryption"
 import Footer from "./Footer"
 import { useOptionState } from "./state"
+import SyncQueue from "./SyncQueue"
 import "./style.sass"
 
 const ALL_TYPES: timer.backup.Type[] = [
     'none',
     'aws',
+    'web_dav',
 ]
 
 const TYPE_NAMES: { [t in timer.backup.Type]: string } = {
     none: t(msg => msg.option.backup.meta.none.label),
-    aws: 'AWS Real-time Sync'
+    aws: 'AWS Real-time Sync',
+    web_dav: 'WebDAV',
 }
 
 const _default = defineComponent((_, ctx) => {
@@ -121,6 +126,60 @@ const _default = defineComponent((_, ctx) => {
                     placeholder="us-east-1"
                 />
             </OptionItem>
+            <OptionItem
+                key="aws-sync-queue"
+                label={msg => msg.option.backup.syncQueue.label}
+                v-slots={{
+                    info: () => <OptionTooltip>{t(msg => msg.option.backup.syncQueue.info)}</OptionTooltip>
+                }}
+            >
+                <SyncQueue />
+            </OptionItem>
+        </>}
+        {backupType.value === 'web_dav' && <>
+            <OptionItem
+                key="web-dav-endpoint"
+                label={msg => msg.option.backup.label.endpoint}
+                v-slots={{
+                    info: () => <OptionTooltip>{t(msg => msg.option.backup.meta.web_dav.endpointInfo)}</OptionTooltip>
+                }}
+                required
+            >
+                <ElInput
+                    modelValue={ext.value?.endpoint}
+                    size="small"
+                    style={{ width: "400px" }}
+                    onInput={val => setExtField('endpoint', val)}
+                    placeholder="https://example.com/remote.php/dav/files/username"
+                />
+            </OptionItem>
+            <OptionItem key="web-dav-path" label={msg => msg.option.backup.label.path}>
+                <ElInput
+                    modelValue={ext.value?.dirPath}
+                    size="small"
+                    style={{ width: "400px" }}
+                    onInput={val => setExtField('dirPath', val)}
+                    placeholder="/"
+                />
+            </OptionItem>
+            <OptionItem key="web-dav-account" label={msg => msg.option.backup.label.account} required>
+                <ElInput
+                    modelValue={account.value}
+                    size="small"
+                    style={{ width: "200px" }}
+                    onInput={val => account.value = val?.trim?.() || ''}
+                />
+            </OptionItem>
+            <OptionItem key="web-dav-password" label={msg => msg.option.backup.label.password} required>
+                <ElInput
+                    modelValue={password.value}
+                    size="small"
+                    type="password"
+                    showPassword
+                    style={{ width: "200px" }}
+                    onInput={val => password.value = val || ''}
+                />
+            </OptionItem>
         </>}
         <OptionItem v-show={isNotNone.value} label={_ => "Client Name {info} {input}"} v-slots={{
             info: () => <OptionTooltip>{'Unique name to identify this device/browser in sync operations. Auto-generated based on system info.'}</OptionTooltip>
@@ -133,6 +192,20 @@ const _default = defineComponent((_, ctx) => {
                 placeholder="Auto-generated device name"
             />
         </OptionItem>
+        <OptionItem
+            v-show={isNotNone.value}
+            label={msg => msg.option.backup.config.label}
+            v-slots={{
+                info: () => <OptionTooltip>{t(msg => msg.option.backup.config.info)}</OptionTooltip>
+            }}
+        >
+            <ConfigTypes disabled={backupType.value !== 'web_dav'} />
+        </OptionItem>
+        <OptionItem v-show={isNotNone.value} label={msg => msg.option.backup.encryption.label} v-slots={{
+            info: () => <OptionTooltip>{t(msg => msg.option.backup.encryption.info)}</OptionTooltip>
+        }}>
+            <Encryption type={backupType.value} />
+        </OptionItem>
         {isNotNone.value && <Footer type={backupType.value} />}
     </>
 })
@@ -0,0 +1,83 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { t } from "@app/locale"
+import { Delete, Plus } from "@element-plus/icons-vue"
+import Flex from "@pages/components/Flex"
+import { getStartOfDay, MILL_PER_SECOND } from "@util/time"
+import { ElButton, ElOption, ElSelect, ElTimePicker } from "element-plus"
+import { defineComponent } from "vue"
+
+// Labels start from Monday, 0 for Sunday in the windows
+const WEEKDAY_OPTIONS: [weekday: number, label: string][] = t(msg => msg.calendar.weekDays)
+    .split('|')
+    .map((label, idx) => [(idx + 1) % 7, label])
+
+const second2Date = (second: number) => new Date(getStartOfDay(new Date()).getTime() + second * MILL_PER_SECOND)
+
+const date2Second = (date: Date) => date.getHours() * 3600 + date.getMinutes() * 60 + date.getSeconds()
+
+const DEFAULT_WINDOW: timer.option.ScheduleWindow = { weekdays: [1, 2, 3, 4, 5], start: 28800, end: 68400 }
+
+type Props = {
+    modelValue: timer.option.ScheduleWindow[]
+    disabled?: boolean
+    onChange: (windows: timer.option.ScheduleWindow[]) => void
+}
+
+const _default = defineComponent<Props>(props => {
+    const update = (idx: number, patch: Partial<timer.option.ScheduleWindow>) => props.onChange(
+        props.modelValue.map((w, i) => i === idx ? { ...w, ...patch } : w)
+    )
+
+    const remove = (idx: number) => props.onChange(props.modelValue.filter((_, i) => i !== idx))
+
+    const add = () => props.onChange([...props.modelValue, { ...DEFAULT_WINDOW }])
+
+    return () => (
+        <Flex column gap={6} align="end">
+            {props.modelValue.map(({ weekdays, start, end }, idx) => (
+                <Flex gap={6} align="center">
+                    <ElSelect
+                        modelValue={weekdays}
+                        multiple
+                        collapseTags
+                        collapseTagsTooltip
+                        size="small"
+                        disabled={props.disabled}
+                        style={{ width: '180px' }}
+                        onChange={(val: number[]) => update(idx, { weekdays: val })}
+                    >
+                        {WEEKDAY_OPTIONS.map(([value, label]) => <ElOption value={value} label={label} />)}
+                    </ElSelect>
+                    <ElTimePicker
+                        modelValue={[second2Date(start), second2Date(end)]}
+                        isRange
+                        format="HH:mm"
+                        size="small"
+                        clearable={false}
+                        disabled={props.disabled}
+                        style={{ width: '180px' }}
+                        onUpdate:modelValue={([newStart, newEnd]: [Date, Date]) => update(idx, { start: date2Second(newStart), end: date2Second(newEnd) })}
+                    />
+                    <ElButton
+                        link
+                        type="danger"
+                        icon={Delete}
+                        disabled={props.disabled || props.modelValue.length <= 1}
+                        onClick={() => remove(idx)}
+                    />
+                </Flex>
+            ))}
+            <ElButton size="small" icon={Plus} disabled={props.disabled} onClick={add}>
+                {t(msg => msg.button.add)}
+            </ElButton>
+        </Flex>
+    )
+}, { props: ['modelValue', 'disabled', 'onChange'] })
+
+export default _default
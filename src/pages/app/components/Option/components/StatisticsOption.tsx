@@ -20,6 +20,7 @@ import { useOption } from "../useOption"
 import OptionItem from "./OptionItem"
 import OptionTag from "./OptionTag"
 import OptionTooltip from "./OptionTooltip"
+import ScheduleInput from "./ScheduleInput"
 
 const weekStartOptionPairs: [[timer.option.WeekStartOption, string]] = [
     ['default', t(msg => msg.option.statistics.weekStartAsNormal)]
@@ -30,13 +31,34 @@ const allWeekDays = t(msg => msg.calendar.weekDays)
 rotate(allWeekDays, locale === 'zh_CN' ? 0 : 1, true)
 allWeekDays.forEach(weekDayInfo => weekStartOptionPairs.push(weekDayInfo))
 
+// Seconds
+const IDLE_INTERVALS = [60, 300, 600, 900, 1800]
+
+const idleIntervalLabel = (seconds: number) => t(msg => msg.option.statistics.idleMinutes, { n: seconds / 60 })
+
+const OFF_HOURS_MODES: timer.option.OffHoursMode[] = ['separate', 'drop']
+
+// 0 means unlimited
+const TIMELINE_RETENTIONS = [3, 7, 30, 90, 365, 0]
+
+const retentionLabel = (days: number) => days
+    ? t(msg => msg.option.statistics.retentionDays, { n: days })
+    : t(msg => msg.option.statistics.retentionUnlimited)
+
 function copy(target: timer.option.StatisticsOption, source: timer.option.StatisticsOption) {
     target.collectSiteName = source.collectSiteName
     target.countLocalFiles = source.countLocalFiles
     target.countTabGroup = source.countTabGroup
     target.weekStart = source.weekStart
+    target.timelineRetention = source.timelineRetention
     target.autoPauseTracking = source.autoPauseTracking
     target.autoPauseInterval = source.autoPauseInterval
+    target.idleDetection = source.idleDetection
+    target.idleInterval = source.idleInterval
+    target.countAudible = source.countAudible
+    target.trackSchedule = source.trackSchedule
+    target.scheduleWindows = source.scheduleWindows
+    target.offHoursMode = source.offHoursMode
 }
 
 const _default = defineComponent((_props, ctx) => {
@@ -109,10 +131,41 @@ const _default = defineComponent((_props, ctx) => {
                     />,
                     default: () => <ElSwitch
                         modelValue={option.autoPauseTracking}
+                        disabled={option.idleDetection}
                         onChange={val => option.autoPauseTracking = val as boolean}
                     />
                 }}
             />
+            <OptionItem
+                label={msg => msg.option.statistics.idleDetection}
+                defaultValue={t(msg => msg.option.no)}
+                v-slots={{
+                    info: () => <OptionTooltip>{t(msg => msg.option.statistics.idleDetectionInfo)}</OptionTooltip>,
+                    interval: () => <ElSelect
+                        modelValue={option.idleInterval}
+                        size="small"
+                        disabled={!option.idleDetection}
+                        style={{ width: '100px' }}
+                        onChange={(val: number) => option.idleInterval = val}
+                    >
+                        {IDLE_INTERVALS.map(seconds => <ElOption value={seconds} label={idleIntervalLabel(seconds)} />)}
+                    </ElSelect>,
+                    default: () => <ElSwitch
+                        modelValue={option.idleDetection}
+                        onChange={val => option.idleDetection = val as boolean}
+                    />
+                }}
+            />
+            <OptionItem
+                label={msg => msg.option.statistics.countAudible}
+                defaultValue={t(msg => msg.option.yes)}
+            >
+                <ElSwitch
+                    modelValue={option.countAudible}
+                    disabled={!option.idleDetection}
+                    onChange={val => option.countAudible = val as boolean}
+                />
+            </OptionItem>
             <OptionItem
                 label={msg => msg.option.statistics.collectSiteName}
                 defaultValue={t(msg => msg.option.yes)}
@@ -165,6 +218,51 @@ const _default = defineComponent((_props, ctx) => {
                 {weekStartOptionPairs.map(([val, label]) => <ElOption value={val} label={label} />)}
             </ElSelect>
         </OptionItem>
+        <OptionItem
+            label={msg => msg.option.statistics.timelineRetention}
+            defaultValue={retentionLabel(defaultStatistics().timelineRetention)}
+        >
+            <ElSelect
+                modelValue={option.timelineRetention}
+                size="small"
+                style={{ width: '120px' }}
+                onChange={(val: number) => option.timelineRetention = val}
+            >
+                {TIMELINE_RETENTIONS.map(days => <ElOption value={days} label={retentionLabel(days)} />)}
+            </ElSelect>
+        </OptionItem>
+        <OptionItem
+            label={msg => msg.option.statistics.trackSchedule}
+            defaultValue={t(msg => msg.option.no)}
+            v-slots={{
+                info: () => <OptionTooltip>{t(msg => msg.option.statistics.scheduleInfo)}</OptionTooltip>,
+                default: () => <ElSwitch
+                    modelValue={option.trackSchedule}
+                    onChange={val => option.trackSchedule = val as boolean}
+                />
+            }}
+        />
+        <OptionItem label={msg => msg.option.statistics.scheduleWindows}>
+            <ScheduleInput
+                modelValue={option.scheduleWindows}
+                disabled={!option.trackSchedule}
+                onChange={val => option.scheduleWindows = val}
+            />
+        </OptionItem>
+        <OptionItem
+            label={msg => msg.option.statistics.offHoursMode}
+            defaultValue={t(msg => msg.option.statistics.offHoursModes.separate)}
+        >
+            <ElSelect
+                modelValue={option.offHoursMode}
+                size="small"
+                disabled={!option.trackSchedule}
+                style={{ width: '120px' }}
+                onChange={(val: timer.option.OffHoursMode) => option.offHoursMode = val}
+            >
+                {OFF_HOURS_MODES.map(mode => <ElOption value={mode} label={t(msg => msg.option.statistics.offHoursModes[mode])} />)}
+            </ElSelect>
+        </OptionItem>
     </>
 })
 
@@ -0,0 +1,75 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { t } from "@app/locale"
+import { type ElTableRowScope } from "@pages/element-ui/table"
+import { ALL_LEVELS, DEFAULT_WEIGHT, MAX_WEIGHT } from "@util/productivity"
+import { ElInputNumber, ElOption, ElSelect, ElTable, ElTableColumn } from "element-plus"
+import { defineComponent } from "vue"
+
+type Props = {
+    data?: timer.site.Cate[]
+    onChange?: (cateId: number, setting: timer.productivity.Setting | undefined) => void
+}
+
+const _default = defineComponent<Props>(props => {
+    const handleLevelChange = (cate: timer.site.Cate, level: timer.productivity.Level | '') => {
+        const setting = level ? { level, weight: cate.productivity?.weight ?? DEFAULT_WEIGHT } : undefined
+        props.onChange?.(cate.id, setting)
+    }
+
+    const handleWeightChange = (cate: timer.site.Cate, weight: number | undefined) => {
+        const level = cate.productivity?.level
+        level && props.onChange?.(cate.id, { level, weight: weight ?? DEFAULT_WEIGHT })
+    }
+
+    return () => (
+        <ElTable data={props.data} height="100%" border fit emptyText={t(msg => msg.productivity.emptyTip)}>
+            <ElTableColumn
+                label={t(msg => msg.productivity.column.cate)}
+                minWidth={140}
+                align="center"
+                formatter={(cate: timer.site.Cate) => cate.name}
+            />
+            <ElTableColumn
+                label={t(msg => msg.productivity.column.level)}
+                minWidth={160}
+                align="center"
+                v-slots={({ row }: ElTableRowScope<timer.site.Cate>) => (
+                    <ElSelect
+                        modelValue={row.productivity?.level}
+                        placeholder={t(msg => msg.productivity.unset)}
+                        clearable
+                        onChange={val => handleLevelChange(row, val)}
+                    >
+                        {ALL_LEVELS.map(level => (
+                            <ElOption value={level} label={t(msg => msg.productivity.level[level])} />
+                        ))}
+                    </ElSelect>
+                )}
+            />
+            <ElTableColumn
+                label={t(msg => msg.productivity.column.weight)}
+                minWidth={160}
+                align="center"
+                v-slots={({ row }: ElTableRowScope<timer.site.Cate>) => (
+                    <ElInputNumber
+                        modelValue={row.productivity?.weight ?? DEFAULT_WEIGHT}
+                        disabled={!row.productivity}
+                        min={1}
+                        max={MAX_WEIGHT}
+                        step={1}
+                        stepStrictly
+                        onChange={val => handleWeightChange(row, val)}
+                    />
+                )}
+            />
+        </ElTable>
+    )
+}, { props: ['data', 'onChange'] })
+
+export default _default
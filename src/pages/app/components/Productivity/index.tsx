@@ -0,0 +1,45 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { useCategories } from "@app/context"
+import { t } from "@app/locale"
+import Flex from "@pages/components/Flex"
+import productivityService from "@service/productivity-service"
+import { ElAlert } from "element-plus"
+import { defineComponent } from "vue"
+import ContentContainer from "../common/ContentContainer"
+import ProductivityTable from "./ProductivityTable"
+
+const _default = defineComponent(() => {
+    const { categories, refreshCategories } = useCategories()
+
+    const handleChange = async (cateId: number, setting: timer.productivity.Setting | undefined) => {
+        await productivityService.saveSetting(cateId, setting)
+        refreshCategories()
+    }
+
+    return () => (
+        <ContentContainer>
+            <Flex column width="100%" height="100%" gap={20}>
+                <ElAlert
+                    title={t(msg => msg.productivity.infoAlertTitle)}
+                    style={{ padding: "15px 25px" }}
+                    closable={false}
+                >
+                    <li>{t(msg => msg.productivity.infoAlert0)}</li>
+                    <li>{t(msg => msg.productivity.infoAlert1)}</li>
+                    <li>{t(msg => msg.productivity.infoAlert2)}</li>
+                </ElAlert>
+                <Flex flex={1} height={0}>
+                    <ProductivityTable data={categories.value} onChange={handleChange} />
+                </Flex>
+            </Flex>
+        </ContentContainer>
+    )
+})
+
+export default _default
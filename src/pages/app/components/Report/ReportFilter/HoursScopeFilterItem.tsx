@@ -0,0 +1,47 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import SelectFilterItem from "@app/components/common/filter/SelectFilterItem"
+import { t } from "@app/locale"
+import { useRequest } from "@hooks"
+import optionHolder from "@service/components/option-holder"
+import { defineComponent } from "vue"
+import { useReportFilter } from "../context"
+
+const SCOPE_LABELS: { [scope in timer.core.HoursScope]: string } = {
+    both: t(msg => msg.report.hoursScope.both),
+    in: t(msg => msg.report.hoursScope.in),
+    off: t(msg => msg.report.hoursScope.off),
+}
+
+/**
+ * Only the off-hours data saved separately can be filtered
+ */
+async function isSeparated(): Promise<boolean> {
+    const { trackSchedule, offHoursMode } = await optionHolder.get()
+    return trackSchedule && offHoursMode === 'separate'
+}
+
+const _default = defineComponent(() => {
+    const filter = useReportFilter()
+    const { data: visible } = useRequest(isSeparated, {
+        defaultValue: false,
+        // Reset the hidden scope
+        onSuccess: val => !val && (filter.hoursScope = undefined),
+    })
+
+    return () => visible.value && (
+        <SelectFilterItem
+            historyName="hoursScope"
+            defaultValue={filter.hoursScope ?? 'both'}
+            options={SCOPE_LABELS}
+            onSelect={val => filter.hoursScope = val as timer.core.HoursScope}
+        />
+    )
+})
+
+export default _default
@@ -8,9 +8,10 @@
 import { t } from "@app/locale"
 import { UploadFilled } from "@element-plus/icons-vue"
 import { useRequest } from "@hooks"
+import queryProgress from "@service/backup/query-progress"
 import statService from "@service/stat-service"
-import { ElButton, ElIcon, ElTooltip } from "element-plus"
-import { computed, defineComponent } from "vue"
+import { ElButton, ElIcon, ElProgress, ElTooltip } from "element-plus"
+import { computed, defineComponent, onBeforeUnmount, ref } from "vue"
 import { useReportFilter } from "../context"
 import { ICON_BTN_STYLE } from "./common"
 
@@ -18,9 +19,19 @@ const _default = defineComponent(() => {
     const filter = useReportFilter()
     const content = computed(() => t(msg => msg.report.remoteReading[filter.readRemote ? 'on' : 'off']))
     const { data: visible } = useRequest(() => statService.canReadRemote(), { defaultValue: false })
+    // Progress of reading the remote data, which may be restored from the cold storage slowly
+    const progress = ref<number>()
+    const handleProgress = (ratio: number | undefined) => progress.value = ratio === undefined ? undefined : Math.round(ratio * 100)
+    queryProgress.addListener(handleProgress)
+    onBeforeUnmount(() => queryProgress.removeListener(handleProgress))
 
     return () => (
-        <ElTooltip trigger="hover" placement="bottom-start" effect="dark" content={content.value}>
+        <ElTooltip
+            trigger="hover"
+            placement="bottom-start"
+            effect="dark"
+            content={progress.value === undefined ? content.value : `${content.value} (${progress.value}%)`}
+        >
             <ElButton
                 v-show={visible.value}
                 size="small"
@@ -28,9 +39,12 @@ const _default = defineComponent(() => {
                 type={filter.readRemote ? 'primary' : undefined}
                 onClick={() => filter.readRemote = !filter.readRemote}
             >
-                <ElIcon size={17} style={{ padding: "0 1px" }}>
-                    <UploadFilled />
-                </ElIcon>
+                {progress.value === undefined
+                    ? <ElIcon size={17} style={{ padding: "0 1px" }}>
+                        <UploadFilled />
+                    </ElIcon>
+                    : <ElProgress type="circle" width={17} strokeWidth={3} percentage={progress.value} showText={false} />
+                }
             </ElButton>
         </ElTooltip>
     )
@@ -17,6 +17,7 @@ import { defineComponent } from "vue"
 import { useReportFilter } from "../context"
 import BatchDelete from "./BatchDelete"
 import DownloadFile from "./DownloadFile"
+import HoursScopeFilterItem from "./HoursScopeFilterItem"
 import MergeFilterItem from "./MergeFilterItem"
 import RemoteClient from "./RemoteClient"
 
@@ -66,6 +67,7 @@ const _default = defineComponent<Props>(props => {
                     onChange={val => filter.timeFormat = val}
                 />
                 <MergeFilterItem hideCate={hideCateFilter} />
+                <HoursScopeFilterItem />
             </Flex>
             <Flex gap={4}>
                 <BatchDelete />
@@ -17,7 +17,7 @@ import { useReportFilter } from "../../context"
 import type { ReportSort } from "../../types"
 
 type Props = {
-    dimension: timer.core.Dimension & 'focus' | 'run'
+    dimension: Exclude<timer.core.Dimension, 'time'>
 }
 
 const TimeColumn = defineComponent<Props>(props => {
@@ -73,15 +73,15 @@ const _default = defineComponent((_, ctx) => {
         refresh: refreshTotal,
         loading: totalLoading,
     } = useManualRequest(async () => {
-        const { siteMerge, dateRange: date, query, readRemote: inclusiveRemote, cateIds } = filter
+        const { siteMerge, dateRange: date, query, readRemote: inclusiveRemote, cateIds, hoursScope } = filter
         let rows: timer.stat.Row[] = []
         if (siteMerge === 'group') {
-            rows = await statService.selectGroup({ date, query })
+            rows = await statService.selectGroup({ date, query, hoursScope })
         } else if (siteMerge === 'cate') {
-            rows = await statService.selectCate({ date, query, cateIds, inclusiveRemote })
+            rows = await statService.selectCate({ date, query, cateIds, inclusiveRemote, hoursScope })
         } else {
             const param: SiteQuery = {
-                date, query, cateIds, inclusiveRemote,
+                date, query, cateIds, inclusiveRemote, hoursScope,
                 mergeHost: siteMerge === 'domain',
             }
             rows = await statService.selectSite(param)
@@ -92,6 +92,7 @@ const _default = defineComponent((_, ctx) => {
     }, { defaultValue: { visit: 0, focus: 0 } })
 
     const runColVisible = computed(() => !!data.value?.list?.find(r => r.run))
+    const mediaColVisible = computed(() => !!data.value?.list?.find(r => r.media))
     // Query data if document become visible
     const docVisible = useDocumentVisibility()
     watch(docVisible, () => docVisible.value && refresh())
@@ -149,6 +150,7 @@ const _default = defineComponent((_, ctx) => {
                         {visible.value.cate && <CateColumn onChange={handleCateChange} />}
                         <TimeColumn dimension="focus" />
                         {runColVisible.value && <TimeColumn dimension="run" />}
+                        {mediaColVisible.value && <TimeColumn dimension="media" />}
                         <VisitColumn />
                         <OperationColumn onDelete={refresh} />
                     </ElTable>
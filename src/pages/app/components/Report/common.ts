@@ -77,28 +77,28 @@ const cvtOrderDir = (order: ReportSort['order']): timer.common.SortDirection | u
 }
 
 const cvt2GroupQuery = (
-    { query, mergeDate, dateRange: date }: ReportFilterOption,
+    { query, mergeDate, dateRange: date, hoursScope }: ReportFilterOption,
     { prop, order }: ReportSort,
 ): GroupQuery => ({
-    date, mergeDate, query,
+    date, mergeDate, query, hoursScope,
     sortKey: prop !== 'host' && prop !== 'run' ? prop : undefined,
     sortDirection: cvtOrderDir(order),
 })
 
 const cvt2SiteQuery = (
-    { dateRange: date, mergeDate, siteMerge, query, cateIds, readRemote: inclusiveRemote }: ReportFilterOption,
+    { dateRange: date, mergeDate, siteMerge, query, cateIds, readRemote: inclusiveRemote, hoursScope }: ReportFilterOption,
     { prop, order }: ReportSort,
 ): SiteQuery => ({
-    date, mergeDate, mergeHost: siteMerge === 'domain', query, cateIds, inclusiveRemote,
+    date, mergeDate, mergeHost: siteMerge === 'domain', query, cateIds, inclusiveRemote, hoursScope,
     sortKey: prop,
     sortDirection: cvtOrderDir(order),
 })
 
 const cvt2CateQuery = (
-    { dateRange: date, mergeDate, query, cateIds, readRemote: inclusiveRemote }: ReportFilterOption,
+    { dateRange: date, mergeDate, query, cateIds, readRemote: inclusiveRemote, hoursScope }: ReportFilterOption,
     { prop, order }: ReportSort,
 ): CateQuery => ({
-    date, mergeDate, query, cateIds, inclusiveRemote,
+    date, mergeDate, query, cateIds, inclusiveRemote, hoursScope,
     sortKey: prop !== 'host' && prop !== 'run' ? prop : undefined,
     sortDirection: cvtOrderDir(order),
 })
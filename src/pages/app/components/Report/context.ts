@@ -40,7 +40,7 @@ type FilterStorageValue = Omit<ReportFilterOption, 'dateRange' | 'readRemote'> &
 }
 
 const cvtStorage2Filter = (storage: FilterStorageValue | undefined): ReportFilterOption => {
-    const { query, dateStart, dateEnd, mergeDate, siteMerge, cateIds, timeFormat } = storage || {}
+    const { query, dateStart, dateEnd, mergeDate, siteMerge, cateIds, timeFormat, hoursScope } = storage || {}
     const now = new Date()
     return {
         query,
@@ -50,17 +50,18 @@ const cvtStorage2Filter = (storage: FilterStorageValue | undefined): ReportFilte
         cateIds,
         timeFormat: timeFormat ?? 'default',
         readRemote: false,
+        hoursScope,
     }
 }
 
 const cvtFilter2Storage = (filter: ReportFilterOption): FilterStorageValue => {
-    const { query, dateRange, mergeDate, siteMerge, cateIds, timeFormat } = filter
+    const { query, dateRange, mergeDate, siteMerge, cateIds, timeFormat, hoursScope } = filter
     return {
         query,
         mergeDate, siteMerge,
         dateStart: dateRange?.[0]?.getTime?.(),
         dateEnd: dateRange?.[1]?.getTime?.(),
-        cateIds, timeFormat,
+        cateIds, timeFormat, hoursScope,
     }
 }
 
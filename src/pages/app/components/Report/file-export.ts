@@ -24,6 +24,10 @@ type ExportInfo = {
     cate?: string
     focus?: string
     time?: number
+    /**
+     * @since 3.7.0
+     */
+    media?: string
 }
 
 /**
@@ -51,7 +55,8 @@ const generateJsonData = ({ rows, categories, groupMap }: ExportParam): ExportIn
     alias: getAlias(row),
     cate: getCateName(row, categories),
     focus: periodFormatter(row.focus, { format: 'second', hideUnit: true }),
-    time: row.time
+    time: row.time,
+    media: row.media ? periodFormatter(row.media, { format: 'second', hideUnit: true }) : undefined,
 }))
 
 const getCateName = (row: timer.stat.Row, categories: timer.site.Cate[]): string | undefined => {
@@ -129,6 +134,12 @@ const CSV_COLUMN_CONFIGS: Record<CsvColumn, CsvColumnConfig> = {
         i18n: msg => msg.item.time,
         formatter: row => row.time?.toString?.() ?? '',
     },
+    media: {
+        // Not tracked for tab groups
+        visible: (_, siteMerge) => siteMerge !== 'group',
+        i18n: msg => msg.item.media,
+        formatter: row => periodFormatter(row.media ?? 0, { format: 'second', hideUnit: true }),
+    },
 }
 
 function generateCsvData({ filter, rows, categories, groupMap }: ExportParam): string[][] {
@@ -45,6 +45,10 @@ export type ReportFilterOption = {
      */
     timeFormat: timer.app.TimeFormat
     readRemote?: boolean
+    /**
+     * @since 3.7.0
+     */
+    hoursScope?: timer.core.HoursScope
 }
 
 export interface DisplayComponent {
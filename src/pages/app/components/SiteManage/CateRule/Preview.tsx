@@ -0,0 +1,91 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { useCategories } from "@app/context"
+import { t } from "@app/locale"
+import { Check, Right } from "@element-plus/icons-vue"
+import { useSwitch } from "@hooks"
+import Flex from "@pages/components/Flex"
+import { type ElTableRowScope } from "@pages/element-ui/table"
+import cateRuleService from "@service/cate-rule-service"
+import { ElButton, ElDialog, ElIcon, ElMessage, ElTable, ElTableColumn, ElTag } from "element-plus"
+import { defineComponent, ref } from "vue"
+
+export type PreviewInstance = {
+    open(): void
+}
+
+const _default = defineComponent<{ onConfirm?: NoArgCallback }>((props, ctx) => {
+    const [visible, open, close] = useSwitch()
+    const changes = ref<timer.cateRule.Change[]>([])
+    const { cateNameMap } = useCategories()
+
+    const handleOpen = async () => {
+        changes.value = await cateRuleService.previewReapply()
+        if (!changes.value.length) {
+            ElMessage.info(t(msg => msg.siteManage.rule.noChange))
+            return
+        }
+        open()
+    }
+
+    ctx.expose({ open: handleOpen } satisfies PreviewInstance)
+
+    const handleConfirm = async () => {
+        const count = await cateRuleService.reapply()
+        close()
+        ElMessage.success(t(msg => msg.siteManage.rule.siteChanged, { count }))
+        props.onConfirm?.()
+    }
+
+    const renderCate = (cateId: number | undefined) => cateId
+        ? <ElTag size="small">{cateNameMap.value[cateId] ?? cateId}</ElTag>
+        : <ElTag size="small" type="info">{t(msg => msg.shared.cate.notSet)}</ElTag>
+
+    return () => (
+        <ElDialog
+            width={600}
+            appendToBody
+            title={t(msg => msg.siteManage.rule.previewTitle)}
+            modelValue={visible.value}
+            onClose={close}
+            v-slots={{
+                footer: () => (
+                    <ElButton type="primary" icon={Check} onClick={handleConfirm}>
+                        {t(msg => msg.button.confirm)}
+                    </ElButton>
+                ),
+            }}
+        >
+            <ElTable data={changes.value} border maxHeight={400}>
+                <ElTableColumn
+                    label={t(msg => msg.item.host)}
+                    minWidth={180}
+                    v-slots={({ row: { site } }: ElTableRowScope<timer.cateRule.Change>) => site.host}
+                />
+                <ElTableColumn
+                    label={t(msg => msg.siteManage.column.alias)}
+                    minWidth={140}
+                    v-slots={({ row: { site } }: ElTableRowScope<timer.cateRule.Change>) => site.alias ?? '-'}
+                />
+                <ElTableColumn
+                    label={t(msg => msg.siteManage.column.cate)}
+                    minWidth={200}
+                    v-slots={({ row: { from, to } }: ElTableRowScope<timer.cateRule.Change>) => (
+                        <Flex gap={6} align="center" justify="center">
+                            {renderCate(from)}
+                            <ElIcon><Right /></ElIcon>
+                            {renderCate(to)}
+                        </Flex>
+                    )}
+                />
+            </ElTable>
+        </ElDialog>
+    )
+}, { props: ['onConfirm'] })
+
+export default _default
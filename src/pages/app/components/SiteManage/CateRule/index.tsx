@@ -0,0 +1,154 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { t } from "@app/locale"
+import { Bottom, Check, Delete, Plus, Refresh, Top } from "@element-plus/icons-vue"
+import { useSwitch } from "@hooks"
+import Flex from "@pages/components/Flex"
+import { type ElTableRowScope } from "@pages/element-ui/table"
+import cateRuleService from "@service/cate-rule-service"
+import { ALL_RULE_TYPES } from "@util/cate-rule"
+import {
+    ElButton, ElDialog, ElInput, ElMessage, ElOption, ElSelect, ElSwitch, ElTable, ElTableColumn, ElText,
+} from "element-plus"
+import { defineComponent, ref } from "vue"
+import CategorySelect from "../../common/category/CategorySelect"
+import Preview, { type PreviewInstance } from "./Preview"
+
+export type CateRuleInstance = {
+    open(): void
+}
+
+const _default = defineComponent<{ onReapply?: NoArgCallback }>((props, ctx) => {
+    const [visible, open, close] = useSwitch()
+    const rules = ref<timer.cateRule.Rule[]>([])
+    const preview = ref<PreviewInstance>()
+
+    const handleOpen = async () => {
+        rules.value = await cateRuleService.listAll()
+        open()
+    }
+
+    ctx.expose({ open: handleOpen } satisfies CateRuleInstance)
+
+    const handleAdd = () => rules.value.push({ type: 'host', pattern: '', cateId: undefined as unknown as number, enabled: true })
+
+    const handleMove = (idx: number, offset: -1 | 1) => {
+        const target = idx + offset
+        const list = rules.value
+        if (target < 0 || target >= list.length) return
+        [list[idx], list[target]] = [list[target], list[idx]]
+    }
+
+    const validRules = () => rules.value.filter(r => r.pattern?.trim() && r.cateId)
+        .map(r => ({ ...r, pattern: r.pattern.trim() }))
+
+    const handleSave = async () => {
+        const toSave = validRules()
+        await cateRuleService.saveAll(toSave)
+        rules.value = toSave
+        ElMessage.success(t(msg => msg.operation.successMsg))
+    }
+
+    const handleReapply = async () => {
+        const toSave = validRules()
+        await cateRuleService.saveAll(toSave)
+        rules.value = toSave
+        preview.value?.open()
+    }
+
+    return () => (
+        <ElDialog
+            width={800}
+            title={t(msg => msg.siteManage.rule.title)}
+            modelValue={visible.value}
+            closeOnClickModal={false}
+            onClose={close}
+            v-slots={{
+                footer: () => (
+                    <Flex justify="space-between">
+                        <ElButton icon={Plus} type="success" onClick={handleAdd}>
+                            {t(msg => msg.button.create)}
+                        </ElButton>
+                        <Flex gap={10}>
+                            <ElButton icon={Refresh} onClick={handleReapply}>
+                                {t(msg => msg.siteManage.rule.reapply)}
+                            </ElButton>
+                            <ElButton icon={Check} type="primary" onClick={handleSave}>
+                                {t(msg => msg.button.save)}
+                            </ElButton>
+                        </Flex>
+                    </Flex>
+                ),
+            }}
+        >
+            <Flex column gap={10}>
+                <ElText type="info" size="small">{t(msg => msg.siteManage.rule.tip)}</ElText>
+                <ElTable data={rules.value} border maxHeight={400}>
+                    <ElTableColumn type="index" width={50} align="center" />
+                    <ElTableColumn
+                        label={t(msg => msg.siteManage.column.type)}
+                        width={110}
+                        v-slots={({ row }: ElTableRowScope<timer.cateRule.Rule>) => (
+                            <ElSelect modelValue={row.type} onChange={(val: timer.cateRule.Type) => row.type = val}>
+                                {ALL_RULE_TYPES.map(type => (
+                                    <ElOption value={type} label={t(msg => msg.siteManage.rule.type[type])} />
+                                ))}
+                            </ElSelect>
+                        )}
+                    />
+                    <ElTableColumn
+                        label={t(msg => msg.siteManage.rule.pattern)}
+                        minWidth={200}
+                        v-slots={({ row }: ElTableRowScope<timer.cateRule.Rule>) => (
+                            <ElInput
+                                modelValue={row.pattern}
+                                onInput={val => row.pattern = val}
+                                placeholder={t(msg => msg.siteManage.rule.placeholder[row.type])}
+                            />
+                        )}
+                    />
+                    <ElTableColumn
+                        label={t(msg => msg.siteManage.column.cate)}
+                        width={160}
+                        v-slots={({ row }: ElTableRowScope<timer.cateRule.Rule>) => (
+                            <CategorySelect modelValue={row.cateId} onChange={val => row.cateId = val as number} />
+                        )}
+                    />
+                    <ElTableColumn
+                        label={t(msg => msg.siteManage.rule.enabled)}
+                        width={80}
+                        align="center"
+                        v-slots={({ row }: ElTableRowScope<timer.cateRule.Rule>) => (
+                            <ElSwitch modelValue={row.enabled} onChange={val => row.enabled = !!val} />
+                        )}
+                    />
+                    <ElTableColumn
+                        label={t(msg => msg.button.operation)}
+                        width={130}
+                        align="center"
+                        v-slots={({ $index }: ElTableRowScope<timer.cateRule.Rule>) => (
+                            <Flex justify="center">
+                                <ElButton link icon={Top} disabled={$index === 0} onClick={() => handleMove($index, -1)} />
+                                <ElButton
+                                    link
+                                    icon={Bottom}
+                                    disabled={$index === rules.value.length - 1}
+                                    onClick={() => handleMove($index, 1)}
+                                />
+                                <ElButton link type="danger" icon={Delete} onClick={() => rules.value.splice($index, 1)} />
+                            </Flex>
+                        )}
+                    />
+                </ElTable>
+            </Flex>
+            <Preview ref={preview} onConfirm={() => props.onReapply?.()} />
+        </ElDialog>
+    )
+}, { props: ['onReapply'] })
+
+export default _default
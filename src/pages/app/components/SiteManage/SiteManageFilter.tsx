@@ -8,7 +8,7 @@ import ButtonFilterItem from "@app/components/common/filter/ButtonFilterItem"
 import InputFilterItem from "@app/components/common/filter/InputFilterItem"
 import { useCategories } from "@app/context"
 import { t } from "@app/locale"
-import { Connection, Delete, Grid, Plus } from "@element-plus/icons-vue"
+import { Connection, Delete, Grid, Operation, Plus } from "@element-plus/icons-vue"
 import { useState } from "@hooks"
 import Flex from "@pages/components/Flex"
 import { computed, defineComponent, type PropType, watch } from "vue"
@@ -36,6 +36,7 @@ const _default = defineComponent({
         batchChangeCate: () => true,
         batchDisassociate: () => true,
         genNames: () => true,
+        openRules: () => true,
     },
     setup(props, ctx) {
         const { categories } = useCategories()
@@ -101,6 +102,11 @@ const _default = defineComponent({
                 </Flex>
                 <Flex gap={10}>
                     <DropdownButton items={items} />
+                    <ButtonFilterItem
+                        text={t(msg => msg.siteManage.rule.button)}
+                        icon={Operation}
+                        onClick={() => ctx.emit("openRules")}
+                    />
                     <ButtonFilterItem
                         text={t(msg => msg.button.create)}
                         icon={Plus}
@@ -16,6 +16,7 @@ import { computed, defineComponent, markRaw, ref } from "vue"
 import ContentContainer from "../common/ContentContainer"
 import Pagination from "../common/Pagination"
 import CategorySelect from "../common/category/CategorySelect"
+import CateRule, { type CateRuleInstance } from "./CateRule"
 import SiteManageFilter, { type FilterOption } from "./SiteManageFilter"
 import Modify, { type ModifyInstance } from './SiteManageModify'
 import SiteManageTable from "./SiteManageTable"
@@ -23,6 +24,7 @@ import SiteManageTable from "./SiteManageTable"
 export default defineComponent(() => {
     const [filterOption, setFilterOption] = useState<FilterOption>()
     const modify = ref<ModifyInstance>()
+    const cateRule = ref<CateRuleInstance>()
     const [page, setPage] = useState<timer.common.PageQuery>({ num: 1, size: 20 })
     const { data: pagination, refresh, loading } = useRequest(() => {
         const { query: fuzzyQuery, cateIds, types } = filterOption.value || {}
@@ -104,6 +106,7 @@ export default defineComponent(() => {
                 onBatchChangeCate={handleChangeCate}
                 onBatchDelete={handleBatchDelete}
                 onBatchDisassociate={handleDisassociate}
+                onOpenRules={() => cateRule.value?.open?.()}
             />
         ),
         content: () => <>
@@ -127,6 +130,7 @@ export default defineComponent(() => {
                 </Flex>
             </Flex>
             <Modify ref={modify} onSave={refresh} />
+            <CateRule ref={cateRule} onReapply={refresh} />
             <ElDialog
                 title={t(msg => msg.siteManage.cate.batchChange)}
                 width={300}
@@ -34,17 +34,17 @@ function computeList(sort: SortInfo, originRows: timer.imported.Row[]): timer.im
     return originRows.sort(comparator)
 }
 
-const focusCol = (comparedColName: string): Column[] => [
+const periodCol = (comparedColName: string, dimension: Exclude<timer.core.Dimension, 'time'>): Column[] => [
     {
         width: 150,
         align: 'center',
         title: comparedColName,
-        cellRenderer: ({ rowData }) => <span>{periodFormatter((rowData as timer.imported.Row).focus)}</span>,
+        cellRenderer: ({ rowData }) => <span>{periodFormatter((rowData as timer.imported.Row)[dimension])}</span>,
     }, {
         width: 150,
         align: 'center',
         title: t(msg => msg.dataManage.importOther.local),
-        cellRenderer: ({ rowData }) => <span>{periodFormatter((rowData as timer.imported.Row).exist?.focus)}</span>,
+        cellRenderer: ({ rowData }) => <span>{periodFormatter((rowData as timer.imported.Row).exist?.[dimension])}</span>,
     }
 ]
 
@@ -98,9 +98,11 @@ const _default = defineComponent<Props>((props) => {
     const list = computed(() => computeList(sort.value, data.value?.rows))
     const columns = computed(() => {
         const value = [...BASE_COLUMNS]
-        const { focus, time } = data.value
-        focus && value.push(...focusCol(props.comparedColName))
+        const { focus, time, run, media } = data.value
+        focus && value.push(...periodCol(props.comparedColName, 'focus'))
         time && value.push(...timeCol(props.comparedColName))
+        run && value.push(...periodCol(props.comparedColName, 'run'))
+        media && value.push(...periodCol(props.comparedColName, 'media'))
         return value
     })
 
@@ -20,4 +20,18 @@ export const REPORT_ROUTE = '/data/report'
 /**
  * @since 1.8.0
  */
-export const MERGE_ROUTE = '/additional/rule-merge'
\ No newline at end of file
+export const MERGE_ROUTE = '/additional/rule-merge'
+/**
+ * @since 3.7.0
+ */
+export const LIMIT_ROUTE = '/additional/limit'
+
+/**
+ * @since 3.7.0
+ */
+export const BUDGET_ROUTE = '/additional/budget'
+
+/**
+ * @since 3.7.0
+ */
+export const PRODUCTIVITY_ROUTE = '/additional/productivity'
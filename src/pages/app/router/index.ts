@@ -8,7 +8,7 @@
 import metaService from "@service/meta-service"
 import { type App } from "vue"
 import { createRouter, createWebHashHistory, type RouteRecordRaw } from "vue-router"
-import { ANALYSIS_ROUTE, DASHBOARD_ROUTE, MERGE_ROUTE, OPTION_ROUTE, REPORT_ROUTE } from "./constants"
+import { ANALYSIS_ROUTE, BUDGET_ROUTE, DASHBOARD_ROUTE, LIMIT_ROUTE, MERGE_ROUTE, OPTION_ROUTE, PRODUCTIVITY_ROUTE, REPORT_ROUTE } from "./constants"
 
 const dataRoutes: RouteRecordRaw[] = [
     {
@@ -55,6 +55,15 @@ const additionalRoutes: RouteRecordRaw[] = [
     }, {
         path: '/additional/whitelist',
         component: () => import('../components/Whitelist')
+    }, {
+        path: LIMIT_ROUTE,
+        component: () => import('../components/Limit')
+    }, {
+        path: BUDGET_ROUTE,
+        component: () => import('../components/Budget')
+    }, {
+        path: PRODUCTIVITY_ROUTE,
+        component: () => import('../components/Productivity')
     }, {
         path: MERGE_ROUTE,
         component: () => import('../components/RuleMerge')
@@ -7,4 +7,5 @@
 
 export type ElTableRowScope<T> = {
     row: T
+    $index: number
 }
@@ -3,6 +3,7 @@ import { defineComponent } from "vue"
 import { RouterView } from "vue-router"
 import Footer from "./components/Footer"
 import Header from "./components/Header"
+import PauseBanner from "./components/PauseBanner"
 import { initPopupContext } from "./context"
 
 const Main = defineComponent(() => {
@@ -12,6 +13,7 @@ const Main = defineComponent(() => {
     return () => (
         <Flex key={appKey.value} column width='100%' height='100%' gap={10}>
             <Header />
+            <PauseBanner />
             <Flex flex={1} height={0}>
                 <RouterView />
             </Flex>
@@ -0,0 +1,111 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { Timer, VideoPause, VideoPlay } from "@element-plus/icons-vue"
+import { useRequest } from "@hooks/useRequest"
+import Flex from "@pages/components/Flex"
+import { t } from "@popup/locale"
+import cateService from "@service/cate-service"
+import focusService, { calcEndTime, FOCUS_DURATIONS } from "@service/focus-service"
+import { formatPeriodCommon } from "@util/time"
+import {
+    ElButton, ElLink, ElOption, ElPopover, ElRadioButton, ElRadioGroup, ElSelect, ElText,
+} from "element-plus"
+import { defineComponent, onBeforeUnmount, reactive, ref } from "vue"
+
+const Focus = defineComponent(() => {
+    const { data: session, refresh } = useRequest(() => focusService.getSession())
+    const { data: cates } = useRequest(() => cateService.listAll(), { defaultValue: [] })
+    const form = reactive({ duration: FOCUS_DURATIONS[0], cates: [] as number[], hosts: [] as string[] })
+
+    const now = ref(Date.now())
+    const timer = setInterval(() => now.value = Date.now(), 1000)
+    onBeforeUnmount(() => clearInterval(timer))
+
+    const handleStart = async () => {
+        await focusService.start(form.duration, { cates: form.cates, hosts: form.hosts })
+        refresh()
+    }
+
+    const handleStop = async () => {
+        await focusService.stop()
+        refresh()
+    }
+
+    const renderRunning = (running: timer.focus.Session) => (
+        <Flex column gap={10} align="center">
+            <ElText size="large" tag="b">
+                {t(msg => msg.focus.remaining, { time: formatPeriodCommon(Math.max(0, calcEndTime(running) - now.value)) })}
+            </ElText>
+            <ElText type="info">
+                {t(msg => msg.focus.distractions, { count: running.distractions?.length ?? 0 })}
+            </ElText>
+            <ElButton type="danger" icon={VideoPause} onClick={handleStop}>
+                {t(msg => msg.focus.stop)}
+            </ElButton>
+        </Flex>
+    )
+
+    const renderForm = () => (
+        <Flex column gap={10}>
+            <ElRadioGroup modelValue={form.duration} onChange={val => form.duration = val as number}>
+                {FOCUS_DURATIONS.map(minutes => (
+                    <ElRadioButton value={minutes}>{t(msg => msg.focus.duration, { minutes })}</ElRadioButton>
+                ))}
+            </ElRadioGroup>
+            <ElSelect
+                modelValue={form.cates}
+                onChange={(val: number[]) => form.cates = val}
+                multiple
+                clearable
+                placeholder={t(msg => msg.focus.cates)}
+            >
+                {cates.value?.map(({ id, name }) => <ElOption value={id} label={name} />)}
+            </ElSelect>
+            <ElSelect
+                modelValue={form.hosts}
+                onChange={(val: string[]) => form.hosts = val}
+                multiple
+                filterable
+                allowCreate
+                defaultFirstOption
+                reserveKeyword={false}
+                placeholder={t(msg => msg.focus.hostPlaceholder)}
+            />
+            <ElText size="small" type="info">{t(msg => msg.focus.allowlistTip)}</ElText>
+            <ElButton type="primary" icon={VideoPlay} onClick={handleStart}>
+                {t(msg => msg.focus.start)}
+            </ElButton>
+        </Flex>
+    )
+
+    return () => (
+        <ElPopover
+            width={280}
+            trigger="click"
+            v-slots={{
+                reference: () => (
+                    <ElLink
+                        underline="never"
+                        icon={Timer}
+                        type={session.value ? 'danger' : undefined}
+                        style={{ gap: '3px' }}
+                    >
+                        {session.value
+                            ? formatPeriodCommon(Math.max(0, calcEndTime(session.value) - now.value))
+                            : t(msg => msg.focus.title)
+                        }
+                    </ElLink>
+                )
+            }}
+        >
+            {session.value ? renderRunning(session.value) : renderForm()}
+        </ElPopover>
+    )
+})
+
+export default Focus
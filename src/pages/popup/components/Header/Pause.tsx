@@ -0,0 +1,54 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { VideoPause, VideoPlay } from "@element-plus/icons-vue"
+import { t } from "@popup/locale"
+import { usePause } from "@popup/context"
+import pauseService, { calcPauseUntil, PAUSE_DURATIONS, type PauseDuration } from "@service/pause-service"
+import { ElDropdown, ElDropdownItem, ElDropdownMenu, ElLink } from "element-plus"
+import { defineComponent } from "vue"
+
+const labelOf = (duration: PauseDuration | undefined): string => {
+    if (duration === undefined) return t(msg => msg.pause.manual)
+    if (duration === 'tomorrow') return t(msg => msg.pause.tomorrow)
+    return duration % 60
+        ? t(msg => msg.pause.minutes, { n: duration })
+        : t(msg => msg.pause.hours, { n: duration / 60 })
+}
+
+const Pause = defineComponent(() => {
+    const pause = usePause()
+
+    const handlePause = (duration: PauseDuration | undefined) => pauseService.pause(duration === undefined ? undefined : calcPauseUntil(duration))
+
+    return () => pause.value
+        ? (
+            <ElLink underline="never" type="warning" icon={VideoPlay} onClick={() => pauseService.resume()} style={{ gap: '3px' }}>
+                {t(msg => msg.pause.resume)}
+            </ElLink>
+        )
+        : (
+            <ElDropdown
+                trigger="click"
+                onCommand={(duration: PauseDuration | 'manual') => handlePause(duration === 'manual' ? undefined : duration)}
+                v-slots={{
+                    dropdown: () => (
+                        <ElDropdownMenu>
+                            {PAUSE_DURATIONS.map(duration => <ElDropdownItem command={duration}>{labelOf(duration)}</ElDropdownItem>)}
+                            <ElDropdownItem command="manual">{labelOf(undefined)}</ElDropdownItem>
+                        </ElDropdownMenu>
+                    ),
+                }}
+            >
+                <ElLink underline="never" icon={VideoPause} style={{ gap: '3px' }}>
+                    {t(msg => msg.pause.title)}
+                </ElLink>
+            </ElDropdown>
+        )
+})
+
+export default Pause
@@ -0,0 +1,35 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { createTab } from "@api/chrome/tab"
+import { PRODUCTIVITY_ROUTE } from "@app/router/constants"
+import { TrendCharts } from "@element-plus/icons-vue"
+import { useRequest } from "@hooks/useRequest"
+import { t } from "@popup/locale"
+import productivityService from "@service/productivity-service"
+import { getAppPageUrl } from "@util/constant/url"
+import { ElLink, ElTooltip } from "element-plus"
+import { defineComponent } from "vue"
+
+const Productivity = defineComponent(() => {
+    const { data } = useRequest(() => productivityService.getScore())
+
+    return () => data.value?.score === undefined ? null : (
+        <ElTooltip content={t(msg => msg.productivity.todayScore)} placement="bottom">
+            <ElLink
+                underline="never"
+                icon={TrendCharts}
+                onClick={() => createTab(getAppPageUrl(PRODUCTIVITY_ROUTE))}
+                style={{ gap: '3px' }}
+            >
+                {data.value.score}
+            </ElLink>
+        </ElTooltip>
+    )
+})
+
+export default Productivity
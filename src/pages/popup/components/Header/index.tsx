@@ -9,9 +9,12 @@ import { ElLink } from "element-plus"
 import { defineComponent } from "vue"
 import DarkSwitch from "./DarkSwitch"
 import Extra from "./Extra"
+import Focus from "./Focus"
 import Github from "./Github"
 import Logo from "./Logo"
 import Option from "./Option"
+import Pause from "./Pause"
+import Productivity from "./Productivity"
 
 const Header = defineComponent(() => {
 
@@ -30,6 +33,9 @@ const Header = defineComponent(() => {
             <Flex gap={10}>
                 <Flex gap={10}>
                     <Extra />
+                    <Focus />
+                    <Pause />
+                    <Productivity />
                     <ElLink
                         underline="never"
                         onClick={handleAllFuncClick}
@@ -0,0 +1,43 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { usePause } from "@popup/context"
+import { t } from "@popup/locale"
+import pauseService from "@service/pause-service"
+import { formatTime, isSameDay } from "@util/time"
+import { ElAlert, ElButton } from "element-plus"
+import { defineComponent } from "vue"
+
+const formatUntil = (until: number): string => {
+    const format = isSameDay(new Date(until), new Date())
+        ? '{h}:{i}'
+        : `${t(msg => msg.calendar.dateFormat)} {h}:{i}`
+    return formatTime(until, format)
+}
+
+/**
+ * Banner shown while tracking is paused globally
+ *
+ * @since 3.7.0
+ */
+const PauseBanner = defineComponent(() => {
+    const pause = usePause()
+
+    return () => pause.value && (
+        <ElAlert type="warning" showIcon closable={false} style={{ margin: '0 10px', width: 'auto' }}>
+            {pause.value.until
+                ? t(msg => msg.pause.pausedUntil, { time: formatUntil(pause.value.until) })
+                : t(msg => msg.pause.paused)
+            }
+            <ElButton link type="primary" onClick={() => pauseService.resume()} style={{ marginInlineStart: '8px' }}>
+                {t(msg => msg.pause.resume)}
+            </ElButton>
+        </ElAlert>
+    )
+})
+
+export default PauseBanner
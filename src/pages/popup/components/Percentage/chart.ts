@@ -111,7 +111,7 @@ export function generateToolboxOption(): ToolboxComponentOption {
     }
 }
 
-type OtherRow = Record<Exclude<timer.core.Dimension, 'run'>, number> & {
+type OtherRow = Record<Exclude<timer.core.Dimension, 'run' | 'media'>, number> & {
     other: true
     count: number
 }
@@ -120,7 +120,7 @@ type ChartRow = timer.stat.Row | OtherRow
 
 export const isOther = (row: ChartRow): row is OtherRow => 'other' in row
 
-function cvt2ChartRows(rows: timer.stat.Row[], dimension: Exclude<timer.core.Dimension, 'run'>, itemCount: number): ChartRow[] {
+function cvt2ChartRows(rows: timer.stat.Row[], dimension: Exclude<timer.core.Dimension, 'run' | 'media'>, itemCount: number): ChartRow[] {
     rows = rows.filter(item => !!item[dimension]).sort((a, b) => (b[dimension] ?? 0) - (a[dimension] ?? 0))
     const popupRows: ChartRow[] = []
     const other: OtherRow = { focus: 0, time: 0, count: 0, other: true }
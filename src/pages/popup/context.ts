@@ -2,6 +2,7 @@ import { useLocalStorage, useRequest } from "@hooks"
 import { useProvide, useProvider } from "@hooks/useProvider"
 import cateService from "@service/cate-service"
 import optionService from "@service/option-service"
+import pauseService from "@service/pause-service"
 import { toMap } from "@util/array"
 import { isDarkMode, toggle } from "@util/dark-mode"
 import { CATE_NOT_SET_ID } from "@util/site"
@@ -12,7 +13,7 @@ export type PopupQuery = {
     mergeMethod: Exclude<timer.stat.MergeMethod, 'date'> | undefined
     duration: timer.option.PopupDuration
     durationNum?: number
-    dimension: Exclude<timer.core.Dimension, 'run'>
+    dimension: Exclude<timer.core.Dimension, 'run' | 'media'>
 }
 
 type PopupContextValue = {
@@ -21,6 +22,10 @@ type PopupContextValue = {
     setDarkMode: (val: boolean) => void
     query: Reactive<PopupQuery>
     cateNameMap: Ref<Record<number, string>>
+    /**
+     * The running global pause
+     */
+    pause: Ref<timer.pause.State | undefined>
 }
 
 const NAMESPACE = '_'
@@ -45,8 +50,12 @@ export const initPopupContext = (): Ref<number> => {
         return result
     }, { defaultValue: {} })
 
+    const { data: pause, refresh: refreshPause } = useRequest(() => pauseService.getState())
+    // Resumed by the background if timed
+    pauseService.addStateChangeListener(refreshPause)
+
     const query = initQuery()
-    useProvide<PopupContextValue>(NAMESPACE, { reload, darkMode, setDarkMode, query, cateNameMap })
+    useProvide<PopupContextValue>(NAMESPACE, { reload, darkMode, setDarkMode, query, cateNameMap, pause })
 
     return appKey
 }
@@ -70,4 +79,6 @@ export const usePopupContext = () => useProvider<PopupContextValue, 'reload' | '
 
 export const useQuery = () => useProvider<PopupContextValue, 'query'>(NAMESPACE, 'query').query
 
-export const useCateNameMap = () => useProvider<PopupContextValue, 'cateNameMap'>(NAMESPACE, 'cateNameMap')?.cateNameMap
\ No newline at end of file
+export const useCateNameMap = () => useProvider<PopupContextValue, 'cateNameMap'>(NAMESPACE, 'cateNameMap')?.cateNameMap
+
+export const usePause = () => useProvider<PopupContextValue, 'pause'>(NAMESPACE, 'pause').pause
\ No newline at end of file
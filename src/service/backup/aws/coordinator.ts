@@ -5,8 +5,13 @@
  * https://opensource.org/licenses/MIT
  */
 
-import { listClients, testConnection, uploadData, type AwsConfig, type ConflictInfo } from "@api/aws"
-import { formatTimeYMD } from "@util/time"
+import {
+    aggregateData, clearData, downloadCryptoMeta, downloadData, fetchArchive, listArchives, listClients, rehydrateArchive,
+    testConnection, updateClients, updateData, uploadCryptoMeta, uploadData,
+    type AwsConfig, type SyncResult,
+} from "@api/aws"
+import syncHealthService from "@service/sync/sync-health-service"
+import { formatTime, formatTimeYMD } from "@util/time"
 import { backgroundLogger } from "@util/logger"
 
 /**
@@ -45,6 +50,27 @@ function enhanceRow(row: timer.core.Row, sessionId: string, batchId: string): ti
     }
 }
 
+/**
+ * Convert the conflicts in the results to records, results are in the order of uploaded rows
+ */
+function toConflictRecords(results: SyncResult[] | undefined, rows: timer.core.EnhancedRow[]): timer.backup.ConflictRecord[] {
+    const ts = Date.now()
+    return (results ?? []).flatMap((result, idx) => {
+        const row = result.row ?? rows[idx]
+        return (result.conflicts ?? []).map(({ type, clientId, rejected, reason, overwritten }) => ({
+            ts,
+            host: row?.host ?? '',
+            date: row?.date ?? '',
+            type,
+            clientId,
+            rejected,
+            reason,
+            overwritten: overwritten && { focus: overwritten.focus, time: overwritten.time },
+            uploaded: row && { focus: row.focus, time: row.time },
+        }))
+    })
+}
+
 /**
  * AWS Coordinator for real-time sync
  */
@@ -88,34 +114,29 @@ export default class AwsCoordinator implements timer.backup.Coordinator<AwsCache
         context: timer.backup.CoordinatorContext<AwsCache>,
         clients: timer.backup.Client[]
     ): Promise<void> {
-        // For AWS, client management is handled automatically
-        // The backend tracks clients through their sync operations
-        // This method exists to maintain interface compatibility
-        console.log('AWS: Client list updated automatically through sync operations')
+        await updateClients(this.getConfig(context), context.cid, clients)
     }
 
     async listAllClients(context: timer.backup.CoordinatorContext<AwsCache>): Promise<timer.backup.Client[]> {
-        const config = this.getConfig(context)
-        
-        try {
-            const response = await listClients(config, context.cid)
-            return response.clients || []
-        } catch (error) {
-            backgroundLogger.debug('AWS: Failed to list clients:', error)
-            return []
-        }
+        // Not to swallow the failure, otherwise the saved clients are replaced with the local one only
+        const response = await listClients(this.getConfig(context), context.cid)
+        return response.clients || []
     }
 
+    /**
+     * Download the raw rows, the server reads both the hot table and the archives in S3
+     */
     async download(
         context: timer.backup.CoordinatorContext<AwsCache>,
         dateStart: Date,
         dateEnd: Date,
-        targetCid?: string
+        targetCid?: string,
     ): Promise<timer.core.Row[]> {
-        // Download functionality has been removed for security and simplicity
-        // AWS backup now focuses purely on upload/sync operations
-        console.log('AWS: Download functionality has been disabled')
-        return []
+        const response = await downloadData(
+            this.getConfig(context), context.cid, targetCid ?? context.cid,
+            formatTime(dateStart, '{y}-{m}-{d}'), formatTime(dateEnd, '{y}-{m}-{d}'),
+        )
+        return (response.data ?? []).map(({ host, date, focus, time, media }) => ({ host, date, focus, time, media }))
     }
 
     async upload(
@@ -137,9 +158,7 @@ export default class AwsCoordinator implements timer.backup.Coordinator<AwsCache
             const response = await uploadData(config, context.cid, enhancedRows, batchId)
             
             // Handle conflicts if any
-            const conflicts = response.results
-                ?.filter(r => r.conflicts && r.conflicts.length > 0)
-                ?.flatMap(r => r.conflicts!) || []
+            const conflicts = toConflictRecords(response.results, enhancedRows)
             
             if (conflicts.length > 0) {
                 backgroundLogger.debug(`AWS: Resolved ${conflicts.length} conflicts during upload`)
@@ -165,6 +184,58 @@ export default class AwsCoordinator implements timer.backup.Coordinator<AwsCache
         }
     }
 
+    async overwrite(
+        context: timer.backup.CoordinatorContext<AwsCache>,
+        rows: timer.core.Row[]
+    ): Promise<void> {
+        if (!rows?.length) return
+        const config = this.getConfig(context)
+        const sessionId = this.ensureSessionId(context)
+        const batchId = this.getNextBatchId(context)
+        const response = await updateData(config, context.cid, rows.map(row => enhanceRow(row, sessionId, batchId)), batchId)
+        if (response.failed > 0) {
+            throw new Error(`${response.failed} out of ${response.processed} rows failed to update`)
+        }
+    }
+
+    async aggregate(
+        context: timer.backup.CoordinatorContext<AwsCache>,
+        param: timer.backup.AggregateParam
+    ): Promise<timer.backup.AggregateRow[]> {
+        const { start, end, groups, cids } = param
+        const response = await aggregateData(this.getConfig(context), context.cid, {
+            startDate: formatTimeYMD(start),
+            endDate: formatTimeYMD(end),
+            groupBy: groups,
+            clientIds: cids,
+        })
+        return (response.data ?? []).map(({ clientId, host, date, focus, time, media }) => ({ cid: clientId, host, date, focus, time, media }))
+    }
+
+    async listArchives(context: timer.backup.CoordinatorContext<AwsCache>, cids?: string[]): Promise<Record<string, string[]>> {
+        const response = await listArchives(this.getConfig(context), context.cid, cids)
+        return response.data ?? {}
+    }
+
+    async fetchArchive(context: timer.backup.CoordinatorContext<AwsCache>, cid: string, month: string): Promise<timer.core.Row[]> {
+        const response = await fetchArchive(this.getConfig(context), context.cid, cid, month)
+        return (response.data ?? []).map(({ host, date, focus, time, media }) => ({ host, date, focus, time, media }))
+    }
+
+    async rehydrateArchive(context: timer.backup.CoordinatorContext<AwsCache>, cid: string, month: string): Promise<number> {
+        const response = await rehydrateArchive(this.getConfig(context), context.cid, cid, month)
+        return response.count ?? 0
+    }
+
+    async downloadCryptoMeta(context: timer.backup.CoordinatorContext<AwsCache>): Promise<timer.backup.CryptoMeta | undefined> {
+        const response = await downloadCryptoMeta(this.getConfig(context), context.cid)
+        return response.data ?? undefined
+    }
+
+    async uploadCryptoMeta(context: timer.backup.CoordinatorContext<AwsCache>, meta: timer.backup.CryptoMeta): Promise<void> {
+        await uploadCryptoMeta(this.getConfig(context), context.cid, meta)
+    }
+
     async testAuth(auth: timer.backup.Auth, ext: timer.backup.TypeExt): Promise<string | undefined> {
         if (!auth?.token) {
             return 'AWS API key is required'
@@ -192,18 +263,17 @@ export default class AwsCoordinator implements timer.backup.Coordinator<AwsCache
         context: timer.backup.CoordinatorContext<AwsCache>,
         client: timer.backup.Client
     ): Promise<void> {
-        // For AWS, we do not directly delete data from the backend
-        // Instead, we mark the client as inactive or handle it through lifecycle policies
-        backgroundLogger.debug(`AWS: Clear operation for client ${client.id} not implemented - data will be archived automatically`)
+        // Both the hot data and the archives of the client are deleted
+        await clearData(this.getConfig(context), context.cid, client.id)
     }
     
     /**
      * Handle conflicts that occurred during upload
-     * This could trigger UI notifications or automatic resolution strategies
+     * Records are kept to show on the sync status page
      */
     private async handleConflicts(
         context: timer.backup.CoordinatorContext<AwsCache>,
-        conflicts: ConflictInfo[]
+        conflicts: timer.backup.ConflictRecord[]
     ): Promise<void> {
         // Group conflicts by type for analysis
         const sessionConflicts = conflicts.filter(c => c.type === 'session_conflict')
@@ -217,11 +287,7 @@ export default class AwsCoordinator implements timer.backup.Coordinator<AwsCache
             console.log(`AWS: ${timestampConflicts.length} timestamp conflicts resolved (newer data took precedence)`)
         }
         
-        // In a more sophisticated implementation, you might:
-        // 1. Show user notifications about conflicts
-        // 2. Store conflict logs for analysis
-        // 3. Implement custom resolution strategies
-        // 4. Trigger UI updates to show resolved data
+        await syncHealthService.recordConflicts(conflicts)
     }
     
     /**
@@ -10,4 +10,43 @@ export function processDir(dirPath: string | undefined): string {
         dirPath = dirPath + '/'
     }
     return dirPath
-}
\ No newline at end of file
+}
+
+/**
+ * [focus, time, run, media]
+ */
+type MonthRowValue = [number, number, number?, number?]
+
+/**
+ * Data of one month
+ *
+ * {dayOfMonth => {host => value}}
+ */
+export type MonthData = Record<string, Record<string, MonthRowValue>>
+
+export function rows2MonthData(rows: timer.core.Row[]): MonthData {
+    const result: MonthData = {}
+    rows.forEach(({ date, host, focus, time, run, media }) => {
+        const day = date.substring(6)
+        const dayData = result[day] ?? (result[day] = {})
+        const value: MonthRowValue = [focus ?? 0, time ?? 0]
+        // Keep the position of run time if media exists
+        if (run || media) value.push(run ?? 0)
+        if (media) value.push(media)
+        dayData[host] = value
+    })
+    return result
+}
+
+export function monthData2Rows(yearMonth: string, data: MonthData): timer.core.Row[] {
+    const result: timer.core.Row[] = []
+    Object.entries(data ?? {}).forEach(([day, hosts]) => {
+        Object.entries(hosts ?? {}).forEach(([host, [focus, time, run, media]]) => {
+            const row: timer.core.Row = { host, date: yearMonth + day, focus: focus ?? 0, time: time ?? 0 }
+            run && (row.run = run)
+            media && (row.media = media)
+            result.push(row)
+        })
+    })
+    return result
+}
@@ -0,0 +1,268 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import configSyncDb from "@db/config-sync-database"
+import mergeRuleDatabase from "@db/merge-rule-database"
+import siteCateDatabase from "@db/site-cate-database"
+import cateService from "@service/cate-service"
+import optionHolder from "@service/components/option-holder"
+import siteService from "@service/site-service"
+import whitelistService from "@service/whitelist-service"
+import { identifySiteKey, parseSiteKeyFromIdentity, supportCategory } from "@util/site"
+import { MILL_PER_DAY } from "@util/time"
+
+export const ALL_CONFIG_TYPES: timer.backup.ConfigType[] = ['cate', 'site', 'mergeRule', 'whitelist', 'option']
+
+/**
+ * Tombstones are removed after this, clients not synced for so long may bring the deleted entities back
+ */
+const TOMBSTONE_TTL = MILL_PER_DAY * 90
+
+/**
+ * Options only for this client, never shared
+ */
+const LOCAL_OPTION_KEYS: (keyof timer.option.AllOption)[] = [
+    'backupType', 'backupAuths', 'backupLogin', 'backupExts', 'clientName',
+    'autoBackUp', 'autoBackUpInterval', 'backupPassphrase', 'backupConfigTypes',
+]
+
+/**
+ * Current values of one type, keyed by entity key
+ */
+type ConfigValues = Record<string, unknown>
+
+type Entities = Record<string, timer.backup.ConfigEntity>
+
+type ConfigAdapter = {
+    collect: () => Promise<ConfigValues>
+    /**
+     * Save the values, or remove the entities if the values are undefined
+     */
+    apply: (changes: [string, unknown][]) => Promise<void>
+}
+
+type CateValue = Pick<timer.site.Cate, 'budget' | 'productivity'>
+
+type SiteValue = {
+    alias?: string
+    /**
+     * Name of the category, since ids are different across clients
+     */
+    cate?: string
+}
+
+async function cateIdsByName(): Promise<Record<string, number>> {
+    const cates = await cateService.listAll()
+    return Object.fromEntries(cates.map(c => [c.name, c.id]))
+}
+
+const ADAPTERS: Record<timer.backup.ConfigType, ConfigAdapter> = {
+    cate: {
+        collect: async () => {
+            const cates = await cateService.listAll()
+            return Object.fromEntries(cates.map(({ name, budget, productivity }) => [name, { budget, productivity } satisfies CateValue]))
+        },
+        apply: async changes => {
+            const ids = await cateIdsByName()
+            for (const [name, value] of changes) {
+                if (value === undefined) {
+                    const id = ids[name]
+                    id !== undefined && await cateService.remove(id)
+                    continue
+                }
+                const { budget, productivity } = value as CateValue
+                const { id } = await cateService.add(name)
+                await siteCateDatabase.saveBudget(id, budget)
+                await siteCateDatabase.saveProductivity(id, productivity)
+            }
+        },
+    },
+    site: {
+        collect: async () => {
+            const cateNames = Object.fromEntries(Object.entries(await cateIdsByName()).map(([name, id]) => [id, name]))
+            const sites = await siteService.selectAll()
+            return Object.fromEntries(sites
+                .filter(s => s.type !== 'virtual' && (s.alias || s.cate))
+                .map(({ alias, cate, ...key }) => [identifySiteKey(key), {
+                    alias, cate: cate === undefined ? undefined : cateNames[cate],
+                } satisfies SiteValue])
+            )
+        },
+        apply: async changes => {
+            for (const [identity, value] of changes) {
+                const key = parseSiteKeyFromIdentity(identity)
+                if (!key) continue
+                const { alias, cate } = (value ?? {}) as SiteValue
+                alias ? await siteService.saveAlias(key, alias) : await siteService.removeAlias(key)
+                if (!supportCategory(key)) continue
+                // Categories are applied before, but create it if missing
+                const cateId = cate ? (await cateService.add(cate)).id : undefined
+                await siteService.saveCate(key, cateId)
+            }
+        },
+    },
+    mergeRule: {
+        collect: async () => {
+            const rules = await mergeRuleDatabase.selectAll()
+            return Object.fromEntries(rules.map(({ origin, merged }) => [origin, merged]))
+        },
+        apply: async changes => {
+            for (const [origin, merged] of changes) {
+                await mergeRuleDatabase.remove(origin)
+                merged !== undefined && await mergeRuleDatabase.add({ origin, merged: merged as timer.merge.Rule['merged'] })
+            }
+        },
+    },
+    whitelist: {
+        collect: async () => {
+            const whitelist = await whitelistService.listAll()
+            return Object.fromEntries(whitelist.map(white => [white, true]))
+        },
+        apply: async changes => {
+            for (const [white, value] of changes) {
+                value === undefined ? await whitelistService.remove(white) : await whitelistService.add(white)
+            }
+        },
+    },
+    option: {
+        collect: async () => {
+            const option = await optionHolder.get()
+            return Object.fromEntries(Object.entries(option)
+                .filter(([key, value]) => value !== undefined && !LOCAL_OPTION_KEYS.includes(key as keyof timer.option.AllOption))
+            )
+        },
+        apply: async changes => {
+            // Options are never removed
+            const toSet = Object.fromEntries(changes.filter(([_, value]) => value !== undefined))
+            Object.keys(toSet).length && await optionHolder.set(toSet)
+        },
+    },
+}
+
+const isSame = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b)
+
+/**
+ * Detect local changes by comparing the current values with the entities synced last time
+ *
+ * Entities of the type never synced lose to the remote ones, so a new client inherits the shared configuration
+ */
+function detectChanges(
+    last: Entities | undefined,
+    values: ConfigValues,
+    remote: Entities,
+    cid: string,
+    now: number,
+): Entities {
+    const result: Entities = {}
+    Object.entries(values).forEach(([key, value]) => {
+        const exist = last?.[key]
+        if (exist && !exist.deleted && isSame(exist.value, value)) {
+            result[key] = exist
+        } else {
+            result[key] = { ts: !last && remote[key] ? 0 : now, cid, value }
+        }
+    })
+    Object.entries(last ?? {}).forEach(([key, exist]) => {
+        if (key in values) return
+        result[key] = exist.deleted ? exist : { ts: now, cid, deleted: true }
+    })
+    return result
+}
+
+const newer = (a: timer.backup.ConfigEntity, b: timer.backup.ConfigEntity) => {
+    if (a.ts !== b.ts) return a.ts > b.ts ? a : b
+    return a.cid >= b.cid ? a : b
+}
+
+/**
+ * Last writer wins of each entity, and expired tombstones are removed
+ */
+function mergeEntities(local: Entities, remote: Entities, now: number): Entities {
+    const result: Entities = {}
+    new Set([...Object.keys(local), ...Object.keys(remote)]).forEach(key => {
+        const l = local[key], r = remote[key]
+        const winner = l && r ? newer(l, r) : (l ?? r)
+        if (winner.deleted && winner.ts < now - TOMBSTONE_TTL) return
+        result[key] = winner
+    })
+    return result
+}
+
+/**
+ * Merge the local configuration into the remote one
+ *
+ * @param last entities synced last time
+ * @param values current values of the types to share
+ * @param remote the remote configuration, types not shared are kept
+ */
+export function mergeConfig(
+    last: timer.backup.ConfigSnapshot,
+    values: { [type in timer.backup.ConfigType]?: ConfigValues },
+    remote: timer.backup.ConfigSnapshot,
+    cid: string,
+    now: number,
+): timer.backup.ConfigSnapshot {
+    const result: timer.backup.ConfigSnapshot = { ...remote }
+    Object.entries(values).forEach(([key, typeValues]) => {
+        const type = key as timer.backup.ConfigType
+        const remoteEntities = remote[type] ?? {}
+        const local = detectChanges(last[type], typeValues, remoteEntities, cid, now)
+        result[type] = mergeEntities(local, remoteEntities, now)
+    })
+    return result
+}
+
+/**
+ * Changes to apply locally, undefined value means removing
+ */
+export function changesOf(values: ConfigValues, entities: Entities): [string, unknown][] {
+    const changes: [string, unknown][] = []
+    Object.entries(entities).forEach(([key, { value, deleted }]) => {
+        if (deleted) {
+            key in values && changes.push([key, undefined])
+        } else if (!isSame(values[key], value)) {
+            changes.push([key, value])
+        }
+    })
+    return changes
+}
+
+function parseSnapshot(content: string | undefined): timer.backup.ConfigSnapshot {
+    if (!content) return {}
+    try {
+        return JSON.parse(content) as timer.backup.ConfigSnapshot
+    } catch {
+        throw new Error("Failed to parse the remote configuration")
+    }
+}
+
+/**
+ * Sync the configuration of the types, the remote changes are applied locally
+ */
+export async function syncConfig(
+    coordinator: timer.backup.Coordinator<unknown>,
+    context: timer.backup.CoordinatorContext<unknown>,
+    types: timer.backup.ConfigType[],
+): Promise<void> {
+    if (!coordinator.downloadConfig || !coordinator.uploadConfig) return
+    // Keep the order, categories must be applied before sites
+    const toSync = ALL_CONFIG_TYPES.filter(t => types.includes(t))
+    const values: { [type in timer.backup.ConfigType]?: ConfigValues } = {}
+    for (const type of toSync) {
+        values[type] = await ADAPTERS[type].collect()
+    }
+    const remote = parseSnapshot(await coordinator.downloadConfig(context))
+    const last = await configSyncDb.getSnapshot()
+    const merged = mergeConfig(last, values, remote, context.cid, Date.now())
+    for (const type of toSync) {
+        const changes = changesOf(values[type] ?? {}, merged[type] ?? {})
+        changes.length && await ADAPTERS[type].apply(changes)
+    }
+    await coordinator.uploadConfig(context, JSON.stringify(merged))
+    // Only types synced, or local values of the types shared later will be taken as changes
+    await configSyncDb.saveSnapshot(Object.fromEntries(toSync.map(type => [type, merged[type]])))
+}
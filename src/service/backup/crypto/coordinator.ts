@@ -0,0 +1,309 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import syncDb from "@db/backup-database"
+import { decryptText, deriveKeys, encryptText, generateSalt, isEncrypted, type CryptoKeys } from "@util/crypto"
+import { MILL_PER_DAY, MILL_PER_HOUR } from "@util/time"
+
+/**
+ * + matched: the remote data is encrypted with the passphrase
+ * + mismatched: the remote data is encrypted with another passphrase, or the passphrase is absent
+ * + plain: no encrypted data found
+ */
+export type VerifyResult = 'matched' | 'mismatched' | 'plain'
+
+/**
+ * Days of the latest data to check, if no client name is encrypted
+ */
+const VERIFY_DAYS = 30
+
+/**
+ * Encrypted as the verifier of the passphrase
+ */
+const VERIFIER_TEXT = 'time-tracker'
+
+const KEYS_CACHE: Record<string, Promise<CryptoKeys>> = {}
+
+/**
+ * Expiration of the verified results, since other clients may change the passphrase
+ */
+const VERIFIED_TTL = MILL_PER_HOUR
+
+/**
+ * Verified results of each passphrase, then each target
+ */
+const VERIFIED_CACHE = new Map<string | undefined, Record<string, { result: VerifyResult, ts: number }>>()
+
+/**
+ * Parameters of encryption of each target, expired with the verified results
+ */
+const META_CACHE: Record<string, { meta: timer.backup.CryptoMeta | undefined, ts: number }> = {}
+
+/**
+ * Verify again next time, called after the remote data is re-encrypted
+ */
+export function clearVerified(): void {
+    VERIFIED_CACHE.clear()
+    Object.keys(META_CACHE).forEach(target => delete META_CACHE[target])
+}
+
+/**
+ * Derive the keys lazily, since PBKDF2 is slow
+ */
+export function keysOf(passphrase: string, salt: string): Promise<CryptoKeys> {
+    const key = JSON.stringify([salt, passphrase])
+    return KEYS_CACHE[key] ?? (KEYS_CACHE[key] = deriveKeys(passphrase, salt))
+}
+
+const targetOf = ({ cid, auth, ext }: timer.backup.CoordinatorContext<unknown>) => JSON.stringify([cid, auth?.login?.acc, ext ?? {}])
+
+const parseDate = (date: string) => new Date(
+    parseInt(date.substring(0, 4)),
+    parseInt(date.substring(4, 6)) - 1,
+    parseInt(date.substring(6, 8)),
+)
+
+/**
+ * Encrypt hosts, client names and the shared configuration between the processor and the coordinator, so they never leak to the server
+ *
+ * The keys are derived from the passphrase and the random salt of the account, which is stored on the remote
+ * with the verifier of the passphrase. Hosts are encrypted deterministically, since they are parts of the keys on the server.
+ *
+ * Focus time, visits and media time are not encrypted. The server accumulates the increments of the same site and date,
+ * resolves conflicts with the max values and aggregates the totals, all of which need plain numbers.
+ * They only tell how long some site is used, while which site it is stays encrypted.
+ *
+ * Do nothing but verifying if no passphrase
+ *
+ * @since 3.7.0
+ */
+export default class CryptoCoordinator<Cache> implements timer.backup.Coordinator<Cache> {
+    private inner: timer.backup.Coordinator<Cache>
+    private passphrase: string | undefined
+    private cid: string
+    private salt: string | undefined
+
+    /**
+     * @param cid id of the local client, used to verify the passphrase
+     * @param salt salt to use instead of the one on the remote, used to re-encrypt the remote data
+     */
+    constructor(inner: timer.backup.Coordinator<Cache>, passphrase: string | undefined, cid: string, salt?: string) {
+        this.inner = inner
+        this.passphrase = passphrase || undefined
+        this.cid = cid
+        this.salt = salt
+    }
+
+    /**
+     * @param fresh read from the remote, ignoring the cache
+     */
+    private async metaOf(context: timer.backup.CoordinatorContext<Cache>, fresh?: boolean): Promise<timer.backup.CryptoMeta | undefined> {
+        const target = targetOf(context)
+        const cached = META_CACHE[target]
+        if (!fresh && cached && Date.now() - cached.ts < VERIFIED_TTL) return cached.meta
+        const meta = await this.inner.downloadCryptoMeta?.(context)
+        META_CACHE[target] = { meta, ts: Date.now() }
+        meta?.salt && await syncDb.updateSalt(meta.salt)
+        return meta
+    }
+
+    /**
+     * Keys to decrypt, undefined if no passphrase or the remote is never encrypted
+     */
+    private async readKeys(context: timer.backup.CoordinatorContext<Cache>): Promise<CryptoKeys | undefined> {
+        if (!this.passphrase) return undefined
+        const salt = this.salt ?? (await this.metaOf(context))?.salt
+        return salt ? keysOf(this.passphrase, salt) : undefined
+    }
+
+    /**
+     * Keys to encrypt, the salt and the verifier are saved to the remote if absent
+     */
+    private async writeKeys(context: timer.backup.CoordinatorContext<Cache>): Promise<CryptoKeys | undefined> {
+        if (!this.passphrase) return undefined
+        const keys = await this.readKeys(context)
+        if (keys) return keys
+        await this.saveMeta(context)
+        return this.readKeys(context)
+    }
+
+    /**
+     * Save the salt and the verifier of the passphrase to the remote, only the salt if no passphrase
+     */
+    async saveMeta(context: timer.backup.CoordinatorContext<Cache>): Promise<void> {
+        const salt = this.salt ?? (await this.metaOf(context))?.salt ?? generateSalt()
+        const meta: timer.backup.CryptoMeta = { salt }
+        this.passphrase && (meta.verifier = await encryptText(await keysOf(this.passphrase, salt), VERIFIER_TEXT))
+        await this.uploadCryptoMeta(context, meta)
+    }
+
+    private async decrypt(context: timer.backup.CoordinatorContext<Cache>, text: string): Promise<string> {
+        if (!isEncrypted(text)) return text
+        const keys = await this.readKeys(context)
+        if (!keys) throw new Error("The remote data is encrypted, please set the passphrase")
+        try {
+            return await decryptText(keys, text)
+        } catch {
+            throw new Error("Failed to decrypt the remote data, please check the passphrase")
+        }
+    }
+
+    async updateClients(context: timer.backup.CoordinatorContext<Cache>, clients: timer.backup.Client[]): Promise<void> {
+        const keys = await this.writeKeys(context)
+        const toSave = keys
+            ? await Promise.all(clients.map(async c => ({ ...c, name: c.name && await encryptText(keys, c.name) })))
+            : clients
+        await this.inner.updateClients(context, toSave)
+    }
+
+    async listAllClients(context: timer.backup.CoordinatorContext<Cache>): Promise<timer.backup.Client[]> {
+        const clients = await this.inner.listAllClients(context)
+        // Names are only displayed, so use the id if failed to decrypt
+        return Promise.all(clients.map(async c => ({ ...c, name: await this.decrypt(context, c.name).catch(() => c.id) })))
+    }
+
+    async download(
+        context: timer.backup.CoordinatorContext<Cache>, dateStart: Date, dateEnd: Date, targetCid?: string,
+        onProgress?: (ratio: number) => void,
+    ): Promise<timer.core.Row[]> {
+        const rows = await this.inner.download(context, dateStart, dateEnd, targetCid, onProgress)
+        return this.decryptRows(context, rows)
+    }
+
+    private decryptRows(context: timer.backup.CoordinatorContext<Cache>, rows: timer.core.Row[]): Promise<timer.core.Row[]> {
+        return Promise.all(rows.map(async row => ({ ...row, host: await this.decrypt(context, row.host) })))
+    }
+
+    private async encryptRows(context: timer.backup.CoordinatorContext<Cache>, rows: timer.core.Row[]): Promise<timer.core.Row[]> {
+        const keys = await this.writeKeys(context)
+        if (!keys) return rows
+        return Promise.all(rows.map(async row => ({ ...row, host: await encryptText(keys, row.host, true) })))
+    }
+
+    async upload(context: timer.backup.CoordinatorContext<Cache>, rows: timer.core.Row[]): Promise<void> {
+        await this.inner.upload(context, await this.encryptRows(context, rows))
+    }
+
+    async overwrite(context: timer.backup.CoordinatorContext<Cache>, rows: timer.core.Row[]): Promise<void> {
+        if (!this.inner.overwrite) throw new Error("Overwriting is not supported by this backup type")
+        await this.inner.overwrite(context, await this.encryptRows(context, rows))
+    }
+
+    async replace(context: timer.backup.CoordinatorContext<Cache>, rows: timer.core.Row[], months: string[]): Promise<void> {
+        if (!this.inner.replace) throw new Error("Replacing is not supported by this backup type")
+        await this.inner.replace(context, await this.encryptRows(context, rows), months)
+    }
+
+    async downloadConfig(context: timer.backup.CoordinatorContext<Cache>): Promise<string | undefined> {
+        if (!this.inner.downloadConfig) throw new Error("Syncing configuration is not supported by this backup type")
+        const content = await this.inner.downloadConfig(context)
+        return content && this.decrypt(context, content)
+    }
+
+    async uploadConfig(context: timer.backup.CoordinatorContext<Cache>, content: string): Promise<void> {
+        if (!this.inner.uploadConfig) throw new Error("Syncing configuration is not supported by this backup type")
+        const keys = await this.writeKeys(context)
+        await this.inner.uploadConfig(context, keys ? await encryptText(keys, content) : content)
+    }
+
+    async aggregate(context: timer.backup.CoordinatorContext<Cache>, param: timer.backup.AggregateParam): Promise<timer.backup.AggregateRow[]> {
+        if (!this.inner.aggregate) throw new Error("Aggregation is not supported by this backup type")
+        // Hosts are encrypted deterministically, so the server can still group them
+        const rows = await this.inner.aggregate(context, param)
+        return Promise.all(rows.map(async row => row.host ? { ...row, host: await this.decrypt(context, row.host) } : row))
+    }
+
+    async listArchives(context: timer.backup.CoordinatorContext<Cache>, cids?: string[]): Promise<Record<string, string[]>> {
+        if (!this.inner.listArchives) throw new Error("Archives are not supported by this backup type")
+        return this.inner.listArchives(context, cids)
+    }
+
+    async fetchArchive(context: timer.backup.CoordinatorContext<Cache>, cid: string, month: string): Promise<timer.core.Row[]> {
+        if (!this.inner.fetchArchive) throw new Error("Archives are not supported by this backup type")
+        return this.decryptRows(context, await this.inner.fetchArchive(context, cid, month))
+    }
+
+    async rehydrateArchive(context: timer.backup.CoordinatorContext<Cache>, cid: string, month: string): Promise<number> {
+        if (!this.inner.rehydrateArchive) throw new Error("Archives are not supported by this backup type")
+        return this.inner.rehydrateArchive(context, cid, month)
+    }
+
+    async downloadCryptoMeta(context: timer.backup.CoordinatorContext<Cache>): Promise<timer.backup.CryptoMeta | undefined> {
+        return this.metaOf(context, true)
+    }
+
+    async uploadCryptoMeta(context: timer.backup.CoordinatorContext<Cache>, meta: timer.backup.CryptoMeta): Promise<void> {
+        if (!this.inner.uploadCryptoMeta) throw new Error("Encryption is not supported by this backup type")
+        await this.inner.uploadCryptoMeta(context, meta)
+        META_CACHE[targetOf(context)] = { meta, ts: Date.now() }
+        await syncDb.updateSalt(meta.salt)
+    }
+
+    async testAuth(auth: timer.backup.Auth, ext: timer.backup.TypeExt): Promise<string | undefined> {
+        const errorMsg = await this.inner.testAuth(auth, ext)
+        if (errorMsg) return errorMsg
+        const context: timer.backup.CoordinatorContext<Cache> = {
+            cid: this.cid, auth, ext,
+            cache: {} as Cache,
+            handleCacheChanged: async () => { },
+        }
+        const result = await this.verifyWithCache(context)
+        if (result !== 'mismatched') return undefined
+        return this.passphrase
+            ? "The passphrase does not match the encrypted remote data"
+            : "The remote data is encrypted, please set the passphrase"
+    }
+
+    /**
+     * Verified results are cached, since auth is checked before every operation
+     */
+    private async verifyWithCache(context: timer.backup.CoordinatorContext<Cache>): Promise<VerifyResult> {
+        const target = targetOf(context)
+        const cache = VERIFIED_CACHE.get(this.passphrase) ?? {}
+        const cached = cache[target]
+        if (cached && Date.now() - cached.ts < VERIFIED_TTL) return cached.result
+        const result = await this.verify(context)
+        // Verify again if mismatched, maybe fixed by another client
+        result === 'mismatched' ? delete cache[target] : cache[target] = { result, ts: Date.now() }
+        VERIFIED_CACHE.set(this.passphrase, cache)
+        return result
+    }
+
+    /**
+     * Check whether the passphrase matches the remote data, with the verifier if present
+     */
+    async verify(context: timer.backup.CoordinatorContext<Cache>): Promise<VerifyResult> {
+        const meta = await this.metaOf(context, true)
+        const keys = this.passphrase && meta?.salt ? await keysOf(this.passphrase, meta.salt) : undefined
+        if (meta?.verifier) return this.check(keys, meta.verifier)
+        const clients = await this.inner.listAllClients(context)
+        const samples = clients.map(c => c.name).filter(isEncrypted)
+        if (!samples.length) {
+            // Check the hosts of the latest data
+            const latest = clients.filter(c => c.maxDate).sort((a, b) => (b.maxDate ?? '').localeCompare(a.maxDate ?? ''))[0]
+            const end = latest?.maxDate ? parseDate(latest.maxDate) : new Date()
+            const start = new Date(end.getTime() - MILL_PER_DAY * VERIFY_DAYS)
+            const rows = await this.inner.download(context, start, end, latest?.id)
+            rows.map(r => r.host).filter(isEncrypted).forEach(h => samples.push(h))
+        }
+        return samples.length ? this.check(keys, samples[0]) : 'plain'
+    }
+
+    private async check(keys: CryptoKeys | undefined, sample: string): Promise<VerifyResult> {
+        if (!keys) return 'mismatched'
+        try {
+            await decryptText(keys, sample)
+            return 'matched'
+        } catch {
+            return 'mismatched'
+        }
+    }
+
+    async clear(context: timer.backup.CoordinatorContext<Cache>, client: timer.backup.Client): Promise<void> {
+        await this.inner.clear(context, client)
+    }
+}
@@ -6,11 +6,22 @@
  */
 
 import syncDb from "@db/backup-database"
+import remoteCacheDb, { type MonthCache } from "@db/remote-cache-database"
+import syncQueueDb from "@db/sync-queue-database"
 import optionHolder from "@service/components/option-holder"
 import itemService from "@service/item-service"
 import metaService from "@service/meta-service"
-import { formatTimeYMD, getBirthday } from "@util/time"
+import optionService from "@service/option-service"
+import { groupBy } from "@util/array"
+import MonthIterator from "@util/month-iterator"
+import { generateSalt } from "@util/crypto"
+import { formatTimeYMD, getBirthday, getMonthTime, MILL_PER_DAY, MILL_PER_HOUR, parseTime } from "@util/time"
 import AwsCoordinator from "./aws/coordinator"
+import { monthData2Rows, rows2MonthData } from "./common"
+import { syncConfig } from "./config-sync"
+import CryptoCoordinator, { clearVerified } from "./crypto/coordinator"
+import queryProgress from "./query-progress"
+import WebDAVCoordinator from "./web-dav/coordinator"
 
 export type AuthCheckResult = {
     option: timer.option.BackupOption
@@ -56,7 +67,7 @@ type NavigatorUAData = {
     platform?: string
 }
 
-type Result<T> = {
+export type Result<T> = {
     success: boolean
     errorMsg?: string
     data?: T
@@ -97,26 +108,117 @@ async function lazyGetCid(): Promise<string> {
     return cid
 }
 
-async function syncFull(
+/**
+ * Identity of the remote target
+ */
+function targetOf(cid: string, auth: timer.backup.Auth, ext: timer.backup.TypeExt | undefined): string {
+    return JSON.stringify([cid, auth?.login?.acc, ext ?? {}])
+}
+
+const monthsOf = (rows: timer.core.Row[]): string[] => Array.from(new Set(rows.map(r => r.date.substring(0, 6))))
+
+/**
+ * Subtract the increments not pushed yet from the totals
+ */
+function excludePending(rows: timer.core.Row[], pending: timer.core.Row[]): timer.core.Row[] {
+    const pendingMap = Object.fromEntries(pending.map(p => [`${p.date}${p.host}`, p]))
+    return rows.map(row => {
+        const p = pendingMap[`${row.date}${row.host}`]
+        if (!p) return row
+        const result: timer.core.Row = {
+            ...row,
+            focus: Math.max(row.focus - (p.focus ?? 0), 0),
+            time: Math.max(row.time - (p.time ?? 0), 0),
+        }
+        row.run && (result.run = Math.max(row.run - (p.run ?? 0), 0))
+        row.media && (result.media = Math.max(row.media - (p.media ?? 0), 0))
+        return result
+    })
+}
+
+/**
+ * Upload rows of the local client, and extend the date range of the client
+ *
+ * @param since the date of last sync, only rows since then are uploaded. All the rows are uploaded if absent
+ * @param replacing months of the remote to replace with the rows, since 3.7.0
+ * @param realtime whether increments are pushed in real time, then the totals overwrite the remote
+ *                 instead of being accumulated, since 3.7.0
+ */
+async function syncRows(
     context: timer.backup.CoordinatorContext<unknown>,
     coordinator: timer.backup.Coordinator<unknown>,
-    client: timer.backup.Client
+    client: timer.backup.Client,
+    since?: string,
+    replacing?: string[],
+    realtime?: boolean,
 ): Promise<timer.backup.Snapshot> {
     // 1. select rows
-    let start = getBirthday()
-    let end = new Date()
+    const start = parseTime(since) ?? getBirthday()
+    const end = new Date()
+    // Read before the rows, so the increments are all counted in the rows
+    const pending = realtime ? await syncQueueDb.peek() : []
     const rows = await itemService.selectItems({ date: [start, end] })
-    const allDates = rows.map(r => r.date).sort((a, b) => a == b ? 0 : a > b ? 1 : -1)
+    const allDates = rows.map(r => r.date)
+    client.minDate && allDates.push(client.minDate)
+    client.maxDate && allDates.push(client.maxDate)
+    allDates.sort((a, b) => a == b ? 0 : a > b ? 1 : -1)
     client.maxDate = allDates[allDates.length - 1]
     client.minDate = allDates[0]
     // 2. upload
-    await coordinator.upload(context, rows)
+    if (replacing && coordinator.replace) {
+        await coordinator.replace(context, rows, replacing)
+    } else if (realtime && coordinator.overwrite) {
+        // The pending increments are accumulated when flushed
+        await coordinator.overwrite(context, excludePending(rows, pending))
+    } else {
+        await coordinator.upload(context, rows)
+    }
     return {
         ts: end.getTime(),
         date: formatTimeYMD(end),
     }
 }
 
+/**
+ * Expiration of the cached rows of other clients
+ */
+const REMOTE_CACHE_TTL = MILL_PER_HOUR
+
+/**
+ * Download rows of the client, months cached and not expired are read locally
+ */
+async function downloadWithCache(
+    context: timer.backup.CoordinatorContext<unknown>,
+    coordinator: timer.backup.Coordinator<unknown>,
+    target: string,
+    start: Date,
+    end: Date,
+    cid: string,
+    onProgress?: (ratio: number) => void,
+): Promise<timer.core.Row[]> {
+    const months = new MonthIterator(start, end).toArray()
+    const cached = await remoteCacheDb.getMonths(target, cid)
+    const now = Date.now()
+    const expired = months.filter(m => !cached[m] || now - cached[m].ts > REMOTE_CACHE_TTL)
+    if (expired.length) {
+        // Download the whole span of expired months at once
+        const [spanStart] = getMonthTime(parseTime(expired[0] + '01') ?? start)
+        const [, spanEnd] = getMonthTime(parseTime(expired[expired.length - 1] + '01') ?? end)
+        const rows = await coordinator.download(context, spanStart, spanEnd, cid, onProgress)
+        const monthRows = groupBy(rows, r => r.date.substring(0, 6), l => l)
+        const downloaded: Record<string, MonthCache> = {}
+        new MonthIterator(spanStart, spanEnd).forEach(m => downloaded[m] = { ts: now, data: rows2MonthData(monthRows[m] ?? []) })
+        await remoteCacheDb.saveMonths(target, cid, downloaded)
+        Object.assign(cached, downloaded)
+    }
+    onProgress?.(1)
+    const startStr = formatTimeYMD(start)
+    const endStr = formatTimeYMD(end)
+    return months
+        .flatMap(m => monthData2Rows(m, cached[m]?.data))
+        .filter(({ date }) => date >= startStr && date <= endStr)
+}
+
 function filterClient(c: timer.backup.Client, excludeLocal: boolean, localClientId: string, start?: string, end?: string) {
     // Exclude local client
     if (excludeLocal && c.id === localClientId) return false
@@ -126,6 +228,28 @@ function filterClient(c: timer.backup.Client, excludeLocal: boolean, localClient
     return true
 }
 
+/**
+ * Sum the rows of the same site and date
+ */
+function mergeRows(source: timer.core.Row[], target: timer.core.Row[]): timer.core.Row[] {
+    const merged: Record<string, timer.core.Row> = {}
+    for (const row of target) {
+        merged[`${row.date}${row.host}`] = { ...row }
+    }
+    for (const { host, date, focus, time, run, media } of source) {
+        const exist = merged[`${date}${host}`]
+        if (!exist) {
+            merged[`${date}${host}`] = { host, date, focus, time, run, media }
+            continue
+        }
+        exist.focus = (exist.focus ?? 0) + (focus ?? 0)
+        exist.time = (exist.time ?? 0) + (time ?? 0)
+        if (run || exist.run) exist.run = (exist.run ?? 0) + (run ?? 0)
+        if (media || exist.media) exist.media = (exist.media ?? 0) + (media ?? 0)
+    }
+    return Object.values(merged)
+}
+
 function prepareAuth(option: timer.option.BackupOption): timer.backup.Auth {
     const type = option?.backupType || 'none'
     const token = option?.backupAuths?.[type]
@@ -133,43 +257,118 @@ function prepareAuth(option: timer.option.BackupOption): timer.backup.Auth {
     return { token, login }
 }
 
+/**
+ * Rows of ranges longer than this are aggregated by the server if supported
+ */
+const AGGREGATE_MIN_DAYS = 31
+
+/**
+ * Groups of the raw rows, which are downloaded and cached instead of aggregated
+ */
+const ROW_GROUPS: timer.backup.AggregateGroup[] = ['host', 'date']
+
+const isCoarser = (groups: timer.backup.AggregateGroup[] | undefined): groups is timer.backup.AggregateGroup[] =>
+    !!groups && !ROW_GROUPS.every(g => groups.includes(g))
+
+/**
+ * Query the totals aggregated by the server with the groups of the param
+ *
+ * Clients may be unknown to the list, so rows of them are kept unless excluded
+ */
+async function aggregateRows(
+    context: timer.backup.CoordinatorContext<unknown>,
+    coordinator: timer.backup.Coordinator<unknown>,
+    param: RemoteQueryParam,
+    localCid: string,
+    listed: timer.backup.Client[],
+    filtered: timer.backup.Client[],
+): Promise<timer.backup.Row[]> {
+    const { start, end, specCid, excludeLocal, groups = ROW_GROUPS } = param
+    const cids = specCid ? [specCid] : listed.length ? filtered.map(c => c.id) : undefined
+    if (cids && !cids.length) return []
+    const rows = await coordinator.aggregate?.(context, { start, end, groups, cids }) ?? []
+    const names = Object.fromEntries(listed.map(c => [c.id, c.name]))
+    return rows
+        .filter(r => !(excludeLocal && r.cid === localCid))
+        .map(({ host = '', date = '', focus, time, run, media, cid }) => ({ host, date, focus, time, run, media, cid, cname: names[cid] ?? cid }))
+}
+
 export type RemoteQueryParam = {
     start: Date
     end: Date
     specCid?: string
     excludeLocal?: boolean
+    /**
+     * Read the rows from the local cache if possible
+     *
+     * @since 3.7.0
+     */
+    cache?: boolean
+    /**
+     * The coarsest groups the caller needs, the rows of long ranges are aggregated by the server with them if supported.
+     * Then the host is empty if not grouped by host, and the date is empty if not grouped by any period,
+     * or the first day of the week or month.
+     *
+     * Raw rows are downloaded if absent
+     *
+     * @since 3.7.0
+     */
+    groups?: timer.backup.AggregateGroup[]
 }
 
 class Processor {
     coordinators: {
         [type in timer.backup.Type]: timer.backup.Coordinator<unknown>
     }
+    /**
+     * Tail of the tasks pushing the increments or overwriting the totals
+     */
+    private pushing: Promise<unknown> = Promise.resolve()
 
     constructor() {
         this.coordinators = {
             none: null as unknown as timer.backup.Coordinator<never>,
             aws: new AwsCoordinator(),
+            web_dav: new WebDAVCoordinator(),
         }
     }
 
-    async syncData(): Promise<Result<number>> {
+    /**
+     * Upload rows changed since the last sync
+     *
+     * @param full upload all the rows after clearing the remote data of the local client, used to recover
+     */
+    async syncData(full?: boolean): Promise<Result<number>> {
         const { option, auth, ext, type, coordinator, errorMsg } = await this.checkAuth()
         if (errorMsg) return error(errorMsg)
 
         const cid = await lazyGetCid()
         const context: timer.backup.CoordinatorContext<unknown> = await new CoordinatorContextWrapper<unknown>(cid, auth, ext, type).init()
-        const client: timer.backup.Client = {
-            id: cid,
-            name: option.clientName,
-            minDate: undefined,
-            maxDate: undefined
-        }
         try {
-            let snapshot: timer.backup.Snapshot = await syncFull(context, coordinator, client)
-            await syncDb.updateSnapshot(type, snapshot)
-            const clients: timer.backup.Client[] = (await coordinator.listAllClients(context)).filter(a => a.id !== cid) || []
+            const target = targetOf(cid, auth, ext)
+            const lastSnapshot = await syncDb.getSnapshot(type)
+            const incremental = !full && lastSnapshot?.target === target
+            const allClients = await coordinator.listAllClients(context)
+            const exist = incremental ? allClients.find(c => c.id === cid) : undefined
+            const client: timer.backup.Client = {
+                id: cid,
+                name: option.clientName,
+                minDate: exist?.minDate,
+                maxDate: exist?.maxDate,
+            }
+            full && await coordinator.clear(context, client)
+            // Increments are pushed in real time for AWS, see item-service
+            const realtime = type === 'aws'
+            const sync = () => syncRows(context, coordinator, client, incremental ? lastSnapshot?.date : undefined, undefined, realtime)
+            // The increments flushed between peeking and overwriting would be lost
+            const snapshot = await (realtime ? this.exclusive(sync) : sync())
+            await syncDb.updateSnapshot(type, { ...snapshot, target })
+            const clients = allClients.filter(a => a.id !== cid)
             clients.push(client)
             await coordinator.updateClients(context, clients)
+            // Share the configuration if supported
+            const configTypes = option.backupConfigTypes
+            configTypes?.length && this.coordinators[type].uploadConfig && await syncConfig(coordinator, context, configTypes)
             // Update time
             const now = Date.now()
             metaService.updateBackUpTime(type, now)
@@ -181,6 +380,170 @@ class Processor {
         }
     }
 
+    /**
+     * Run the task after the running ones, so the pending increments don't change while the totals overwrite the remote
+     *
+     * @since 3.7.0
+     */
+    exclusive<T>(task: () => Promise<T>): Promise<T> {
+        const current = this.pushing.catch(() => { }).then(task)
+        this.pushing = current
+        return current
+    }
+
+    /**
+     * Upload the rows without updating the snapshot, used to push increments in real time
+     *
+     * @since 3.7.0
+     */
+    async pushRows(rows: timer.core.Row[]): Promise<Result<void>> {
+        const { auth, ext, type, coordinator, errorMsg } = await this.checkAuth()
+        if (errorMsg) return error(errorMsg)
+        const cid = await lazyGetCid()
+        const context: timer.backup.CoordinatorContext<unknown> = await new CoordinatorContextWrapper<unknown>(cid, auth, ext, type).init()
+        try {
+            await coordinator.upload(context, rows)
+            return success()
+        } catch (e) {
+            return error((e as Error)?.message ?? e?.toString?.())
+        }
+    }
+
+    /**
+     * Overwrite the rows of the local client on the remote, without resolving conflicts
+     *
+     * @since 3.7.0
+     */
+    async overwriteRows(rows: timer.core.Row[]): Promise<Result<void>> {
+        const { auth, ext, type, coordinator, errorMsg } = await this.checkAuth()
+        if (errorMsg) return error(errorMsg)
+        if (!coordinator.overwrite) return error("Overwriting is not supported by this backup type")
+        const cid = await lazyGetCid()
+        const context: timer.backup.CoordinatorContext<unknown> = await new CoordinatorContextWrapper<unknown>(cid, auth, ext, type).init()
+        try {
+            await coordinator.overwrite(context, rows)
+            return success()
+        } catch (e) {
+            return error((e as Error)?.message ?? e?.toString?.())
+        }
+    }
+
+    /**
+     * Adopt the remote client as the local one, used to restore data after reinstalling
+     *
+     * The snapshot is moved to the adopted client, so the restored rows are not uploaded again.
+     * Rows before today only exist under the previous client
+     *
+     * @since 3.7.0
+     */
+    async adoptClient(cid: string): Promise<Result<void>> {
+        const { auth, ext, type, coordinator, errorMsg } = await this.checkAuth()
+        if (errorMsg) return error(errorMsg)
+        const localCid = await lazyGetCid()
+        if (localCid === cid) return success()
+        const context = await new CoordinatorContextWrapper<unknown>(localCid, auth, ext, type).init()
+        const client = (await coordinator.listAllClients(context)).find(c => c.id === cid)
+        await metaService.resetCid(cid)
+        const now = new Date()
+        await syncDb.updateSnapshot(type, { ts: now.getTime(), date: formatTimeYMD(now), target: targetOf(cid, auth, ext) })
+        // Keep the name, otherwise it's replaced with the local one while syncing
+        client?.name && await optionService.setBackupOption({ clientName: client.name })
+        return success()
+    }
+
+    /**
+     * Rename the client, the name in the option is also changed if it's the local one
+     *
+     * @since 3.7.0
+     */
+    async renameClient(cid: string, name: string): Promise<Result<void>> {
+        if (!name) return error("Name is required")
+        const { auth, ext, type, coordinator, errorMsg } = await this.checkAuth()
+        if (errorMsg) return error(errorMsg)
+        const localCid = await lazyGetCid()
+        const context = await new CoordinatorContextWrapper<unknown>(localCid, auth, ext, type).init()
+        try {
+            const clients = await coordinator.listAllClients(context)
+            const client = clients.find(c => c.id === cid)
+            if (!client) return error(`Client not found: ${cid}`)
+            client.name = name
+            await coordinator.updateClients(context, clients)
+            cid === localCid && await optionService.setBackupOption({ clientName: name })
+            return success()
+        } catch (e) {
+            return error((e as Error)?.message ?? e?.toString?.())
+        }
+    }
+
+    /**
+     * Retire the client or bring it back. Rows of retired clients are kept, but hidden from reports
+     *
+     * @since 3.7.0
+     */
+    async retireClient(cid: string, retired: boolean): Promise<Result<void>> {
+        const { auth, ext, type, coordinator, errorMsg } = await this.checkAuth()
+        if (errorMsg) return error(errorMsg)
+        const localCid = await lazyGetCid()
+        if (retired && cid === localCid) return error("Can't retire the local client")
+        const context = await new CoordinatorContextWrapper<unknown>(localCid, auth, ext, type).init()
+        try {
+            const clients = await coordinator.listAllClients(context)
+            const client = clients.find(c => c.id === cid)
+            if (!client) return error(`Client not found: ${cid}`)
+            client.retired = retired || undefined
+            await coordinator.updateClients(context, clients)
+            return success()
+        } catch (e) {
+            return error((e as Error)?.message ?? e?.toString?.())
+        }
+    }
+
+    /**
+     * Merge the remote rows of one client into another one, then remove the merged client
+     *
+     * Values of the same site and date are summed
+     *
+     * @param from id of the client to merge, can't be the local one
+     * @param to id of the client to merge into
+     * @since 3.7.0
+     */
+    async mergeClient(from: string, to: string): Promise<Result<void>> {
+        if (from === to) return error("Can't merge the client into itself")
+        const { auth, ext, type, coordinator, errorMsg } = await this.checkAuth()
+        if (errorMsg) return error(errorMsg)
+        const localCid = await lazyGetCid()
+        if (from === localCid) return error("Can't merge the local client into others")
+        const contextOf = (id: string) => new CoordinatorContextWrapper<unknown>(id, auth, ext, type).init()
+        const context = await contextOf(localCid)
+        try {
+            const clients = await coordinator.listAllClients(context)
+            const source = clients.find(c => c.id === from)
+            const target = clients.find(c => c.id === to)
+            if (!source || !target) return error(`Client not found: ${source ? to : from}`)
+            // 1. sum rows of both clients
+            const start = parseTime(source.minDate) ?? getBirthday()
+            const end = parseTime(source.maxDate) ?? new Date()
+            const sourceRows = await coordinator.download(context, start, end, from)
+            const targetRows = await coordinator.download(context, start, end, to)
+            const merged = mergeRows(sourceRows, targetRows)
+            // 2. write into the target client, uploading replaces the values of WebDAV, but accumulates them of AWS
+            const targetContext = await contextOf(to)
+            this.coordinators[type].overwrite && coordinator.overwrite
+                ? await coordinator.overwrite(targetContext, merged)
+                : await coordinator.upload(targetContext, merged)
+            // 3. remove the source client, and extend the date range of the target
+            const dates = [source.minDate, source.maxDate, target.minDate, target.maxDate].filter(d => !!d).sort() as string[]
+            target.minDate = dates[0]
+            target.maxDate = dates[dates.length - 1]
+            await coordinator.clear(context, source)
+            await coordinator.updateClients(context, clients.filter(c => c.id !== from))
+            await remoteCacheDb.invalidate(from, to)
+            return success()
+        } catch (e) {
+            return error((e as Error)?.message ?? e?.toString?.())
+        }
+    }
+
     async listClients(): Promise<Result<timer.backup.Client[]>> {
         const { auth, ext, type, coordinator, errorMsg } = await this.checkAuth()
         if (errorMsg) return error(errorMsg)
@@ -196,11 +559,12 @@ class Processor {
         const ext = backupExts?.[type] ?? {}
         const auth = prepareAuth(option)
 
-        const coordinator: timer.backup.Coordinator<unknown> = type && this.coordinators[type]
-        if (!coordinator) {
+        const inner: timer.backup.Coordinator<unknown> = type && this.coordinators[type]
+        if (!inner) {
             // no coordinator, do nothing
-            return { option, auth, ext, type, coordinator, errorMsg: "Invalid type" }
+            return { option, auth, ext, type, coordinator: inner, errorMsg: "Invalid type" }
         }
+        const coordinator = await this.wrapCrypto(inner, option.backupPassphrase)
         let errorMsg
         try {
             errorMsg = await coordinator.testAuth(auth, ext)
@@ -210,37 +574,202 @@ class Processor {
         return { option, auth, ext, type, coordinator, errorMsg }
     }
 
+    /**
+     * Whether the remote data can be re-encrypted, otherwise the passphrase can't be changed once set
+     *
+     * @since 3.7.0
+     */
+    canReEncrypt(type: timer.backup.Type | undefined): boolean {
+        return !!type && !!this.coordinators[type]?.replace
+    }
+
+    /**
+     * @param salt salt to use instead of the one on the remote
+     */
+    private async wrapCrypto(inner: timer.backup.Coordinator<unknown>, passphrase: string | undefined, salt?: string): Promise<CryptoCoordinator<unknown>> {
+        return new CryptoCoordinator(inner, passphrase, await lazyGetCid(), salt)
+    }
+
+    /**
+     * Change the passphrase of encryption, and re-encrypt the remote data
+     *
+     * If the remote data is already encrypted with the new passphrase, just save it.
+     * The re-encrypted rows replace the old ones month by month, so nothing is lost if failed half way.
+     *
+     * If the remote data can't be re-encrypted, like AWS, the passphrase can only be set before encrypted,
+     * and the rows uploaded before stay plain
+     *
+     * @param passphrase the new passphrase, disable encryption if empty
+     */
+    async changePassphrase(passphrase: string | undefined): Promise<Result<void>> {
+        const option = await optionHolder.get()
+        const { backupType: type, backupExts, backupPassphrase: oldPassphrase } = option
+        if ((oldPassphrase || undefined) === (passphrase || undefined)) return success()
+        const inner = type && this.coordinators[type]
+        if (!inner) return error("Invalid type")
+        if (!inner.uploadCryptoMeta) return error("Encryption is not supported by this backup type")
+        const ext = backupExts?.[type] ?? {}
+        const auth = prepareAuth(option)
+        try {
+            const errorMsg = await inner.testAuth(auth, ext)
+            if (errorMsg) return error(errorMsg)
+
+            const cid = await lazyGetCid()
+            const contextOf = (id: string) => new CoordinatorContextWrapper<unknown>(id, auth, ext, type).init()
+            const context = await contextOf(cid)
+            const oldCoordinator = await this.wrapCrypto(inner, oldPassphrase)
+            const meta = await oldCoordinator.downloadCryptoMeta(context)
+            // The salt is generated once per account
+            const salt = meta?.salt ?? generateSalt()
+            const newCoordinator = await this.wrapCrypto(inner, passphrase, salt)
+            if (passphrase && await newCoordinator.verify(context) === 'matched') {
+                // Another client already encrypted the data with the new passphrase
+                await optionService.setBackupOption({ backupPassphrase: passphrase })
+                clearVerified()
+                return success()
+            }
+            const verified = await oldCoordinator.verify(context)
+            if (verified === 'mismatched') {
+                return error("The current passphrase does not match the remote data, please clear the remote data first")
+            }
+            if (!inner.replace) {
+                if (oldPassphrase || !passphrase || verified !== 'plain') {
+                    return error("The passphrase can't be changed for this backup type, since the remote data can't be re-encrypted")
+                }
+                await newCoordinator.saveMeta(context)
+                await optionService.setBackupOption({ backupPassphrase: passphrase })
+                clearVerified()
+                return success()
+            }
+            // Re-encrypt the data of other clients
+            const clients = await oldCoordinator.listAllClients(context)
+            for (const client of clients) {
+                if (client.id === cid) continue
+                const clientContext = await contextOf(client.id)
+                const rows = await oldCoordinator.download(clientContext, getBirthday(), new Date(), client.id)
+                await newCoordinator.replace(clientContext, rows, monthsOf(rows))
+            }
+            // Local data is the truth of the local client, remote months absent locally are emptied
+            const remoteRows = await oldCoordinator.download(context, getBirthday(), new Date(), cid)
+            const local: timer.backup.Client = { id: cid, name: option.clientName }
+            const snapshot = await syncRows(context, newCoordinator, local, undefined, monthsOf(remoteRows))
+            await syncDb.updateSnapshot(type, { ...snapshot, target: targetOf(cid, auth, ext) })
+            await newCoordinator.updateClients(context, [...clients.filter(c => c.id !== cid), local])
+            // Re-encrypt the shared configuration
+            const config = inner.downloadConfig && await oldCoordinator.downloadConfig(context)
+            config && await newCoordinator.uploadConfig(context, config)
+            await newCoordinator.saveMeta(context)
+            await optionService.setBackupOption({ backupPassphrase: passphrase || undefined })
+            await remoteCacheDb.invalidate()
+            clearVerified()
+            return success()
+        } catch (e) {
+            return error((e as Error)?.message ?? e?.toString?.())
+        }
+    }
+
     async query(param: RemoteQueryParam): Promise<timer.backup.Row[]> {
         const { type, coordinator, auth, ext, errorMsg } = await this.checkAuth()
         if (errorMsg || !coordinator) {
             return []
         }
 
-        const { start = getBirthday(), end, specCid, excludeLocal } = param
+        const { start = getBirthday(), end, specCid, excludeLocal, cache, groups } = param
         let localCid = await lazyGetCid()
+        const cacheTarget = `${type}:${targetOf(localCid, auth, ext)}`
         // 1. init context
         const context: timer.backup.CoordinatorContext<unknown> = await new CoordinatorContextWrapper<unknown>(localCid, auth, ext, type).init()
         // 2. query all clients, and filter them
         let startStr = start ? formatTimeYMD(start) : undefined
         let endStr = end ? formatTimeYMD(end) : undefined
-        const allClients = (await coordinator.listAllClients(context))
+        const listed = await coordinator.listAllClients(context)
+        const allClients = listed
             .filter(c => filterClient(c, !!excludeLocal, localCid, startStr, endStr))
-            .filter(c => !specCid || c.id === specCid)
-        // 3. iterate clients
-        const result: timer.backup.Row[] = []
-        await Promise.all(
-            allClients.map(async client => {
-                const { id, name } = client
-                const rows = await coordinator.download(context, start, end, id)
-                rows.forEach(row => result.push({
-                    ...row,
-                    cid: id,
-                    cname: name,
-                }))
-            })
-        )
-        console.log(`Queried ${result.length} remote items`)
-        return result
+            // Retired clients are hidden unless specified
+            .filter(c => specCid ? c.id === specCid : !c.retired)
+        if (isCoarser(groups) && this.coordinators[type].aggregate && end.getTime() - start.getTime() > AGGREGATE_MIN_DAYS * MILL_PER_DAY) {
+            return queryProgress.track(() => aggregateRows(context, coordinator, { ...param, start, end }, localCid, listed, allClients))
+        }
+        // 3. iterate clients, progress is the average of them
+        return queryProgress.track(async report => {
+            const result: timer.backup.Row[] = []
+            const ratios = allClients.map(() => 0)
+            await Promise.all(
+                allClients.map(async (client, idx) => {
+                    const { id, name } = client
+                    const onProgress = (ratio: number) => {
+                        ratios[idx] = ratio
+                        report(ratios.reduce((a, b) => a + b, 0) / ratios.length)
+                    }
+                    const rows = cache
+                        ? await downloadWithCache(context, coordinator, cacheTarget, start, end, id, onProgress)
+                        : await coordinator.download(context, start, end, id, onProgress)
+                    rows.forEach(row => result.push({
+                        ...row,
+                        cid: id,
+                        cname: name,
+                    }))
+                })
+            )
+            console.log(`Queried ${result.length} remote items`)
+            return result
+        })
+    }
+
+    /**
+     * Months moved into the cold storage of each client
+     *
+     * @since 3.7.0
+     */
+    async listArchives(): Promise<Result<Record<string, string[]>>> {
+        const { auth, ext, type, coordinator, errorMsg } = await this.checkAuth()
+        if (errorMsg) return error(errorMsg)
+        if (!this.coordinators[type].listArchives || !coordinator.listArchives) return error("Archives are not supported by this backup type")
+        const context = await new CoordinatorContextWrapper<unknown>(await lazyGetCid(), auth, ext, type).init()
+        try {
+            return success(await coordinator.listArchives(context))
+        } catch (e) {
+            return error((e as Error)?.message ?? e?.toString?.())
+        }
+    }
+
+    /**
+     * Rows of one archived month
+     *
+     * @param month YYYYMM
+     * @since 3.7.0
+     */
+    async fetchArchive(cid: string, month: string): Promise<Result<timer.core.Row[]>> {
+        const { auth, ext, type, coordinator, errorMsg } = await this.checkAuth()
+        if (errorMsg) return error(errorMsg)
+        if (!this.coordinators[type].fetchArchive || !coordinator.fetchArchive) return error("Archives are not supported by this backup type")
+        const context = await new CoordinatorContextWrapper<unknown>(await lazyGetCid(), auth, ext, type).init()
+        try {
+            return success(await coordinator.fetchArchive(context, cid, month))
+        } catch (e) {
+            return error((e as Error)?.message ?? e?.toString?.())
+        }
+    }
+
+    /**
+     * Move one archived month back into the hot storage, so its rows can be edited
+     *
+     * @param month YYYYMM
+     * @returns count of the rows
+     * @since 3.7.0
+     */
+    async rehydrateArchive(cid: string, month: string): Promise<Result<number>> {
+        const { auth, ext, type, coordinator, errorMsg } = await this.checkAuth()
+        if (errorMsg) return error(errorMsg)
+        if (!this.coordinators[type].rehydrateArchive || !coordinator.rehydrateArchive) return error("Archives are not supported by this backup type")
+        const context = await new CoordinatorContextWrapper<unknown>(await lazyGetCid(), auth, ext, type).init()
+        try {
+            const count = await coordinator.rehydrateArchive(context, cid, month)
+            await remoteCacheDb.invalidate(cid)
+            return success(count)
+        } catch (e) {
+            return error((e as Error)?.message ?? e?.toString?.())
+        }
     }
 
     async clear(cid: string): Promise<Result<void>> {
@@ -259,6 +788,7 @@ class Processor {
         // 3. remove client
         const newClients = allClients.filter(c => c?.id !== cid)
         await coordinator.updateClients(context, newClients)
+        await remoteCacheDb.invalidate(cid)
 
         return success()
     }
@@ -0,0 +1,55 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+/**
+ * @param ratio progress of all the running queries, or undefined if none running
+ */
+type ProgressListener = (ratio: number | undefined) => void
+
+/**
+ * Progress of the remote queries running in this page
+ *
+ * @since 3.7.0
+ */
+class QueryProgress {
+    private listeners: ProgressListener[] = []
+    private ratios = new Map<symbol, number>()
+
+    addListener(listener: ProgressListener) {
+        listener && this.listeners.push(listener)
+    }
+
+    removeListener(listener: ProgressListener) {
+        this.listeners = this.listeners.filter(l => l !== listener)
+    }
+
+    /**
+     * Run the query and report its progress
+     */
+    async track<T>(query: (report: (ratio: number) => void) => Promise<T>): Promise<T> {
+        const id = Symbol()
+        const report = (ratio: number) => {
+            this.ratios.set(id, Math.min(1, Math.max(0, ratio)))
+            this.notify()
+        }
+        report(0)
+        try {
+            return await query(report)
+        } finally {
+            this.ratios.delete(id)
+            this.notify()
+        }
+    }
+
+    private notify() {
+        const values = Array.from(this.ratios.values())
+        const ratio = values.length ? values.reduce((a, b) => a + b, 0) / values.length : undefined
+        this.listeners.forEach(listener => listener(ratio))
+    }
+}
+
+export default new QueryProgress()
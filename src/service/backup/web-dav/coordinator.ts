@@ -0,0 +1,172 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { deleteDir, judgeDirExist, makeDir, readFile, writeFile, type WebDAVContext } from "@api/web-dav"
+import { groupBy } from "@util/array"
+import MonthIterator from "@util/month-iterator"
+import { formatTimeYMD } from "@util/time"
+import { monthData2Rows, processDir, rows2MonthData, type MonthData } from "../common"
+
+const ROOT_DIR_NAME = 'timer/'
+const CLIENTS_FILE_NAME = 'clients.json'
+const CONFIG_FILE_NAME = 'config.json'
+const CRYPTO_FILE_NAME = 'crypto.json'
+
+type Paths = {
+    root: string
+    clients: string
+    config: string
+    crypto: string
+    clientDir: (cid: string) => string
+    monthFile: (cid: string, yearMonth: string) => string
+}
+
+function pathsOf(ext: timer.backup.TypeExt | undefined): Paths {
+    const root = processDir(ext?.dirPath) + ROOT_DIR_NAME
+    const clientDir = (cid: string) => `${root}${cid}/`
+    return {
+        root,
+        clients: root + CLIENTS_FILE_NAME,
+        config: root + CONFIG_FILE_NAME,
+        crypto: root + CRYPTO_FILE_NAME,
+        clientDir,
+        monthFile: (cid, yearMonth) => `${clientDir(cid)}${yearMonth}.json`,
+    }
+}
+
+function prepareContext(auth: timer.backup.Auth | undefined, ext: timer.backup.TypeExt | undefined): WebDAVContext {
+    const endpoint = ext?.endpoint?.trim?.()
+    if (!endpoint) throw new Error("The endpoint of WebDAV is required")
+    const { acc, psw } = auth?.login ?? {}
+    if (!acc) throw new Error("The username of WebDAV is required")
+    return { endpoint, username: acc, password: psw ?? '' }
+}
+
+function parseJson<T>(content: string | undefined): T | undefined {
+    if (!content) return undefined
+    try {
+        return JSON.parse(content) as T
+    } catch {
+        return undefined
+    }
+}
+
+/**
+ * Store per-client per-month JSON files and a clients index on WebDAV
+ *
+ * Layout: {dirPath}/timer/clients.json, {dirPath}/timer/config.json, {dirPath}/timer/crypto.json and {dirPath}/timer/{cid}/{YYYYMM}.json
+ *
+ * @since 3.7.0
+ */
+export default class WebDAVCoordinator implements timer.backup.Coordinator<never> {
+
+    async updateClients(context: timer.backup.CoordinatorContext<never>, clients: timer.backup.Client[]): Promise<void> {
+        const davContext = prepareContext(context.auth, context.ext)
+        const paths = pathsOf(context.ext)
+        await makeDir(davContext, paths.root)
+        await writeFile(davContext, paths.clients, JSON.stringify(clients))
+    }
+
+    async listAllClients(context: timer.backup.CoordinatorContext<never>): Promise<timer.backup.Client[]> {
+        const davContext = prepareContext(context.auth, context.ext)
+        const content = await readFile(davContext, pathsOf(context.ext).clients)
+        return parseJson<timer.backup.Client[]>(content) ?? []
+    }
+
+    async download(
+        context: timer.backup.CoordinatorContext<never>, dateStart: Date, dateEnd: Date, targetCid?: string,
+        onProgress?: (ratio: number) => void,
+    ): Promise<timer.core.Row[]> {
+        const davContext = prepareContext(context.auth, context.ext)
+        const paths = pathsOf(context.ext)
+        const cid = targetCid || context.cid
+        const start = formatTimeYMD(dateStart)
+        const end = formatTimeYMD(dateEnd)
+        const result: timer.core.Row[] = []
+        const months = new MonthIterator(dateStart, dateEnd).toArray()
+        for (let i = 0; i < months.length; i++) {
+            const yearMonth = months[i]
+            const content = await readFile(davContext, paths.monthFile(cid, yearMonth))
+            const data = parseJson<MonthData>(content)
+            data && monthData2Rows(yearMonth, data)
+                .filter(({ date }) => date >= start && date <= end)
+                .forEach(row => result.push(row))
+            onProgress?.((i + 1) / months.length)
+        }
+        return result
+    }
+
+    async upload(context: timer.backup.CoordinatorContext<never>, rows: timer.core.Row[]): Promise<void> {
+        if (!rows?.length) return
+        const davContext = prepareContext(context.auth, context.ext)
+        const paths = pathsOf(context.ext)
+        await makeDir(davContext, paths.root)
+        await makeDir(davContext, paths.clientDir(context.cid))
+        const rowsOfMonth = groupBy(rows, r => r.date.substring(0, 6), l => l)
+        for (const [yearMonth, monthRows] of Object.entries(rowsOfMonth)) {
+            // Merge into the existing file, since only the changed rows are uploaded
+            const filePath = paths.monthFile(context.cid, yearMonth)
+            const exist = parseJson<MonthData>(await readFile(davContext, filePath)) ?? {}
+            Object.entries(rows2MonthData(monthRows)).forEach(([day, hosts]) => exist[day] = { ...exist[day], ...hosts })
+            await writeFile(davContext, filePath, JSON.stringify(exist))
+        }
+    }
+
+    async replace(context: timer.backup.CoordinatorContext<never>, rows: timer.core.Row[], months: string[]): Promise<void> {
+        const davContext = prepareContext(context.auth, context.ext)
+        const paths = pathsOf(context.ext)
+        await makeDir(davContext, paths.root)
+        await makeDir(davContext, paths.clientDir(context.cid))
+        const rowsOfMonth = groupBy(rows, r => r.date.substring(0, 6), l => l)
+        const allMonths = new Set([...months, ...Object.keys(rowsOfMonth)])
+        for (const yearMonth of allMonths) {
+            // Each file is written at once, so never lost half way
+            const data = rows2MonthData(rowsOfMonth[yearMonth] ?? [])
+            await writeFile(davContext, paths.monthFile(context.cid, yearMonth), JSON.stringify(data))
+        }
+    }
+
+    async downloadConfig(context: timer.backup.CoordinatorContext<never>): Promise<string | undefined> {
+        const davContext = prepareContext(context.auth, context.ext)
+        return readFile(davContext, pathsOf(context.ext).config)
+    }
+
+    async uploadConfig(context: timer.backup.CoordinatorContext<never>, content: string): Promise<void> {
+        const davContext = prepareContext(context.auth, context.ext)
+        const paths = pathsOf(context.ext)
+        await makeDir(davContext, paths.root)
+        await writeFile(davContext, paths.config, content)
+    }
+
+    async downloadCryptoMeta(context: timer.backup.CoordinatorContext<never>): Promise<timer.backup.CryptoMeta | undefined> {
+        const davContext = prepareContext(context.auth, context.ext)
+        return parseJson<timer.backup.CryptoMeta>(await readFile(davContext, pathsOf(context.ext).crypto))
+    }
+
+    async uploadCryptoMeta(context: timer.backup.CoordinatorContext<never>, meta: timer.backup.CryptoMeta): Promise<void> {
+        const davContext = prepareContext(context.auth, context.ext)
+        const paths = pathsOf(context.ext)
+        await makeDir(davContext, paths.root)
+        await writeFile(davContext, paths.crypto, JSON.stringify(meta))
+    }
+
+    async testAuth(auth: timer.backup.Auth, ext: timer.backup.TypeExt): Promise<string | undefined> {
+        try {
+            const davContext = prepareContext(auth, ext)
+            const dirPath = processDir(ext?.dirPath)
+            const exist = await judgeDirExist(davContext, dirPath)
+            if (!exist) return `Directory not found: /${dirPath}`
+        } catch (e) {
+            return (e as Error)?.message ?? 'Unknown error'
+        }
+    }
+
+    async clear(context: timer.backup.CoordinatorContext<never>, client: timer.backup.Client): Promise<void> {
+        const davContext = prepareContext(context.auth, context.ext)
+        await deleteDir(davContext, pathsOf(context.ext).clientDir(client.id))
+    }
+}
@@ -0,0 +1,79 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import cateDatabase from "@db/site-cate-database"
+import siteDatabase from "@db/site-database"
+import statDatabase from "@db/stat-database"
+import { calcLevel, hasBudget } from "@util/budget"
+import { formatTimeYMD, MILL_PER_SECOND } from "@util/time"
+import weekHelper from "./components/week-helper"
+
+function usageOf(quota: number | undefined, spent: number): timer.budget.Usage | undefined {
+    if (!quota) return undefined
+    return { spent, quota: quota * MILL_PER_SECOND }
+}
+
+/**
+ * Calc the usages of all the categories with budget
+ */
+async function listStatus(now?: Date): Promise<timer.budget.Status[]> {
+    now = now ?? new Date()
+    const cates = (await cateDatabase.listAll()).filter(hasBudget)
+    if (!cates.length) return []
+
+    const [weekStart] = await weekHelper.getWeekDate(now)
+    const rows = await statDatabase.select({ date: [weekStart, now] })
+    const hosts = Array.from(new Set(rows.map(r => r.host)))
+    const sites = await siteDatabase.getBatch(hosts.map(host => ({ host, type: 'normal' })))
+    const cateOfHost: Record<string, number> = {}
+    sites.forEach(({ host, cate }) => cate && (cateOfHost[host] = cate))
+
+    const today = formatTimeYMD(now)
+    const daily: Record<number, number> = {}
+    const weekly: Record<number, number> = {}
+    rows.forEach(({ host, date, focus }) => {
+        const cateId = cateOfHost[host]
+        if (!cateId) return
+        weekly[cateId] = (weekly[cateId] ?? 0) + focus
+        date === today && (daily[cateId] = (daily[cateId] ?? 0) + focus)
+    })
+
+    return cates.map(({ id, name, budget }) => {
+        const status: timer.budget.Status = {
+            cateId: id,
+            cateName: name,
+            daily: usageOf(budget?.daily, daily[id] ?? 0),
+            weekly: usageOf(budget?.weekly, weekly[id] ?? 0),
+            level: 'none',
+        }
+        status.level = calcLevel(status)
+        return status
+    })
+}
+
+/**
+ * Get the category of the host
+ */
+async function getCateOfHost(host: string): Promise<number | undefined> {
+    const site = await siteDatabase.get({ host, type: 'normal' })
+    return site?.cate
+}
+
+class BudgetService {
+    listStatus = listStatus
+    getCateOfHost = getCateOfHost
+
+    saveBudget(cateId: number, budget: timer.budget.Quota | undefined): Promise<void> {
+        return cateDatabase.saveBudget(cateId, budget)
+    }
+
+    addChangeListener(listener: NoArgCallback) {
+        cateDatabase.addChangeListener(listener)
+    }
+}
+
+export default new BudgetService()
@@ -0,0 +1,72 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import cateRuleDatabase from "@db/cate-rule-database"
+import siteDatabase from "@db/site-database"
+import { findCate } from "@util/cate-rule"
+import { CATE_NOT_SET_ID, supportCategory } from "@util/site"
+
+/**
+ * Sites whose category would be changed by the rules
+ */
+async function previewReapply(): Promise<timer.cateRule.Change[]> {
+    const rules = await cateRuleDatabase.all()
+    if (!rules.length) return []
+    const sites = await siteDatabase.select({ types: 'normal' })
+    const changes: timer.cateRule.Change[] = []
+    sites.filter(supportCategory).forEach(site => {
+        const { host, alias, cate } = site
+        const from = cate === CATE_NOT_SET_ID ? undefined : cate
+        const to = findCate(rules, { host, alias })
+        to !== undefined && to !== from && changes.push({ site, from, to })
+    })
+    return changes
+}
+
+class CateRuleService {
+    listAll(): Promise<timer.cateRule.Rule[]> {
+        return cateRuleDatabase.all()
+    }
+
+    saveAll(rules: timer.cateRule.Rule[]): Promise<void> {
+        return cateRuleDatabase.saveAll(rules)
+    }
+
+    /**
+     * Categorize the site seen first time, the category set before is kept
+     *
+     * @param path path of the url
+     * @param title title of the tab, used if no alias collected
+     * @returns id of the category assigned
+     */
+    async categorize(key: timer.site.SiteKey, path?: string, title?: string): Promise<number | undefined> {
+        if (!supportCategory(key)) return undefined
+        const exist = await siteDatabase.get(key)
+        if (exist?.cate && exist.cate !== CATE_NOT_SET_ID) return undefined
+        const rules = await cateRuleDatabase.all()
+        const cateId = findCate(rules, { host: key.host, path, alias: exist?.alias || title })
+        if (cateId === undefined) return undefined
+        await siteDatabase.save({ ...exist || key, cate: cateId })
+        return cateId
+    }
+
+    previewReapply = previewReapply
+
+    /**
+     * Re-apply the rules to all the sites
+     *
+     * @returns count of sites changed
+     */
+    async reapply(): Promise<number> {
+        const changes = await previewReapply()
+        if (!changes.length) return 0
+        await siteDatabase.save(...changes.map(({ site, to }) => ({ ...site, cate: to })))
+        return changes.length
+    }
+}
+
+export default new CateRuleService()
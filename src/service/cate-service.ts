@@ -1,3 +1,4 @@
+import cateRuleDatabase from "@db/cate-rule-database"
 import siteCateDatabase from "@db/site-cate-database"
 
 class CateService {
@@ -14,8 +15,9 @@ class CateService {
         return siteCateDatabase.update(id, name)
     }
 
-    remove(id: number): Promise<void> {
-        return siteCateDatabase.delete(id)
+    async remove(id: number): Promise<void> {
+        await siteCateDatabase.delete(id)
+        await cateRuleDatabase.removeByCate(id)
     }
 }
 
@@ -5,8 +5,11 @@
  * https://opensource.org/licenses/MIT
  */
 
+import cateRuleDatabase from "@db/cate-rule-database"
 import BaseDatabase from "@db/common/base-database"
 import StoragePromise from "@db/common/storage-promise"
+import focusDatabase from "@db/focus-database"
+import limitDatabase from "@db/limit-database"
 import mergeRuleDatabase from "@db/merge-rule-database"
 import periodDatabase from "@db/period-database"
 import siteCateDatabase from "@db/site-cate-database"
@@ -30,6 +33,9 @@ function initDatabase(): BaseDatabase[] {
         mergeRuleDatabase,
         whitelistDatabase,
         siteCateDatabase,
+        limitDatabase,
+        focusDatabase,
+        cateRuleDatabase,
     ]
 
     return result
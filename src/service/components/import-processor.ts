@@ -22,12 +22,14 @@ export async function processImportedData(data: timer.imported.Data, resolution:
 }
 
 async function processOverwrite(data: timer.imported.Data): Promise<void> {
-    const { rows, focus, time } = data
+    const { rows, focus, time, run, media } = data
     await Promise.all(rows.map(async row => {
         const { host, date } = row
         const exist = await statDatabase.get(host, date)
         focus && (exist.focus = row.focus || 0)
         time && (exist.time = row.time || 0)
+        run && (exist.run = row.run || 0)
+        media && (exist.media = row.media || 0)
         await statDatabase.forceUpdate({ host, date, ...exist })
     }))
 }
@@ -35,8 +37,8 @@ async function processOverwrite(data: timer.imported.Data): Promise<void> {
 async function processAcc(data: timer.imported.Data): Promise<void> {
     const { rows } = data
     await Promise.all(rows.map(async row => {
-        const { host, date, focus = 0, time = 0 } = row
-        await statDatabase.accumulate(host, date, { focus, time })
+        const { host, date, focus = 0, time = 0, run, media } = row
+        await statDatabase.accumulate(host, date, { focus, time, run, media })
     }))
 }
 
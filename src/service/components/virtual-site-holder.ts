@@ -1,21 +1,5 @@
 import siteDatabase from "@db/site-database"
-
-export function compileAntPattern(antPattern: string): RegExp {
-    const segments = antPattern.split('/')
-    let patternStr = segments.map(seg => {
-        if (seg === "**") {
-            return ".*"
-        } else {
-            return seg.replace?.(/\*/g, "[^/]*").replace(/\./g, "\\.")
-        }
-    }).join("/")
-    // "google.com/**" => google\.com.*
-    if (patternStr.endsWith("/.*")) {
-        patternStr = patternStr.substring(0, patternStr.length - 3) + ".*"
-    }
-
-    return new RegExp("^(.+://)?" + patternStr + "/?(\\?.*)?$")
-}
+import { compileAntPattern } from "@util/pattern"
 
 /**
  * The singleton implementation of virtual sites holder
@@ -6,8 +6,7 @@
  */
 
 import whitelistDatabase from "@db/whitelist-database"
-import { judgeVirtualFast } from "@util/pattern"
-import { compileAntPattern } from "./virtual-site-holder"
+import { compileAntPattern, judgeVirtualFast } from "@util/pattern"
 
 /**
  * The singleton implementation of whitelist holder
@@ -0,0 +1,113 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import focusDatabase from "@db/focus-database"
+import siteDatabase from "@db/site-database"
+import { getStartOfDay, MILL_PER_DAY, MILL_PER_MINUTE } from "@util/time"
+
+/**
+ * Durations to choose, minutes
+ */
+export const FOCUS_DURATIONS = [25, 50]
+
+export const calcEndTime = ({ start, duration }: timer.focus.Session): number => start + duration * MILL_PER_MINUTE
+
+async function isAllowed({ allowlist }: timer.focus.Session, host: string): Promise<boolean> {
+    const { cates = [], hosts = [] } = allowlist || {}
+    // No allowlist, so nothing is distracting
+    if (!cates.length && !hosts.length) return true
+    if (hosts.includes(host)) return true
+    if (!cates.length) return false
+    const site = await siteDatabase.get({ host, type: 'normal' })
+    return !!site?.cate && cates.includes(site.cate)
+}
+
+class FocusService {
+    /**
+     * Tail of the running mutations of the session
+     */
+    private mutating: Promise<unknown> = Promise.resolve()
+
+    /**
+     * Read, modify and write the session one by one, since events of tabs run concurrently
+     */
+    private mutate<T>(mutation: () => Promise<T>): Promise<T> {
+        const current = this.mutating.catch(() => { }).then(mutation)
+        this.mutating = current
+        return current
+    }
+
+    getSession(): Promise<timer.focus.Session | undefined> {
+        return focusDatabase.getSession()
+    }
+
+    /**
+     * Start a new session, the running one will be dropped
+     */
+    start(duration: number, allowlist?: timer.focus.Allowlist): Promise<timer.focus.Session> {
+        return this.mutate(async () => {
+            const session: timer.focus.Session = {
+                start: Date.now(),
+                duration,
+                allowlist: { cates: allowlist?.cates ?? [], hosts: allowlist?.hosts ?? [] },
+                distractions: [],
+            }
+            await focusDatabase.saveSession(session)
+            return session
+        })
+    }
+
+    /**
+     * Stop the running session without saving it
+     */
+    stop(): Promise<void> {
+        return this.mutate(() => focusDatabase.clearSession())
+    }
+
+    /**
+     * Complete the running session and save it as a record
+     */
+    complete(): Promise<timer.focus.Record | undefined> {
+        return this.mutate(async () => {
+            const session = await focusDatabase.getSession()
+            if (!session) return undefined
+            const record: timer.focus.Record = { ...session, end: calcEndTime(session) }
+            await focusDatabase.addRecord(record)
+            await focusDatabase.clearSession()
+            return record
+        })
+    }
+
+    /**
+     * Record the visit as distraction if it's outside the allowlist
+     *
+     * @returns true if distracted
+     */
+    recordVisit(host: string): Promise<boolean> {
+        return this.mutate(async () => {
+            const session = await focusDatabase.getSession()
+            if (!session || !host) return false
+            if (await isAllowed(session, host)) return false
+            session.distractions.push({ host, ts: Date.now() })
+            await focusDatabase.saveSession(session)
+            return true
+        })
+    }
+
+    selectRecords(dateRange?: [Date, Date]): Promise<timer.focus.Record[]> {
+        const [start, end] = dateRange ?? []
+        const startTs = start && getStartOfDay(start).getTime()
+        const endTs = end && getStartOfDay(end).getTime() + MILL_PER_DAY - 1
+        return focusDatabase.selectRecords(startTs, endTs)
+    }
+
+    addSessionChangeListener(listener: ArgCallback<timer.focus.Session | undefined>) {
+        focusDatabase.addSessionChangeListener(listener)
+    }
+}
+
+export default new FocusService()
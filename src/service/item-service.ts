@@ -1,6 +1,8 @@
 import { isValidGroup } from "@api/chrome/tabGroups"
 import db, { type StatCondition } from "@db/stat-database"
+import syncQueueDb from "@db/sync-queue-database"
 import { resultOf } from "@util/stat"
+import { formatTimeYMD } from "@util/time"
 import optionHolder from "./components/option-holder"
 import virtualSiteHolder from "./components/virtual-site-holder"
 
@@ -10,38 +12,88 @@ export type ItemIncContext = {
     groupId?: number
 }
 
-async function addFocusTime(context: ItemIncContext, focusTime: number): Promise<void> {
+/**
+ * Enqueue the increments of hosts to push in real time
+ *
+ * @since 3.7.0
+ */
+async function enqueueSync(rows: timer.core.Row[]): Promise<void> {
+    const { backupType } = await optionHolder.get()
+    backupType === 'aws' && await syncQueueDb.enqueue(rows)
+}
+
+/**
+ * @param off the off-hours part, included in the result
+ * @since 3.7.0
+ */
+function resultWithOff(focus: number, time: number, off: number | undefined, offDimension: 'focus' | 'time'): timer.core.Result {
+    const result = resultOf(focus, time)
+    off && (result.off = { focus: 0, time: 0, [offDimension]: off })
+    return result
+}
+
+/**
+ * @param offTime the part tracked out of the schedule, included in the focus time
+ */
+async function addFocusTime(context: ItemIncContext, focusTime: number, offTime?: number): Promise<void> {
     const { host, url, groupId } = context
 
-    const resultSet: Record<string, timer.core.Result> = { [host]: resultOf(focusTime, 0) }
+    const resultSet: Record<string, timer.core.Result> = { [host]: resultWithOff(focusTime, 0, offTime, 'focus') }
     const virtualHosts = virtualSiteHolder.findMatched(url)
-    virtualHosts.forEach(virtualHost => resultSet[virtualHost] = resultOf(focusTime, 0))
+    virtualHosts.forEach(virtualHost => resultSet[virtualHost] = resultWithOff(focusTime, 0, offTime, 'focus'))
 
     const now = new Date()
 
     await db.accumulateBatch(resultSet, now)
+    await enqueueSync([{ host, date: formatTimeYMD(now), focus: focusTime, time: 0 }])
 
     const { countTabGroup } = await optionHolder.get()
-    countTabGroup && isValidGroup(groupId) && db.accumulateGroup(groupId, now, resultOf(focusTime, 0))
+    countTabGroup && isValidGroup(groupId) && db.accumulateGroup(groupId, now, resultWithOff(focusTime, 0, offTime, 'focus'))
 }
 
-async function addRunTime(host: string, dateTime: Record<string, number>) {
+/**
+ * @param offTime the parts tracked out of the schedule of each date, included in the run time
+ */
+async function addRunTime(host: string, dateTime: Record<string, number>, offTime?: Record<string, number>) {
     for (const [date, run] of Object.entries(dateTime)) {
-        await db.accumulate(host, date, { focus: 0, time: 0, run })
+        const result: timer.core.Result = { focus: 0, time: 0, run }
+        const off = offTime?.[date]
+        off && (result.off = { focus: 0, time: 0, run: off })
+        await db.accumulate(host, date, result)
+    }
+    await enqueueSync(Object.entries(dateTime).map(([date, run]) => ({ host, date, focus: 0, time: 0, run })))
+}
+
+/**
+ * @param offTime the parts played out of the schedule of each date, included in the media time
+ * @since 3.7.0
+ */
+async function addMediaTime(host: string, dateTime: Record<string, number>, offTime?: Record<string, number>) {
+    for (const [date, media] of Object.entries(dateTime)) {
+        const result: timer.core.Result = { focus: 0, time: 0, media }
+        const off = offTime?.[date]
+        off && (result.off = { focus: 0, time: 0, media: off })
+        await db.accumulate(host, date, result)
     }
+    await enqueueSync(Object.entries(dateTime).map(([date, media]) => ({ host, date, focus: 0, time: 0, media })))
 }
 
-async function increaseVisit(context: ItemIncContext) {
+/**
+ * @param offHours whether visited out of the schedule
+ */
+async function increaseVisit(context: ItemIncContext, offHours?: boolean) {
     const { host, url, groupId } = context
-    const resultSet = { [host]: resultOf(0, 1) }
-    virtualSiteHolder.findMatched(url).forEach(virtualHost => resultSet[virtualHost] = resultOf(0, 1))
+    const off = offHours ? 1 : 0
+    const resultSet = { [host]: resultWithOff(0, 1, off, 'time') }
+    virtualSiteHolder.findMatched(url).forEach(virtualHost => resultSet[virtualHost] = resultWithOff(0, 1, off, 'time'))
 
     const now = new Date()
 
     await db.accumulateBatch(resultSet, now)
+    await enqueueSync([{ host, date: formatTimeYMD(now), focus: 0, time: 1 }])
 
     const { countTabGroup } = await optionHolder.get()
-    countTabGroup && isValidGroup(groupId) && await db.accumulateGroup(groupId, now, resultOf(0, 1))
+    countTabGroup && isValidGroup(groupId) && await db.accumulateGroup(groupId, now, resultWithOff(0, 1, off, 'time'))
 }
 
 const getResult = (host: string, date: Date | string) => db.get(host, date)
@@ -55,6 +107,7 @@ async function batchDeleteGroupById(groupId: number): Promise<void> {
 export default {
     addFocusTime,
     addRunTime,
+    addMediaTime,
     increaseVisit,
     getResult,
     selectItems,
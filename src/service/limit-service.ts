@@ -0,0 +1,89 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import limitDatabase from "@db/limit-database"
+import { canDelay, isEffective, isLimited, matchRule } from "@util/limit"
+
+async function listItems(date?: Date): Promise<timer.limit.Item[]> {
+    date = date ?? new Date()
+    const rules = await limitDatabase.all()
+    const records = await limitDatabase.getRecordsOf(date)
+    return rules.map(rule => {
+        const [waste = 0, delayCount = 0] = records[rule.id] ?? []
+        return { ...rule, waste, delayCount }
+    })
+}
+
+/**
+ * Items which are effective today and match the url
+ */
+async function listRelated(url: string): Promise<timer.limit.Item[]> {
+    const now = new Date()
+    const items = await listItems(now)
+    return items.filter(item => isEffective(item, now) && matchRule(item, url))
+}
+
+async function listLimited(url: string): Promise<timer.limit.Item[]> {
+    const related = await listRelated(url)
+    return related.filter(isLimited)
+}
+
+/**
+ * Add focus time to related rules
+ *
+ * @returns items which are limited just now
+ */
+async function addFocusTime(url: string, focusTime: number): Promise<timer.limit.Item[]> {
+    const related = await listRelated(url)
+    if (!related.length) return []
+    const now = new Date()
+    await limitDatabase.increaseWaste(now, related.map(r => r.id), focusTime)
+    return related
+        .filter(item => !isLimited(item))
+        .map(item => ({ ...item, waste: item.waste + focusTime }))
+        .filter(isLimited)
+}
+
+/**
+ * Grant more minutes for the rule
+ *
+ * @throws if not allowed to delay
+ */
+async function moreMinutes(ruleId: number, url: string): Promise<timer.limit.Item> {
+    const items = await listItems()
+    const item = items.find(i => i.id === ruleId)
+    if (!item) throw new Error("Rule not found")
+    if (!canDelay(item)) throw new Error("No more minutes available today")
+    await limitDatabase.increaseDelay({ ruleId, ts: Date.now(), url })
+    return { ...item, delayCount: item.delayCount + 1 }
+}
+
+class LimitService {
+    listItems = listItems
+    listRelated = listRelated
+    listLimited = listLimited
+    addFocusTime = addFocusTime
+    moreMinutes = moreMinutes
+
+    save(rule: MakeOptional<timer.limit.Rule, 'id'>): Promise<number> {
+        return limitDatabase.save(rule)
+    }
+
+    remove(...ids: number[]): Promise<void> {
+        return limitDatabase.remove(...ids)
+    }
+
+    listDelayRecords(): Promise<timer.limit.DelayRecord[]> {
+        return limitDatabase.listDelayRecords()
+    }
+
+    addRuleChangeListener(listener: NoArgCallback) {
+        limitDatabase.addRuleChangeListener(listener)
+    }
+}
+
+export default new LimitService()
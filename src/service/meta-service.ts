@@ -56,6 +56,12 @@ async function updateCid(newCid: string) {
     await db.update(meta)
 }
 
+async function resetCid(newCid: string) {
+    const meta = await db.getMeta()
+    meta.cid = newCid
+    await db.update(meta)
+}
+
 async function updateBackUpTime(type: timer.backup.Type, time: number) {
     const meta = await db.getMeta()
     if (!meta.backup) {
@@ -97,6 +103,12 @@ class MetaService {
      * @since 1.2.0
      */
     updateCid = updateCid
+    /**
+     * Replace the client id even if it exists, used to adopt a remote client
+     *
+     * @since 3.7.0
+     */
+    resetCid = resetCid
     increaseApp = increaseApp
     increasePopup = increasePopup
     /**
@@ -0,0 +1,103 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import pauseDatabase from "@db/pause-database"
+import { getStartOfDay, MILL_PER_DAY, MILL_PER_MINUTE } from "@util/time"
+
+/**
+ * Minutes, or until tomorrow
+ */
+export type PauseDuration = number | 'tomorrow'
+
+/**
+ * Durations to choose
+ */
+export const PAUSE_DURATIONS: PauseDuration[] = [15, 60, 'tomorrow']
+
+export function calcPauseUntil(duration: PauseDuration, now = Date.now()): number {
+    if (duration === 'tomorrow') return getStartOfDay(now).getTime() + MILL_PER_DAY
+    return now + duration * MILL_PER_MINUTE
+}
+
+const isRunning = (state: timer.pause.State | undefined, now = Date.now()): state is timer.pause.State => {
+    return !!state && (!state.until || state.until > now)
+}
+
+/**
+ * Pause tracking of all the sites
+ *
+ * @since 3.7.0
+ */
+class PauseService {
+    /**
+     * The running pause, expired ones are not returned even if not resumed yet
+     */
+    async getState(): Promise<timer.pause.State | undefined> {
+        const state = await pauseDatabase.getState()
+        return isRunning(state) ? state : undefined
+    }
+
+    async isPaused(): Promise<boolean> {
+        return !!await this.getState()
+    }
+
+    /**
+     * Pause tracking, the running pause is kept but its end time is updated
+     *
+     * @param until timestamp to resume automatically, paused until resumed manually if absent
+     */
+    async pause(until?: number): Promise<timer.pause.State> {
+        // Log the expired one first, if not resumed yet
+        const raw = await pauseDatabase.getState()
+        raw && !isRunning(raw) && await this.resume()
+        const exist = await this.getState()
+        if (exist && exist.until === until) return exist
+        const state: timer.pause.State = { since: exist?.since ?? Date.now(), until }
+        await pauseDatabase.saveState(state)
+        return state
+    }
+
+    /**
+     * Resume tracking, and log the interval of the pause
+     */
+    async resume(): Promise<void> {
+        const state = await pauseDatabase.getState()
+        if (!state) return
+        const now = Date.now()
+        const end = state.until ? Math.min(state.until, now) : now
+        end > state.since && await pauseDatabase.addInterval({ start: state.since, end })
+        await pauseDatabase.clearState()
+    }
+
+    /**
+     * @returns true if paused after toggling
+     */
+    async toggle(): Promise<boolean> {
+        if (await this.isPaused()) {
+            await this.resume()
+            return false
+        }
+        await this.pause()
+        return true
+    }
+
+    /**
+     * Intervals overlapped with the range, including the running one
+     */
+    async selectIntervals(start?: number, end?: number): Promise<timer.pause.Interval[]> {
+        const intervals = await pauseDatabase.selectIntervals(start, end)
+        const running = await this.getState()
+        running && (!end || running.since <= end) && intervals.push({ start: running.since, end: Date.now() })
+        return intervals
+    }
+
+    addStateChangeListener(listener: ArgCallback<timer.pause.State | undefined>) {
+        pauseDatabase.addStateChangeListener(listener)
+    }
+}
+
+export default new PauseService()
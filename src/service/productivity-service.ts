@@ -0,0 +1,64 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import cateDatabase from "@db/site-cate-database"
+import siteDatabase from "@db/site-database"
+import statDatabase from "@db/stat-database"
+import { calcScore, emptyFocus } from "@util/productivity"
+import { formatTimeYMD, getAllDatesBetween } from "@util/time"
+
+/**
+ * Calc the daily scores with the focus time of categories
+ */
+async function listScores(dateRange: [Date, Date]): Promise<timer.productivity.Score[]> {
+    const [start, end] = dateRange
+    const allDates = getAllDatesBetween(start, end)
+    const cates = await cateDatabase.listAll()
+    const settings: Record<number, timer.productivity.Setting> = {}
+    cates.forEach(({ id, productivity }) => productivity && (settings[id] = productivity))
+    if (!Object.keys(settings).length) return allDates.map(date => ({ date, focus: emptyFocus() }))
+
+    const rows = await statDatabase.select({ date: dateRange })
+    const hosts = Array.from(new Set(rows.map(r => r.host)))
+    const sites = await siteDatabase.getBatch(hosts.map(host => ({ host, type: 'normal' })))
+    const settingOfHost: Record<string, timer.productivity.Setting> = {}
+    sites.forEach(({ host, cate }) => cate && settings[cate] && (settingOfHost[host] = settings[cate]))
+
+    const itemsOfDate: Record<string, [timer.productivity.Setting, number][]> = {}
+    rows.forEach(({ host, date, focus }) => {
+        const setting = settingOfHost[host]
+        if (!setting || !date) return
+        const items = itemsOfDate[date] ?? (itemsOfDate[date] = [])
+        items.push([setting, focus])
+    })
+
+    return allDates.map(date => {
+        const items = itemsOfDate[date] ?? []
+        const focus = emptyFocus()
+        items.forEach(([{ level }, time]) => focus[level] += time)
+        return { date, score: calcScore(items), focus }
+    })
+}
+
+class ProductivityService {
+    listScores = listScores
+
+    /**
+     * Score of the day
+     */
+    async getScore(date?: Date): Promise<timer.productivity.Score> {
+        date = date ?? new Date()
+        const [score] = await listScores([date, date])
+        return score ?? { date: formatTimeYMD(date), focus: emptyFocus() }
+    }
+
+    saveSetting(cateId: number, setting: timer.productivity.Setting | undefined): Promise<void> {
+        return cateDatabase.saveProductivity(cateId, setting)
+    }
+}
+
+export default new ProductivityService()
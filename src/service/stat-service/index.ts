@@ -51,7 +51,7 @@ function compareSortVal(a: string | number, b: string | number, direction?: time
     return direction === 'DESC' ? -val : val
 }
 
-export type SiteQuery = Pick<StatCondition, 'date' | 'focusRange' | 'timeRange' | 'virtual'>
+export type SiteQuery = Pick<StatCondition, 'date' | 'focusRange' | 'timeRange' | 'virtual' | 'hoursScope'>
     & timer.common.SortBy<'date' | 'host' | timer.core.Dimension>
     & {
         query?: string
@@ -75,8 +75,8 @@ export type SiteQuery = Pick<StatCondition, 'date' | 'focusRange' | 'timeRange'
         ignoreSite?: boolean
     }
 
-export type CateQuery = Pick<StatCondition, 'date'>
-    & timer.common.SortBy<'date' | 'focus' | 'time'>
+export type CateQuery = Pick<StatCondition, 'date' | 'hoursScope'>
+    & timer.common.SortBy<'date' | 'focus' | 'time' | 'media'>
     & {
         query?: string
         mergeDate?: boolean
@@ -84,8 +84,8 @@ export type CateQuery = Pick<StatCondition, 'date'>
         cateIds?: number[]
     }
 
-export type GroupQuery = Pick<StatCondition, 'date'>
-    & timer.common.SortBy<'date' | 'title' | 'focus' | 'time'>
+export type GroupQuery = Pick<StatCondition, 'date' | 'hoursScope'>
+    & timer.common.SortBy<'date' | 'title' | 'focus' | 'time' | 'media'>
     & {
         query?: string
         mergeDate?: boolean
@@ -176,13 +176,13 @@ class StatServiceImpl implements StatService {
         const {
             mergeHost: needMerge, mergeDate: needMergeDate,
             date, query, host, cateIds,
-            timeRange, focusRange,
+            timeRange, focusRange, hoursScope,
             virtual, ignoreSite, inclusiveRemote,
             sortKey, sortDirection,
         } = param ?? {}
 
         const condition: StatCondition = {
-            date, timeRange, focusRange, virtual,
+            date, timeRange, focusRange, virtual, hoursScope,
             keys: host && !needMerge ? host : undefined,
         }
         let origin = await statDatabase.select(condition)
@@ -223,12 +223,12 @@ class StatServiceImpl implements StatService {
     async selectCate(param?: CateQuery): Promise<timer.stat.CateRow[]> {
         const {
             mergeDate: needMergeDate,
-            date, query, cateIds,
+            date, query, cateIds, hoursScope,
             inclusiveRemote,
             sortKey, sortDirection,
         } = param ?? {}
 
-        let origin = await statDatabase.select({ date })
+        let origin = await statDatabase.select({ date, hoursScope })
 
         let siteRows = origin.map(cvt2SiteRow)
         inclusiveRemote && (siteRows = await processRemote(siteRows, param))
@@ -270,10 +270,10 @@ class StatServiceImpl implements StatService {
 
     async selectGroup(param?: GroupQuery): Promise<timer.stat.GroupRow[]> {
         const {
-            date, query, mergeDate: needMergeDate,
+            date, query, mergeDate: needMergeDate, hoursScope,
             sortKey, sortDirection,
         } = param ?? {}
-        const list = await statDatabase.selectGroup({ date })
+        const list = await statDatabase.selectGroup({ date, hoursScope })
         const groups = await listAllGroups()
         const groupMap = toMap(groups, g => g.id)
         let rows: timer.stat.GroupRow[] = list.map(({ date, time, focus, run, host }) => {
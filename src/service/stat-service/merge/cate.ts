@@ -16,7 +16,7 @@ export function mergeCate(origin: timer.stat.SiteRow[], cates: timer.site.Cate[]
                 focus: 0,
                 time: 0,
                 mergedRows: [],
-                composition: { focus: [], time: [], run: [] },
+                composition: { focus: [], time: [], run: [], media: [] },
             } satisfies timer.stat.CateRow
         }
         mergeResult(exist, ele)
@@ -13,17 +13,21 @@ function mergeComposition(c1: timer.stat.RemoteComposition | undefined, c2: time
     const focusMap: _RemoteCompositionMap = {}
     const timeMap: _RemoteCompositionMap = {}
     const runMap: _RemoteCompositionMap = {}
+    const mediaMap: _RemoteCompositionMap = {}
     c1?.focus?.forEach(e => accCompositionValue(focusMap, e))
     c2?.focus?.forEach(e => accCompositionValue(focusMap, e))
     c1?.time?.forEach(e => accCompositionValue(timeMap, e))
     c2?.time?.forEach(e => accCompositionValue(timeMap, e))
     c1?.run?.forEach(e => accCompositionValue(runMap, e))
     c2?.run?.forEach(e => accCompositionValue(runMap, e))
+    c1?.media?.forEach(e => accCompositionValue(mediaMap, e))
+    c2?.media?.forEach(e => accCompositionValue(mediaMap, e))
 
     const result = {
         focus: Object.values(focusMap),
         time: Object.values(timeMap),
         run: Object.values(runMap),
+        media: Object.values(mediaMap),
     }
     return result
 }
@@ -49,9 +53,10 @@ function accCompositionValue(map: _RemoteCompositionMap, value: timer.stat.Remot
 }
 
 export function mergeResult(target: timer.stat.Row, delta: timer.stat.Row) {
-    const { focus, time } = delta
+    const { focus, time, media } = delta
     target.focus += focus ?? 0
     target.time += time ?? 0
+    media && (target.media = (target.media ?? 0) + media)
     if (!isGroup(target) && !isGroup(delta)) {
         target.composition = mergeComposition(target.composition, delta.composition)
     }
@@ -18,7 +18,7 @@ export function mergeDate<T extends timer.stat.Row>(origin: T[]): T[] {
                 time: 0,
                 mergedRows: [],
                 mergedDates: [],
-                composition: { focus: [], time: [], run: [] },
+                composition: { focus: [], time: [], run: [], media: [] },
             } satisfies timer.stat.Row
         }
         mergeResult(exist, ele)
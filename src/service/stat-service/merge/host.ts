@@ -24,7 +24,7 @@ export async function mergeHost(origin: timer.stat.SiteRow[]): Promise<timer.sta
                 focus: 0,
                 time: 0,
                 mergedRows: [],
-                composition: { focus: [], time: [], run: [] },
+                composition: { focus: [], time: [], run: [], media: [] },
             } satisfies timer.stat.Row
         }
         mergeResult(exist, ele)
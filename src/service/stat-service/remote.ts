@@ -11,7 +11,13 @@ import { identifyStatKey } from "@util/stat"
 import { getBirthday } from "@util/time"
 import { cvt2SiteRow } from "./common"
 
-export async function processRemote(origin: timer.stat.SiteRow[], param?: StatCondition): Promise<timer.stat.SiteRow[]> {
+/**
+ * @param param.mergeDate whether the dates are merged by the caller, then only the totals of hosts are queried, since 3.7.0
+ */
+export async function processRemote(
+    origin: timer.stat.SiteRow[],
+    param?: StatCondition & { mergeDate?: boolean },
+): Promise<timer.stat.SiteRow[]> {
     if (!await canReadRemote()) {
         return origin
     }
@@ -23,10 +29,11 @@ export async function processRemote(origin: timer.stat.SiteRow[], param?: StatCo
             focus: [row.focus],
             time: [row.time],
             run: row.run ? [row.run] : [],
+            media: row.media ? [row.media] : [],
         }
     })
     // Predicate with host
-    const { keys, date } = param ?? {}
+    const { keys, date, mergeDate } = param ?? {}
     const keyArr = typeof keys === 'string' ? [keys] : keys
     const predicate = keyArr?.length
         ? ({ host }: timer.core.Row) => keyArr.includes(host)
@@ -41,7 +48,8 @@ export async function processRemote(origin: timer.stat.SiteRow[], param?: StatCo
     }
     start = start ?? getBirthday()
     end = end ?? new Date()
-    const remote = await processor.query({ excludeLocal: true, start, end })
+    // Rows without dates are merged into the local ones by the caller
+    const remote = await processor.query({ excludeLocal: true, start, end, cache: true, groups: mergeDate ? ['host'] : undefined })
     remote.filter(predicate).forEach(row => processRemoteRow(originMap, row))
     return Object.values(originMap)
 }
@@ -70,15 +78,18 @@ function processRemoteRow(rowMap: Record<string, MakeRequired<timer.stat.SiteRow
             focus: [],
             time: [],
             run: [],
+            media: [],
         },
     } satisfies MakeRequired<timer.stat.SiteRow, 'composition'>)
 
-    const { focus = 0, time = 0, run = 0, cid = '', cname } = row
+    const { focus = 0, time = 0, run = 0, media = 0, cid = '', cname } = row
 
     exist.focus += focus
     exist.time += time
     run && (exist.run = run)
+    media && (exist.media = (exist.media ?? 0) + media)
     focus && exist.composition.focus.push({ cid, cname, value: focus })
     time && exist.composition.time.push({ cid, cname, value: time })
     run && exist.composition.run.push({ cid, cname, value: run })
+    media && exist.composition.media.push({ cid, cname, value: media })
 }
\ No newline at end of file
@@ -5,400 +5,95 @@
  * https://opensource.org/licenses/MIT
  */
 
+import syncQueueDb, { type SyncQueueState } from "@db/sync-queue-database"
 import processor from "@service/backup/processor"
-import statDatabase from "@db/stat-database"
-import optionHolder from "@service/components/option-holder"
-import metaService from "@service/meta-service"
-import { formatTimeYMD } from "@util/time"
-import AwsCoordinator from "@service/backup/aws/coordinator"
 import { backgroundLogger } from "@util/logger"
+import { MILL_PER_MINUTE, MILL_PER_SECOND } from "@util/time"
+import syncHealthService from "./sync-health-service"
 
-type PendingSync = {
-    rows: timer.core.Row[]
-    timestamp: number
-    retryCount: number
-    batchId: string
-}
+/**
+ * Max rows per flush
+ */
+const BATCH_SIZE = 500
+const BASE_BACKOFF = 30 * MILL_PER_SECOND
+const MAX_BACKOFF = 30 * MILL_PER_MINUTE
 
-type SyncStats = {
-    totalSynced: number
-    totalFailed: number
-    lastSyncTime: number
-    pendingCount: number
-    isOnline: boolean
+export type SyncQueueStatus = SyncQueueState & {
+    /**
+     * Count of pending rows
+     */
+    pending: number
 }
 
 /**
- * Background service for automatic real-time sync
+ * Push the tracked increments to the remote in real time
+ *
+ * Increments are kept in a durable queue, so they survive restarts of the service worker.
+ * The server accumulates rows of the same session, so only the increments are uploaded
  */
 export class BackgroundSyncService {
-    private isEnabled = false
-    private syncQueue: PendingSync[] = []
-    private isProcessing = false
-    private readonly maxRetries = 3
-    private readonly batchSize = 50 // Max rows per sync batch
-    private readonly syncIntervalMs = 60000 // 1 minute between batch syncs
-    private readonly maxQueueSize = 1000 // Max rows in queue before dropping oldest
-    private syncInterval: NodeJS.Timeout | null = null
-    private stats: SyncStats = {
-        totalSynced: 0,
-        totalFailed: 0,
-        lastSyncTime: 0,
-        pendingCount: 0,
-        isOnline: navigator.onLine
-    }
-    
-    constructor() {
-        this.init()
-        this.setupEventListeners()
-    }
-    
-    private async init(): Promise<void> {
-        // Check if AWS sync is enabled
-        const option = await optionHolder.get()
-        this.isEnabled = option.backupType === 'aws'
-        
-        if (this.isEnabled) {
-            this.startBackgroundSync()
-        }
-        
-    }
-    
-    private setupEventListeners(): void {
-        // In service workers, we need to use navigator.onLine and periodically check
-        // or rely on network request failures to detect offline status
-        
-        // For service workers, we cannot listen to window events
-        // Instead, we will check online status periodically and on network failures
-        if (typeof window !== 'undefined') {
-            // If we're in a window context (not service worker)
-            window.addEventListener('online', () => {
-                console.log('BackgroundSyncService: Back online')
-                this.stats.isOnline = true
-                if (this.isEnabled) {
-                    this.processQueue() // Process any pending items
-                }
-            })
-            
-            window.addEventListener('offline', () => {
-                console.log('BackgroundSyncService: Gone offline')
-                this.stats.isOnline = false
-            })
-            
-            // Handle page unload to save pending syncs
-            window.addEventListener('beforeunload', () => {
-                this.savePendingSyncs()
-            })
-        } else {
-            // In service worker context, we need alternative approaches
-            // Periodically check navigator.onLine
-            setInterval(() => {
-                const wasOnline = this.stats.isOnline
-                this.stats.isOnline = navigator.onLine
-                
-                if (!wasOnline && this.stats.isOnline && this.isEnabled) {
-                    console.log('BackgroundSyncService: Detected back online')
-                    this.processQueue()
-                }
-            }, 5000) // Check every 5 seconds
-        }
-    }
-    
-    /**
-     * Start the background sync service
-     */
-    async startBackgroundSync(): Promise<void> {
-        if (this.syncInterval) {
-            return // Already running
-        }
-        
-        console.log('BackgroundSyncService: Starting background sync')
-        
-        // Load any previously pending syncs
-        await this.loadPendingSyncs()
-        
-        // Start periodic processing
-        this.syncInterval = setInterval(async () => {
-            if (this.isEnabled && this.stats.isOnline && !this.isProcessing) {
-                await this.processQueue()
-            }
-        }, this.syncIntervalMs)
-        
-        // Process queue immediately if there are pending items
-        if (this.syncQueue.length > 0) {
-            this.processQueue()
-        }
-    }
-    
-    /**
-     * Stop the background sync service
-     */
-    stopBackgroundSync(): void {
-        console.log('BackgroundSyncService: Stopping background sync')
-        
-        if (this.syncInterval) {
-            clearInterval(this.syncInterval)
-            this.syncInterval = null
-        }
-        
-        this.savePendingSyncs()
-    }
-    
-    /**
-     * Enable/disable the background sync service
-     */
-    async setEnabled(enabled: boolean): Promise<void> {
-        this.isEnabled = enabled
-        
-        if (enabled) {
-            await this.startBackgroundSync()
-        } else {
-            this.stopBackgroundSync()
-        }
-    }
-    
-    /**
-     * Queue rows for background sync
-     */
-    queueForSync(rows: timer.core.Row[]): void {
-        if (!this.isEnabled) {
-            return
-        }
-        
-        if (!rows || rows.length === 0) {
-            return
-        }
-        
-        const pendingSync: PendingSync = {
-            rows,
-            timestamp: Date.now(),
-            retryCount: 0,
-            batchId: `bg_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`
-        }
-        
-        this.syncQueue.push(pendingSync)
-        this.stats.pendingCount = this.syncQueue.length
-        
-        // Remove old items if queue is too large
-        while (this.syncQueue.length > this.maxQueueSize) {
-            this.syncQueue.shift()
-        }
-        
-        // Process immediately if online and not already processing
-        if (this.stats.isOnline && !this.isProcessing) {
-            setTimeout(() => this.processQueue(), 1000) // Small delay to batch multiple calls
-        }
-    }
-    
-    /**
-     * Process the sync queue
-     */
-    private async processQueue(): Promise<void> {
-        if (this.isProcessing || this.syncQueue.length === 0 || !this.stats.isOnline) {
-            return
-        }
-        
-        this.isProcessing = true
-        
-        try {
-            // Process batches up to the batch size
-            let processedCount = 0
-            const maxBatches = Math.ceil(this.batchSize / 10) // Assume average 10 rows per batch
-            
-            while (this.syncQueue.length > 0 && processedCount < maxBatches) {
-                const batch = this.syncQueue[0]
-                
-                try {
-                    await this.syncBatch(batch)
-                    
-                    // Successfully synced - remove from queue
-                    this.syncQueue.shift()
-                    this.stats.totalSynced += batch.rows.length
-                    this.stats.lastSyncTime = Date.now()
-                    processedCount++
-                    
-                    console.log(`BackgroundSyncService: Synced batch ${batch.batchId} (${batch.rows.length} rows)`)
-                } catch (error) {
-                    backgroundLogger.debug(`BackgroundSyncService: Failed to sync batch ${batch.batchId}:`, error)
-                    
-                    batch.retryCount++
-                    
-                    if (batch.retryCount >= this.maxRetries) {
-                        // Too many retries - remove from queue
-                        this.syncQueue.shift()
-                        this.stats.totalFailed += batch.rows.length
-                        backgroundLogger.debug(`BackgroundSyncService: Dropping batch ${batch.batchId} after ${this.maxRetries} retries`)
-                    } else {
-                        // Keep for retry but move to end of queue
-                        this.syncQueue.shift()
-                        this.syncQueue.push(batch)
-                        break // Stop processing for now
-                    }
-                }
-            }
-            
-            this.stats.pendingCount = this.syncQueue.length
-        } finally {
-            this.isProcessing = false
-        }
-    }
-    
-    /**
-     * Sync a single batch
-     */
-    private async syncBatch(batch: PendingSync): Promise<void> {
-        const { option, coordinator, errorMsg } = await processor.checkAuth()
-        
-        if (errorMsg || !coordinator || option.backupType !== 'aws') {
-            const error = errorMsg || 'AWS sync not configured'
-            throw new Error(error)
-        }
-        
-        let clientId = await metaService.getCid()
-        
-        // Generate client ID if none exists (same logic as processor)
-        if (!clientId) {
-            const uaData = (navigator as any)?.userAgentData
-            let prefix = 'unknown'
-            if (uaData) {
-                const brand = uaData.brands
-                    ?.map((e: any) => e.brand)
-                    ?.find((b: any) => b.toLowerCase().includes('chrome'))
-                const platform = uaData.platform?.toLowerCase()
-                if (platform && brand) {
-                    prefix = `${platform}-${brand.toLowerCase().replace(/\s/g, '-')}`
-                }
-            }
-            clientId = `${prefix}-${Date.now()}`
-            await metaService.updateCid(clientId)
-        }
-        
-        // For AWS sync, use user-specified client name if available
-        let awsClientId = clientId
-        if (option.backupType === 'aws' && option.clientName && option.clientName !== 'unknown') {
-            awsClientId = option.clientName
-        }
-        
-        // Create context for the coordinator (using same structure as processor)
-        const auth: timer.backup.Auth = {
-            token: option.backupAuths?.aws,
-            login: option.backupLogin?.aws
-        }
-        
-        const context: timer.backup.CoordinatorContext<unknown> = {
-            cid: awsClientId,
-            auth,
-            ext: option.backupExts?.aws,
-            cache: {},
-            handleCacheChanged: async () => {
-                // Cache changes handled by processor
-            }
-        }
-        
-        // Use incremental sync if available
-        if (coordinator instanceof AwsCoordinator && (coordinator as any).syncIncremental) {
-            await (coordinator as any).syncIncremental(context, batch.rows)
-        } else {
-            // Fallback to regular upload
-            await coordinator.upload(context, batch.rows)
-        }
-    }
-    
-    
+    private flushing = false
+
     /**
-     * Save pending syncs to storage for recovery
+     * Flush the queue through the coordinator, or back off if failed
+     *
+     * @param force ignore the back-off
+     * @returns true if flushed successfully or nothing to flush
      */
-    private async savePendingSyncs(): Promise<void> {
-        if (this.syncQueue.length === 0) {
-            return
-        }
-        
+    async flush(force?: boolean): Promise<boolean> {
+        if (this.flushing) return false
+        this.flushing = true
         try {
-            const pendingData = {
-                queue: this.syncQueue,
-                timestamp: Date.now()
-            }
-            
-            await chrome.storage.local.set({
-                'background_sync_pending': pendingData
+            const { failures = 0, nextTs } = await syncQueueDb.getState()
+            if (!force && nextTs && nextTs > Date.now()) return false
+            // Exclusive with the backup, which overwrites the remote with the totals excluding the pending rows
+            const result = await processor.exclusive(async () => {
+                const rows = await syncQueueDb.peek(BATCH_SIZE)
+                if (!rows.length) return undefined
+                const result = await processor.pushRows(rows)
+                result.success && await syncQueueDb.remove(rows)
+                return result
             })
-            
-            console.log(`BackgroundSyncService: Saved ${this.syncQueue.length} pending syncs`)
-        } catch (error) {
-            backgroundLogger.debug('BackgroundSyncService: Failed to save pending syncs:', error)
-        }
-    }
-    
-    /**
-     * Load pending syncs from storage
-     */
-    private async loadPendingSyncs(): Promise<void> {
-        try {
-            const result = await chrome.storage.local.get('background_sync_pending')
-            const pendingData = result.background_sync_pending
-            
-            if (pendingData && pendingData.queue && Array.isArray(pendingData.queue)) {
-                // Only restore recent items (within last hour)
-                const oneHourAgo = Date.now() - (60 * 60 * 1000)
-                const recentItems = pendingData.queue.filter((item: PendingSync) => 
-                    item.timestamp > oneHourAgo
-                )
-                
-                this.syncQueue = recentItems
-                this.stats.pendingCount = this.syncQueue.length
-                
-                console.log(`BackgroundSyncService: Loaded ${this.syncQueue.length} pending syncs from storage`)
-                
-                // Clear the stored data
-                await chrome.storage.local.remove('background_sync_pending')
+            if (!result) return true
+            const { success, errorMsg } = result
+            const now = Date.now()
+            if (success) {
+                await syncQueueDb.updateState({ failures: 0, nextTs: undefined, lastSyncTs: now })
+                return true
             }
-        } catch (error) {
-            backgroundLogger.debug('BackgroundSyncService: Failed to load pending syncs:', error)
-        }
-    }
-    
-    /**
-     * Force immediate sync of all pending items
-     */
-    async forceSync(): Promise<void> {
-        if (!this.isEnabled || !this.stats.isOnline) {
-            throw new Error('Sync not available')
+            const backoff = Math.min(BASE_BACKOFF * 2 ** failures, MAX_BACKOFF)
+            await syncQueueDb.updateState({
+                failures: failures + 1,
+                nextTs: now + backoff,
+                lastError: errorMsg ?? 'Unknown error',
+                lastErrorTs: now,
+            })
+            await syncHealthService.recordFailure('realtime', errorMsg)
+            backgroundLogger.debug(`BackgroundSyncService: Failed to flush, retry after ${backoff}ms`, errorMsg)
+            return false
+        } finally {
+            this.flushing = false
         }
-        
-        console.log('BackgroundSyncService: Forcing immediate sync')
-        await this.processQueue()
     }
-    
-    /**
-     * Get current sync statistics
-     */
-    getStats(): SyncStats {
-        return { ...this.stats }
-    }
-    
-    /**
-     * Clear all pending syncs
-     */
-    clearQueue(): void {
-        this.syncQueue = []
-        this.stats.pendingCount = 0
-        console.log('BackgroundSyncService: Cleared sync queue')
+
+    async getStatus(): Promise<SyncQueueStatus> {
+        const state = await syncQueueDb.getState()
+        const pending = await syncQueueDb.count()
+        return { ...state, pending }
     }
-    
+
     /**
-     * Get pending sync count
+     * Clear all pending rows
      */
-    getPendingCount(): number {
-        return this.syncQueue.length
+    async clearQueue(): Promise<void> {
+        await syncQueueDb.clear()
+        await syncQueueDb.updateState({ failures: 0, nextTs: undefined })
     }
-    
-    /**
-     * Check if service is actively syncing
-     */
-    isSyncing(): boolean {
-        return this.isProcessing
+
+    addQueueChangeListener(listener: NoArgCallback) {
+        syncQueueDb.addQueueChangeListener(listener)
     }
 }
 
 // Global singleton instance
-export const backgroundSyncService = new BackgroundSyncService()
\ No newline at end of file
+export const backgroundSyncService = new BackgroundSyncService()
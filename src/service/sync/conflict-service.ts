@@ -0,0 +1,71 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import processor from "@service/backup/processor"
+import itemService from "@service/item-service"
+import syncHealthService from "./sync-health-service"
+
+/**
+ * Conflicts of one host and one date to review
+ */
+export type ConflictItem = {
+    host: string
+    date: string
+    /**
+     * Timestamp of the latest conflict
+     */
+    ts: number
+    local: timer.core.Result
+    remote: timer.core.Result
+}
+
+const valueOf = ({ focus, time }: timer.core.Result): timer.core.Result => ({ focus: focus ?? 0, time: time ?? 0 })
+
+function valueOfChoice(item: ConflictItem, choice: timer.backup.ConflictChoice): timer.core.Result {
+    const { local, remote } = item
+    if (choice === 'local') return valueOf(local)
+    if (choice === 'remote') return valueOf(remote)
+    return { focus: local.focus + remote.focus, time: local.time + remote.time }
+}
+
+/**
+ * Unresolved conflicts with the values overwritten, the latest one of each host and date
+ */
+async function listPending(): Promise<ConflictItem[]> {
+    const conflicts = await syncHealthService.listConflicts()
+    const items: Record<string, ConflictItem> = {}
+    for (const { host, date, ts, overwritten, resolved } of conflicts) {
+        if (resolved || !overwritten) continue
+        const key = `${date}${host}`
+        // Conflicts are sorted by time desc
+        if (items[key]) continue
+        const local = valueOf(await itemService.getResult(host, date))
+        items[key] = { host, date, ts, local, remote: valueOf(overwritten) }
+    }
+    return Object.values(items)
+}
+
+/**
+ * Write the chosen values back to the remote, and keep the audit record
+ *
+ * @returns error message if failed
+ */
+async function resolve(item: ConflictItem, choice: timer.backup.ConflictChoice): Promise<string | undefined> {
+    const { host, date, local, remote } = item
+    const result = valueOfChoice(item, choice)
+    const { success, errorMsg } = await processor.overwriteRows([{ host, date, ...result }])
+    if (!success) return errorMsg ?? 'Unknown error'
+    await syncHealthService.resolveConflicts({ ts: Date.now(), host, date, choice, local, remote, result })
+    return undefined
+}
+
+class ConflictService {
+    listPending = listPending
+    resolve = resolve
+}
+
+export default new ConflictService()
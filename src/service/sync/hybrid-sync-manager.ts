@@ -118,12 +118,15 @@ export class HybridSyncManager {
         
         // Build WebSocket URL with client ID
         // Handle different URL formats
-        const wsUrl = websocketEndpoint.startsWith('wss://') 
-            ? websocketEndpoint 
+        const wsUrl = /^wss?:\/\//.test(websocketEndpoint)
+            ? websocketEndpoint
             : `wss://${websocketEndpoint}`
         
         const url = new URL(wsUrl)
         url.searchParams.set('clientId', this.clientId)
+        // Required by the self-hosted server, since headers can't be set
+        const apiKey = option.backupAuths?.aws
+        apiKey && url.searchParams.set('apiKey', apiKey)
         
         this.websocket = new WebSocket(url.toString())
         
@@ -145,6 +148,11 @@ export class HybridSyncManager {
                 // Handle WebSocket protocol messages (ping/pong, etc.)
                 if (message.action) {
                     this.handleProtocolMessage(message)
+                }
+                // Handle notifications wrapped by the notify lambda or the self-hosted server
+                else if (message.event === 'sync-update' && message.data?.type) {
+                    const { type, timestamp, ...data } = message.data
+                    this.handleSyncEvent({ type, data, timestamp })
                 } 
                 // Handle sync events
                 else if (message.type) {
@@ -0,0 +1,63 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import processor from "@service/backup/processor"
+import { fillExist, processImportedData } from "@service/components/import-processor"
+
+export type RestoreParam = {
+    cid: string
+    start: Date
+    end: Date
+}
+
+/**
+ * Download the rows of the client, and fill the local values to compare
+ */
+async function preview(param: RestoreParam): Promise<timer.imported.Data> {
+    const { cid, start, end } = param
+    const remoteRows = await processor.query({ specCid: cid, start, end })
+    const rows: timer.imported.Row[] = remoteRows
+        .filter(r => r.cid === cid)
+        .map(({ host, date, focus, time, run, media }) => {
+            const row: timer.imported.Row = { host, date, focus: focus ?? 0, time: time ?? 0 }
+            run && (row.run = run)
+            media && (row.media = media)
+            return row
+        })
+    await fillExist(rows)
+    return {
+        focus: true,
+        time: true,
+        run: rows.some(r => !!r.run),
+        media: rows.some(r => !!r.media),
+        rows,
+    }
+}
+
+/**
+ * Import the rows as local data, and adopt the client as this one if required
+ *
+ * @returns error message if failed
+ */
+async function restore(
+    cid: string,
+    data: timer.imported.Data,
+    resolution: timer.imported.ConflictResolution,
+    adopt?: boolean,
+): Promise<string | undefined> {
+    await processImportedData(data, resolution)
+    if (!adopt) return undefined
+    const { success, errorMsg } = await processor.adoptClient(cid)
+    return success ? undefined : (errorMsg ?? 'Unknown error')
+}
+
+class RestoreService {
+    preview = preview
+    restore = restore
+}
+
+export default new RestoreService()
@@ -0,0 +1,82 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import backupDb from "@db/backup-database"
+import syncHealthDb from "@db/sync-health-database"
+import { keysOf } from "@service/backup/crypto/coordinator"
+import optionHolder from "@service/components/option-holder"
+import { decryptText, isEncrypted } from "@util/crypto"
+
+/**
+ * Hosts of conflicts are recorded as the server returns, so decrypt them if possible
+ */
+async function decryptHosts(conflicts: timer.backup.ConflictRecord[]): Promise<timer.backup.ConflictRecord[]> {
+    if (!conflicts.some(c => isEncrypted(c.host))) return conflicts
+    const { backupPassphrase } = await optionHolder.get()
+    const salt = await backupDb.getSalt()
+    if (!backupPassphrase || !salt) return conflicts
+    const keys = await keysOf(backupPassphrase, salt)
+    return Promise.all(conflicts.map(async c => {
+        if (!isEncrypted(c.host)) return c
+        try {
+            return { ...c, host: await decryptText(keys, c.host) }
+        } catch {
+            return c
+        }
+    }))
+}
+
+class SyncHealthService {
+    recordFailure(source: timer.backup.Failure['source'], message: string | undefined): Promise<void> {
+        return syncHealthDb.addFailure({ ts: Date.now(), source, message: message || 'Unknown error' })
+    }
+
+    recordConflicts(conflicts: timer.backup.ConflictRecord[]): Promise<void> {
+        return syncHealthDb.addConflicts(conflicts)
+    }
+
+    updateConnection(status: Omit<timer.backup.ConnectionStatus, 'ts'>): Promise<void> {
+        return syncHealthDb.updateConnection({ ...status, ts: Date.now() })
+    }
+
+    listFailures(): Promise<timer.backup.Failure[]> {
+        return syncHealthDb.listFailures()
+    }
+
+    async listConflicts(): Promise<timer.backup.ConflictRecord[]> {
+        return decryptHosts(await syncHealthDb.listConflicts())
+    }
+
+    /**
+     * Mark the conflicts of the host and date as resolved, and keep the audit record
+     */
+    async resolveConflicts(resolution: timer.backup.ConflictResolution): Promise<void> {
+        const { host, date } = resolution
+        const raw = await syncHealthDb.listConflicts()
+        const decrypted = await decryptHosts(raw)
+        decrypted.forEach((c, idx) => c.host === host && c.date === date && (raw[idx].resolved = true))
+        await syncHealthDb.saveConflicts(raw)
+        await syncHealthDb.addResolution(resolution)
+    }
+
+    listResolutions(): Promise<timer.backup.ConflictResolution[]> {
+        return syncHealthDb.listResolutions()
+    }
+
+    getConnection(): Promise<timer.backup.ConnectionStatus | undefined> {
+        return syncHealthDb.getConnection()
+    }
+
+    /**
+     * Clear the failures and conflicts, the audit trail is kept
+     */
+    clear(): Promise<void> {
+        return syncHealthDb.clear()
+    }
+}
+
+export default new SyncHealthService()
@@ -1,5 +1,24 @@
 import timelineDatabase from '@db/timeline-database'
 import { extractHostname } from '@util/pattern'
+import { formatTimeYMD, MILL_PER_DAY } from '@util/time'
+import optionHolder from './components/option-holder'
+
+/**
+ * The date cleaned last time, so only clean once per day
+ */
+let lastCleanDate: string | undefined
+// Retention maybe changed
+optionHolder.addChangeListener(() => lastCleanDate = undefined)
+
+async function removeOutdated(now: number): Promise<void> {
+    const today = formatTimeYMD(now)
+    if (lastCleanDate === today) return
+    lastCleanDate = today
+    const { timelineRetention } = await optionHolder.get()
+    // Unlimited
+    if (!timelineRetention) return
+    await timelineDatabase.removeBefore(formatTimeYMD(now - MILL_PER_DAY * (timelineRetention - 1)))
+}
 
 const split2Durations = (start: number, end: number): [start: number, duration: number][] => {
     const result: [start: number, duration: number][] = []
@@ -33,4 +52,5 @@ export async function saveTimelineEvent(ev: timer.timeline.Event): Promise<void>
     const durations = split2Durations(start, end)
     const ticks: timer.timeline.Tick[] = durations.map(([start, duration]) => ({ start, duration, host }))
     await timelineDatabase.batchSave(ticks)
+    await removeOutdated(end)
 }
@@ -0,0 +1,71 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import mergeRuleDatabase from "@db/merge-rule-database"
+import cateDatabase from "@db/site-cate-database"
+import siteDatabase from "@db/site-database"
+import timelineDatabase from "@db/timeline-database"
+import { toMap } from "@util/array"
+import { CATE_NOT_SET_ID } from "@util/site"
+import { mergeSpans } from "@util/timesheet"
+import CustomizedHostMergeRuler from "./components/host-merge-ruler"
+
+export type SessionQuery = {
+    dateRange: [Date, Date]
+    groupBy: timer.timeline.GroupBy
+    /**
+     * Spans are merged if the gap is not more than it, milliseconds
+     */
+    gapThreshold: number
+}
+
+async function aliasOf(hosts: string[], type: timer.site.Type): Promise<Record<string, string | undefined>> {
+    const sites = await siteDatabase.getBatch(hosts.map(host => ({ host, type })))
+    return toMap(sites, s => s.host, s => s.alias)
+}
+
+async function toSpans(ticks: timer.timeline.Tick[], groupBy: timer.timeline.GroupBy): Promise<timer.timeline.Session[]> {
+    const hosts = Array.from(new Set(ticks.map(t => t.host)))
+    let keyOf: (host: string) => string
+    let labelOf: (key: string) => string | undefined
+    if (groupBy === 'domain') {
+        const merger = new CustomizedHostMergeRuler(await mergeRuleDatabase.selectAll())
+        const mergedMap = toMap(hosts, h => h, h => merger.merge(h))
+        const aliasMap = await aliasOf(Array.from(new Set(Object.values(mergedMap))), 'merged')
+        keyOf = host => mergedMap[host] ?? host
+        labelOf = key => aliasMap[key]
+    } else if (groupBy === 'cate') {
+        const sites = await siteDatabase.getBatch(hosts.map(host => ({ host, type: 'normal' })))
+        const cateOfHost = toMap(sites, s => s.host, s => s.cate)
+        const cates = await cateDatabase.listAll()
+        const nameMap: Record<string, string> = toMap(cates, c => c.id, c => c.name)
+        keyOf = host => `${cateOfHost[host] ?? CATE_NOT_SET_ID}`
+        labelOf = key => nameMap[key]
+    } else {
+        const aliasMap = await aliasOf(hosts, 'normal')
+        keyOf = host => host
+        labelOf = key => aliasMap[key]
+    }
+    return ticks.map(({ host, start, duration }) => {
+        const key = keyOf(host)
+        return { key, label: labelOf(key), start, end: start + duration }
+    })
+}
+
+class TimesheetService {
+    /**
+     * Turn the timeline into session blocks
+     */
+    async listSessions(query: SessionQuery): Promise<timer.timeline.Session[]> {
+        const { dateRange: [start, end], groupBy, gapThreshold } = query
+        const ticks = await timelineDatabase.select(start, end)
+        const spans = await toSpans(ticks, groupBy)
+        return mergeSpans(spans, gapThreshold)
+    }
+}
+
+export default new TimesheetService()
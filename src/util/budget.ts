@@ -0,0 +1,56 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+/**
+ * Rate of spent time to change the badge color
+ */
+export const BADGE_RATE = 0.8
+
+/**
+ * Rate of spent time to send notification
+ */
+export const NOTIFY_RATE = 0.9
+
+/**
+ * Rate of spent time to block the page
+ */
+export const BLOCK_RATE = 1
+
+const LEVEL_ORDER: timer.budget.Level[] = ['none', 'badge', 'notify', 'block']
+
+export const compareLevel = (a: timer.budget.Level, b: timer.budget.Level): number => LEVEL_ORDER.indexOf(a) - LEVEL_ORDER.indexOf(b)
+
+function levelOfRate(rate: number): timer.budget.Level {
+    if (rate >= BLOCK_RATE) return 'block'
+    if (rate >= NOTIFY_RATE) return 'notify'
+    if (rate >= BADGE_RATE) return 'badge'
+    return 'none'
+}
+
+export function rateOf(usage: timer.budget.Usage | undefined): number {
+    const { spent = 0, quota = 0 } = usage || {}
+    return quota ? spent / quota : 0
+}
+
+/**
+ * Calc the level with the max rate of daily and weekly usage
+ */
+export function calcLevel(status: Pick<timer.budget.Status, 'daily' | 'weekly'>): timer.budget.Level {
+    const { daily, weekly } = status || {}
+    return levelOfRate(Math.max(rateOf(daily), rateOf(weekly)))
+}
+
+export const hasBudget = (cate: timer.site.Cate | undefined): boolean => !!cate?.budget?.daily || !!cate?.budget?.weekly
+
+/**
+ * The usage with the max rate
+ */
+export function mostUsed(status: Pick<timer.budget.Status, 'daily' | 'weekly'>): timer.budget.Usage | undefined {
+    const { daily, weekly } = status || {}
+    if (!daily || !weekly) return daily ?? weekly
+    return rateOf(daily) >= rateOf(weekly) ? daily : weekly
+}
@@ -0,0 +1,36 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { compileAntPattern } from "./pattern"
+
+export const ALL_RULE_TYPES: timer.cateRule.Type[] = ['host', 'path', 'alias']
+
+export function matchCateRule(rule: timer.cateRule.Rule, target: timer.cateRule.Target): boolean {
+    const { type, pattern, enabled } = rule || {}
+    const trimmed = pattern?.trim?.()
+    if (!enabled || !trimmed || !target?.host) return false
+    const { host, path, alias } = target
+    switch (type) {
+        case 'host':
+            return trimmed.includes('*') ? compileAntPattern(trimmed).test(host) : trimmed === host
+        case 'path':
+            return !!path && compileAntPattern(trimmed).test(path)
+        case 'alias':
+            return !!alias && alias.toLowerCase().includes(trimmed.toLowerCase())
+        default:
+            return false
+    }
+}
+
+/**
+ * Find the category of the first matched rule
+ *
+ * @param rules rules in order
+ */
+export function findCate(rules: timer.cateRule.Rule[], target: timer.cateRule.Target): number | undefined {
+    return rules?.find(rule => matchCateRule(rule, target))?.cateId
+}
@@ -43,10 +43,19 @@ export function defaultStatistics(): StatisticsRequired {
         autoPauseTracking: false,
         // 10 minutes
         autoPauseInterval: 600,
+        idleDetection: false,
+        // 10 minutes
+        idleInterval: 600,
+        countAudible: true,
         collectSiteName: true,
         countLocalFiles: true,
         countTabGroup: false,
         weekStart: 'default',
+        timelineRetention: 30,
+        trackSchedule: false,
+        // Mon-Fri 08:00-19:00
+        scheduleWindows: [{ weekdays: [1, 2, 3, 4, 5], start: 28800, end: 68400 }],
+        offHoursMode: 'separate',
     }
 }
 
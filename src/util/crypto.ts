@@ -0,0 +1,95 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+/**
+ * Prefix of encrypted text
+ */
+export const ENCRYPTED_PREFIX = 'enc:'
+
+const PBKDF2_ITERATIONS = 600000
+const SALT_LENGTH = 16
+const IV_LENGTH = 12
+
+export type CryptoKeys = {
+    aes: CryptoKey
+    /**
+     * Used to generate the iv of deterministic encryption
+     */
+    hmac: CryptoKey
+}
+
+const encoder = () => new TextEncoder()
+
+function toBase64Url(bytes: Uint8Array): string {
+    let binary = ''
+    bytes.forEach(b => binary += String.fromCharCode(b))
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(str: string): Uint8Array<ArrayBuffer> {
+    const binary = atob(str.replace(/-/g, '+').replace(/_/g, '/'))
+    return Uint8Array.from(binary, c => c.charCodeAt(0))
+}
+
+/**
+ * Generate the random salt of one account, which is stored on the remote in plain text,
+ * so all the devices derive the same keys
+ */
+export function generateSalt(): string {
+    return toBase64Url(crypto.getRandomValues(new Uint8Array(SALT_LENGTH)))
+}
+
+/**
+ * Derive keys from the passphrase with PBKDF2
+ *
+ * @param salt generated by {@link generateSalt}
+ */
+export async function deriveKeys(passphrase: string, salt: string): Promise<CryptoKeys> {
+    const material = await crypto.subtle.importKey('raw', encoder().encode(passphrase), 'PBKDF2', false, ['deriveBits'])
+    const bits = await crypto.subtle.deriveBits(
+        { name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64Url(salt), iterations: PBKDF2_ITERATIONS },
+        material,
+        512,
+    )
+    const aes = await crypto.subtle.importKey('raw', bits.slice(0, 32), 'AES-GCM', false, ['encrypt', 'decrypt'])
+    const hmac = await crypto.subtle.importKey('raw', bits.slice(32), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+    return { aes, hmac }
+}
+
+export function isEncrypted(text: string | undefined): boolean {
+    return !!text?.startsWith(ENCRYPTED_PREFIX)
+}
+
+/**
+ * Encrypt the text with AES-GCM
+ *
+ * @param deterministic the same text always gets the same result if true,
+ *                      required if the result is used as a key on the server, like hosts
+ */
+export async function encryptText(keys: CryptoKeys, text: string, deterministic?: boolean): Promise<string> {
+    const plain = encoder().encode(text)
+    const iv = deterministic
+        ? new Uint8Array(await crypto.subtle.sign('HMAC', keys.hmac, plain)).slice(0, IV_LENGTH)
+        : crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+    const cipher = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, keys.aes, plain))
+    const payload = new Uint8Array(iv.length + cipher.length)
+    payload.set(iv)
+    payload.set(cipher, iv.length)
+    return ENCRYPTED_PREFIX + toBase64Url(payload)
+}
+
+/**
+ * @throws if the keys do not match
+ */
+export async function decryptText(keys: CryptoKeys, text: string): Promise<string> {
+    if (!isEncrypted(text)) return text
+    const payload = fromBase64Url(text.substring(ENCRYPTED_PREFIX.length))
+    const iv = payload.slice(0, IV_LENGTH)
+    const cipher = payload.slice(IV_LENGTH)
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, keys.aes, cipher)
+    return new TextDecoder().decode(plain)
+}
@@ -32,6 +32,19 @@ export function exportJson(data: any, fileName: string) {
     exportBlob(blob, fileName + '.json')
 }
 
+/**
+ * Export iCalendar file
+ *
+ * @param content content of the calendar
+ * @param fileName the name of file
+ * @since 3.7.0
+ */
+export function exportIcs(content: string, fileName: string) {
+    const blob = new Blob([content], { type: 'text/calendar' })
+
+    exportBlob(blob, fileName + '.ics')
+}
+
 /**
  * @param fileName  The name of file with suffix
  */
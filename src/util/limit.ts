@@ -0,0 +1,70 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { compileAntPattern, extractHostname } from "./pattern"
+import { getWeekDay, MILL_PER_MINUTE, MILL_PER_SECOND } from "./time"
+
+/**
+ * Minutes granted for each delay
+ */
+export const DELAY_MINUTES = 5
+
+/**
+ * Max count of delays of one rule per day
+ */
+export const MAX_DELAY_COUNT = 3
+
+/**
+ * Whether the condition matches the url
+ *
+ * + www.google.com     = full match of host
+ * + *.google.com       = ant pattern of host
+ * + github.com/**      = ant pattern of url
+ */
+export function matchCond(cond: string, url: string): boolean {
+    cond = cond?.trim?.()
+    if (!cond || !url) return false
+    if (cond.includes('/')) {
+        return compileAntPattern(cond).test(url)
+    }
+    const { host } = extractHostname(url)
+    if (!host) return false
+    if (cond.includes('*')) {
+        return compileAntPattern(cond).test(host)
+    }
+    return cond === host
+}
+
+export function matchRule(rule: timer.limit.Rule, url: string): boolean {
+    return !!rule?.cond?.some(c => matchCond(c, url))
+}
+
+/**
+ * Whether the rule is effective on the date
+ */
+export function isEffective(rule: timer.limit.Rule, date: Date): boolean {
+    const { enabled, weekdays } = rule || {}
+    if (!enabled) return false
+    if (!weekdays?.length) return true
+    return weekdays.includes(getWeekDay(date))
+}
+
+/**
+ * Calc the allowed milliseconds of today, including the delays
+ */
+export function calcAllowed(item: timer.limit.Item): number {
+    const { time = 0, delayCount = 0 } = item || {}
+    return time * MILL_PER_SECOND + delayCount * DELAY_MINUTES * MILL_PER_MINUTE
+}
+
+export function isLimited(item: timer.limit.Item): boolean {
+    return !!item && item.waste >= calcAllowed(item)
+}
+
+export function canDelay(item: timer.limit.Item): boolean {
+    return !!item?.allowDelay && (item.delayCount ?? 0) < MAX_DELAY_COUNT
+}
@@ -99,6 +99,26 @@ export function isValidVirtualHost(host: string) {
 
 }
 
+/**
+ * Compile the ant pattern to regular expression
+ */
+export function compileAntPattern(antPattern: string): RegExp {
+    const segments = antPattern.split('/')
+    let patternStr = segments.map(seg => {
+        if (seg === "**") {
+            return ".*"
+        } else {
+            return seg.replace?.(/\*/g, "[^/]*").replace(/\./g, "\\.")
+        }
+    }).join("/")
+    // "google.com/**" => google\.com.*
+    if (patternStr.endsWith("/.*")) {
+        patternStr = patternStr.substring(0, patternStr.length - 3) + ".*"
+    }
+
+    return new RegExp("^(.+://)?" + patternStr + "/?(\\?.*)?$")
+}
+
 /**
  * Judge virtual host fast
  *
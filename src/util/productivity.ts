@@ -0,0 +1,33 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+export const ALL_LEVELS: timer.productivity.Level[] = ['productive', 'neutral', 'distracting']
+
+export const DEFAULT_WEIGHT = 1
+
+export const MAX_WEIGHT = 5
+
+export const emptyFocus = (): Record<timer.productivity.Level, number> => ({ productive: 0, neutral: 0, distracting: 0 })
+
+/**
+ * Calc the score from 0 to 100 with weighted focus time
+ *
+ * 100 means all the time is productive, 0 means all the time is distracting, and neutral time pulls it to 50
+ *
+ * @returns undefined if no focus time
+ */
+export function calcScore(items: [setting: timer.productivity.Setting, focus: number][]): number | undefined {
+    let total = 0, delta = 0
+    items?.forEach(([{ level, weight }, focus]) => {
+        const weighted = (weight || DEFAULT_WEIGHT) * (focus || 0)
+        total += weighted
+        level === 'productive' && (delta += weighted)
+        level === 'distracting' && (delta -= weighted)
+    })
+    if (!total) return undefined
+    return Math.round(50 + 50 * delta / total)
+}
@@ -0,0 +1,71 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { getStartOfDay, MILL_PER_DAY, MILL_PER_SECOND } from "./time"
+
+const SECOND_PER_DAY = MILL_PER_DAY / MILL_PER_SECOND
+
+/**
+ * Ranges of the schedule in one day, seconds of the day, sorted and merged
+ *
+ * @param weekday day of week, 0 for Sunday
+ */
+function rangesOfDay(windows: timer.option.ScheduleWindow[], weekday: number): Vector<2>[] {
+    const yesterday = (weekday + 6) % 7
+    const ranges: Vector<2>[] = []
+    windows.forEach(({ weekdays, start, end }) => {
+        if (start < end) {
+            weekdays.includes(weekday) && ranges.push([start, end])
+        } else if (start > end) {
+            // Crosses the midnight
+            weekdays.includes(weekday) && ranges.push([start, SECOND_PER_DAY])
+            weekdays.includes(yesterday) && end && ranges.push([0, end])
+        }
+    })
+    ranges.sort((a, b) => a[0] - b[0])
+    const merged: Vector<2>[] = []
+    ranges.forEach(([start, end]) => {
+        const last = merged[merged.length - 1]
+        if (last && start <= last[1]) {
+            last[1] = Math.max(last[1], end)
+        } else {
+            merged.push([start, end])
+        }
+    })
+    return merged
+}
+
+/**
+ * Whether the time is within the schedule
+ */
+export function isInSchedule(windows: timer.option.ScheduleWindow[], time: number): boolean {
+    const dayStart = getStartOfDay(time)
+    const second = (time - dayStart.getTime()) / MILL_PER_SECOND
+    return rangesOfDay(windows, dayStart.getDay()).some(([start, end]) => start <= second && second < end)
+}
+
+/**
+ * Split the time range by the schedule
+ *
+ * @returns milliseconds within and out of the schedule
+ */
+export function splitBySchedule(windows: timer.option.ScheduleWindow[], start: number, end: number): [inHours: number, offHours: number] {
+    let inHours = 0
+    let cursor = start
+    while (cursor < end) {
+        const dayStart = getStartOfDay(cursor)
+        const dayStartTs = dayStart.getTime()
+        const segmentEnd = Math.min(end, dayStartTs + MILL_PER_DAY)
+        rangesOfDay(windows, dayStart.getDay()).forEach(([rangeStart, rangeEnd]) => {
+            const overlapStart = Math.max(cursor, dayStartTs + rangeStart * MILL_PER_SECOND)
+            const overlapEnd = Math.min(segmentEnd, dayStartTs + rangeEnd * MILL_PER_SECOND)
+            overlapEnd > overlapStart && (inHours += overlapEnd - overlapStart)
+        })
+        cursor = segmentEnd
+    }
+    return [inHours, Math.max(end - start, 0) - inHours]
+}
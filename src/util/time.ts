@@ -247,8 +247,7 @@ export function parseTime(dateStr: string | undefined): Date | undefined {
     const month = parseInt(dateStr.substring(4, 6))
     const date = parseInt(dateStr.substring(6, 8))
     const result = new Date()
-    result.setFullYear(year)
-    result.setMonth(month - 1)
-    result.setDate(date)
+    // Set all at once, or the date overflows if today is the 31st
+    result.setFullYear(year, month - 1, date)
     return result
 }
@@ -0,0 +1,143 @@
+/**
+ * Copyright (c) 2025 @0HugoHu
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { MILL_PER_HOUR, MILL_PER_MINUTE } from "./time"
+
+/**
+ * Gap threshold to merge the spans by default
+ */
+export const DEFAULT_GAP_THRESHOLD = 5 * MILL_PER_MINUTE
+
+/**
+ * Merge the spans of the same key, if the gap between them is not more than the threshold,
+ * and no span of other keys falls in the gap, so the sessions never overlap
+ *
+ * @returns sessions sorted by start
+ */
+export function mergeSpans(spans: timer.timeline.Session[], gapThreshold: number): timer.timeline.Session[] {
+    const sorted = [...spans ?? []].sort((a, b) => a.start - b.start)
+    const lastOfKey: Record<string, timer.timeline.Session> = {}
+    const result: timer.timeline.Session[] = []
+    const isInterrupted = (last: timer.timeline.Session, span: timer.timeline.Session) => result
+        .some(s => s.key !== span.key && s.end > last.end && s.start < span.start)
+    sorted.forEach(span => {
+        const last = lastOfKey[span.key]
+        if (last && span.start - last.end <= gapThreshold && !isInterrupted(last, span)) {
+            last.end = Math.max(last.end, span.end)
+            return
+        }
+        const session = { ...span }
+        lastOfKey[span.key] = session
+        result.push(session)
+    })
+    return result
+}
+
+const pad = (num: number, len: number = 2) => num.toString().padStart(len, '0')
+
+/**
+ * Format to the UTC date-time of iCalendar, like 20250101T080000Z
+ */
+const formatIcsTime = (ts: number): string => {
+    const d = new Date(ts)
+    return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}`
+        + `T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`
+}
+
+const escapeIcsText = (text: string): string => text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+
+const MAX_ICS_OCTETS = 75
+
+const utf8Length = (char: string): number => {
+    const code = char.codePointAt(0) ?? 0
+    if (code < 0x80) return 1
+    if (code < 0x800) return 2
+    return code < 0x10000 ? 3 : 4
+}
+
+/**
+ * Lines of iCalendar should not be longer than 75 octets, excluding the line break
+ *
+ * Folded by UTF-8 bytes without splitting any character, and the leading space of continuation counts
+ */
+const foldIcsLine = (line: string): string => {
+    const parts: string[] = []
+    let part = ''
+    let octets = 0
+    Array.from(line).forEach(char => {
+        const len = utf8Length(char)
+        if (octets + len > MAX_ICS_OCTETS) {
+            parts.push(part)
+            part = ''
+            // The leading space
+            octets = 1
+        }
+        part += char
+        octets += len
+    })
+    parts.push(part)
+    return parts.join('\r\n ')
+}
+
+/**
+ * Generate the content of .ics file
+ *
+ * @param labelOf the summary of one session
+ */
+export function toIcs(sessions: timer.timeline.Session[], labelOf: (session: timer.timeline.Session) => string): string {
+    const stamp = formatIcsTime(Date.now())
+    const lines: string[] = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Time Tracker//Timesheet//EN',
+        'CALSCALE:GREGORIAN',
+    ]
+    sessions.forEach(session => {
+        const { key, start, end } = session
+        lines.push(
+            'BEGIN:VEVENT',
+            `UID:${start}-${encodeURIComponent(key)}@timetracker`,
+            `DTSTAMP:${stamp}`,
+            `DTSTART:${formatIcsTime(start)}`,
+            `DTEND:${formatIcsTime(end)}`,
+            `SUMMARY:${escapeIcsText(labelOf(session))}`,
+            'END:VEVENT',
+        )
+    })
+    lines.push('END:VCALENDAR')
+    return lines.map(foldIcsLine).join('\r\n') + '\r\n'
+}
+
+const escapeCsvCell = (cell: string): string => /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell
+
+/**
+ * Generate the rows of timesheet, duration in hours
+ *
+ * @param title titles of start, end, duration and label
+ * @param formatTime formatter of start and end
+ */
+export function toTimesheetRows(
+    sessions: timer.timeline.Session[],
+    title: [start: string, end: string, duration: string, label: string],
+    formatTime: (ts: number) => string,
+    labelOf: (session: timer.timeline.Session) => string,
+): string[][] {
+    const rows = sessions.map(session => {
+        const { start, end } = session
+        return [
+            formatTime(start),
+            formatTime(end),
+            ((end - start) / MILL_PER_HOUR).toFixed(2),
+            escapeCsvCell(labelOf(session)),
+        ]
+    })
+    return [title.map(escapeCsvCell), ...rows]
+}
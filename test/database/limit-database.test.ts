@@ -0,0 +1,52 @@
+import db from "@db/limit-database"
+import { mockStorage } from "../__mock__/storage"
+
+describe('limit-database', () => {
+    beforeAll(mockStorage)
+
+    beforeEach(async () => chrome.storage.local.clear())
+
+    test('save and remove', async () => {
+        const id1 = await db.save({ name: 'video', cond: ['www.youtube.com'], time: 3600, weekdays: [], enabled: true, allowDelay: false })
+        const id2 = await db.save({ name: 'social', cond: ['*.twitter.com'], time: 1800, weekdays: [5, 6], enabled: false, allowDelay: true })
+        expect(id2).toEqual(id1 + 1)
+        let all = await db.all()
+        expect(all.length).toEqual(2)
+        expect(all.find(r => r.id === id2)).toEqual({
+            id: id2, name: 'social', cond: ['*.twitter.com'], time: 1800, weekdays: [5, 6], enabled: false, allowDelay: true,
+        })
+
+        await db.save({ id: id1, name: 'video', cond: ['www.youtube.com'], time: 600, weekdays: [], enabled: true, allowDelay: false })
+        all = await db.all()
+        expect(all.find(r => r.id === id1)?.time).toEqual(600)
+
+        await db.remove(id1)
+        all = await db.all()
+        expect(all.map(r => r.id)).toEqual([id2])
+    })
+
+    test('records', async () => {
+        const date = new Date(2025, 0, 1)
+        await db.increaseWaste(date, [1, 2], 1000)
+        await db.increaseWaste(date, [1], 500)
+        await db.increaseDelay({ ruleId: 1, ts: date.getTime(), url: 'https://www.youtube.com' })
+
+        const records = await db.getRecordsOf(date)
+        expect(records[1]).toEqual([1500, 1])
+        expect(records[2]).toEqual([1000, 0])
+        expect(await db.getRecordsOf('20250102')).toEqual({})
+        expect((await db.listDelayRecords()).length).toEqual(1)
+    })
+
+    test('import data', async () => {
+        await db.save({ name: 'video', cond: ['www.youtube.com'], time: 3600, weekdays: [], enabled: true, allowDelay: false })
+        const data = await chrome.storage.local.get()
+        await chrome.storage.local.clear()
+        await db.save({ name: 'video', cond: ['www.bilibili.com'], time: 60, weekdays: [], enabled: true, allowDelay: false })
+        await db.importData(data)
+        // Rules with duplicate names are ignored
+        const all = await db.all()
+        expect(all.length).toEqual(1)
+        expect(all[0].cond).toEqual(['www.bilibili.com'])
+    })
+})
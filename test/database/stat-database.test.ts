@@ -189,4 +189,22 @@ describe('stat-database', () => {
         await db.importData(false)
         expect(await db.select()).toEqual([])
     })
+
+    test("hoursScope", async () => {
+        await db.accumulate(baidu, nowStr, { ...resultOf(300, 2), off: resultOf(100, 1) })
+        await db.accumulate(baidu, nowStr, { ...resultOf(50, 1), off: resultOf(50, 0) })
+        await db.accumulate(google, nowStr, resultOf(100, 1))
+        expect(await db.get(baidu, now)).toEqual({ ...resultOf(350, 3), off: resultOf(150, 1) })
+
+        const both = await db.select({ hoursScope: 'both' })
+        expect(both.find(r => r.host === baidu)).toEqual({ host: baidu, date: nowStr, ...resultOf(350, 3) })
+
+        const inHours = await db.select({ hoursScope: 'in' })
+        expect(inHours.length).toEqual(2)
+        expect(inHours.find(r => r.host === baidu)).toEqual({ host: baidu, date: nowStr, ...resultOf(200, 2) })
+
+        // Rows without off-hours data are ignored
+        const offHours = await db.select({ hoursScope: 'off' })
+        expect(offHours).toEqual([{ host: baidu, date: nowStr, ...resultOf(150, 1) }])
+    })
 })
\ No newline at end of file
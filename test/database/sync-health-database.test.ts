@@ -0,0 +1,33 @@
+import db from "@db/sync-health-database"
+import { mockStorage } from "../__mock__/storage"
+
+describe('sync-health-database', () => {
+    beforeAll(mockStorage)
+
+    beforeEach(async () => chrome.storage.local.clear())
+
+    test('failures', async () => {
+        for (let i = 0; i < 60; i++) {
+            await db.addFailure({ ts: i, source: 'realtime', message: `error ${i}` })
+        }
+        const failures = await db.listFailures()
+        // Latest first, and limited
+        expect(failures).toHaveLength(50)
+        expect(failures[0].message).toBe('error 59')
+    })
+
+    test('conflicts', async () => {
+        const conflict: timer.backup.ConflictRecord = {
+            ts: 1, host: 'github.com', date: '20250101', type: 'timestamp_conflict', clientId: 'phone',
+        }
+        await db.addConflicts([conflict])
+        await db.addConflicts([{ ...conflict, ts: 2 }])
+        expect((await db.listConflicts()).map(c => c.ts)).toEqual([2, 1])
+
+        await db.updateConnection({ connected: true, method: 'websocket', ts: 1 })
+        await db.clear()
+        expect(await db.listConflicts()).toEqual([])
+        // Connection kept
+        expect((await db.getConnection())?.connected).toBe(true)
+    })
+})
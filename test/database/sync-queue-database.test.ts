@@ -0,0 +1,64 @@
+import db from "@db/sync-queue-database"
+import { mockStorage } from "../__mock__/storage"
+
+describe('sync-queue-database', () => {
+    beforeAll(mockStorage)
+
+    beforeEach(async () => chrome.storage.local.clear())
+
+    test('coalesce by host and date', async () => {
+        await db.enqueue([
+            { host: 'github.com', date: '20250101', focus: 100, time: 0 },
+            { host: 'github.com', date: '20250101', focus: 0, time: 1 },
+            { host: 'github.com', date: '20250102', focus: 0, time: 0, run: 10 },
+        ])
+        await db.enqueue([{ host: 'github.com', date: '20250101', focus: 200, time: 1 }])
+        expect(await db.count()).toBe(2)
+        expect(await db.peek()).toEqual([
+            { host: 'github.com', date: '20250101', focus: 300, time: 2 },
+            { host: 'github.com', date: '20250102', focus: 0, time: 0, run: 10 },
+        ])
+        expect(await db.peek(1)).toHaveLength(1)
+    })
+
+    test('keep increments enqueued during flushing', async () => {
+        await db.enqueue([{ host: 'github.com', date: '20250101', focus: 100, time: 1 }])
+        const flushing = await db.peek()
+        await db.enqueue([{ host: 'github.com', date: '20250101', focus: 50, time: 0 }])
+        await db.remove(flushing)
+        expect(await db.peek()).toEqual([{ host: 'github.com', date: '20250101', focus: 50, time: 0 }])
+
+        await db.remove(await db.peek())
+        expect(await db.count()).toBe(0)
+    })
+
+    test('concurrent mutations', async () => {
+        // Copied like the real storage
+        const get = chrome.storage.local.get
+        chrome.storage.local.get = ((key: any, cb: ArgCallback<any>) => get(key, (result: any) => cb(JSON.parse(JSON.stringify(result))))) as any
+        await db.enqueue([{ host: 'github.com', date: '20250101', focus: 100, time: 1 }])
+        const flushing = await db.peek()
+        await Promise.all([
+            ...Array.from({ length: 10 }, () => db.enqueue([{ host: 'github.com', date: '20250101', focus: 1, time: 0 }])),
+            db.remove(flushing),
+            db.enqueue([{ host: 'google.com', date: '20250101', focus: 0, time: 1 }]),
+        ])
+        expect(await db.peek()).toEqual([
+            { host: 'github.com', date: '20250101', focus: 10, time: 0 },
+            { host: 'google.com', date: '20250101', focus: 0, time: 1 },
+        ])
+        chrome.storage.local.get = get
+    })
+
+    test('media time', async () => {
+        await db.enqueue([
+            { host: 'youtube.com', date: '20250101', focus: 0, time: 0, media: 100 },
+            { host: 'youtube.com', date: '20250101', focus: 10, time: 1 },
+        ])
+        expect(await db.peek()).toEqual([{ host: 'youtube.com', date: '20250101', focus: 10, time: 1, media: 100 }])
+
+        await db.enqueue([{ host: 'youtube.com', date: '20250101', focus: 0, time: 0, run: 5 }])
+        await db.remove([{ host: 'youtube.com', date: '20250101', focus: 10, time: 1, media: 100 }])
+        expect(await db.peek()).toEqual([{ host: 'youtube.com', date: '20250101', focus: 0, time: 0, run: 5 }])
+    })
+})
@@ -0,0 +1,64 @@
+import StoragePromise from "@db/common/storage-promise"
+import db from "@db/timeline-database"
+import { MILL_PER_DAY, MILL_PER_MINUTE } from "@util/time"
+import { mockStorage } from "../__mock__/storage"
+
+const today = new Date(2025, 4, 20)
+const yesterday = new Date(today.getTime() - MILL_PER_DAY)
+const at = (date: Date, minutes: number) => date.getTime() + minutes * MILL_PER_MINUTE
+
+describe('timeline-database', () => {
+    beforeAll(mockStorage)
+
+    beforeEach(async () => chrome.storage.local.clear())
+
+    // Must be the first, since the migration only runs once
+    test('migrate legacy data', async () => {
+        await chrome.storage.local.set({
+            '__timer__TL': {
+                '20250520': { 'github.com': [{ s: at(today, 60), d: 1000 }] },
+            },
+        })
+        const ticks = await db.select(today, today)
+        expect(ticks).toEqual([{ host: 'github.com', start: at(today, 60), duration: 1000 }])
+        const all = await new StoragePromise().get()
+        expect(all['__timer__TL']).toBeUndefined()
+        expect(all['__timer__TL_20250520']).toEqual({ 'github.com': [60 * MILL_PER_MINUTE, 1000] })
+        expect(all['__timer__TLD']).toEqual(['20250520'])
+    })
+
+    test('save and select', async () => {
+        await db.batchSave([
+            { host: 'github.com', start: at(yesterday, 10), duration: 2000 },
+            { host: 'github.com', start: at(today, 10), duration: 2000 },
+            // Merged with the former one
+            { host: 'github.com', start: at(today, 10) + 2500, duration: 1000 },
+            // Conflict
+            { host: 'github.com', start: at(today, 10) + 100, duration: 1000 },
+            { host: 'google.com', start: at(today, 20), duration: 3000 },
+        ])
+        const todayTicks = await db.select(today, today)
+        expect(todayTicks).toEqual([
+            { host: 'github.com', start: at(today, 10), duration: 3500 },
+            { host: 'google.com', start: at(today, 20), duration: 3000 },
+        ])
+        expect((await db.select(yesterday, today)).length).toEqual(3)
+        expect(await db.select(new Date(yesterday.getTime() - MILL_PER_DAY), new Date(yesterday.getTime() - MILL_PER_DAY))).toEqual([])
+    })
+
+    test('remove outdated', async () => {
+        await db.batchSave([
+            { host: 'github.com', start: at(yesterday, 10), duration: 2000 },
+            { host: 'github.com', start: at(today, 10), duration: 2000 },
+        ])
+        const get = jest.mocked(chrome.storage.local.get)
+        get.mockClear()
+        await db.removeBefore('20250520')
+        // Not read the whole storage
+        expect(get.mock.calls.map(([keys]) => keys)).not.toContainEqual(null)
+        expect(await db.select(yesterday, today)).toEqual([{ host: 'github.com', start: at(today, 10), duration: 2000 }])
+        const all = await new StoragePromise().get()
+        expect(all['__timer__TL_20250519']).toBeUndefined()
+        expect(all['__timer__TLD']).toEqual(['20250520'])
+    })
+})
@@ -0,0 +1,234 @@
+/**
+ * @jest-environment node
+ */
+import { mkdtemp, rm } from "fs/promises"
+import { type AddressInfo } from "net"
+import { tmpdir } from "os"
+import { join } from "path"
+import { WebSocket } from "ws"
+import { createSyncServer, type SyncServer } from "../../server/src/app"
+
+const API_KEY = 'test-key'
+
+let dataDir: string
+let syncServer: SyncServer
+let baseUrl: string
+
+const request = async (method: string, path: string, body?: unknown, clientId?: string) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json', 'X-Api-Key': API_KEY }
+    clientId && (headers['X-Client-Id'] = clientId)
+    const response = await fetch(baseUrl + path, { method, headers, body: body ? JSON.stringify(body) : undefined })
+    return { status: response.status, body: await response.json() }
+}
+
+describe('server/sync-server', () => {
+    beforeEach(async () => {
+        dataDir = await mkdtemp(join(tmpdir(), 'timer-sync-'))
+        syncServer = createSyncServer({ dataDir, apiKey: API_KEY })
+        await new Promise<void>(resolve => syncServer.server.listen(0, resolve))
+        const { port } = syncServer.server.address() as AddressInfo
+        baseUrl = `http://localhost:${port}`
+    })
+
+    afterEach(async () => {
+        await syncServer.close()
+        await rm(dataDir, { recursive: true, force: true })
+    })
+
+    test('api key', async () => {
+        const response = await fetch(baseUrl + '/sync')
+        expect(response.status).toBe(403)
+    })
+
+    test('upload and download', async () => {
+        const rows = [
+            { host: 'github.com', date: '20250101', focus: 100, time: 1, sessionId: 's1', lastModified: 1 },
+            { host: 'github.com', date: '20250201', focus: 200, time: 2, sessionId: 's1', lastModified: 1 },
+            { host: 'invalid', date: '2025-01-01' },
+        ]
+        const upload = await request('POST', '/sync', { rows, batchId: 'b1' }, 'c1')
+        expect(upload.body).toMatchObject({ success: true, processed: 3, successful: 2, failed: 1 })
+
+        // Same session, accumulated
+        await request('POST', '/sync', { rows: [{ ...rows[0], lastModified: 2 }] }, 'c1')
+        // Another client
+        await request('POST', '/sync', { rows: [{ ...rows[0], sessionId: 's2' }] }, 'c2')
+
+        const { body: { clients } } = await request('GET', '/sync')
+        expect(clients).toEqual([
+            { id: 'c1', name: 'c1', minDate: '20250101', maxDate: '20250201' },
+            { id: 'c2', name: 'c2', minDate: '20250101', maxDate: '20250101' },
+        ])
+
+        const { body: download } = await request('GET', '/data?clientId=c1&startDate=20250101&endDate=2025-01-31')
+        expect(download.data).toEqual([{ host: 'github.com', date: '20250101', focus: 200, time: 2, media: 0, clientId: 'c1' }])
+
+        const { body: all } = await request('GET', '/data')
+        expect(all.count).toBe(3)
+    })
+
+    test('invalid client id', async () => {
+        const row = { host: 'github.com', date: '20250101', focus: 1, time: 1 }
+        for (const clientId of ['.', '..']) {
+            expect((await request('POST', '/sync', { rows: [row] }, clientId)).status).toBe(400)
+            expect((await request('PUT', '/data', { rows: [row] }, clientId)).status).toBe(400)
+            expect((await request('GET', `/data?clientId=${clientId}`)).status).toBe(400)
+        }
+        const { body } = await request('GET', '/sync')
+        expect(body.clients).toEqual([])
+    })
+
+    test('conflict of sessions', async () => {
+        const row = { host: 'github.com', date: '20250101', focus: 100, time: 3, sessionId: 's1', lastModified: 10 }
+        await request('POST', '/sync', { rows: [row] }, 'c1')
+        // Newer session, max values
+        const { body: newer } = await request('POST', '/sync', { rows: [{ ...row, focus: 50, time: 5, sessionId: 's2', lastModified: 20 }] }, 'c1')
+        expect(newer.results[0].conflicts[0]).toMatchObject({ type: 'session_conflict', overwritten: { focus: 100, time: 3 } })
+        // Older session, rejected
+        const { body: older } = await request('POST', '/sync', { rows: [{ ...row, focus: 999, sessionId: 's3', lastModified: 15 }] }, 'c1')
+        expect(older.results[0].conflicts[0]).toMatchObject({ type: 'timestamp_conflict', rejected: true })
+
+        const { body } = await request('GET', '/data', undefined, 'c1')
+        expect(body.data).toEqual([{ host: 'github.com', date: '20250101', focus: 100, time: 5, media: 0, clientId: 'c1' }])
+    })
+
+    test('update', async () => {
+        const row = { host: 'github.com', date: '20250101', focus: 100, time: 3 }
+        await request('POST', '/sync', { rows: [row] }, 'c1')
+        const { body: update } = await request('PUT', '/data', { rows: [{ ...row, focus: 10 }] }, 'c1')
+        expect(update.results[0]).toMatchObject({ success: true, version: 2 })
+        const { body } = await request('GET', '/data', undefined, 'c1')
+        expect(body.data[0].focus).toBe(10)
+    })
+
+    test('media time', async () => {
+        const row = { host: 'youtube.com', date: '20250101', focus: 100, time: 1, media: 300, sessionId: 's1', lastModified: 10 }
+        await request('POST', '/sync', { rows: [row] }, 'c1')
+        // Same session, accumulated
+        await request('POST', '/sync', { rows: [{ ...row, media: 200 }] }, 'c1')
+        const media = async () => (await request('GET', '/data', undefined, 'c1')).body.data[0].media
+        expect(await media()).toBe(500)
+        // Newer session, max values
+        await request('POST', '/sync', { rows: [{ ...row, media: 800, sessionId: 's2', lastModified: 20 }] }, 'c1')
+        expect(await media()).toBe(800)
+        // Overwritten
+        await request('PUT', '/data', { rows: [{ ...row, media: 50 }] }, 'c1')
+        expect(await media()).toBe(50)
+
+        const { body } = await request('GET', '/aggregate?startDate=20250101&endDate=20250131')
+        expect(body.data[0].media).toBe(50)
+    })
+
+    test('aggregate', async () => {
+        const rows = [
+            { host: 'github.com', date: '20250106', focus: 100, time: 1 },
+            { host: 'github.com', date: '20250107', focus: 200, time: 2 },
+            { host: 'google.com', date: '20250107', focus: 50, time: 1 },
+            { host: 'github.com', date: '20250201', focus: 10, time: 1 },
+        ]
+        await request('POST', '/sync', { rows }, 'c1')
+        await request('POST', '/sync', { rows: [rows[0]] }, 'c2')
+
+        const { body: byHost } = await request('GET', '/aggregate?startDate=20250101&endDate=20250131&clientIds=c1')
+        expect(byHost.data).toEqual([
+            { clientId: 'c1', host: 'github.com', focus: 300, time: 3, media: 0 },
+            { clientId: 'c1', host: 'google.com', focus: 50, time: 1, media: 0 },
+        ])
+        // The same as downloading
+        const { body: byDate } = await request('GET', '/aggregate?startDate=20250101&endDate=20250228&clientIds=c1&groupBy=host,date')
+        expect(byDate.count).toBe(4)
+        // Weeks start on Monday, of all the clients
+        const { body: byWeek } = await request('GET', '/aggregate?startDate=20250101&endDate=20250228&groupBy=week')
+        expect(byWeek.data).toEqual([
+            { clientId: 'c1', date: '20250106', focus: 350, time: 4, media: 0 },
+            { clientId: 'c1', date: '20250127', focus: 10, time: 1, media: 0 },
+            { clientId: 'c2', date: '20250106', focus: 100, time: 1, media: 0 },
+        ])
+
+        expect((await request('GET', '/aggregate?startDate=20250201&endDate=20250101')).status).toBe(400)
+        expect((await request('GET', '/aggregate?startDate=20250101&endDate=20250131&groupBy=week,month')).status).toBe(400)
+        expect((await request('GET', '/aggregate?startDate=20250101&endDate=20250131&clientIds=..')).status).toBe(400)
+    })
+
+    test('nothing archived', async () => {
+        await request('POST', '/sync', { rows: [{ host: 'github.com', date: '20250101', focus: 1, time: 1 }] }, 'c1')
+        const { body: list } = await request('GET', '/archive?clientIds=c1')
+        expect(list).toEqual({ success: true, data: { c1: [] } })
+        expect((await request('GET', '/archive?clientIds=c1&month=202501')).status).toBe(404)
+        expect((await request('POST', '/archive', { clientId: 'c1', month: '202501' })).status).toBe(404)
+        expect((await request('POST', '/archive', { clientId: 'c1' })).status).toBe(400)
+    })
+
+    test('crypto meta', async () => {
+        expect((await request('GET', '/crypto')).body).toEqual({ success: true })
+        expect((await request('PUT', '/crypto', { verifier: 'enc:abc' })).status).toBe(400)
+        await request('PUT', '/crypto', { salt: 'salt', verifier: 'enc:abc' })
+        expect((await request('GET', '/crypto')).body.data).toEqual({ salt: 'salt', verifier: 'enc:abc' })
+        // Encryption disabled
+        await request('PUT', '/crypto', { salt: 'salt' })
+        expect((await request('GET', '/crypto')).body.data).toEqual({ salt: 'salt' })
+        // Not listed as a client
+        expect((await request('GET', '/sync')).body.clients).toEqual([])
+    })
+
+    test('save and clear clients', async () => {
+        const row = { host: 'github.com', date: '20250101', focus: 1, time: 1 }
+        await request('POST', '/sync', { rows: [row] }, 'c1')
+        await request('POST', '/sync', { rows: [{ ...row, date: '20250201' }] }, 'c2')
+        expect((await request('PUT', '/clients', { clients: [{ id: '..' }] })).status).toBe(400)
+        const clients = [
+            { id: 'c1', name: 'Laptop', minDate: '20240101', maxDate: '20250101' },
+            { id: 'c2', name: 'Phone', retired: true },
+            { id: 'c3', name: 'Tablet', minDate: '20240101', maxDate: '20240102' },
+        ]
+        expect((await request('PUT', '/clients', { clients })).body.success).toBe(true)
+        // Date ranges derived from the rows if any
+        expect((await request('GET', '/sync')).body.clients).toEqual([
+            { id: 'c1', name: 'Laptop', minDate: '20250101', maxDate: '20250101' },
+            { id: 'c2', name: 'Phone', minDate: '20250201', maxDate: '20250201', retired: true },
+            { id: 'c3', name: 'Tablet', minDate: '20240101', maxDate: '20240102' },
+        ])
+
+        const { body: cleared } = await request('DELETE', '/data?clientId=c2', undefined, 'c1')
+        expect(cleared).toEqual({ success: true, count: 1 })
+        expect((await request('GET', '/data', undefined, 'c2')).body.count).toBe(0)
+        expect((await request('GET', '/data', undefined, 'c1')).body.count).toBe(1)
+        await request('PUT', '/clients', { clients: clients.filter(c => c.id !== 'c2') })
+        expect((await request('GET', '/sync')).body.clients.map((c: { id: string }) => c.id)).toEqual(['c1', 'c3'])
+    })
+
+    test('api key of websocket', async () => {
+        const wsUrl = baseUrl.replace('http', 'ws') + '?clientId=c1'
+        const rejected = (url: string, headers?: Record<string, string>) => new Promise<boolean>(resolve => {
+            const ws = new WebSocket(url, { headers })
+            ws.on('open', () => {
+                ws.close()
+                resolve(false)
+            })
+            ws.on('error', () => resolve(true))
+        })
+        expect(await rejected(wsUrl)).toBeTruthy()
+        expect(await rejected(wsUrl + '&apiKey=wrong')).toBeTruthy()
+        expect(await rejected(wsUrl, { 'X-Api-Key': API_KEY })).toBeFalsy()
+    })
+
+    test('notification', async () => {
+        const ws = new WebSocket(baseUrl.replace('http', 'ws') + `?clientId=c1&apiKey=${API_KEY}`)
+        const messages: any[] = []
+        await new Promise(resolve => ws.on('open', resolve))
+        const received = new Promise<void>(resolve => ws.on('message', data => {
+            messages.push(JSON.parse(data.toString()))
+            messages.length === 2 && resolve()
+        }))
+        ws.send(JSON.stringify({ action: 'ping' }))
+        await request('POST', '/sync', { rows: [{ host: 'github.com', date: '20250101', focus: 1 }], batchId: 'b1' }, 'c1')
+        await received
+        ws.close()
+
+        expect(messages[0].action).toBe('pong')
+        expect(messages[1]).toMatchObject({
+            event: 'sync-update',
+            data: { type: 'data-updated', clientId: 'c1', batchId: 'b1', updatedRows: 1 },
+        })
+    })
+})
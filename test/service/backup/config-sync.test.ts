@@ -0,0 +1,70 @@
+import configSyncDb from "@db/config-sync-database"
+import { changesOf, mergeConfig, syncConfig } from "@service/backup/config-sync"
+import whitelistService from "@service/whitelist-service"
+import { MILL_PER_DAY } from "@util/time"
+import { mockStorage } from "../../__mock__/storage"
+
+jest.mock('@service/components/option-holder', () => ({ __esModule: true, default: { get: jest.fn(), set: jest.fn() } }))
+
+const entity = (ts: number, cid: string, value?: unknown): timer.backup.ConfigEntity => value === undefined
+    ? { ts, cid, deleted: true }
+    : { ts, cid, value }
+
+describe('service/backup/config-sync', () => {
+    beforeAll(mockStorage)
+
+    beforeEach(() => chrome.storage.local.clear())
+
+    test('new client inherits the remote config', () => {
+        const remote = { whitelist: { 'github.com': entity(10, 'a', true) }, option: { popupMax: entity(10, 'a', 20) } }
+        const merged = mergeConfig({}, { option: { popupMax: 10, locale: 'en' } }, remote, 'b', 100)
+        expect(merged.option).toEqual({ popupMax: entity(10, 'a', 20), locale: entity(100, 'b', 'en') })
+        // Types not shared are kept
+        expect(merged.whitelist).toEqual(remote.whitelist)
+        expect(changesOf({ popupMax: 10, locale: 'en' }, merged.option!)).toEqual([['popupMax', 20]])
+    })
+
+    test('last writer wins with tombstones', () => {
+        const last = { whitelist: { 'github.com': entity(10, 'b', true), 'google.com': entity(10, 'b', true) } }
+        const remote = { whitelist: { 'github.com': entity(50, 'a'), 'google.com': entity(10, 'b', true) } }
+        // google.com removed locally, baidu.com added locally, github.com removed by another client
+        const merged = mergeConfig(last, { whitelist: { 'github.com': true, 'baidu.com': true } }, remote, 'b', 100)
+        expect(merged.whitelist).toEqual({
+            'github.com': entity(50, 'a'),
+            'google.com': entity(100, 'b'),
+            'baidu.com': entity(100, 'b', true),
+        })
+        expect(changesOf({ 'github.com': true, 'baidu.com': true }, merged.whitelist!)).toEqual([['github.com', undefined]])
+
+        // Re-added locally later, wins the tombstone
+        const again = mergeConfig(merged, { whitelist: { 'github.com': true } }, merged, 'b', 200)
+        expect(again.whitelist?.['github.com']).toEqual(entity(200, 'b', true))
+    })
+
+    test('expired tombstones are removed', () => {
+        const remote = { mergeRule: { 'a.com': entity(1, 'a') } }
+        const merged = mergeConfig({ mergeRule: {} }, { mergeRule: {} }, remote, 'b', 100 * MILL_PER_DAY)
+        expect(merged.mergeRule).toEqual({})
+    })
+
+    test('sync through the coordinator', async () => {
+        let content: string | undefined = JSON.stringify({ whitelist: { 'github.com': entity(10, 'a', true) } })
+        const coordinator = {
+            downloadConfig: async () => content,
+            uploadConfig: async (_: unknown, val: string) => { content = val },
+        } as unknown as timer.backup.Coordinator<unknown>
+        const context = { cid: 'b' } as timer.backup.CoordinatorContext<unknown>
+        await whitelistService.add('google.com')
+
+        await syncConfig(coordinator, context, ['whitelist'])
+        expect((await whitelistService.listAll()).sort()).toEqual(['github.com', 'google.com'])
+        const uploaded = JSON.parse(content!) as timer.backup.ConfigSnapshot
+        expect(Object.keys(uploaded.whitelist ?? {}).sort()).toEqual(['github.com', 'google.com'])
+        expect(await configSyncDb.getSnapshot()).toEqual(uploaded)
+
+        // Removed locally
+        await whitelistService.remove('github.com')
+        await syncConfig(coordinator, context, ['whitelist'])
+        expect(JSON.parse(content!).whitelist['github.com'].deleted).toBe(true)
+    })
+})
@@ -0,0 +1,136 @@
+/**
+ * @jest-environment node
+ */
+import syncDb from "@db/backup-database"
+import CryptoCoordinator, { clearVerified } from "@service/backup/crypto/coordinator"
+import { mockStorage } from "../../__mock__/storage"
+
+/**
+ * Coordinator storing everything in memory
+ */
+class MemoryCoordinator implements timer.backup.Coordinator<never> {
+    clients: timer.backup.Client[] = []
+    rows: Record<string, timer.core.Row[]> = {}
+    meta: timer.backup.CryptoMeta | undefined
+
+    async updateClients(_: timer.backup.CoordinatorContext<never>, clients: timer.backup.Client[]) {
+        this.clients = clients
+    }
+    async listAllClients() {
+        return this.clients
+    }
+    async download(context: timer.backup.CoordinatorContext<never>, _start: Date, _end: Date, targetCid?: string) {
+        return this.rows[targetCid ?? context.cid] ?? []
+    }
+    async upload(context: timer.backup.CoordinatorContext<never>, rows: timer.core.Row[]) {
+        this.rows[context.cid] = rows
+    }
+    async testAuth() {
+        return undefined
+    }
+    async clear(_: timer.backup.CoordinatorContext<never>, client: timer.backup.Client) {
+        delete this.rows[client.id]
+    }
+    async downloadCryptoMeta() {
+        return this.meta
+    }
+    async uploadCryptoMeta(_: timer.backup.CoordinatorContext<never>, meta: timer.backup.CryptoMeta) {
+        this.meta = meta
+    }
+}
+
+const contextOf = (cid: string): timer.backup.CoordinatorContext<never> => ({
+    cid,
+    cache: undefined as never,
+    handleCacheChanged: async () => { },
+})
+
+describe('service/backup/crypto/coordinator', () => {
+    beforeAll(mockStorage)
+
+    beforeEach(clearVerified)
+
+    test('hosts and names not leaked', async () => {
+        const inner = new MemoryCoordinator()
+        const coordinator = new CryptoCoordinator(inner, 'passphrase', 'c1')
+        const context = contextOf('c1')
+        const rows: timer.core.Row[] = [{ host: 'github.com', date: '20250101', focus: 100, time: 1 }]
+        await coordinator.upload(context, rows)
+        await coordinator.updateClients(context, [{ id: 'c1', name: 'Work laptop', maxDate: '20250101' }])
+
+        expect(JSON.stringify(inner.rows)).not.toContain('github')
+        expect(JSON.stringify(inner.clients)).not.toContain('Work')
+        expect(inner.rows.c1[0]).toMatchObject({ date: '20250101', focus: 100, time: 1 })
+
+        expect(await coordinator.download(context, new Date(), new Date())).toEqual(rows)
+        expect((await coordinator.listAllClients(context))[0].name).toBe('Work laptop')
+        // Deterministic hosts
+        await coordinator.upload(context, rows)
+        const host = inner.rows.c1[0].host
+        await coordinator.upload(context, rows)
+        expect(inner.rows.c1[0].host).toBe(host)
+    })
+
+    test('verify', async () => {
+        const inner = new MemoryCoordinator()
+        const context = contextOf('c1')
+        const plain = new CryptoCoordinator(inner, undefined, 'c1')
+        expect(await plain.verify(context)).toBe('plain')
+
+        const encrypted = new CryptoCoordinator(inner, 'passphrase', 'c1')
+        await encrypted.upload(context, [{ host: 'github.com', date: '20250101', focus: 100, time: 1 }])
+        expect(await encrypted.verify(context)).toBe('matched')
+        expect(await encrypted.testAuth({}, {})).toBeUndefined()
+
+        expect(await plain.verify(context)).toBe('mismatched')
+        expect(await plain.testAuth({}, {})).toBeTruthy()
+        await expect(plain.download(context, new Date(), new Date())).rejects.toThrow()
+
+        const wrong = new CryptoCoordinator(inner, 'wrong', 'c1')
+        expect(await wrong.verify(context)).toBe('mismatched')
+        expect(await wrong.testAuth({}, {})).toBeTruthy()
+    })
+
+    test('salt of each account', async () => {
+        const rows: timer.core.Row[] = [{ host: 'github.com', date: '20250101', focus: 100, time: 1 }]
+        const account1 = new MemoryCoordinator()
+        const context = contextOf('c1')
+        await new CryptoCoordinator(account1, 'passphrase', 'c1').upload(context, rows)
+        // Salt and verifier saved in plain text
+        const salt = account1.meta?.salt
+        expect(salt).toBeTruthy()
+        expect(account1.meta?.verifier).toBeTruthy()
+        expect(await syncDb.getSalt()).toBe(salt)
+
+        // Same salt used by another device
+        clearVerified()
+        const device2 = new CryptoCoordinator(account1, 'passphrase', 'c2')
+        expect(await device2.verify(contextOf('c2'))).toBe('matched')
+        expect(await device2.download(contextOf('c2'), new Date(), new Date(), 'c1')).toEqual(rows)
+        expect(account1.meta?.salt).toBe(salt)
+
+        // Another account with the same passphrase
+        clearVerified()
+        const account2 = new MemoryCoordinator()
+        await new CryptoCoordinator(account2, 'passphrase', 'c1').upload(context, rows)
+        expect(account2.meta?.salt).not.toBe(salt)
+        expect(account2.rows.c1[0].host).not.toBe(account1.rows.c1[0].host)
+    })
+
+    test('verified results cached', async () => {
+        const inner = new MemoryCoordinator()
+        const listAllClients = jest.spyOn(inner, 'listAllClients')
+        const coordinator = new CryptoCoordinator(inner, 'cached', 'c1')
+        const ext = { endpoint: 'https://cached.example.com' }
+        await coordinator.testAuth({}, ext)
+        await coordinator.testAuth({}, ext)
+        expect(listAllClients).toHaveBeenCalledTimes(1)
+        // Another target
+        await coordinator.testAuth({}, { endpoint: 'https://another.example.com' })
+        expect(listAllClients).toHaveBeenCalledTimes(2)
+
+        clearVerified()
+        await coordinator.testAuth({}, ext)
+        expect(listAllClients).toHaveBeenCalledTimes(3)
+    })
+})
@@ -0,0 +1,405 @@
+/**
+ * @jest-environment node
+ */
+import remoteCacheDb from "@db/remote-cache-database"
+import syncQueueDb from "@db/sync-queue-database"
+import { clearVerified } from "@service/backup/crypto/coordinator"
+import processor from "@service/backup/processor"
+import queryProgress from "@service/backup/query-progress"
+import optionHolder from "@service/components/option-holder"
+import itemService from "@service/item-service"
+import optionService from "@service/option-service"
+import { backgroundSyncService } from "@service/sync/background-sync-service"
+import { formatTimeYMD } from "@util/time"
+import { mockStorage } from "../../__mock__/storage"
+
+jest.mock('@service/components/option-holder', () => ({ __esModule: true, default: { get: jest.fn() } }))
+jest.mock('@service/item-service', () => ({ __esModule: true, default: { selectItems: jest.fn() } }))
+jest.mock('@service/option-service', () => ({ __esModule: true, default: { setBackupOption: jest.fn() } }))
+jest.mock('@service/meta-service', () => ({
+    __esModule: true,
+    default: { getCid: async () => 'local', updateCid: jest.fn(), updateBackUpTime: jest.fn() },
+}))
+
+class MemoryCoordinator implements timer.backup.Coordinator<never> {
+    clients: timer.backup.Client[] = []
+    uploaded: timer.core.Row[][] = []
+    cleared: string[] = []
+    remote: Record<string, timer.core.Row[]> = {}
+    downloads: string[] = []
+    uploadedCids: string[] = []
+    replaced: Record<string, [rows: timer.core.Row[], months: string[]]> = {}
+    meta: timer.backup.CryptoMeta | undefined
+
+    async updateClients(_: timer.backup.CoordinatorContext<never>, clients: timer.backup.Client[]) {
+        this.clients = clients
+    }
+    async listAllClients() {
+        return this.clients
+    }
+    async download(_: timer.backup.CoordinatorContext<never>, start: Date, end: Date, cid?: string, onProgress?: (ratio: number) => void) {
+        this.downloads.push(`${cid}:${formatTimeYMD(start)}-${formatTimeYMD(end)}`)
+        const [startStr, endStr] = [formatTimeYMD(start), formatTimeYMD(end)]
+        onProgress?.(0.5)
+        return (this.remote[cid ?? ''] ?? []).filter(r => r.date >= startStr && r.date <= endStr)
+    }
+    async upload(context: timer.backup.CoordinatorContext<never>, rows: timer.core.Row[]) {
+        this.uploaded.push(rows)
+        this.uploadedCids.push(context.cid)
+    }
+    async testAuth() {
+        return undefined
+    }
+    async clear(_: timer.backup.CoordinatorContext<never>, client: timer.backup.Client) {
+        this.cleared.push(client.id)
+    }
+    async replace(context: timer.backup.CoordinatorContext<never>, rows: timer.core.Row[], months: string[]) {
+        this.replaced[context.cid] = [rows, months]
+    }
+    async downloadCryptoMeta() {
+        return this.meta
+    }
+    async uploadCryptoMeta(_: timer.backup.CoordinatorContext<never>, meta: timer.backup.CryptoMeta) {
+        this.meta = meta
+    }
+}
+
+const today = formatTimeYMD(new Date())
+
+const ROWS: timer.core.Row[] = [
+    { host: 'github.com', date: '20250101', focus: 100, time: 1 },
+    { host: 'github.com', date: today, focus: 200, time: 2 },
+]
+
+const mockOption = (endpoint: string) => jest.mocked(optionHolder.get).mockResolvedValue({
+    backupType: 'web_dav',
+    backupExts: { web_dav: { endpoint } },
+    backupAuths: {},
+    backupLogin: {},
+    clientName: 'Laptop',
+} as any)
+
+describe('service/backup/processor', () => {
+    let coordinator: MemoryCoordinator
+
+    beforeAll(mockStorage)
+
+    beforeEach(async () => {
+        await chrome.storage.local.clear()
+        clearVerified()
+        coordinator = new MemoryCoordinator()
+        processor.coordinators.web_dav = coordinator
+        mockOption('https://dav.example.com')
+        jest.mocked(itemService.selectItems).mockImplementation(async cond => {
+            const [start] = cond?.date as [Date, Date]
+            return ROWS.filter(r => r.date >= formatTimeYMD(start))
+        })
+    })
+
+    test('incremental sync', async () => {
+        expect((await processor.syncData()).success).toBeTruthy()
+        expect(coordinator.uploaded[0]).toEqual(ROWS)
+        expect(coordinator.clients).toEqual([{ id: 'local', name: 'Laptop', minDate: '20250101', maxDate: today }])
+
+        // Only rows since the last sync
+        await processor.syncData()
+        expect(coordinator.uploaded[1]).toEqual([ROWS[1]])
+        // Range kept
+        expect(coordinator.clients[0].minDate).toBe('20250101')
+
+        // Target changed
+        mockOption('https://another.example.com')
+        await processor.syncData()
+        expect(coordinator.uploaded[2]).toEqual(ROWS)
+        expect(coordinator.cleared).toEqual([])
+    })
+
+    test('force full resync', async () => {
+        await processor.syncData()
+        await processor.syncData(true)
+        expect(coordinator.cleared).toEqual(['local'])
+        expect(coordinator.uploaded[1]).toEqual(ROWS)
+    })
+
+    test('sync totals after pushing increments', async () => {
+        // Rows uploaded by the same session are accumulated on AWS
+        const totals: Record<string, number> = {}
+        const key = (r: timer.core.Row) => `${r.date}${r.host}`
+        Object.assign(coordinator, {
+            upload: async (_: unknown, rows: timer.core.Row[]) => rows.forEach(r => totals[key(r)] = (totals[key(r)] ?? 0) + r.focus),
+            overwrite: async (_: unknown, rows: timer.core.Row[]) => rows.forEach(r => totals[key(r)] = r.focus),
+        })
+        processor.coordinators.aws = coordinator
+        jest.mocked(optionHolder.get).mockResolvedValue({
+            backupType: 'aws', backupExts: {}, backupAuths: {}, backupLogin: {}, clientName: 'Laptop',
+        } as any)
+        const todayKey = `${today}github.com`
+
+        // 50 of 200 pushed, and 30 still in the queue
+        await processor.pushRows([{ host: 'github.com', date: today, focus: 50, time: 0 }])
+        await syncQueueDb.enqueue([{ host: 'github.com', date: today, focus: 30, time: 0 }])
+        expect((await processor.syncData()).success).toBeTruthy()
+        expect(totals[todayKey]).toBe(170)
+        expect(totals['20250101github.com']).toBe(100)
+
+        await processor.pushRows(await syncQueueDb.peek())
+        await syncQueueDb.clear()
+        expect(totals[todayKey]).toBe(200)
+        // Not accumulated by the following backups
+        await processor.syncData()
+        expect(totals[todayKey]).toBe(200)
+    })
+
+    test('not lose the increments flushed while syncing totals', async () => {
+        const totals: Record<string, number> = {}
+        const key = (r: timer.core.Row) => `${r.date}${r.host}`
+        Object.assign(coordinator, {
+            upload: async (_: unknown, rows: timer.core.Row[]) => rows.forEach(r => totals[key(r)] = (totals[key(r)] ?? 0) + r.focus),
+            overwrite: async (_: unknown, rows: timer.core.Row[]) => rows.forEach(r => totals[key(r)] = r.focus),
+        })
+        processor.coordinators.aws = coordinator
+        jest.mocked(optionHolder.get).mockResolvedValue({
+            backupType: 'aws', backupExts: {}, backupAuths: {}, backupLogin: {}, clientName: 'Laptop',
+        } as any)
+        await processor.pushRows([{ host: 'github.com', date: today, focus: 50, time: 0 }])
+        await syncQueueDb.enqueue([{ host: 'github.com', date: today, focus: 30, time: 0 }])
+
+        // Flush while selecting the rows, after the pending ones peeked
+        let flushing: Promise<boolean> | undefined
+        jest.mocked(itemService.selectItems).mockImplementation(async cond => {
+            flushing = backgroundSyncService.flush(true)
+            await new Promise(resolve => setTimeout(resolve))
+            const [start] = cond?.date as [Date, Date]
+            return ROWS.filter(r => r.date >= formatTimeYMD(start))
+        })
+        expect((await processor.syncData()).success).toBeTruthy()
+        expect(await flushing).toBeTruthy()
+        expect(await syncQueueDb.count()).toBe(0)
+        expect(totals[`${today}github.com`]).toBe(200)
+    })
+
+    test('query remote rows with cache', async () => {
+        coordinator.clients = [{ id: 'local', name: 'Laptop' }, { id: 'phone', name: 'Phone' }]
+        coordinator.remote.phone = [
+            { host: 'github.com', date: '20250110', focus: 100, time: 1 },
+            { host: 'github.com', date: '20250220', focus: 200, time: 2, run: 3 },
+        ]
+        // Ignore the downloading to verify the passphrase
+        const downloads = () => coordinator.downloads.filter(d => d.startsWith('phone:'))
+        const param = { excludeLocal: true, start: new Date(2025, 0, 15), end: new Date(2025, 1, 25), cache: true }
+
+        const rows = await processor.query(param)
+        expect(rows).toEqual([{ ...coordinator.remote.phone[1], cid: 'phone', cname: 'Phone' }])
+        // Whole months downloaded
+        expect(downloads()).toEqual(['phone:20250101-20250228'])
+
+        // Read from the cache
+        expect(await processor.query({ ...param, start: new Date(2025, 0, 1) })).toHaveLength(2)
+        expect(downloads()).toHaveLength(1)
+
+        // Only the missing month downloaded
+        await processor.query({ ...param, end: new Date(2025, 2, 1) })
+        expect(downloads()[1]).toBe('phone:20250301-20250331')
+
+        // Invalidated
+        await remoteCacheDb.invalidate('phone')
+        await processor.query(param)
+        expect(downloads()).toHaveLength(3)
+
+        // Target changed
+        mockOption('https://another.example.com')
+        await processor.query(param)
+        expect(downloads()).toHaveLength(4)
+
+        // Not cached by default
+        await processor.query({ ...param, cache: false })
+        await processor.query({ ...param, cache: false })
+        expect(downloads()).toHaveLength(6)
+    })
+
+    test('merge clients', async () => {
+        coordinator.clients = [
+            { id: 'local', name: 'Laptop' },
+            { id: 'old', name: 'Old', minDate: '20240101', maxDate: '20250110' },
+            { id: 'phone', name: 'Phone', minDate: '20250101', maxDate: '20250301' },
+        ]
+        coordinator.remote.old = [
+            { host: 'github.com', date: '20250110', focus: 100, time: 1 },
+            { host: 'google.com', date: '20240101', focus: 50, time: 1 },
+        ]
+        coordinator.remote.phone = [{ host: 'github.com', date: '20250110', focus: 20, time: 2, run: 3 }]
+
+        expect((await processor.mergeClient('local', 'phone')).success).toBe(false)
+        expect((await processor.mergeClient('old', 'phone')).success).toBe(true)
+        expect(coordinator.uploadedCids).toEqual(['phone'])
+        expect(coordinator.uploaded[0]).toEqual([
+            { host: 'github.com', date: '20250110', focus: 120, time: 3, run: 3 },
+            { host: 'google.com', date: '20240101', focus: 50, time: 1, run: undefined },
+        ])
+        expect(coordinator.cleared).toEqual(['old'])
+        expect(coordinator.clients).toEqual([
+            { id: 'local', name: 'Laptop' },
+            { id: 'phone', name: 'Phone', minDate: '20240101', maxDate: '20250301' },
+        ])
+    })
+
+    test('retire client and hide it from reports', async () => {
+        coordinator.clients = [{ id: 'local', name: 'Laptop' }, { id: 'phone', name: 'Phone' }]
+        coordinator.remote.phone = [{ host: 'github.com', date: '20250110', focus: 100, time: 1 }]
+        const param = { excludeLocal: true, start: new Date(2025, 0, 1), end: new Date(2025, 0, 31) }
+
+        expect((await processor.retireClient('local', true)).success).toBe(false)
+        expect((await processor.retireClient('phone', true)).success).toBe(true)
+        expect(await processor.query(param)).toEqual([])
+        // Still available if specified
+        expect(await processor.query({ ...param, specCid: 'phone' })).toHaveLength(1)
+
+        await processor.retireClient('phone', false)
+        expect(coordinator.clients[1].retired).toBeUndefined()
+        expect(await processor.query(param)).toHaveLength(1)
+
+        await processor.renameClient('phone', 'Tablet')
+        expect(coordinator.clients[1].name).toBe('Tablet')
+    })
+
+    test('manage clients of AWS', async () => {
+        const totals: Record<string, number> = {}
+        Object.assign(coordinator, {
+            overwrite: async (context: timer.backup.CoordinatorContext<never>, rows: timer.core.Row[]) =>
+                rows.forEach(r => totals[`${context.cid}${r.date}${r.host}`] = r.focus),
+        })
+        processor.coordinators.aws = coordinator
+        coordinator.clients = [{ id: 'local', name: 'Laptop' }, { id: 'phone', name: 'Phone' }, { id: 'old', name: 'Old' }]
+        coordinator.remote.old = [{ host: 'github.com', date: '20250110', focus: 100, time: 1 }]
+        coordinator.remote.phone = [{ host: 'github.com', date: '20250110', focus: 20, time: 2 }]
+        jest.mocked(optionHolder.get).mockResolvedValue({ backupType: 'aws', backupExts: {}, backupAuths: {} } as any)
+
+        expect((await processor.renameClient('phone', 'Tablet')).success).toBe(true)
+        expect((await processor.retireClient('phone', true)).success).toBe(true)
+        expect(coordinator.clients[1]).toEqual({ id: 'phone', name: 'Tablet', retired: true })
+        expect((await processor.mergeClient('old', 'phone')).success).toBe(true)
+        // Overwritten instead of accumulated
+        expect(coordinator.uploaded).toEqual([])
+        expect(totals['phone20250110github.com']).toBe(120)
+        expect(coordinator.cleared).toEqual(['old'])
+        expect(coordinator.clients.map(c => c.id)).toEqual(['local', 'phone'])
+    })
+
+    test('change passphrase without clearing', async () => {
+        coordinator.clients = [{ id: 'local', name: 'Laptop' }, { id: 'phone', name: 'Phone' }]
+        coordinator.remote.phone = [{ host: 'github.com', date: '20250110', focus: 100, time: 1 }]
+        coordinator.remote.local = [{ host: 'google.com', date: '20241201', focus: 10, time: 1 }]
+
+        expect((await processor.changePassphrase('passphrase')).success).toBe(true)
+        expect(coordinator.cleared).toEqual([])
+        const [phoneRows, phoneMonths] = coordinator.replaced.phone
+        expect(phoneMonths).toEqual(['202501'])
+        expect(phoneRows[0]).toMatchObject({ date: '20250110', focus: 100, time: 1 })
+        expect(phoneRows[0].host).not.toBe('github.com')
+        // Remote months absent locally are replaced too
+        const [localRows, localMonths] = coordinator.replaced.local
+        expect(localMonths).toEqual(['202412'])
+        expect(localRows.map(r => r.date)).toEqual(ROWS.map(r => r.date))
+        expect(optionService.setBackupOption).toHaveBeenCalledWith({ backupPassphrase: 'passphrase' })
+        expect(coordinator.meta?.salt).toBeTruthy()
+        expect(coordinator.meta?.verifier).toBeTruthy()
+    })
+
+    test('only set the passphrase of AWS before encrypted', async () => {
+        // The remote rows can't be re-encrypted
+        const aws = new MemoryCoordinator()
+        Object.assign(aws, { replace: undefined })
+        processor.coordinators.aws = aws
+        const mockAws = (backupPassphrase?: string) => jest.mocked(optionHolder.get)
+            .mockResolvedValue({ backupType: 'aws', backupExts: {}, backupAuths: {}, backupPassphrase } as any)
+
+        mockAws()
+        expect((await processor.changePassphrase('passphrase')).success).toBe(true)
+        expect(aws.meta?.verifier).toBeTruthy()
+        expect(aws.replaced).toEqual({})
+
+        mockAws('passphrase')
+        expect((await processor.changePassphrase('another')).success).toBe(false)
+        expect((await processor.changePassphrase(undefined)).success).toBe(false)
+    })
+
+    test('encrypt the uploads of AWS', async () => {
+        Object.assign(coordinator, { overwrite: coordinator.upload })
+        processor.coordinators.aws = coordinator
+        jest.mocked(optionHolder.get).mockResolvedValue({
+            backupType: 'aws', backupExts: {}, backupAuths: {}, backupLogin: {}, clientName: 'Laptop', backupPassphrase: 'passphrase',
+        } as any)
+
+        expect((await processor.pushRows([ROWS[1]])).success).toBe(true)
+        expect((await processor.syncData()).success).toBe(true)
+        const uploaded = coordinator.uploaded.flat()
+        expect(uploaded).toHaveLength(3)
+        uploaded.forEach(row => expect(row.host).not.toBe('github.com'))
+        expect(coordinator.clients[0].name).not.toBe('Laptop')
+        expect(coordinator.meta?.salt).toBeTruthy()
+    })
+
+    test('aggregate rows of long ranges by the server', async () => {
+        const aggregate = jest.fn(async (_: unknown, _param: timer.backup.AggregateParam): Promise<timer.backup.AggregateRow[]> => [
+            { cid: 'local', host: 'github.com', focus: 1, time: 1 },
+            { cid: 'phone', host: 'github.com', focus: 100, time: 1 },
+        ])
+        Object.assign(coordinator, { aggregate })
+        coordinator.clients = [{ id: 'local', name: 'Laptop' }, { id: 'phone', name: 'Phone' }, { id: 'old', name: 'Old', retired: true }]
+        const param = { excludeLocal: true, start: new Date(2025, 0, 1), end: new Date(2025, 2, 31) }
+
+        // Dates merged
+        const rows = await processor.query({ ...param, groups: ['host'] })
+        expect(rows).toEqual([{ host: 'github.com', date: '', focus: 100, time: 1, run: undefined, cid: 'phone', cname: 'Phone' }])
+        expect(aggregate.mock.calls[0][1].cids).toEqual(['phone'])
+        expect(aggregate.mock.calls[0][1].groups).toEqual(['host'])
+
+        // Short ranges are downloaded
+        coordinator.remote.phone = [{ host: 'github.com', date: '20250110', focus: 100, time: 1 }]
+        await processor.query({ ...param, end: new Date(2025, 0, 31), groups: ['host'] })
+        expect(aggregate).toHaveBeenCalledTimes(1)
+
+        // Raw rows are downloaded and cached
+        expect(await processor.query({ ...param, cache: true })).toHaveLength(1)
+        expect(await processor.query({ ...param, cache: true, groups: ['host', 'date'] })).toHaveLength(1)
+        expect(aggregate).toHaveBeenCalledTimes(1)
+        expect(coordinator.downloads.filter(d => d.startsWith('phone'))).toEqual(['phone:20250101-20250131', 'phone:20250101-20250331'])
+    })
+    test('report the progress of querying', async () => {
+        coordinator.clients = [{ id: 'local', name: 'Laptop' }, { id: 'phone', name: 'Phone' }, { id: 'pad', name: 'Pad' }]
+        const ratios: (number | undefined)[] = []
+        const listener = (ratio: number | undefined) => ratios.push(ratio)
+        queryProgress.addListener(listener)
+        await processor.query({ excludeLocal: true, start: new Date(2025, 0, 1), end: new Date(2025, 0, 31), cache: true })
+        queryProgress.removeListener(listener)
+
+        expect(ratios[0]).toBe(0)
+        // Average of the clients
+        expect(ratios).toContain(0.25)
+        expect(ratios[ratios.length - 2]).toBe(1)
+        // Finished
+        expect(ratios[ratios.length - 1]).toBeUndefined()
+    })
+
+    test('archived months', async () => {
+        expect((await processor.listArchives()).success).toBeFalsy()
+
+        const rehydrateArchive = jest.fn(async () => 2)
+        Object.assign(coordinator, {
+            listArchives: async () => ({ phone: ['202401', '202402'] }),
+            fetchArchive: async (_: unknown, cid: string, month: string) => coordinator.remote[cid]?.filter(r => r.date.startsWith(month)) ?? [],
+            rehydrateArchive,
+        })
+        coordinator.clients = [{ id: 'local', name: 'Laptop' }, { id: 'phone', name: 'Phone' }]
+        coordinator.remote.phone = [{ host: 'github.com', date: '20240110', focus: 100, time: 1 }]
+        expect((await processor.listArchives()).data).toEqual({ phone: ['202401', '202402'] })
+        expect((await processor.fetchArchive('phone', '202401')).data).toEqual(coordinator.remote.phone)
+
+        // Cached rows of the client are invalidated after rehydrating
+        const param = { excludeLocal: true, start: new Date(2024, 0, 1), end: new Date(2024, 0, 31), cache: true }
+        await processor.query(param)
+        expect((await processor.rehydrateArchive('phone', '202401')).data).toBe(2)
+        await processor.query(param)
+        expect(coordinator.downloads.filter(d => d.startsWith('phone:'))).toHaveLength(2)
+    })
+})
@@ -0,0 +1,124 @@
+import { monthData2Rows, rows2MonthData } from "@service/backup/common"
+import WebDAVCoordinator from "@service/backup/web-dav/coordinator"
+
+const ENDPOINT = 'https://dav.example.com/files/user'
+
+/**
+ * In-memory WebDAV server
+ */
+function mockWebDAV() {
+    const files = new Map<string, string>()
+    const dirs = new Set<string>([ENDPOINT + '/', ENDPOINT + '/backup/'])
+    const response = (status: number, body: string = '') => ({
+        status,
+        ok: status >= 200 && status < 300,
+        text: async () => body,
+    })
+    const fetchMock = jest.fn(async (url: string, init: RequestInit) => {
+        const headers = init.headers as Record<string, string>
+        if (headers.Authorization !== `Basic ${btoa('user:psw')}`) return response(401)
+        switch (init.method) {
+            case 'PROPFIND': return response(dirs.has(url) ? 207 : 404)
+            case 'MKCOL':
+                if (dirs.has(url)) return response(405)
+                dirs.add(url)
+                return response(201)
+            case 'PUT':
+                files.set(url, init.body as string)
+                return response(201)
+            case 'GET': return files.has(url) ? response(200, files.get(url)) : response(404)
+            case 'DELETE':
+                dirs.delete(url)
+                Array.from(files.keys()).filter(k => k.startsWith(url)).forEach(k => files.delete(k))
+                return response(204)
+        }
+        return response(405)
+    })
+    global.fetch = fetchMock as unknown as typeof fetch
+    return { files, dirs }
+}
+
+const auth: timer.backup.Auth = { login: { acc: 'user', psw: 'psw' } }
+const ext: timer.backup.TypeExt = { endpoint: ENDPOINT, dirPath: '/backup' }
+
+const contextOf = (cid: string): timer.backup.CoordinatorContext<never> => ({
+    cid, auth, ext,
+    cache: undefined as never,
+    handleCacheChanged: async () => { },
+})
+
+describe('service/backup/web-dav/coordinator', () => {
+    test('month data', () => {
+        const rows: timer.core.Row[] = [
+            { host: 'github.com', date: '20250102', focus: 100, time: 2 },
+            { host: 'google.com', date: '20250102', focus: 10, time: 1, run: 1000 },
+            { host: 'github.com', date: '20250131', focus: 1, time: 1 },
+        ]
+        const data = rows2MonthData(rows)
+        expect(data).toEqual({
+            '02': { 'github.com': [100, 2], 'google.com': [10, 1, 1000] },
+            '31': { 'github.com': [1, 1] },
+        })
+        const restored = monthData2Rows('202501', data).sort((a, b) => a.date.localeCompare(b.date))
+        expect(restored).toEqual(rows)
+    })
+
+    test('test auth', async () => {
+        mockWebDAV()
+        const coordinator = new WebDAVCoordinator()
+        expect(await coordinator.testAuth(auth, ext)).toBeUndefined()
+        expect(await coordinator.testAuth(auth, { ...ext, dirPath: 'none' })).toBe('Directory not found: /none/')
+        expect(await coordinator.testAuth({ login: { acc: 'user', psw: 'wrong' } }, ext)).toContain('Unauthorized')
+        expect(await coordinator.testAuth(auth, {})).toBeTruthy()
+    })
+
+    test('upload, download and clear', async () => {
+        const { files } = mockWebDAV()
+        const coordinator = new WebDAVCoordinator()
+        const context = contextOf('client1')
+        await coordinator.upload(context, [
+            { host: 'github.com', date: '20241231', focus: 100, time: 2 },
+            { host: 'github.com', date: '20250101', focus: 200, time: 3 },
+            { host: 'github.com', date: '20250215', focus: 300, time: 4 },
+        ])
+        expect(Array.from(files.keys()).sort()).toEqual([
+            `${ENDPOINT}/backup/timer/client1/202412.json`,
+            `${ENDPOINT}/backup/timer/client1/202501.json`,
+            `${ENDPOINT}/backup/timer/client1/202502.json`,
+        ])
+
+        // Merged into the month
+        await coordinator.upload(context, [
+            { host: 'google.com', date: '20250101', focus: 10, time: 1 },
+            { host: 'github.com', date: '20250215', focus: 400, time: 5 },
+        ])
+        expect(await coordinator.download(context, new Date(2025, 0, 1), new Date(2025, 1, 28))).toEqual([
+            { host: 'github.com', date: '20250101', focus: 200, time: 3 },
+            { host: 'google.com', date: '20250101', focus: 10, time: 1 },
+            { host: 'github.com', date: '20250215', focus: 400, time: 5 },
+        ])
+
+        const client: timer.backup.Client = { id: 'client1', name: 'Laptop', minDate: '20241231', maxDate: '20250215' }
+        await coordinator.updateClients(context, [client])
+        expect(await coordinator.listAllClients(contextOf('client2'))).toEqual([client])
+
+        const rows = await coordinator.download(contextOf('client2'), new Date(2025, 0, 1), new Date(2025, 1, 10), 'client1')
+        expect(rows).toEqual([
+            { host: 'github.com', date: '20250101', focus: 200, time: 3 },
+            { host: 'google.com', date: '20250101', focus: 10, time: 1 },
+        ])
+        // Local client by default
+        expect((await coordinator.download(context, new Date(2024, 0, 1), new Date(2025, 11, 31))).length).toBe(4)
+
+        // Months replaced entirely
+        await coordinator.replace(context, [{ host: 'bing.com', date: '20250102', focus: 1, time: 1 }], ['202412', '202501'])
+        expect(await coordinator.download(context, new Date(2024, 0, 1), new Date(2025, 11, 31))).toEqual([
+            { host: 'bing.com', date: '20250102', focus: 1, time: 1 },
+            { host: 'github.com', date: '20250215', focus: 400, time: 5 },
+        ])
+
+        await coordinator.clear(context, client)
+        expect(await coordinator.download(context, new Date(2024, 0, 1), new Date(2025, 11, 31))).toEqual([])
+        expect(files.has(`${ENDPOINT}/backup/timer/clients.json`)).toBeTruthy()
+    })
+})
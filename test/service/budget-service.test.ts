@@ -0,0 +1,65 @@
+import cateDatabase from "@db/site-cate-database"
+import siteDatabase from "@db/site-database"
+import statDatabase from "@db/stat-database"
+import budgetService from "@service/budget-service"
+import { calcLevel } from "@util/budget"
+import { MILL_PER_MINUTE } from "@util/time"
+import { mockStorage } from "../__mock__/storage"
+
+// Week starts from today
+jest.mock('@service/components/week-helper', () => ({
+    getWeekDate: async (now: Date) => [now, now],
+}))
+
+describe('budget-service', () => {
+    beforeAll(mockStorage)
+
+    beforeEach(async () => chrome.storage.local.clear())
+
+    test('save budget', async () => {
+        const { id } = await cateDatabase.add('Social')
+        await budgetService.saveBudget(id, { daily: 45 * 60 })
+        expect((await cateDatabase.listAll())[0].budget).toEqual({ daily: 45 * 60, weekly: undefined })
+        // Rename keeps the budget
+        await cateDatabase.update(id, 'Social Media')
+        expect((await cateDatabase.listAll())[0].budget?.daily).toEqual(45 * 60)
+        // Clear
+        await budgetService.saveBudget(id, {})
+        expect((await cateDatabase.listAll())[0].budget).toBeUndefined()
+    })
+
+    test('status', async () => {
+        const { id: social } = await cateDatabase.add('Social')
+        const { id: video } = await cateDatabase.add('Video')
+        await cateDatabase.add('Work')
+        await budgetService.saveBudget(social, { daily: 10 * 60 })
+        await budgetService.saveBudget(video, { daily: 100 * 60, weekly: 60 * 60 })
+        await siteDatabase.save(
+            { host: 'twitter.com', type: 'normal', cate: social },
+            { host: 'youtube.com', type: 'normal', cate: video },
+        )
+        const now = new Date()
+        await statDatabase.accumulate('twitter.com', now, { focus: 8 * MILL_PER_MINUTE, time: 1 })
+        await statDatabase.accumulate('youtube.com', now, { focus: 70 * MILL_PER_MINUTE, time: 1 })
+        await statDatabase.accumulate('github.com', now, { focus: 70 * MILL_PER_MINUTE, time: 1 })
+
+        const statuses = await budgetService.listStatus(now)
+        expect(statuses.length).toEqual(2)
+        const socialStatus = statuses.find(s => s.cateId === social)
+        expect(socialStatus?.daily).toEqual({ spent: 8 * MILL_PER_MINUTE, quota: 10 * MILL_PER_MINUTE })
+        expect(socialStatus?.weekly).toBeUndefined()
+        expect(socialStatus?.level).toEqual('badge')
+        const videoStatus = statuses.find(s => s.cateId === video)
+        // 70 / 60 = 1.17, so blocked by weekly quota
+        expect(videoStatus?.level).toEqual('block')
+    })
+
+    test('level', () => {
+        expect(calcLevel({})).toEqual('none')
+        expect(calcLevel({ daily: { spent: 5, quota: 10 } })).toEqual('none')
+        expect(calcLevel({ daily: { spent: 8, quota: 10 } })).toEqual('badge')
+        expect(calcLevel({ daily: { spent: 5, quota: 10 }, weekly: { spent: 9, quota: 10 } })).toEqual('notify')
+        expect(calcLevel({ weekly: { spent: 10, quota: 10 } })).toEqual('block')
+        expect(calcLevel({ weekly: { spent: 11, quota: 10 } })).toEqual('block')
+    })
+})
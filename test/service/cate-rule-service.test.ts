@@ -0,0 +1,54 @@
+import siteDatabase from "@db/site-database"
+import cateRuleService from "@service/cate-rule-service"
+import { CATE_NOT_SET_ID } from "@util/site"
+import { mockStorage } from "../__mock__/storage"
+
+describe('cate-rule-service', () => {
+    beforeAll(mockStorage)
+
+    beforeEach(async () => chrome.storage.local.clear())
+
+    test('categorize new site', async () => {
+        await cateRuleService.saveAll([
+            { type: 'path', pattern: '/docs/**', cateId: 1, enabled: true },
+            { type: 'host', pattern: '*.google.com', cateId: 2, enabled: true },
+        ])
+        expect(await cateRuleService.categorize({ host: 'www.google.com', type: 'normal' }, '/search', 'Google')).toEqual(2)
+        expect((await siteDatabase.get({ host: 'www.google.com', type: 'normal' }))?.cate).toEqual(2)
+        expect(await cateRuleService.categorize({ host: 'example.com', type: 'normal' }, '/docs/intro')).toEqual(1)
+        expect(await cateRuleService.categorize({ host: 'example.org', type: 'normal' }, '/')).toBeUndefined()
+        // Not supported
+        expect(await cateRuleService.categorize({ host: 'www.google.com', type: 'merged' })).toBeUndefined()
+
+        // Site seen first time, and icon collected
+        await siteDatabase.save({ host: 'docs.google.com', type: 'normal', iconUrl: 'https://docs.google.com/favicon.ico' })
+        expect(await cateRuleService.categorize({ host: 'docs.google.com', type: 'normal' })).toEqual(2)
+
+        // Category set before is kept
+        await siteDatabase.save({ host: 'mail.google.com', type: 'normal', cate: 3 })
+        expect(await cateRuleService.categorize({ host: 'mail.google.com', type: 'normal' })).toBeUndefined()
+        expect((await siteDatabase.get({ host: 'mail.google.com', type: 'normal' }))?.cate).toEqual(3)
+    })
+
+    test('reapply', async () => {
+        await siteDatabase.save(
+            { host: 'www.youtube.com', type: 'normal', alias: 'YouTube' },
+            { host: 'music.youtube.com', type: 'normal', alias: 'YouTube Music', cate: 2 },
+            { host: 'github.com', type: 'normal', cate: 3 },
+        )
+        expect(await cateRuleService.previewReapply()).toEqual([])
+
+        await cateRuleService.saveAll([
+            { type: 'alias', pattern: 'music', cateId: 2, enabled: true },
+            { type: 'host', pattern: '*.youtube.com', cateId: 1, enabled: true },
+        ])
+        const changes = await cateRuleService.previewReapply()
+        expect(changes.map(({ site: { host }, from, to }) => [host, from, to])).toEqual([['www.youtube.com', undefined, 1]])
+        // Dry run changes nothing
+        expect((await siteDatabase.get({ host: 'www.youtube.com', type: 'normal' }))?.cate).toEqual(CATE_NOT_SET_ID)
+
+        expect(await cateRuleService.reapply()).toEqual(1)
+        expect((await siteDatabase.get({ host: 'www.youtube.com', type: 'normal' }))?.cate).toEqual(1)
+        expect(await cateRuleService.previewReapply()).toEqual([])
+    })
+})
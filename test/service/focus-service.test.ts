@@ -0,0 +1,72 @@
+import cateDatabase from "@db/site-cate-database"
+import siteDatabase from "@db/site-database"
+import focusService, { calcEndTime } from "@service/focus-service"
+import { MILL_PER_DAY } from "@util/time"
+import { mockStorage } from "../__mock__/storage"
+
+describe('focus-service', () => {
+    beforeAll(mockStorage)
+
+    beforeEach(async () => chrome.storage.local.clear())
+
+    test('start and stop', async () => {
+        const session = await focusService.start(25)
+        expect(session.allowlist).toEqual({ cates: [], hosts: [] })
+        expect(calcEndTime(session) - session.start).toEqual(25 * 60 * 1000)
+        expect(await focusService.getSession()).toEqual(session)
+        // Nothing is distracting without allowlist
+        expect(await focusService.recordVisit('www.youtube.com')).toBeFalsy()
+
+        await focusService.stop()
+        expect(await focusService.getSession()).toBeUndefined()
+        // Stopped session is not recorded
+        expect(await focusService.selectRecords()).toEqual([])
+        expect(await focusService.recordVisit('www.youtube.com')).toBeFalsy()
+    })
+
+    test('distractions', async () => {
+        const { id: work } = await cateDatabase.add('Work')
+        await siteDatabase.save({ host: 'github.com', type: 'normal', cate: work })
+        await focusService.start(50, { cates: [work], hosts: ['www.google.com'] })
+
+        expect(await focusService.recordVisit('github.com')).toBeFalsy()
+        expect(await focusService.recordVisit('www.google.com')).toBeFalsy()
+        expect(await focusService.recordVisit('www.youtube.com')).toBeTruthy()
+        expect(await focusService.recordVisit('www.twitter.com')).toBeTruthy()
+
+        const session = await focusService.getSession()
+        expect(session?.distractions?.map(d => d.host)).toEqual(['www.youtube.com', 'www.twitter.com'])
+    })
+
+    test('concurrent distractions', async () => {
+        // Read copies like the real storage, so writes without lock overwrite each other
+        const get = chrome.storage.local.get
+        chrome.storage.local.get = ((key: any, cb: ArgCallback<any>) => get(key, (result: any) => cb(JSON.parse(JSON.stringify(result))))) as any
+        try {
+            await focusService.start(25, { cates: [], hosts: ['github.com'] })
+            const hosts = ['www.youtube.com', 'www.twitter.com', 'www.reddit.com']
+            expect(await Promise.all(hosts.map(host => focusService.recordVisit(host)))).toEqual([true, true, true])
+            const session = await focusService.getSession()
+            expect(session?.distractions?.map(d => d.host)).toEqual(hosts)
+        } finally {
+            chrome.storage.local.get = get
+        }
+    })
+
+    test('complete', async () => {
+        const session = await focusService.start(25, { cates: [], hosts: ['github.com'] })
+        await focusService.recordVisit('www.youtube.com')
+        const record = await focusService.complete()
+        expect(record?.end).toEqual(calcEndTime(session))
+        expect(await focusService.getSession()).toBeUndefined()
+        // Nothing to complete
+        expect(await focusService.complete()).toBeUndefined()
+
+        const now = new Date()
+        const records = await focusService.selectRecords([now, now])
+        expect(records.length).toEqual(1)
+        expect(records[0].distractions.length).toEqual(1)
+        const yesterday = new Date(now.getTime() - MILL_PER_DAY)
+        expect(await focusService.selectRecords([yesterday, yesterday])).toEqual([])
+    })
+})
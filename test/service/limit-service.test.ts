@@ -0,0 +1,58 @@
+import db from "@db/limit-database"
+import limitService from "@service/limit-service"
+import { matchCond } from "@util/limit"
+import { mockStorage } from "../__mock__/storage"
+
+describe('limit-service', () => {
+    beforeAll(mockStorage)
+
+    beforeEach(async () => chrome.storage.local.clear())
+
+    test('match condition', () => {
+        expect(matchCond('www.google.com', 'https://www.google.com/search?q=1')).toBeTruthy()
+        expect(matchCond('www.google.com', 'https://google.com')).toBeFalsy()
+        expect(matchCond('*.google.com', 'https://www.google.com/search')).toBeTruthy()
+        expect(matchCond('*.google.com', 'https://google.com')).toBeFalsy()
+        expect(matchCond('github.com/**', 'https://github.com/sheepzh/timer')).toBeTruthy()
+        expect(matchCond('github.com/sheepzh/*', 'https://github.com/sheepzh/timer')).toBeTruthy()
+        expect(matchCond('github.com/sheepzh/*', 'https://github.com/other/timer')).toBeFalsy()
+        expect(matchCond('', 'https://github.com')).toBeFalsy()
+    })
+
+    test('limited after the time meets', async () => {
+        const url = 'https://www.youtube.com/watch?v=1'
+        const ruleId = await db.save({ name: 'video', cond: ['www.youtube.com'], time: 60, weekdays: [], enabled: true, allowDelay: true })
+
+        expect((await limitService.listRelated(url)).map(i => i.id)).toEqual([ruleId])
+        expect(await limitService.listRelated('https://www.google.com')).toEqual([])
+
+        expect(await limitService.addFocusTime(url, 30 * 1000)).toEqual([])
+        const limited = await limitService.addFocusTime(url, 30 * 1000)
+        expect(limited.map(i => i.id)).toEqual([ruleId])
+        // Only notified once
+        expect(await limitService.addFocusTime(url, 1000)).toEqual([])
+        expect((await limitService.listLimited(url)).length).toEqual(1)
+
+        // 5 more minutes
+        await limitService.moreMinutes(ruleId, url)
+        expect(await limitService.listLimited(url)).toEqual([])
+    })
+
+    test('more minutes are capped', async () => {
+        const url = 'https://www.youtube.com'
+        const ruleId = await db.save({ name: 'video', cond: ['www.youtube.com'], time: 0, weekdays: [], enabled: true, allowDelay: true })
+        await limitService.moreMinutes(ruleId, url)
+        await limitService.moreMinutes(ruleId, url)
+        await limitService.moreMinutes(ruleId, url)
+        await expect(limitService.moreMinutes(ruleId, url)).rejects.toThrow()
+        expect((await limitService.listDelayRecords()).length).toEqual(3)
+
+        const noDelayId = await db.save({ name: 'no delay', cond: ['www.bilibili.com'], time: 0, weekdays: [], enabled: true, allowDelay: false })
+        await expect(limitService.moreMinutes(noDelayId, url)).rejects.toThrow()
+    })
+
+    test('disabled rules are ignored', async () => {
+        await db.save({ name: 'video', cond: ['www.youtube.com'], time: 0, weekdays: [], enabled: false, allowDelay: false })
+        expect(await limitService.listRelated('https://www.youtube.com')).toEqual([])
+    })
+})
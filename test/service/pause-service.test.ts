@@ -0,0 +1,57 @@
+import pauseDatabase from "@db/pause-database"
+import pauseService, { calcPauseUntil } from "@service/pause-service"
+import { MILL_PER_MINUTE } from "@util/time"
+import { mockStorage } from "../__mock__/storage"
+
+describe('pause-service', () => {
+    beforeAll(mockStorage)
+
+    beforeEach(async () => chrome.storage.local.clear())
+
+    test('toggle', async () => {
+        expect(await pauseService.isPaused()).toBeFalsy()
+
+        expect(await pauseService.toggle()).toBeTruthy()
+        const state = await pauseService.getState()
+        expect(state?.since).toBeLessThanOrEqual(Date.now())
+        // The running pause is kept
+        expect(await pauseService.pause()).toEqual(state)
+
+        expect(await pauseService.toggle()).toBeFalsy()
+        expect(await pauseService.isPaused()).toBeFalsy()
+        expect(await pauseService.getState()).toBeUndefined()
+    })
+
+    test('timed pause', async () => {
+        const now = Date.now()
+        expect(calcPauseUntil(15, now)).toEqual(now + 15 * MILL_PER_MINUTE)
+        expect(calcPauseUntil('tomorrow', now) - now).toBeLessThanOrEqual(24 * 60 * MILL_PER_MINUTE)
+
+        const until = now + MILL_PER_MINUTE
+        await pauseService.pause(until)
+        expect(await pauseService.isPaused()).toBeTruthy()
+        // Extend the running pause
+        const state = await pauseService.pause(until + MILL_PER_MINUTE)
+        expect(state.until).toEqual(until + MILL_PER_MINUTE)
+    })
+
+    test('intervals', async () => {
+        const now = Date.now()
+        // Expired but not resumed yet
+        await pauseDatabase.saveState({ since: now - 10 * MILL_PER_MINUTE, until: now - 5 * MILL_PER_MINUTE })
+        expect(await pauseService.isPaused()).toBeFalsy()
+        await pauseService.resume()
+        expect(await pauseDatabase.getState()).toBeUndefined()
+        expect(await pauseService.selectIntervals()).toEqual([
+            { start: now - 10 * MILL_PER_MINUTE, end: now - 5 * MILL_PER_MINUTE },
+        ])
+        // Out of range
+        expect(await pauseService.selectIntervals(now - 4 * MILL_PER_MINUTE)).toEqual([])
+
+        // The running one is included
+        await pauseService.pause()
+        const intervals = await pauseService.selectIntervals(now - 4 * MILL_PER_MINUTE)
+        expect(intervals.length).toEqual(1)
+        expect(intervals[0].start).toBeGreaterThanOrEqual(now)
+    })
+})
\ No newline at end of file
@@ -0,0 +1,64 @@
+import cateDatabase from "@db/site-cate-database"
+import siteDatabase from "@db/site-database"
+import statDatabase from "@db/stat-database"
+import productivityService from "@service/productivity-service"
+import { calcScore } from "@util/productivity"
+import { formatTimeYMD, MILL_PER_DAY, MILL_PER_MINUTE } from "@util/time"
+import { mockStorage } from "../__mock__/storage"
+
+describe('productivity-service', () => {
+    beforeAll(mockStorage)
+
+    beforeEach(async () => chrome.storage.local.clear())
+
+    test('save setting', async () => {
+        const { id } = await cateDatabase.add('Work')
+        await productivityService.saveSetting(id, { level: 'productive', weight: 2 })
+        expect((await cateDatabase.listAll())[0].productivity).toEqual({ level: 'productive', weight: 2 })
+        // Budget is kept
+        await cateDatabase.saveBudget(id, { daily: 60 })
+        expect((await cateDatabase.listAll())[0].productivity?.weight).toEqual(2)
+        await productivityService.saveSetting(id, undefined)
+        expect((await cateDatabase.listAll())[0].productivity).toBeUndefined()
+    })
+
+    test('daily scores', async () => {
+        const { id: work } = await cateDatabase.add('Work')
+        const { id: video } = await cateDatabase.add('Video')
+        const { id: news } = await cateDatabase.add('News')
+        await productivityService.saveSetting(work, { level: 'productive', weight: 1 })
+        await productivityService.saveSetting(video, { level: 'distracting', weight: 2 })
+        await siteDatabase.save(
+            { host: 'github.com', type: 'normal', cate: work },
+            { host: 'youtube.com', type: 'normal', cate: video },
+            // No productivity
+            { host: 'news.com', type: 'normal', cate: news },
+        )
+        const now = new Date()
+        const yesterday = new Date(now.getTime() - MILL_PER_DAY)
+        await statDatabase.accumulate('github.com', now, { focus: 60 * MILL_PER_MINUTE, time: 1 })
+        await statDatabase.accumulate('youtube.com', now, { focus: 10 * MILL_PER_MINUTE, time: 1 })
+        await statDatabase.accumulate('news.com', now, { focus: 100 * MILL_PER_MINUTE, time: 1 })
+        await statDatabase.accumulate('unknown.com', now, { focus: 100 * MILL_PER_MINUTE, time: 1 })
+        await statDatabase.accumulate('news.com', yesterday, { focus: 10 * MILL_PER_MINUTE, time: 1 })
+
+        const scores = await productivityService.listScores([yesterday, now])
+        expect(scores.map(s => s.date)).toEqual([formatTimeYMD(yesterday), formatTimeYMD(now)])
+        expect(scores[0].score).toBeUndefined()
+        // 50 + 50 * (60 - 20) / (60 + 20)
+        expect(scores[1].score).toEqual(75)
+        expect(scores[1].focus).toEqual({ productive: 60 * MILL_PER_MINUTE, neutral: 0, distracting: 10 * MILL_PER_MINUTE })
+        expect((await productivityService.getScore(now)).score).toEqual(75)
+    })
+
+    test('calc score', () => {
+        expect(calcScore([])).toBeUndefined()
+        expect(calcScore([[{ level: 'productive', weight: 1 }, 10]])).toEqual(100)
+        expect(calcScore([[{ level: 'distracting', weight: 5 }, 10]])).toEqual(0)
+        expect(calcScore([[{ level: 'neutral', weight: 1 }, 10]])).toEqual(50)
+        expect(calcScore([
+            [{ level: 'productive', weight: 1 }, 10],
+            [{ level: 'neutral', weight: 1 }, 10],
+        ])).toEqual(75)
+    })
+})
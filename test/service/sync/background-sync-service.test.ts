@@ -0,0 +1,48 @@
+import syncQueueDb from "@db/sync-queue-database"
+import processor from "@service/backup/processor"
+import { backgroundSyncService } from "@service/sync/background-sync-service"
+import syncHealthService from "@service/sync/sync-health-service"
+import { mockStorage } from "../../__mock__/storage"
+
+jest.mock('@service/backup/processor', () => ({ __esModule: true, default: { pushRows: jest.fn(), exclusive: (task: () => Promise<unknown>) => task() } }))
+jest.mock('@service/sync/sync-health-service', () => ({ __esModule: true, default: { recordFailure: jest.fn() } }))
+
+const ROW: timer.core.Row = { host: 'github.com', date: '20250101', focus: 100, time: 1 }
+
+describe('service/sync/background-sync-service', () => {
+    beforeAll(mockStorage)
+
+    beforeEach(async () => {
+        await chrome.storage.local.clear()
+        jest.mocked(processor.pushRows).mockReset()
+    })
+
+    test('flush the queue', async () => {
+        jest.mocked(processor.pushRows).mockResolvedValue({ success: true })
+        await syncQueueDb.enqueue([ROW])
+        expect(await backgroundSyncService.flush()).toBeTruthy()
+        expect(processor.pushRows).toHaveBeenCalledWith([ROW])
+        const { pending, lastSyncTs } = await backgroundSyncService.getStatus()
+        expect(pending).toBe(0)
+        expect(lastSyncTs).toBeTruthy()
+    })
+
+    test('back off if failed', async () => {
+        jest.mocked(processor.pushRows).mockResolvedValue({ success: false, errorMsg: 'Network error' })
+        await syncQueueDb.enqueue([ROW])
+        expect(await backgroundSyncService.flush()).toBeFalsy()
+        const status = await backgroundSyncService.getStatus()
+        expect(status).toMatchObject({ pending: 1, failures: 1, lastError: 'Network error' })
+        expect(status.nextTs).toBeGreaterThan(Date.now())
+        expect(syncHealthService.recordFailure).toHaveBeenCalledWith('realtime', 'Network error')
+
+        // Not to retry before the time
+        await backgroundSyncService.flush()
+        expect(processor.pushRows).toHaveBeenCalledTimes(1)
+
+        // Forced
+        jest.mocked(processor.pushRows).mockResolvedValue({ success: true })
+        expect(await backgroundSyncService.flush(true)).toBeTruthy()
+        expect(await backgroundSyncService.getStatus()).toMatchObject({ pending: 0, failures: 0 })
+    })
+})
@@ -0,0 +1,57 @@
+import syncHealthDb from "@db/sync-health-database"
+import processor from "@service/backup/processor"
+import itemService from "@service/item-service"
+import conflictService from "@service/sync/conflict-service"
+import { mockStorage } from "../../__mock__/storage"
+
+jest.mock('@service/backup/processor', () => ({ __esModule: true, default: { overwriteRows: jest.fn() } }))
+jest.mock('@service/item-service', () => ({ __esModule: true, default: { getResult: jest.fn() } }))
+jest.mock('@service/components/option-holder', () => ({ __esModule: true, default: { get: async () => ({}) } }))
+
+const conflictOf = (ts: number, focus: number): timer.backup.ConflictRecord => ({
+    ts, host: 'github.com', date: '20250101', type: 'session_conflict', clientId: 'local',
+    overwritten: { focus, time: 1 },
+})
+
+describe('service/sync/conflict-service', () => {
+    beforeAll(mockStorage)
+
+    beforeEach(async () => {
+        await chrome.storage.local.clear()
+        jest.mocked(itemService.getResult).mockResolvedValue({ focus: 100, time: 2 })
+        jest.mocked(processor.overwriteRows).mockReset()
+    })
+
+    test('list the latest conflict of each host and date', async () => {
+        await syncHealthDb.addConflicts([conflictOf(1, 10)])
+        await syncHealthDb.addConflicts([conflictOf(2, 20), { ...conflictOf(3, 30), overwritten: undefined, rejected: true }])
+        const items = await conflictService.listPending()
+        expect(items).toEqual([{
+            host: 'github.com', date: '20250101', ts: 2,
+            local: { focus: 100, time: 2 },
+            remote: { focus: 20, time: 1 },
+        }])
+    })
+
+    test('resolve with sum', async () => {
+        jest.mocked(processor.overwriteRows).mockResolvedValue({ success: true })
+        await syncHealthDb.addConflicts([conflictOf(1, 10)])
+        const [item] = await conflictService.listPending()
+
+        expect(await conflictService.resolve(item, 'sum')).toBeUndefined()
+        expect(processor.overwriteRows).toHaveBeenCalledWith([{ host: 'github.com', date: '20250101', focus: 110, time: 3 }])
+        expect(await conflictService.listPending()).toEqual([])
+        const [resolution] = await syncHealthDb.listResolutions()
+        expect(resolution).toMatchObject({ choice: 'sum', result: { focus: 110, time: 3 } })
+    })
+
+    test('keep the conflict if failed to write back', async () => {
+        jest.mocked(processor.overwriteRows).mockResolvedValue({ success: false, errorMsg: 'Forbidden' })
+        await syncHealthDb.addConflicts([conflictOf(1, 10)])
+        const [item] = await conflictService.listPending()
+
+        expect(await conflictService.resolve(item, 'remote')).toBe('Forbidden')
+        expect(await conflictService.listPending()).toHaveLength(1)
+        expect(await syncHealthDb.listResolutions()).toEqual([])
+    })
+})
@@ -0,0 +1,53 @@
+import statDatabase from "@db/stat-database"
+import processor from "@service/backup/processor"
+import restoreService from "@service/sync/restore-service"
+import { mockStorage } from "../../__mock__/storage"
+
+jest.mock('@service/backup/processor', () => ({ __esModule: true, default: { query: jest.fn(), adoptClient: jest.fn() } }))
+
+const param = { cid: 'old', start: new Date(2025, 0, 1), end: new Date(2025, 0, 31) }
+
+describe('service/sync/restore-service', () => {
+    beforeAll(mockStorage)
+
+    beforeEach(async () => {
+        await chrome.storage.local.clear()
+        jest.mocked(processor.query).mockResolvedValue([
+            { host: 'github.com', date: '20250101', focus: 100, time: 2, run: 300, media: 40, cid: 'old' },
+            { host: 'google.com', date: '20250102', focus: 50, time: 1, cid: 'old' },
+        ])
+        jest.mocked(processor.adoptClient).mockReset()
+        await statDatabase.forceUpdate({ host: 'github.com', date: '20250101', focus: 10, time: 1, run: 30 })
+    })
+
+    test('preview with conflicts', async () => {
+        const data = await restoreService.preview(param)
+        expect(processor.query).toHaveBeenCalledWith({ specCid: 'old', start: param.start, end: param.end })
+        expect(data.rows.length).toEqual(2)
+        expect(data.rows.filter(r => !!r.exist).map(r => r.host)).toEqual(['github.com'])
+        expect(data).toMatchObject({ focus: true, time: true, run: true, media: true })
+        expect(data.rows[0]).toMatchObject({ run: 300, media: 40, exist: { run: 30 } })
+    })
+
+    test('restore with accumulation and keep the cid', async () => {
+        const data = await restoreService.preview(param)
+        expect(await restoreService.restore('old', data, 'accumulate')).toBeUndefined()
+        expect(processor.adoptClient).not.toHaveBeenCalled()
+        const github = await statDatabase.get('github.com', '20250101')
+        expect([github.focus, github.time]).toEqual([110, 3])
+        expect([github.run, github.media]).toEqual([330, 40])
+        const google = await statDatabase.get('google.com', '20250102')
+        expect([google.focus, google.time]).toEqual([50, 1])
+        expect([google.run, google.media]).toEqual([undefined, undefined])
+    })
+
+    test('restore with overwriting and adopt the cid', async () => {
+        jest.mocked(processor.adoptClient).mockResolvedValue({ success: false, errorMsg: 'Auth failed' })
+        const data = await restoreService.preview(param)
+        expect(await restoreService.restore('old', data, 'overwrite', true)).toEqual('Auth failed')
+        expect(processor.adoptClient).toHaveBeenCalledWith('old')
+        const github = await statDatabase.get('github.com', '20250101')
+        expect([github.focus, github.time]).toEqual([100, 2])
+        expect([github.run, github.media]).toEqual([300, 40])
+    })
+})
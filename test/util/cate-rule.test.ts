@@ -0,0 +1,36 @@
+import { findCate, matchCateRule } from "@util/cate-rule"
+
+const rule = (type: timer.cateRule.Type, pattern: string, cateId: number = 1, enabled: boolean = true): timer.cateRule.Rule => ({
+    type, pattern, cateId, enabled,
+})
+
+test('match host', () => {
+    expect(matchCateRule(rule('host', 'github.com'), { host: 'github.com' })).toBeTruthy()
+    expect(matchCateRule(rule('host', 'github.com'), { host: 'gist.github.com' })).toBeFalsy()
+    expect(matchCateRule(rule('host', '*.google.com'), { host: 'docs.google.com' })).toBeTruthy()
+    expect(matchCateRule(rule('host', '*.google.com'), { host: 'google.com' })).toBeFalsy()
+    expect(matchCateRule(rule('host', 'github.com', 1, false), { host: 'github.com' })).toBeFalsy()
+})
+
+test('match path', () => {
+    expect(matchCateRule(rule('path', '/docs/**'), { host: 'a.com', path: '/docs/intro' })).toBeTruthy()
+    expect(matchCateRule(rule('path', '/docs/**'), { host: 'a.com', path: '/blog/intro' })).toBeFalsy()
+    expect(matchCateRule(rule('path', '/docs/**'), { host: 'a.com' })).toBeFalsy()
+})
+
+test('match alias', () => {
+    expect(matchCateRule(rule('alias', 'jira'), { host: 'a.com', alias: 'My JIRA Board' })).toBeTruthy()
+    expect(matchCateRule(rule('alias', 'jira'), { host: 'a.com', alias: 'Confluence' })).toBeFalsy()
+    expect(matchCateRule(rule('alias', ' '), { host: 'a.com', alias: 'Confluence' })).toBeFalsy()
+})
+
+test('find category in order', () => {
+    const rules = [
+        rule('host', 'www.youtube.com', 1, false),
+        rule('alias', 'music', 2),
+        rule('host', '*.youtube.com', 3),
+    ]
+    expect(findCate(rules, { host: 'www.youtube.com', alias: 'YouTube Music' })).toEqual(2)
+    expect(findCate(rules, { host: 'www.youtube.com', alias: 'YouTube' })).toEqual(3)
+    expect(findCate(rules, { host: 'github.com' })).toBeUndefined()
+})
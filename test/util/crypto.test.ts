@@ -0,0 +1,43 @@
+/**
+ * @jest-environment node
+ */
+import { decryptText, deriveKeys, encryptText, generateSalt, isEncrypted } from "@util/crypto"
+
+const SALT = generateSalt()
+
+describe('util/crypto', () => {
+    test('encrypt and decrypt', async () => {
+        const keys = await deriveKeys('correct horse battery staple', SALT)
+        const encrypted = await encryptText(keys, 'github.com')
+        expect(isEncrypted(encrypted)).toBeTruthy()
+        expect(encrypted).not.toContain('github')
+        expect(await decryptText(keys, encrypted)).toBe('github.com')
+        // Random iv
+        expect(await encryptText(keys, 'github.com')).not.toBe(encrypted)
+        // Plain text
+        expect(await decryptText(keys, 'github.com')).toBe('github.com')
+    })
+
+    test('deterministic', async () => {
+        const keys = await deriveKeys('passphrase', SALT)
+        const a = await encryptText(keys, '中文.com', true)
+        expect(await encryptText(keys, '中文.com', true)).toBe(a)
+        expect(await encryptText(keys, 'other.com', true)).not.toBe(a)
+        expect(await decryptText(keys, a)).toBe('中文.com')
+        // Same keys on another device
+        expect(await encryptText(await deriveKeys('passphrase', SALT), '中文.com', true)).toBe(a)
+    })
+
+    test('wrong passphrase', async () => {
+        const encrypted = await encryptText(await deriveKeys('passphrase', SALT), 'github.com')
+        await expect(decryptText(await deriveKeys('wrong', SALT), encrypted)).rejects.toBeTruthy()
+    })
+
+    test('salt of each account', async () => {
+        const salt = generateSalt()
+        expect(salt).not.toBe(SALT)
+        const a = await encryptText(await deriveKeys('passphrase', SALT), 'github.com', true)
+        expect(await encryptText(await deriveKeys('passphrase', salt), 'github.com', true)).not.toBe(a)
+        await expect(decryptText(await deriveKeys('passphrase', salt), a)).rejects.toBeTruthy()
+    })
+})
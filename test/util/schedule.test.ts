@@ -0,0 +1,39 @@
+import { isInSchedule, splitBySchedule } from "@util/schedule"
+import { MILL_PER_HOUR } from "@util/time"
+
+// Mon-Fri 08:00-19:00
+const WORKDAYS: timer.option.ScheduleWindow[] = [{ weekdays: [1, 2, 3, 4, 5], start: 8 * 3600, end: 19 * 3600 }]
+// Sat 22:00-02:00
+const NIGHT: timer.option.ScheduleWindow[] = [{ weekdays: [6], start: 22 * 3600, end: 2 * 3600 }]
+
+// Monday
+const monday = new Date(2025, 0, 6).getTime()
+const saturday = new Date(2025, 0, 11).getTime()
+const sunday = new Date(2025, 0, 12).getTime()
+
+test('isInSchedule', () => {
+    expect(isInSchedule(WORKDAYS, monday + 9 * MILL_PER_HOUR)).toBeTruthy()
+    expect(isInSchedule(WORKDAYS, monday + 19 * MILL_PER_HOUR)).toBeFalsy()
+    expect(isInSchedule(WORKDAYS, saturday + 9 * MILL_PER_HOUR)).toBeFalsy()
+
+    expect(isInSchedule(NIGHT, saturday + 23 * MILL_PER_HOUR)).toBeTruthy()
+    expect(isInSchedule(NIGHT, sunday + MILL_PER_HOUR)).toBeTruthy()
+    expect(isInSchedule(NIGHT, sunday + 23 * MILL_PER_HOUR)).toBeFalsy()
+    expect(isInSchedule([], monday)).toBeFalsy()
+})
+
+test('splitBySchedule', () => {
+    // 07:00-09:00
+    expect(splitBySchedule(WORKDAYS, monday + 7 * MILL_PER_HOUR, monday + 9 * MILL_PER_HOUR))
+        .toEqual([MILL_PER_HOUR, MILL_PER_HOUR])
+    // Friday 18:00 to Monday 09:00
+    const friday = monday - 3 * 24 * MILL_PER_HOUR
+    expect(splitBySchedule(WORKDAYS, friday + 18 * MILL_PER_HOUR, monday + 9 * MILL_PER_HOUR))
+        .toEqual([2 * MILL_PER_HOUR, 61 * MILL_PER_HOUR])
+    // Across the midnight
+    expect(splitBySchedule(NIGHT, saturday + 21 * MILL_PER_HOUR, sunday + 3 * MILL_PER_HOUR))
+        .toEqual([4 * MILL_PER_HOUR, 2 * MILL_PER_HOUR])
+    // Overlapped windows are counted once
+    expect(splitBySchedule([...WORKDAYS, ...WORKDAYS], monday, monday + 24 * MILL_PER_HOUR))
+        .toEqual([11 * MILL_PER_HOUR, 13 * MILL_PER_HOUR])
+})
@@ -0,0 +1,73 @@
+/**
+ * @jest-environment node
+ */
+import { MILL_PER_MINUTE } from "@util/time"
+import { mergeSpans, toIcs, toTimesheetRows } from "@util/timesheet"
+
+const span = (key: string, startMin: number, endMin: number, label?: string): timer.timeline.Session => ({
+    key, label, start: startMin * MILL_PER_MINUTE, end: endMin * MILL_PER_MINUTE,
+})
+
+describe('util/timesheet', () => {
+    test('merge spans', () => {
+        const merged = mergeSpans([
+            span('a', 10, 20),
+            span('a', 0, 5),
+            span('b', 6, 8),
+            span('a', 9, 11),
+            span('a', 40, 45),
+        ], 5 * MILL_PER_MINUTE)
+        expect(merged).toEqual([
+            // Not merged across the activity of b
+            span('a', 0, 5),
+            span('b', 6, 8),
+            span('a', 9, 20),
+            span('a', 40, 45),
+        ])
+        // Sessions never overlap
+        merged.slice(1).forEach((session, i) => expect(session.start).toBeGreaterThanOrEqual(merged[i].end))
+        expect(mergeSpans([span('a', 0, 5), span('a', 6, 8)], 5 * MILL_PER_MINUTE)).toEqual([span('a', 0, 8)])
+        // No merge
+        expect(mergeSpans([span('a', 0, 5), span('a', 6, 8)], 0).length).toBe(2)
+    })
+
+    test('ics', () => {
+        const start = Date.UTC(2025, 0, 2, 8, 30, 0)
+        const ics = toIcs([{ key: 'github.com', label: 'Code; review, daily', start, end: start + 30 * MILL_PER_MINUTE }], s => s.label ?? s.key)
+        const lines = ics.split('\r\n')
+        expect(lines[0]).toBe('BEGIN:VCALENDAR')
+        expect(lines).toContain('DTSTART:20250102T083000Z')
+        expect(lines).toContain('DTEND:20250102T090000Z')
+        expect(lines).toContain('SUMMARY:Code\\; review\\, daily')
+        expect(ics.endsWith('END:VCALENDAR\r\n')).toBeTruthy()
+
+        const longLabel = 'x'.repeat(200)
+        const folded = toIcs([{ key: 'a', start, end: start + 1 }], () => longLabel)
+        folded.split('\r\n').forEach(line => expect(line.length).toBeLessThanOrEqual(75))
+        expect(folded.replace(/\r\n /g, '')).toContain('SUMMARY:' + longLabel)
+    })
+
+    test('ics folded by octets', () => {
+        const start = Date.UTC(2025, 0, 2, 8, 30, 0)
+        // 3 bytes each in UTF-8
+        const label = '代码评审'.repeat(20)
+        const ics = toIcs([{ key: 'a', start, end: start + 1 }], () => label)
+        const encoder = new TextEncoder()
+        ics.split('\r\n').forEach(line => expect(encoder.encode(line).length).toBeLessThanOrEqual(75))
+        expect(ics.replace(/\r\n /g, '')).toContain('SUMMARY:' + label)
+    })
+
+    test('timesheet rows', () => {
+        const rows = toTimesheetRows(
+            [span('a', 0, 90, 'Hello, "world"'), span('b', 0, 15)],
+            ['Start', 'End', 'Duration', 'Label'],
+            ts => `${ts / MILL_PER_MINUTE}`,
+            s => s.label ?? s.key,
+        )
+        expect(rows).toEqual([
+            ['Start', 'End', 'Duration', 'Label'],
+            ['0', '90', '1.50', '"Hello, ""world"""'],
+            ['0', '15', '0.25', 'b'],
+        ])
+    })
+})
@@ -23,7 +23,7 @@ declare namespace chrome {
             ManifestV2,
             | 'name' | 'description' | 'version' | 'manifest_version'
             | 'icons' | 'background' | 'content_scripts' | 'permissions' | 'optional_permissions' | 'browser_action'
-            | 'default_locale' | 'homepage_url' | 'key'
+            | 'default_locale' | 'homepage_url' | 'key' | 'commands'
         > & {
             // "author" must be string for Firefox
             author?: string
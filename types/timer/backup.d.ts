@@ -8,6 +8,12 @@ declare namespace timer.backup {
         name: string
         minDate?: string
         maxDate?: string
+        /**
+         * Retired clients are kept, but hidden from reports
+         *
+         * @since 3.7.0
+         */
+        retired?: boolean
     }
 
     type LoginInfo = {
@@ -45,8 +51,12 @@ declare namespace timer.backup {
          * Download fragmented data from cloud
          *
          * @param targetCid The client id, default value is the local one in context
+         * @param onProgress called with the ratio of downloaded data, since 3.7.0
          */
-        download(context: timer.backup.CoordinatorContext<Cache>, dateStart: Date, dateEnd: Date, targetCid?: string): Promise<timer.core.Row[]>
+        download(
+            context: timer.backup.CoordinatorContext<Cache>, dateStart: Date, dateEnd: Date, targetCid?: string,
+            onProgress?: (ratio: number) => void,
+        ): Promise<timer.core.Row[]>
         /**
          * Upload fragmented data to cloud
          * @param rows
@@ -62,6 +72,87 @@ declare namespace timer.backup {
          * Clear data
          */
         clear(context: timer.backup.CoordinatorContext<Cache>, client: timer.backup.Client): Promise<void>
+        /**
+         * Overwrite the rows of the local client, without resolving conflicts
+         *
+         * @since 3.7.0
+         */
+        overwrite?(context: timer.backup.CoordinatorContext<Cache>, rows: timer.core.Row[]): Promise<void>
+        /**
+         * Replace the rows of the local client in the months, the rows absent are removed
+         *
+         * Used to rewrite the data without clearing it first
+         *
+         * @param months YYYYMM
+         * @since 3.7.0
+         */
+        replace?(context: timer.backup.CoordinatorContext<Cache>, rows: timer.core.Row[], months: string[]): Promise<void>
+        /**
+         * Download the shared configuration, serialized
+         *
+         * @since 3.7.0
+         */
+        downloadConfig?(context: timer.backup.CoordinatorContext<Cache>): Promise<string | undefined>
+        /**
+         * Upload the shared configuration, serialized
+         *
+         * @since 3.7.0
+         */
+        uploadConfig?(context: timer.backup.CoordinatorContext<Cache>, content: string): Promise<void>
+        /**
+         * Totals of the clients aggregated by the server
+         *
+         * @since 3.7.0
+         */
+        aggregate?(context: timer.backup.CoordinatorContext<Cache>, param: AggregateParam): Promise<AggregateRow[]>
+        /**
+         * Months (YYYYMM) moved into the cold storage of each client
+         *
+         * @param cids all clients if absent
+         * @since 3.7.0
+         */
+        listArchives?(context: timer.backup.CoordinatorContext<Cache>, cids?: string[]): Promise<Record<string, string[]>>
+        /**
+         * Rows of one archived month of the client
+         *
+         * @since 3.7.0
+         */
+        fetchArchive?(context: timer.backup.CoordinatorContext<Cache>, cid: string, month: string): Promise<timer.core.Row[]>
+        /**
+         * Move the rows of one archived month back into the hot storage, so they can be edited
+         *
+         * @returns count of the rows
+         * @since 3.7.0
+         */
+        rehydrateArchive?(context: timer.backup.CoordinatorContext<Cache>, cid: string, month: string): Promise<number>
+        /**
+         * Download the parameters of encryption, shared by all the clients
+         *
+         * @since 3.7.0
+         */
+        downloadCryptoMeta?(context: timer.backup.CoordinatorContext<Cache>): Promise<CryptoMeta | undefined>
+        /**
+         * Upload the parameters of encryption, shared by all the clients
+         *
+         * @since 3.7.0
+         */
+        uploadCryptoMeta?(context: timer.backup.CoordinatorContext<Cache>, meta: CryptoMeta): Promise<void>
+    }
+
+    /**
+     * Parameters of the end-to-end encryption, stored on the remote in plain text
+     *
+     * @since 3.7.0
+     */
+    type CryptoMeta = {
+        /**
+         * Random salt to derive the keys from the passphrase, generated once per account
+         */
+        salt: string
+        /**
+         * Known text encrypted with the keys, to verify the passphrase. Absent if the remote data is not encrypted
+         */
+        verifier?: string
     }
 
     type Type =
@@ -69,6 +160,9 @@ declare namespace timer.backup {
         // AWS real-time sync
         // @since 3.7.0
         | 'aws'
+        // WebDAV, like Nextcloud
+        // @since 3.7.0
+        | 'web_dav'
 
     type AuthType =
         | 'token'
@@ -81,7 +175,13 @@ declare namespace timer.backup {
          * @since 2.4.4
          */
         bucket?: string
+        /**
+         * The root url of WebDAV
+         */
         endpoint?: string
+        /**
+         * The directory to store data, relative to the endpoint
+         */
         dirPath?: string
         /**
          * AWS configuration
@@ -105,6 +205,12 @@ declare namespace timer.backup {
          * The date of the ts
          */
         date: string
+        /**
+         * Identity of the remote target, rows are fully synced again if it changes
+         *
+         * @since 3.7.0
+         */
+        target?: string
     }
 
     /**
@@ -128,4 +234,149 @@ declare namespace timer.backup {
     }
 
     type Row = core.Row & RowExtend
+
+    /**
+     * Failure of syncing which is not noticed by the user directly
+     *
+     * @since 3.7.0
+     */
+    type Failure = {
+        ts: number
+        source: 'backup' | 'realtime' | 'websocket'
+        message: string
+    }
+
+    /**
+     * Conflict resolved by the server when uploading
+     *
+     * @since 3.7.0
+     */
+    type ConflictRecord = {
+        ts: number
+        host: string
+        date: string
+        type: 'session_conflict' | 'timestamp_conflict'
+        /**
+         * The client which wrote the existing row
+         */
+        clientId: string
+        rejected?: boolean
+        reason?: string
+        /**
+         * The existing values overwritten by the upload
+         */
+        overwritten?: {
+            focus: number
+            time: number
+        }
+        /**
+         * The uploaded values
+         */
+        uploaded?: {
+            focus: number
+            time: number
+        }
+        resolved?: boolean
+    }
+
+    /**
+     * @since 3.7.0
+     */
+    type ConflictChoice = 'local' | 'remote' | 'sum'
+
+    /**
+     * Audit record of resolving conflict
+     *
+     * @since 3.7.0
+     */
+    type ConflictResolution = {
+        ts: number
+        host: string
+        date: string
+        choice: ConflictChoice
+        local: core.Result
+        remote: core.Result
+        /**
+         * The values written back
+         */
+        result: core.Result
+    }
+
+    /**
+     * State of the real-time connection
+     *
+     * @since 3.7.0
+     */
+    type ConnectionStatus = {
+        connected: boolean
+        method: 'websocket' | 'polling' | 'error' | 'none'
+        error?: string
+        ts: number
+    }
+
+    /**
+     * Types of the configuration to share across clients
+     *
+     * @since 3.7.0
+     */
+    type ConfigType = 'cate' | 'site' | 'mergeRule' | 'whitelist' | 'option'
+
+    /**
+     * Versioned entity of the configuration, the last writer wins
+     *
+     * @since 3.7.0
+     */
+    type ConfigEntity = {
+        /**
+         * Timestamp of the last change, as the version
+         */
+        ts: number
+        /**
+         * The client which changed it last
+         */
+        cid: string
+        value?: unknown
+        /**
+         * Tombstone of the deletion
+         */
+        deleted?: boolean
+    }
+
+    /**
+     * Entities of the configuration, keyed by type and entity key
+     *
+     * @since 3.7.0
+     */
+    type ConfigSnapshot = {
+        [type in ConfigType]?: Record<string, ConfigEntity>
+    }
+
+    /**
+     * Groups of aggregation, at most one of date, week and month
+     *
+     * @since 3.7.0
+     */
+    type AggregateGroup = 'host' | 'date' | 'week' | 'month'
+
+    /**
+     * @since 3.7.0
+     */
+    type AggregateParam = {
+        start: Date
+        end: Date
+        groups: AggregateGroup[]
+        /**
+         * All clients if absent
+         */
+        cids?: string[]
+    }
+
+    /**
+     * Totals of one client. The date is the first day of the period if grouped by week or month
+     *
+     * @since 3.7.0
+     */
+    type AggregateRow = Partial<core.RowKey> & core.Result & {
+        cid: string
+    }
 }
\ No newline at end of file
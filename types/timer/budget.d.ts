@@ -0,0 +1,48 @@
+/**
+ * Focus budgets of categories
+ *
+ * @since 3.7.0
+ */
+declare namespace timer.budget {
+    type Quota = {
+        /**
+         * Daily quota, seconds
+         */
+        daily?: number
+        /**
+         * Weekly quota, seconds
+         */
+        weekly?: number
+    }
+
+    type Period = keyof Quota
+
+    /**
+     * Escalation of exceeded budgets
+     *
+     * + none   = within budget
+     * + badge  = nearly exhausted, change the color of badge
+     * + notify = exhausted, send notification
+     * + block  = overused, block the page
+     */
+    type Level = 'none' | 'badge' | 'notify' | 'block'
+
+    type Usage = {
+        /**
+         * Focus time, milliseconds
+         */
+        spent: number
+        /**
+         * Quota, milliseconds
+         */
+        quota: number
+    }
+
+    type Status = {
+        cateId: number
+        cateName: string
+        daily?: Usage
+        weekly?: Usage
+        level: Level
+    }
+}
@@ -0,0 +1,50 @@
+/**
+ * Rules to categorize sites automatically
+ *
+ * @since 3.7.0
+ */
+declare namespace timer.cateRule {
+    /**
+     * + host   = ant pattern of host, like '*.google.com'
+     * + path   = ant pattern of path, like '/docs/**'
+     * + alias  = keyword of site name or tab title, case-insensitive
+     */
+    type Type = 'host' | 'path' | 'alias'
+
+    type Rule = {
+        type: Type
+        pattern: string
+        cateId: number
+        enabled: boolean
+    }
+
+    /**
+     * The target to categorize
+     */
+    type Target = {
+        host: string
+        /**
+         * Path of the url, only available when the site is seen first
+         */
+        path?: string
+        /**
+         * Alias of the site, or title of the tab
+         */
+        alias?: string
+    }
+
+    /**
+     * The change of one site while re-applying the rules
+     */
+    type Change = {
+        site: timer.site.SiteInfo
+        /**
+         * Category before
+         */
+        from?: number
+        /**
+         * Category after
+         */
+        to: number
+    }
+}
@@ -20,13 +20,39 @@ declare namespace timer.core {
         | 'time'
         // Run time
         | 'run'
+        // Media playback time, whether focused or not
+        // @since 3.7.0
+        | 'media'
 
     /**
      * The stat result of host
      *
      * @since 0.0.1
      */
-    type Result = MakeOptional<{ [item in Dimension]: number }, 'run'>
+    type Result = Metrics & {
+        /**
+         * The part tracked out of the schedule, already included in the totals
+         *
+         * @since 3.7.0
+         */
+        off?: Metrics
+    }
+
+    /**
+     * @since 3.7.0
+     */
+    type Metrics = MakeOptional<{ [item in Dimension]: number }, 'run' | 'media'>
+
+    /**
+     * Part of the data to query, split by the tracking schedule
+     *
+     * 1. in: within the schedule
+     * 2. off: out of the schedule
+     * 3. both: all the data
+     *
+     * @since 3.7.0
+     */
+    type HoursScope = 'in' | 'off' | 'both'
 
     /**
      * The unique key of each data row
@@ -0,0 +1,45 @@
+/**
+ * Focus sessions, aka pomodoro
+ *
+ * @since 3.7.0
+ */
+declare namespace timer.focus {
+    type Allowlist = {
+        /**
+         * IDs of categories
+         */
+        cates: number[]
+        hosts: string[]
+    }
+
+    type Distraction = {
+        host: string
+        /**
+         * Timestamp
+         */
+        ts: number
+    }
+
+    type Session = {
+        /**
+         * Start time, timestamp
+         */
+        start: number
+        /**
+         * Planned duration, minutes
+         */
+        duration: number
+        allowlist: Allowlist
+        distractions: Distraction[]
+    }
+
+    /**
+     * Completed session
+     */
+    type Record = Session & {
+        /**
+         * End time, timestamp
+         */
+        end: number
+    }
+}
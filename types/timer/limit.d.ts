@@ -0,0 +1,53 @@
+/**
+ * Daily time limits
+ *
+ * @since 3.7.0
+ */
+declare namespace timer.limit {
+    type Rule = {
+        id: number
+        name: string
+        /**
+         * Hosts or ant patterns, like 'www.google.com' or 'github.com/**'
+         */
+        cond: string[]
+        /**
+         * Allowed focus time per day, seconds
+         */
+        time: number
+        /**
+         * Effective weekdays, 0 to 6 means Monday to Sunday
+         *
+         * Empty means all the days
+         */
+        weekdays: number[]
+        enabled: boolean
+        /**
+         * Whether to allow asking for more minutes
+         */
+        allowDelay: boolean
+    }
+
+    type Item = Rule & {
+        /**
+         * Focus time of today, milliseconds
+         */
+        waste: number
+        /**
+         * Count of more minutes granted today
+         */
+        delayCount: number
+    }
+
+    /**
+     * The log of more minutes
+     */
+    type DelayRecord = {
+        ruleId: number
+        /**
+         * Timestamp
+         */
+        ts: number
+        url: string
+    }
+}
@@ -18,6 +18,10 @@ declare namespace timer.mq {
         | 'siteRunChange'
         // @since 3.5.0
         | "enableTabGroup"
+        // @since 3.7.0
+        | 'budgetExceeded'
+        | 'budgetChanged'
+        | 'syncData'
         // Request by content script
         // @since 1.3.0
         | "cs.isInWhitelist"
@@ -38,6 +42,10 @@ declare namespace timer.mq {
         | "cs.getRunSites"
         // @since 3.6.1
         | "cs.timelineEv"
+        // @since 3.7.0
+        | "cs.getBlockedBudgets"
+        | "cs.openBudget"
+        | "cs.trackMedia"
 
     type ResCode = "success" | "fail" | "ignore"
 
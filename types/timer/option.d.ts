@@ -38,6 +38,36 @@ declare namespace timer.option {
         | 'default'
         | number  // Weekday, From 1 to 7
 
+    /**
+     * Window of the tracking schedule
+     *
+     * @since 3.7.0
+     */
+    type ScheduleWindow = {
+        /**
+         * Days of week, 0 for Sunday
+         */
+        weekdays: number[]
+        /**
+         * Seconds of the day, inclusive
+         */
+        start: number
+        /**
+         * Seconds of the day, exclusive. Crosses the midnight if less than the start
+         */
+        end: number
+    }
+
+    /**
+     * How to save the time out of the schedule
+     *
+     * 1. drop: not tracked
+     * 2. separate: tracked in the off-hours part of the data
+     *
+     * @since 3.7.0
+     */
+    type OffHoursMode = 'drop' | 'separate'
+
     type DarkMode =
         // Follow the OS, @since 1.3.3
         | "default"
@@ -113,6 +143,24 @@ declare namespace timer.option {
          * @since 2.5.4
          */
         autoPauseInterval: number
+        /**
+         * Whether to detect idle by the browser, instead of the activities in pages
+         *
+         * @since 3.7.0
+         */
+        idleDetection: boolean
+        /**
+         * Detection interval of the browser, seconds
+         *
+         * @since 3.7.0
+         */
+        idleInterval: number
+        /**
+         * Whether to keep counting the audible tab while idle
+         *
+         * @since 3.7.0
+         */
+        countAudible: boolean
         /**
          * Whether to collect the site name
          *
@@ -133,6 +181,26 @@ declare namespace timer.option {
          * @since 2.4.1
          */
         weekStart?: WeekStartOption
+        /**
+         * Days to keep the timeline, 0 means unlimited
+         *
+         * @since 3.7.0
+         */
+        timelineRetention: number
+        /**
+         * Whether to only count the time within the schedule windows
+         *
+         * @since 3.7.0
+         */
+        trackSchedule: boolean
+        /**
+         * @since 3.7.0
+         */
+        scheduleWindows: ScheduleWindow[]
+        /**
+         * @since 3.7.0
+         */
+        offHoursMode: OffHoursMode
     }
 
 
@@ -172,6 +240,18 @@ declare namespace timer.option {
          * Interval to auto-backup data, minutes
          */
         autoBackUpInterval: number
+        /**
+         * Passphrase of end-to-end encryption, no encryption if empty
+         *
+         * @since 3.7.0
+         */
+        backupPassphrase?: string
+        /**
+         * Types of the configuration to share across clients
+         *
+         * @since 3.7.0
+         */
+        backupConfigTypes?: backup.ConfigType[]
     }
 
     type AccessibilityOption = {
@@ -0,0 +1,25 @@
+/**
+ * Global pause of tracking
+ *
+ * @since 3.7.0
+ */
+declare namespace timer.pause {
+    type State = {
+        /**
+         * Timestamp of pausing
+         */
+        since: number
+        /**
+         * Timestamp to resume automatically, paused until resumed manually if absent
+         */
+        until?: number
+    }
+
+    /**
+     * Logged interval of one pause
+     */
+    type Interval = {
+        start: number
+        end: number
+    }
+}
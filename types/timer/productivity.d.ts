@@ -0,0 +1,28 @@
+/**
+ * Productivity of categories
+ *
+ * @since 3.7.0
+ */
+declare namespace timer.productivity {
+    type Level = 'productive' | 'neutral' | 'distracting'
+
+    type Setting = {
+        level: Level
+        /**
+         * Weight of the focus time, from 1 to 5
+         */
+        weight: number
+    }
+
+    type Score = {
+        date: string
+        /**
+         * From 0 to 100, undefined if no focus time of categories with productivity
+         */
+        score?: number
+        /**
+         * Focus time of each level, milliseconds
+         */
+        focus: Record<Level, number>
+    }
+}
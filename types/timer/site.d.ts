@@ -28,5 +28,17 @@ declare namespace timer.site {
     type Cate = {
         id: number
         name: string
+        /**
+         * Focus budget
+         *
+         * @since 3.7.0
+         */
+        budget?: timer.budget.Quota
+        /**
+         * Productivity level and weight
+         *
+         * @since 3.7.0
+         */
+        productivity?: timer.productivity.Setting
     }
 }
\ No newline at end of file
@@ -10,4 +10,29 @@ declare namespace timer.timeline {
         duration: number
         host: string
     }
-}
\ No newline at end of file
+
+    /**
+     * How to group the ticks into sessions
+     *
+     * @since 3.7.0
+     */
+    type GroupBy = 'host' | 'cate' | 'domain'
+
+    /**
+     * Continuous time block of one group, for timesheets
+     *
+     * @since 3.7.0
+     */
+    type Session = {
+        /**
+         * Host, merged domain or category ID
+         */
+        key: string
+        /**
+         * Site name or category name, undefined if unknown
+         */
+        label?: string
+        start: number
+        end: number
+    }
+}